@@ -7,6 +7,8 @@ import { LandingPage } from "./components/LandingPage";
 import { Header } from "./components/Header";
 import { scrollToHeroSection } from "./utils/navigation";
 import { useAuth } from "./hooks/useAuth";
+import { TravellerClaimPortal } from "./components/TravellerClaimPortal";
+import { parseTravellerPortalRoute } from "./utils/vatClaimLinks";
 
 
 function App() {
@@ -17,6 +19,8 @@ function App() {
   const [activeTab, setActiveTab] = useState(() => {
     return localStorage.getItem("revatix_active_tab") || "landing";
   });
+  // Travellers reach the VAT claim portal by link, without a wallet
+  const [portalRoute] = useState(() => parseTravellerPortalRoute(window.location));
 
   // persist active tab
   useEffect(() => {
@@ -25,6 +29,7 @@ function App() {
 
   // handle redirects
   useEffect(() => {
+    if (portalRoute) return;
     // Redirect to dashboard when wallet connects OR user logs in
     if ((isConnected || isAuthenticated) && activeTab === "landing") {
       setActiveTab("dashboard");
@@ -38,7 +43,7 @@ function App() {
         scrollToHeroSection();
       }, 100);
     }
-  }, [isConnected, isAuthenticated, activeTab]);
+  }, [isConnected, isAuthenticated, activeTab, portalRoute]);
 
   const renderActiveComponent = () => {
     if ((isConnected || isAuthenticated) && ["dashboard", "employees", "bulk-transfer", "ai-assistant-chat", "ai-assistant-history", "settings"].includes(activeTab)) {
@@ -52,6 +57,10 @@ function App() {
     );
   };
 
+  if (portalRoute) {
+    return <TravellerClaimPortal route={portalRoute} />;
+  }
+
   return (
     <div className="min-h-screen bg-white">
       <div className="relative z-10">
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, Check, X, Loader2, CalendarClock } from 'lucide-react';
+import type { ChatActionPlan, ChatActionStatus } from '../lib/supabase';
+import { toDateKey } from '../utils/payrollSchedule';
+
+interface AIActionPlanCardProps {
+  plan: ChatActionPlan;
+  busy?: boolean;
+  onApply: (stepIds: string[]) => void;
+  onDiscard: (stepIds: string[]) => void;
+}
+
+const STATUS_STYLES: Record<ChatActionStatus, string> = {
+  proposed: 'bg-yellow-100 text-yellow-800',
+  applied: 'bg-green-100 text-green-800',
+  discarded: 'bg-gray-200 text-gray-600',
+  failed: 'bg-red-100 text-red-700',
+};
+
+// A plan the assistant drafted. Nothing in it runs until the user ticks the
+// steps they want and confirms.
+export const AIActionPlanCard: React.FC<AIActionPlanCardProps> = ({ plan, busy = false, onApply, onDiscard }) => {
+  const open = plan.steps.filter(step => step.status === 'proposed');
+  const [selected, setSelected] = useState<string[]>(() => open.map(step => step.id));
+  const today = toDateKey(new Date());
+
+  const selectedOpen = open.filter(step => selected.includes(step.id)).map(step => step.id);
+
+  const toggle = (stepId: string) => {
+    setSelected(prev => prev.includes(stepId) ? prev.filter(id => id !== stepId) : [...prev, stepId]);
+  };
+
+  return (
+    <div className="mt-3 bg-white border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-900 mb-2">
+        <ClipboardCheck className="w-4 h-4" />
+        <span>Proposed changes</span>
+      </div>
+
+      <div className="space-y-2">
+        {plan.steps.map(step => {
+          const effectiveFrom = step.action.kind === 'update_employee' ? step.action.effective_from : undefined;
+          const notYet = !!effectiveFrom && effectiveFrom > today;
+          return (
+            <label key={step.id} className="flex items-start space-x-2 text-xs sm:text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={step.status === 'proposed' && selected.includes(step.id)}
+                disabled={step.status !== 'proposed' || busy}
+                onChange={() => toggle(step.id)}
+                className="mt-0.5 rounded border-gray-300"
+              />
+              <div className="flex-1">
+                <div className="flex items-center flex-wrap gap-1">
+                  <span>{step.summary}</span>
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wide ${STATUS_STYLES[step.status]}`}>
+                    {step.status}
+                  </span>
+                </div>
+                {step.action.kind === 'pay_run' && (
+                  <div className="text-gray-500 mt-0.5">
+                    {step.action.recipients.map(recipient => recipient.name).join(', ')}
+                  </div>
+                )}
+                {step.status === 'proposed' && notYet && (
+                  <div className="flex items-center space-x-1 text-gray-500 mt-0.5">
+                    <CalendarClock className="w-3 h-3" />
+                    <span>Can be applied from {effectiveFrom}</span>
+                  </div>
+                )}
+                {step.error && <div className="text-red-600 mt-0.5">{step.error}</div>}
+              </div>
+            </label>
+          );
+        })}
+      </div>
+
+      {open.length > 0 && (
+        <div className="flex items-center justify-end space-x-2 mt-3">
+          <button
+            onClick={() => onDiscard(selectedOpen)}
+            disabled={busy || selectedOpen.length === 0}
+            className="flex items-center space-x-1 px-3 py-1.5 text-xs sm:text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <X className="w-3 h-3" />
+            <span>Discard</span>
+          </button>
+          <button
+            onClick={() => onApply(selectedOpen)}
+            disabled={busy || selectedOpen.length === 0}
+            className="flex items-center space-x-1 px-3 py-1.5 text-xs sm:text-sm rounded-lg bg-gray-900 text-white hover:bg-gray-800 disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+            <span>Confirm {selectedOpen.length} step{selectedOpen.length === 1 ? '' : 's'}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,46 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, Sparkles } from 'lucide-react';
+import { Send, Bot, User, Loader2, Sparkles, Wrench, Square } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useAccount } from 'wagmi';
 import { useEmployees } from '../hooks/useEmployees';
 import { usePayments } from '../hooks/usePayments';
-import { generateAIResponse, type AIContext } from '../services/aiService';
+import { generateAIResponse, restoreSessionMemory, type AIContext } from '../services/aiService';
 import { useChat } from '../hooks/useChat'; // Import useChat hook
-import type { ChatMessage as DBChatMessage } from '../lib/supabase'; // Import DB ChatMessage type
+import { useAISettings } from '../hooks/useAISettings';
+import type { ChatMessage as DBChatMessage, ChatToolCall } from '../lib/supabase'; // Import DB ChatMessage type
+import type { ChatAction, ChatActionPlan, ChatActionStatus, PayRun } from '../lib/supabase';
+import { AIActionPlanCard } from './AIActionPlanCard';
+import { PaymentPreviewModal } from './PaymentPreviewModal';
+import { toDateKey } from '../utils/payrollSchedule';
+import { getPayRunReference } from '../utils/payRuns';
 
 interface Message {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  toolCalls?: ChatToolCall[];
+  actionPlan?: ChatActionPlan;
+  cancelled?: boolean;
 }
 
+type PayRunAction = Extract<ChatAction, { kind: 'pay_run' }>;
+
+const setStepStatus = (plan: ChatActionPlan, stepId: string, status: ChatActionStatus, error?: string): ChatActionPlan => ({
+  ...plan,
+  steps: plan.steps.map(step => step.id === stepId
+    ? { ...step, status, error, ...(status === 'applied' ? { applied_at: new Date().toISOString() } : {}) }
+    : step)
+});
+
+// Renders a tool's arguments as a short call signature, e.g. sumPayments(token: "USDC")
+const formatToolCall = (call: ChatToolCall): string => {
+  const args = Object.entries(call.args || {})
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+    .join(', ');
+  return `${call.name}(${args})`;
+};
+
 interface AIAssistantPageProps {
   companyName?: string;
   sessionId?: string | null; // New prop for session ID
@@ -25,9 +52,11 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
   sessionId: initialSessionId,
   onSessionCreated
 }) => {
-  const { employees } = useEmployees();
+  const { employees, updateEmployee } = useEmployees();
   const { getAllPayments } = usePayments();
-  const { createChatSession, getChatMessages, addChatMessage } = useChat(); // Use chat hook
+  const { createChatSession, getChatMessages, addChatMessage, updateChatMessageActionPlan } = useChat(); // Use chat hook
+  const { address, isConnected } = useAccount();
+  const { settings: aiSettings } = useAISettings();
 
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
@@ -36,6 +65,12 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
   const [loadingMessage, setLoadingMessage] = useState('Thinking...');
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(initialSessionId || null);
   const [isMobile, setIsMobile] = useState(false);
+  const [applyingPlanId, setApplyingPlanId] = useState<string | null>(null);
+  // The pay run step being reviewed in the payment preview
+  const [pendingPayRun, setPendingPayRun] = useState<{ messageId: string; stepId: string; action: PayRunAction } | null>(null);
+  // The answer as it streams in, shown until the finished message replaces it
+  const [streamingContent, setStreamingContent] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -59,14 +94,19 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
         setLoadingMessage('Loading conversation...');
         try {
           const dbMessages = await getChatMessages(initialSessionId);
-          const loadedMessages: Message[] = dbMessages.map(msg => ({
+          const loadedMessages: Message[] = dbMessages.map((msg: DBChatMessage) => ({
             id: msg.id,
             type: msg.type,
             content: msg.content,
-            timestamp: new Date(msg.created_at)
+            timestamp: new Date(msg.created_at),
+            toolCalls: msg.tool_calls,
+            actionPlan: msg.action_plan,
+            cancelled: msg.cancelled
           }));
           setMessages(loadedMessages);
           setCurrentSessionId(initialSessionId);
+          // The assistant picks the conversation up from its stored messages
+          restoreSessionMemory(initialSessionId, dbMessages);
         } catch (error) {
           console.error('Failed to load chat messages:', error);
           setMessages([]);
@@ -74,7 +114,8 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
           setIsLoading(false);
         }
       } else {
-        // If no session ID, start with the initial assistant message
+        // If no session ID, start a fresh conversation with the initial assistant message
+        setCurrentSessionId(null);
         setMessages([
           {
             id: 'initial-ai-message',
@@ -107,7 +148,12 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
   // Auto-scroll to bottom when new messages are added
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingContent]);
+
+  // Stop a streaming answer when leaving the page
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   // Focus input on mount
   useEffect(() => {
@@ -128,6 +174,8 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
     setMessages(prev => [...prev, userMessage]);
     setInputValue('');
     setIsLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     setLoadingMessage('Analyzing your question...');
 
     let sessionToUse = currentSessionId;
@@ -173,24 +221,32 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
       console.log('AI Context:', context);
 
       setLoadingMessage('Processing with AI...');
-      const response = await generateAIResponse(userMessageContent, context);
+      const response = await generateAIResponse(userMessageContent, context, aiSettings, {
+        signal: abortController.signal,
+        onText: setStreamingContent,
+        sessionId: sessionToUse || undefined
+      });
       
       console.log('AI Response received:', response);
       
+      // Save assistant message to DB, stopped answers included; a plan is
+      // later updated under the stored ID
+      const savedMessage = sessionToUse
+        ? await addChatMessage(sessionToUse, 'assistant', response.content, response.toolCalls, response.actionPlan, response.cancelled)
+        : null;
+
       const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: savedMessage?.id || (Date.now() + 1).toString(),
         type: 'assistant',
-        content: response,
-        timestamp: new Date()
+        content: response.content,
+        timestamp: new Date(),
+        toolCalls: response.toolCalls,
+        actionPlan: response.actionPlan,
+        cancelled: response.cancelled
       };
 
       setMessages(prev => [...prev, assistantMessage]);
 
-      // Save assistant message to DB
-      if (sessionToUse) {
-        await addChatMessage(sessionToUse, 'assistant', response);
-      }
-
     } catch (error) {
       console.error('Error processing message:', error);
       const errorMessage: Message = {
@@ -201,11 +257,107 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
       };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      abortControllerRef.current = null;
+      setStreamingContent('');
       setIsLoading(false);
       setLoadingMessage('Thinking...');
     }
   };
 
+  const handleStopResponse = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const savePlan = async (messageId: string, plan: ChatActionPlan) => {
+    setMessages(prev => prev.map(message => message.id === messageId ? { ...message, actionPlan: plan } : message));
+    if (currentSessionId) {
+      await updateChatMessageActionPlan(currentSessionId, messageId, plan);
+    }
+  };
+
+  // Applied changes are written into the conversation so the transcript
+  // shows what the assistant's plans actually did
+  const recordInTranscript = async (content: string) => {
+    const saved = currentSessionId ? await addChatMessage(currentSessionId, 'assistant', content) : null;
+    setMessages(prev => [...prev, {
+      id: saved?.id || Date.now().toString(),
+      type: 'assistant',
+      content,
+      timestamp: new Date()
+    }]);
+  };
+
+  const handleApplyPlan = async (messageId: string, stepIds: string[]) => {
+    let plan = messages.find(message => message.id === messageId)?.actionPlan;
+    if (!plan) return;
+
+    setApplyingPlanId(plan.id);
+    const today = toDateKey(new Date());
+    const applied: string[] = [];
+    const failed: string[] = [];
+    let payRunStep: { stepId: string; action: PayRunAction } | null = null;
+
+    try {
+      for (const step of plan.steps) {
+        if (!stepIds.includes(step.id) || step.status !== 'proposed') continue;
+        const action = step.action;
+
+        // Pay runs go through the payment preview, one at a time
+        if (action.kind === 'pay_run') {
+          payRunStep = payRunStep || { stepId: step.id, action };
+          continue;
+        }
+        // Future-dated changes wait in the plan until their date
+        if (action.effective_from && action.effective_from > today) continue;
+
+        try {
+          await updateEmployee(action.employee_id, action.changes);
+          plan = setStepStatus(plan, step.id, 'applied');
+          applied.push(step.summary);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'Update failed';
+          plan = setStepStatus(plan, step.id, 'failed', reason);
+          failed.push(`${step.summary} (${reason})`);
+        }
+      }
+
+      await savePlan(messageId, plan);
+      if (applied.length > 0 || failed.length > 0) {
+        await recordInTranscript([
+          ...applied.map(summary => `✅ Applied: ${summary}`),
+          ...failed.map(summary => `❌ Failed: ${summary}`)
+        ].join('\n'));
+      }
+      if (payRunStep) {
+        setPendingPayRun({ messageId, ...payRunStep });
+      }
+    } finally {
+      setApplyingPlanId(null);
+    }
+  };
+
+  const handleDiscardPlan = async (messageId: string, stepIds: string[]) => {
+    const plan = messages.find(message => message.id === messageId)?.actionPlan;
+    if (!plan) return;
+    await savePlan(messageId, stepIds.reduce((updated, stepId) => setStepStatus(updated, stepId, 'discarded'), plan));
+  };
+
+  const handlePayRunSent = async (payRun: PayRun) => {
+    if (!pendingPayRun) return;
+    const { messageId, stepId, action } = pendingPayRun;
+    setPendingPayRun(null);
+
+    const plan = messages.find(message => message.id === messageId)?.actionPlan;
+    const paid = payRun.line_items.filter(item => item.status === 'paid');
+    const summary = `pay run ${getPayRunReference(payRun)}: ${paid.length} of ${payRun.line_items.length} employees paid in ${action.token}`;
+    if (plan) {
+      await savePlan(messageId, paid.length > 0
+        ? setStepStatus(plan, stepId, 'applied')
+        : setStepStatus(plan, stepId, 'failed', 'No payments were sent'));
+    }
+    await recordInTranscript(paid.length > 0 ? `✅ Applied: Sent ${summary}` : `❌ Failed: ${summary}`);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -221,6 +373,7 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
     "When was the last payment made?",
     "Company overview please",
     "Employee salary breakdown",
+    "Pay the design team their salary in USDC",
   ];
 
   const quickQuestions = isMobile ? allQuestions.slice(0, 3) : allQuestions;
@@ -259,6 +412,35 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
                     : 'bg-gray-100 text-gray-900'
                 }`}>
                   <div className="whitespace-pre-wrap text-sm sm:text-base leading-relaxed">{message.content}</div>
+                  {message.cancelled && (
+                    <div className="text-xs text-gray-500 italic mt-1">Stopped before the answer finished</div>
+                  )}
+                  {message.toolCalls && message.toolCalls.length > 0 && (
+                    <details className="mt-2 text-xs text-gray-600">
+                      <summary className="cursor-pointer flex items-center space-x-1 select-none">
+                        <Wrench className="w-3 h-3" />
+                        <span>Computed with {message.toolCalls.length} tool call{message.toolCalls.length === 1 ? '' : 's'}</span>
+                      </summary>
+                      <div className="mt-2 space-y-2">
+                        {message.toolCalls.map((call, index) => (
+                          <div key={index} className="bg-white border border-gray-200 rounded p-2">
+                            <div className="font-mono text-gray-800 break-all">{formatToolCall(call)}</div>
+                            <pre className={`mt-1 font-mono whitespace-pre-wrap break-all max-h-48 overflow-y-auto ${call.error ? 'text-red-600' : 'text-gray-600'}`}>
+                              {call.error ? call.error : JSON.stringify(call.result, null, 2)}
+                            </pre>
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
+                  {message.actionPlan && (
+                    <AIActionPlanCard
+                      plan={message.actionPlan}
+                      busy={applyingPlanId === message.actionPlan.id || !!pendingPayRun}
+                      onApply={stepIds => handleApplyPlan(message.id, stepIds)}
+                      onDiscard={stepIds => handleDiscardPlan(message.id, stepIds)}
+                    />
+                  )}
                   <div className={`text-xs mt-1 sm:mt-2 ${
                     message.type === 'user' ? 'text-gray-300' : 'text-gray-500'
                   }`}>
@@ -282,10 +464,17 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
                 <Bot className="w-3 h-3 sm:w-4 sm:h-4 text-white" />
               </div>
               <div className="bg-gray-100 rounded-lg px-3 py-2 sm:px-4 sm:py-3">
-                <div className="flex items-center space-x-2">
-                  <Loader2 className="w-3 h-3 sm:w-4 sm:h-4 animate-spin text-gray-600" />
-                  <span className="text-gray-600 text-sm sm:text-base">{loadingMessage}</span>
-                </div>
+                {streamingContent ? (
+                  <div className="whitespace-pre-wrap text-sm sm:text-base leading-relaxed text-gray-900">
+                    {streamingContent}
+                    <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-gray-500 animate-pulse" />
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <Loader2 className="w-3 h-3 sm:w-4 sm:h-4 animate-spin text-gray-600" />
+                    <span className="text-gray-600 text-sm sm:text-base">{loadingMessage}</span>
+                  </div>
+                )}
               </div>
             </div>
           </motion.div>
@@ -333,23 +522,49 @@ export const AIAssistantPage: React.FC<AIAssistantPageProps> = ({
             className="flex-1 bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base"
             disabled={isLoading}
           />
-          <button
-            onClick={handleSendMessage}
-            disabled={!inputValue.trim() || isLoading}
-            className="bg-gray-900 hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed text-white p-2 sm:p-3 rounded-lg transition-colors"
-          >
-            {isLoading ? (
-              <Loader2 className="w-4 h-4 sm:w-5 sm:h-5 animate-spin" />
-            ) : (
+          {isLoading ? (
+            <button
+              onClick={handleStopResponse}
+              title="Stop generating"
+              className="bg-gray-900 hover:bg-gray-800 text-white p-2 sm:p-3 rounded-lg transition-colors"
+            >
+              <Square className="w-4 h-4 sm:w-5 sm:h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSendMessage}
+              disabled={!inputValue.trim()}
+              className="bg-gray-900 hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed text-white p-2 sm:p-3 rounded-lg transition-colors"
+            >
               <Send className="w-4 h-4 sm:w-5 sm:h-5" />
-            )}
-          </button>
+            </button>
+          )}
         </div>
         
         <div className="text-xs text-gray-500 mt-1 sm:mt-2 leading-tight">
           {isMobile ? "Press Enter to send" : "Press Enter to send • Shift+Enter for new line"}
         </div>
       </div>
+
+      {pendingPayRun && (
+        <PaymentPreviewModal
+          isOpen={true}
+          onClose={() => setPendingPayRun(null)}
+          employeesToPay={pendingPayRun.action.recipients.map(recipient => ({
+            id: recipient.employee_id,
+            name: recipient.name,
+            email: recipient.email,
+            wallet_address: recipient.wallet_address,
+            amount: recipient.amount,
+            currency: recipient.currency,
+            selected: true
+          }))}
+          selectedToken={pendingPayRun.action.token}
+          onConfirmSend={handlePayRunSent}
+          walletConnected={isConnected}
+          connectedAccount={address || ''}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -2,7 +2,18 @@ import React, { useState } from 'react';
 import { X, User, Mail, DollarSign, Calendar, Upload } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { BulkUploadModal } from './BulkUploadModal';
-import type { Employee } from '../lib/supabase';
+import type { Employee, PayFrequency, PayoutChain } from '../lib/supabase';
+import { PAY_FREQUENCIES, DEFAULT_PAY_FREQUENCY, DEFAULT_PAY_CUTOFF_DAYS } from '../utils/payrollSchedule';
+import {
+  PAYOUT_CHAINS,
+  DEFAULT_PAYOUT_CHAIN,
+  DEFAULT_PAYOUT_TOKEN,
+  getPayoutChain,
+  isAddressName,
+  resolvePayoutAddress,
+  validatePayoutToken,
+} from '../utils/addressValidation';
+import { FIAT_CURRENCIES, DEFAULT_SALARY_CURRENCY, validateSalary } from '../utils/fx';
 
 interface AddEmployeeModalProps {
   isOpen: boolean;
@@ -25,50 +36,94 @@ export const AddEmployeeModal: React.FC<AddEmployeeModalProps> = ({
     designation: '',
     department: 'Engineering',
     salary: '',
+    salary_currency: DEFAULT_SALARY_CURRENCY,
     wallet_address: '',
     join_date: new Date().toISOString().split('T')[0],
-    status: 'active' as 'active' | 'inactive'
+    status: 'active' as 'active' | 'inactive',
+    pay_frequency: DEFAULT_PAY_FREQUENCY as PayFrequency,
+    pay_anchor_date: '',
+    pay_cutoff_days: String(DEFAULT_PAY_CUTOFF_DAYS),
+    payout_chain: DEFAULT_PAYOUT_CHAIN as PayoutChain,
+    payout_token: DEFAULT_PAYOUT_TOKEN
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showBulkUpload, setShowBulkUpload] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  // Name the wallet address was resolved from, shown under the field
+  const [resolvedName, setResolvedName] = useState<string | null>(null);
 
   const departments = ['Engineering', 'Design', 'Marketing', 'Operations', 'Sales', 'HR', 'Finance'];
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
+    if (name === 'payout_chain') {
+      // Keep the token when the new chain supports it
+      const chainTokens = getPayoutChain(value as PayoutChain).tokens;
+      setFormData(prev => ({
+        ...prev,
+        payout_chain: value as PayoutChain,
+        payout_token: chainTokens.includes(prev.payout_token) ? prev.payout_token : chainTokens[0]
+      }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+    }
+    if (name === 'wallet_address') setResolvedName(null);
     
     if (errors[name]) {
       setErrors(prev => ({ ...prev, [name]: '' }));
     }
   };
 
-  const validateForm = () => {
+  // Resolves names such as alice.eth so the form shows the address that will be paid
+  const handleWalletBlur = async () => {
+    if (!isAddressName(formData.wallet_address)) return;
+    const result = await resolvePayoutAddress(formData.wallet_address, formData.payout_chain);
+    if (result.valid && result.address) {
+      setFormData(prev => ({ ...prev, wallet_address: result.address as string }));
+      setResolvedName(result.name || null);
+    } else {
+      setErrors(prev => ({ ...prev, wallet_address: result.error || 'Invalid wallet address' }));
+    }
+  };
+
+  // Returns the checksummed payout address, or null when the form is invalid
+  const validateForm = async (): Promise<string | null> => {
     const newErrors: Record<string, string> = {};
 
     if (!formData.name.trim()) newErrors.name = 'Name is required';
     if (!formData.email.trim()) newErrors.email = 'Email is required';
     else if (!/\S+@\S+\.\S+/.test(formData.email)) newErrors.email = 'Email is invalid';
     if (!formData.designation.trim()) newErrors.designation = 'Designation is required';
-    if (!formData.wallet_address.trim()) {
-      newErrors.wallet_address = 'Wallet address is required';
-    }
-    if (!formData.salary || parseFloat(formData.salary) <= 0) newErrors.salary = 'Valid salary is required';
+    const wallet = await resolvePayoutAddress(formData.wallet_address, formData.payout_chain);
+    if (!wallet.valid) newErrors.wallet_address = wallet.error || 'Invalid wallet address';
+    const tokenError = validatePayoutToken(formData.payout_chain, formData.payout_token);
+    if (tokenError) newErrors.payout_token = tokenError;
+    const salaryError = validateSalary(formData.salary);
+    if (salaryError) newErrors.salary = salaryError;
+    const cutoffDays = parseInt(formData.pay_cutoff_days, 10);
+    if (isNaN(cutoffDays) || cutoffDays < 0 || cutoffDays > 14) newErrors.pay_cutoff_days = 'Cutoff must be between 0 and 14 days';
 
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return Object.keys(newErrors).length === 0 && wallet.address ? wallet.address : null;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!validateForm()) return;
+
+    setIsValidating(true);
+    const walletAddress = await validateForm();
+    setIsValidating(false);
+    if (!walletAddress) return;
 
     const newEmployee: Omit<Employee, 'id' | 'user_id' | 'created_at' | 'updated_at'> = {
       ...formData,
+      wallet_address: walletAddress,
       salary: parseFloat(formData.salary),
-      status: formData.status as 'active' | 'inactive'
+      status: formData.status as 'active' | 'inactive',
+      // The first pay date defaults to the join date
+      pay_anchor_date: formData.pay_anchor_date || formData.join_date,
+      pay_cutoff_days: parseInt(formData.pay_cutoff_days, 10)
     };
 
     onAddEmployee(newEmployee);
@@ -79,10 +134,17 @@ export const AddEmployeeModal: React.FC<AddEmployeeModalProps> = ({
       designation: '',
       department: 'Engineering',
       salary: '',
+      salary_currency: DEFAULT_SALARY_CURRENCY,
       wallet_address: '',
       join_date: new Date().toISOString().split('T')[0],
-      status: 'active'
+      status: 'active',
+      pay_frequency: DEFAULT_PAY_FREQUENCY,
+      pay_anchor_date: '',
+      pay_cutoff_days: String(DEFAULT_PAY_CUTOFF_DAYS),
+      payout_chain: DEFAULT_PAYOUT_CHAIN,
+      payout_token: DEFAULT_PAYOUT_TOKEN
     });
+    setResolvedName(null);
     setErrors({});
     onClose();
   };
@@ -94,10 +156,17 @@ export const AddEmployeeModal: React.FC<AddEmployeeModalProps> = ({
       designation: '',
       department: 'Engineering',
       salary: '',
+      salary_currency: DEFAULT_SALARY_CURRENCY,
       wallet_address: '',
       join_date: new Date().toISOString().split('T')[0],
-      status: 'active'
+      status: 'active',
+      pay_frequency: DEFAULT_PAY_FREQUENCY,
+      pay_anchor_date: '',
+      pay_cutoff_days: String(DEFAULT_PAY_CUTOFF_DAYS),
+      payout_chain: DEFAULT_PAYOUT_CHAIN,
+      payout_token: DEFAULT_PAYOUT_TOKEN
     });
+    setResolvedName(null);
     setErrors({});
     onClose();
   };
@@ -216,27 +285,78 @@ export const AddEmployeeModal: React.FC<AddEmployeeModalProps> = ({
                   name="wallet_address"
                   value={formData.wallet_address}
                   onChange={handleInputChange}
-                  placeholder="EVM wallet address"
+                  onBlur={handleWalletBlur}
+                  placeholder="0x… address or ENS name"
                   className={`bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-4 py-2 sm:py-3 pl-10 sm:pl-10 w-full focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base font-mono ${errors.wallet_address ? 'border-red-500' : ''}`}
                 />
               </div>
               {errors.wallet_address && <p className="text-red-600 text-xs sm:text-sm mt-1">{errors.wallet_address}</p>}
+              {!errors.wallet_address && resolvedName && (
+                <p className="text-gray-500 text-xs sm:text-sm mt-1">Resolved from {resolvedName}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                  Payout Chain
+                </label>
+                <select
+                  name="payout_chain"
+                  value={formData.payout_chain}
+                  onChange={handleInputChange}
+                  className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-4 py-2 sm:py-3 w-full focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                >
+                  {PAYOUT_CHAINS.map(chain => (
+                    <option key={chain.value} value={chain.value}>{chain.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                  Payout Token
+                </label>
+                <select
+                  name="payout_token"
+                  value={formData.payout_token}
+                  onChange={handleInputChange}
+                  className={`bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-4 py-2 sm:py-3 w-full focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base ${errors.payout_token ? 'border-red-500' : ''}`}
+                >
+                  {getPayoutChain(formData.payout_chain).tokens.map(token => (
+                    <option key={token} value={token}>{token}</option>
+                  ))}
+                </select>
+                {errors.payout_token && <p className="text-red-600 text-xs sm:text-sm mt-1">{errors.payout_token}</p>}
+              </div>
             </div>
 
             <div>
               <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
                 Salary
               </label>
-              <div className="relative">
-                <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-500" />
-                <input
-                  type="number"
-                  name="salary"
-                  value={formData.salary}
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 sm:w-5 sm:h-5 text-gray-500" />
+                  <input
+                    type="number"
+                    name="salary"
+                    value={formData.salary}
+                    onChange={handleInputChange}
+                    placeholder="50000"
+                    className={`bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-4 py-2 sm:py-3 pl-10 sm:pl-10 w-full focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base ${errors.salary ? 'border-red-500' : ''}`}
+                  />
+                </div>
+                <select
+                  name="salary_currency"
+                  value={formData.salary_currency}
                   onChange={handleInputChange}
-                  placeholder="50000"
-                  className={`bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-4 py-2 sm:py-3 pl-10 sm:pl-10 w-full focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base ${errors.salary ? 'border-red-500' : ''}`}
-                />
+                  className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:py-3 focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                >
+                  {FIAT_CURRENCIES.map(currency => (
+                    <option key={currency.code} value={currency.code}>{currency.code}</option>
+                  ))}
+                </select>
               </div>
               {errors.salary && <p className="text-red-600 text-xs sm:text-sm mt-1">{errors.salary}</p>}
             </div>
@@ -290,6 +410,54 @@ export const AddEmployeeModal: React.FC<AddEmployeeModalProps> = ({
               </div>
             </div>
 
+            {/* Pay Schedule */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                  Pay Frequency
+                </label>
+                <select
+                  name="pay_frequency"
+                  value={formData.pay_frequency}
+                  onChange={handleInputChange}
+                  className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-4 py-2 sm:py-3 w-full focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                >
+                  {PAY_FREQUENCIES.map(frequency => (
+                    <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                  First Pay Date
+                </label>
+                <input
+                  type="date"
+                  name="pay_anchor_date"
+                  value={formData.pay_anchor_date}
+                  onChange={handleInputChange}
+                  className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-4 py-2 sm:py-3 w-full focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                  Cutoff (days before)
+                </label>
+                <input
+                  type="number"
+                  name="pay_cutoff_days"
+                  min="0"
+                  max="14"
+                  value={formData.pay_cutoff_days}
+                  onChange={handleInputChange}
+                  className={`bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-4 py-2 sm:py-3 w-full focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-all duration-200 text-sm sm:text-base ${errors.pay_cutoff_days ? 'border-red-500' : ''}`}
+                />
+                {errors.pay_cutoff_days && <p className="text-red-600 text-xs sm:text-sm mt-1">{errors.pay_cutoff_days}</p>}
+              </div>
+            </div>
+
             <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-4 pt-2">
               <button
                 type="button"
@@ -300,9 +468,10 @@ export const AddEmployeeModal: React.FC<AddEmployeeModalProps> = ({
               </button>
               <button
                 type="submit"
-                className="flex-1 bg-gray-900 hover:bg-gray-800 text-white py-2 sm:py-3 px-4 sm:px-6 rounded-lg transition-colors text-sm sm:text-base"
+                disabled={isValidating}
+                className="flex-1 bg-gray-900 hover:bg-gray-800 disabled:opacity-50 text-white py-2 sm:py-3 px-4 sm:px-6 rounded-lg transition-colors text-sm sm:text-base"
               >
-                Add Employee
+                {isValidating ? 'Checking Address...' : 'Add Employee'}
               </button>
             </div>
           </form>
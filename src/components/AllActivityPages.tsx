@@ -1,7 +1,9 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { ArrowLeft, Clock, CheckCircle, Send, Users, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ArrowLeft, Clock, CheckCircle, Send, Users, ChevronLeft, ChevronRight, ChevronDown, Layers } from 'lucide-react';
 import { usePayments } from '../hooks/usePayments';
-import type { Employee } from '../lib/supabase';
+import { usePayRuns } from '../hooks/usePayRuns';
+import { calculatePayRunTotals, formatPayRunTotals, getPayRunReference, groupPaymentsByRun, PAY_RUN_STATUS_LABELS } from '../utils/payRuns';
+import type { Employee, Payment } from '../lib/supabase';
 
 interface Activity {
   id: string;
@@ -13,6 +15,13 @@ interface Activity {
   amount: string | null;
   employee?: Employee;
   date: Date;
+  recipients?: Array<{
+    id: string;
+    name: string;
+    amount: number;
+    token: string;
+    employee?: Employee;
+  }>;
 }
 
 interface AllActivityPageProps {
@@ -29,7 +38,9 @@ export const AllActivityPage: React.FC<AllActivityPageProps> = ({
   refreshKey = 0
 }) => {
   const { getAllPayments } = usePayments();
-  const [payments, setPayments] = useState<any[]>([]);
+  const { payRuns } = usePayRuns();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
 
@@ -62,8 +73,37 @@ export const AllActivityPage: React.FC<AllActivityPageProps> = ({
   const activities = useMemo(() => {
     const activityList: Activity[] = [];
 
-    // Add payment activities
-    payments.forEach((payment) => {
+    const { runs, standalone } = groupPaymentsByRun(payments);
+
+    // Add one activity per pay run, with its payments as recipients
+    runs.forEach((runPayments, payRunId) => {
+      const payRun = payRuns.find(run => run.id === payRunId);
+      const totals = formatPayRunTotals(calculatePayRunTotals(runPayments));
+      const date = new Date(runPayments[0].payment_date);
+      activityList.push({
+        id: `payrun-${payRunId}`,
+        type: 'payrun',
+        title: `Pay Run ${getPayRunReference({ id: payRunId })}${payRun ? ` · ${PAY_RUN_STATUS_LABELS[payRun.status]}` : ''}`,
+        description: `${runPayments.length} recipient${runPayments.length !== 1 ? 's' : ''} received ${totals}${payRun?.approved_by ? ` · approved by ${payRun.approved_by.substring(0, 6)}...${payRun.approved_by.substring(payRun.approved_by.length - 4)}` : ''}`,
+        time: formatTimeAgo(date),
+        status: payRun ? payRun.status : 'completed',
+        amount: totals,
+        date,
+        recipients: runPayments.map(payment => {
+          const employee = employees.find(emp => emp.id === payment.employee_id);
+          return {
+            id: payment.id,
+            name: employee?.name || 'Former employee',
+            amount: payment.amount,
+            token: payment.token,
+            employee
+          };
+        })
+      });
+    });
+
+    // Add standalone payment activities
+    standalone.forEach((payment) => {
       const employee = employees.find(emp => emp.id === payment.employee_id);
       if (employee) {
         activityList.push({
@@ -81,7 +121,7 @@ export const AllActivityPage: React.FC<AllActivityPageProps> = ({
     });
 
     return activityList.sort((a, b) => b.date.getTime() - a.date.getTime());
-  }, [employees, payments]);
+  }, [employees, payments, payRuns]);
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -98,6 +138,8 @@ export const AllActivityPage: React.FC<AllActivityPageProps> = ({
     switch (type) {
       case 'payment':
         return <Send className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" />;
+      case 'payrun':
+        return <Layers className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" />;
       case 'employee':
         return <Users className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" />;
       default:
@@ -106,6 +148,10 @@ export const AllActivityPage: React.FC<AllActivityPageProps> = ({
   };
 
   const handleActivityClick = (activity: Activity) => {
+    if (activity.recipients) {
+      setExpandedRunId(prev => prev === activity.id ? null : activity.id);
+      return;
+    }
     if (activity.employee && onEmployeeClick) {
       onEmployeeClick(activity.employee);
     }
@@ -160,7 +206,7 @@ export const AllActivityPage: React.FC<AllActivityPageProps> = ({
                     key={activity.id}
                     onClick={() => handleActivityClick(activity)}
                     className={`flex items-start space-x-3 p-3 sm:p-4 transition-all duration-200 ${
-                      activity.employee ? 'hover:bg-gray-50 cursor-pointer active:bg-gray-100' : ''
+                      activity.employee || activity.recipients ? 'hover:bg-gray-50 cursor-pointer active:bg-gray-100' : ''
                     }`}
                   >
                     {/* Icon */}
@@ -172,8 +218,11 @@ export const AllActivityPage: React.FC<AllActivityPageProps> = ({
                     <div className="flex-1 min-w-0">
                       {/* Title and status row */}
                       <div className="flex items-start justify-between mb-1">
-                        <h4 className="text-sm sm:text-base font-medium text-gray-900 pr-2">
+                        <h4 className="text-sm sm:text-base font-medium text-gray-900 pr-2 flex items-center">
                           {activity.title}
+                          {activity.recipients && (
+                            <ChevronDown className={`w-4 h-4 ml-1 text-gray-500 transition-transform ${expandedRunId === activity.id ? 'rotate-180' : ''}`} />
+                          )}
                         </h4>
                         <div className="flex items-center space-x-1 flex-shrink-0">
                           {getStatusIcon(activity.status)}
@@ -186,6 +235,27 @@ export const AllActivityPage: React.FC<AllActivityPageProps> = ({
                         {activity.description}
                       </p>
                       
+                      {/* Pay run recipients */}
+                      {activity.recipients && expandedRunId === activity.id && (
+                        <div className="mb-2 border border-gray-200 rounded-lg divide-y divide-gray-100">
+                          {activity.recipients.map(recipient => (
+                            <div
+                              key={recipient.id}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                if (recipient.employee) {
+                                  onEmployeeClick(recipient.employee);
+                                }
+                              }}
+                              className="flex items-center justify-between px-3 py-2 text-xs sm:text-sm hover:bg-gray-50"
+                            >
+                              <span className="text-gray-700">{recipient.name}</span>
+                              <span className="font-medium text-gray-900">${recipient.amount.toLocaleString()} {recipient.token}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Bottom row - mobile optimized */}
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-2">
@@ -1,16 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { RefreshCw, Check, X, Users, DollarSign } from 'lucide-react';
+import { RefreshCw, Check, X, Users, DollarSign, Calendar } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { PaymentPreviewModal } from './PaymentPreviewModal';
 import { PaymentSuccessModal } from './PaymentSuccessModal';
-import type { Employee } from '../lib/supabase';
+import type { Employee, PayRun } from '../lib/supabase';
+import { formatPayDate, type ScheduledPayRun } from '../utils/payrollSchedule';
+import { DEFAULT_SALARY_CURRENCY, formatFiat, formatFiatTotals } from '../utils/fx';
+import { fromStoredAmount, sumAmounts, toNumber } from '../utils/money';
 
 interface BulkTransferEmployee {
   id: string;
   name: string;
   email: string;
   wallet_address: string;
+  // Salary amount in `currency`; converted into the payout token at pay time
   amount: number;
+  currency: string;
   selected: boolean;
 }
 
@@ -20,6 +25,8 @@ interface BulkTransferProps {
   walletAddress: string;
   selectedEmployee?: Employee | null;
   setSelectedEmployee?: (employee: Employee | null) => void;
+  scheduledPayRun?: ScheduledPayRun | null;
+  setScheduledPayRun?: (payRun: ScheduledPayRun | null) => void;
   setActiveTab?: (tab: string) => void;
   onPaymentSuccess?: () => void;
 }
@@ -29,6 +36,8 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
   isWalletConnected, 
   selectedEmployee, 
   setSelectedEmployee,
+  scheduledPayRun,
+  setScheduledPayRun,
   setActiveTab,
   onPaymentSuccess
 }) => {
@@ -48,22 +57,32 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
   // Convert real employees to bulk transfer format
   useEffect(() => {
     const activeEmployees = employees.filter(emp => emp.status === 'active');
-    const convertedEmployees: BulkTransferEmployee[] = activeEmployees.map(emp => ({
-      id: emp.id,
-      name: emp.name,
-      email: emp.email,
-      wallet_address: emp.wallet_address,
-      amount: emp.salary,
-      selected: selectedEmployee ? emp.id === selectedEmployee.id : false
-    }));
+    const convertedEmployees: BulkTransferEmployee[] = activeEmployees.map(emp => {
+      // A scheduled pay run pre-selects its unpaid recipients at their per-run amount
+      const runRecipient = scheduledPayRun?.recipients.find(r => r.employee_id === emp.id && !r.paid);
+      return {
+        id: emp.id,
+        name: emp.name,
+        email: emp.email,
+        wallet_address: emp.wallet_address,
+        amount: runRecipient ? runRecipient.amount : emp.salary,
+        currency: emp.salary_currency || DEFAULT_SALARY_CURRENCY,
+        selected: runRecipient ? true : selectedEmployee ? emp.id === selectedEmployee.id : false
+      };
+    });
     setBulkEmployees(convertedEmployees);
     
     // Don't automatically clear selectedEmployee - let the parent manage it
     // This prevents the selection from being immediately cleared
-  }, [employees, selectedEmployee]);
+  }, [employees, selectedEmployee, scheduledPayRun]);
 
   const selectedEmployees = bulkEmployees.filter(emp => emp.selected);
-  const totalAmount = selectedEmployees.reduce((sum, emp) => sum + emp.amount, 0);
+  // Salaries in different currencies are totalled separately
+  const totalsByCurrency = selectedEmployees.reduce<Record<string, number>>((totals, emp) => {
+    totals[emp.currency] = (totals[emp.currency] || 0) + emp.amount;
+    return totals;
+  }, {});
+  const formattedTotal = formatFiatTotals(totalsByCurrency);
 
   const handleSelectAll = () => {
     setBulkEmployees(bulkEmployees.map(emp => ({ ...emp, selected: true })));
@@ -89,22 +108,31 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
     setShowPreviewModal(true);
   };
 
-  const handleConfirmSendPayments = async () => {
+  const handleConfirmSendPayments = async (payRun: PayRun) => {
     setShowPreviewModal(false);
     setIsProcessing(true);
     
-    const employeesPaid = selectedEmployees.map(emp => ({
-      id: emp.id,
-      name: emp.name,
-      amount: emp.amount
+    // Report what was actually sent, in the payout token
+    const paidItems = payRun.line_items.filter(item => item.status === 'paid');
+    const employeesPaid = paidItems.map(item => ({
+      id: item.employee_id,
+      name: item.name,
+      amount: item.amount
     }));
-    const totalPaid = selectedEmployees.reduce((sum, emp) => sum + emp.amount, 0);
+    // Summed in base units; the run pays out in a single token
+    const paidAmounts = paidItems.map(item => fromStoredAmount(item));
+    const totalPaid = paidAmounts.length > 0
+      ? toNumber(sumAmounts(paidAmounts, paidAmounts[0].token, paidAmounts[0].decimals))
+      : 0;
     setPaidEmployees(employeesPaid);
     setPaidTotal(totalPaid);
     
     setTimeout(() => {
       setIsProcessing(false);
       setBulkEmployees(bulkEmployees.map(emp => ({ ...emp, selected: false })));
+      if (setScheduledPayRun) {
+        setScheduledPayRun(null);
+      }
       setShowSuccessModal(true);
       if (onPaymentSuccess) {
         onPaymentSuccess();
@@ -131,10 +159,13 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
       prevEmployees.map(emp => ({ ...emp, selected: false }))
     );
     
-    // Clear the selectedEmployee when manually refreshing
+    // Clear the selectedEmployee and scheduled run when manually refreshing
     if (setSelectedEmployee) {
       setSelectedEmployee(null);
     }
+    if (setScheduledPayRun) {
+      setScheduledPayRun(null);
+    }
     
     // Trigger parent refresh if available
     if (onPaymentSuccess) {
@@ -155,11 +186,26 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
             <div className="flex items-center space-x-3 sm:space-x-4">
               <div className="text-center sm:text-right">
                 <div className="text-xs sm:text-sm text-gray-600">Total Selected</div>
-                <div className="text-base sm:text-xl font-bold text-black">${totalAmount.toLocaleString()}</div>
+                <div className="text-base sm:text-xl font-bold text-black">{formattedTotal}</div>
               </div>
             </div>
           </div>
 
+          {/* Scheduled Pay Run */}
+          {scheduledPayRun && (
+            <div className="mb-4 sm:mb-6 p-3 sm:p-4 bg-blue-50 border border-blue-200 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <Calendar className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
+                <span className="text-blue-800 font-medium text-sm sm:text-base">
+                  {scheduledPayRun.status === 'overdue' ? 'Overdue' : 'Scheduled'} pay run for {formatPayDate(scheduledPayRun.payDate)}
+                </span>
+              </div>
+              <p className="text-blue-700 text-xs sm:text-sm mt-1">
+                Period {formatPayDate(scheduledPayRun.periodStart)} – {formatPayDate(scheduledPayRun.periodEnd)}. Unpaid recipients are pre-selected at their {scheduledPayRun.frequency} amount.
+              </p>
+            </div>
+          )}
+
           {/* Wallet Connection Warning */}
           {!isWalletConnected && (
             <div className="mb-4 sm:mb-6 p-3 sm:p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -207,7 +253,7 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
                       <DollarSign className="w-3 h-3 sm:w-4 sm:h-4 text-green-500" />
                       <span className="text-gray-700 text-xs sm:text-sm">Total Amount</span>
                     </div>
-                    <span className="font-semibold text-green-600 text-sm sm:text-base">${totalAmount.toLocaleString()}</span>
+                    <span className="font-semibold text-green-600 text-sm sm:text-base">{formattedTotal}</span>
                   </div>
                 </div>
 
@@ -305,8 +351,8 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
                             </div>
                             
                             <div className="text-right">
-                              <div className="font-semibold text-gray-900 text-sm sm:text-base">${employee.amount.toLocaleString()}</div>
-                              <div className="text-xs sm:text-sm text-gray-600">{selectedToken}</div>
+                              <div className="font-semibold text-gray-900 text-sm sm:text-base">{formatFiat(employee.amount, employee.currency)}</div>
+                              <div className="text-xs sm:text-sm text-gray-600">paid in {selectedToken}</div>
                             </div>
                           </div>
                         </motion.div>
@@ -362,6 +408,7 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
             onClose={() => setShowPreviewModal(false)}
             employeesToPay={selectedEmployees}
             selectedToken={selectedToken}
+            scheduleId={scheduledPayRun?.id}
             onConfirmSend={handleConfirmSendPayments}
             onPaymentSuccess={onPaymentSuccess}
             walletConnected={isWalletConnected}
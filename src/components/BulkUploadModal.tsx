@@ -1,7 +1,15 @@
 import React, { useState, useRef } from 'react';
 import { X, Upload, Download, FileText, CheckCircle, AlertCircle } from 'lucide-react';
 import { motion } from 'framer-motion';
-import type { Employee } from '../lib/supabase';
+import type { Employee, PayoutChain } from '../lib/supabase';
+import {
+  PAYOUT_CHAINS,
+  DEFAULT_PAYOUT_CHAIN,
+  DEFAULT_PAYOUT_TOKEN,
+  resolvePayoutAddress,
+  validatePayoutToken,
+} from '../utils/addressValidation';
+import { DEFAULT_SALARY_CURRENCY, FIAT_CURRENCIES, validateSalary } from '../utils/fx';
 
 interface BulkUploadModalProps {
   isOpen: boolean;
@@ -62,7 +70,7 @@ export const BulkUploadModal: React.FC<BulkUploadModalProps> = ({
 
     try {
       const text = await file.text();
-      const parsed = parseCSV(text);
+      const parsed = await parseCSV(text);
       setParsedData(parsed.data);
       setErrors(parsed.errors);
     } catch (error) {
@@ -72,7 +80,8 @@ export const BulkUploadModal: React.FC<BulkUploadModalProps> = ({
     }
   };
 
-  const parseCSV = (csvText: string): { data: Omit<Employee, 'id' | 'user_id' | 'created_at' | 'updated_at'>[]; errors: string[] } => {
+  // Async because ENS-style names in the wallet column are resolved while parsing
+  const parseCSV = async (csvText: string): Promise<{ data: Omit<Employee, 'id' | 'user_id' | 'created_at' | 'updated_at'>[]; errors: string[] }> => {
     const lines = csvText.trim().split('\n');
     const errors: string[] = [];
     const data: Omit<Employee, 'id' | 'user_id' | 'created_at' | 'updated_at'>[] = [];
@@ -134,26 +143,48 @@ export const BulkUploadModal: React.FC<BulkUploadModalProps> = ({
       }
 
       try {
+        // Salary currency, payout chain and token columns are optional
+        const currencyValue = headers.includes('salary_currency') ? values[headers.indexOf('salary_currency')].toUpperCase() : '';
+        const chainValue = headers.includes('payout_chain') ? values[headers.indexOf('payout_chain')].toLowerCase() : '';
+        const tokenValue = headers.includes('payout_token') ? values[headers.indexOf('payout_token')].toUpperCase() : '';
+        const salaryValue = values[headers.indexOf('salary')] || '';
         const employee: Omit<Employee, 'id' | 'user_id' | 'created_at' | 'updated_at'> = {
           name: values[headers.indexOf('name')] || '',
           email: values[headers.indexOf('email')] || '',
           designation: values[headers.indexOf('designation')] || '',
           department: values[headers.indexOf('department')] || 'Engineering',
-          salary: parseFloat(values[headers.indexOf('salary')]) || 0,
+          salary: parseFloat(salaryValue) || 0,
+          salary_currency: currencyValue || DEFAULT_SALARY_CURRENCY,
           wallet_address: values[headers.indexOf('wallet_address')] || '',
           join_date: parseDate(values[headers.indexOf('join_date')]),
-          status: (values[headers.indexOf('status')] as 'active' | 'inactive') || 'active'
+          status: (values[headers.indexOf('status')] as 'active' | 'inactive') || 'active',
+          payout_chain: (chainValue || DEFAULT_PAYOUT_CHAIN) as PayoutChain,
+          payout_token: tokenValue || DEFAULT_PAYOUT_TOKEN
         };
 
         if (!employee.name) errors.push(`Row ${i + 1}: Name is required`);
         if (!employee.email || !/\S+@\S+\.\S+/.test(employee.email)) {
           errors.push(`Row ${i + 1}: Valid email is required`);
         }
-        if (!employee.wallet_address || employee.wallet_address.length < 58) {
-          errors.push(`Row ${i + 1}: Valid EVM address is required`);
+        const payoutChain = PAYOUT_CHAINS.find(chain => chain.value === employee.payout_chain);
+        if (!payoutChain) {
+          errors.push(`Row ${i + 1}: Unsupported payout chain "${chainValue}"`);
+        } else {
+          const wallet = await resolvePayoutAddress(employee.wallet_address, payoutChain.value);
+          if (wallet.valid && wallet.address) {
+            employee.wallet_address = wallet.address;
+          } else {
+            errors.push(`Row ${i + 1}: ${wallet.error || 'Valid EVM address is required'}`);
+          }
+          const tokenError = validatePayoutToken(payoutChain.value, employee.payout_token || DEFAULT_PAYOUT_TOKEN);
+          if (tokenError) errors.push(`Row ${i + 1}: ${tokenError}`);
         }
-        if (employee.salary <= 0) {
-          errors.push(`Row ${i + 1}: Valid salary is required`);
+        const salaryError = validateSalary(salaryValue);
+        if (salaryError) {
+          errors.push(`Row ${i + 1}: ${salaryError}`);
+        }
+        if (!FIAT_CURRENCIES.some(currency => currency.code === employee.salary_currency)) {
+          errors.push(`Row ${i + 1}: Unsupported salary currency "${currencyValue}"`);
         }
 
         if (errors.length === 0 || errors.filter(e => e.includes(`Row ${i + 1}`)).length === 0) {
@@ -169,14 +200,14 @@ export const BulkUploadModal: React.FC<BulkUploadModalProps> = ({
 
   const downloadTemplate = () => {
     const headers = [
-      'name', 'email', 'designation', 'department', 'salary',
-      'wallet_address', 'join_date', 'status'
+      'name', 'email', 'designation', 'department', 'salary', 'salary_currency',
+      'wallet_address', 'join_date', 'status', 'payout_chain', 'payout_token'
     ];
     
     const sampleData = [
-      'John Doe', 'john@company.com', 'Senior Developer', 'Engineering', '5000',
-      'XBYLS2E6YI6XXL5BWCAMOA4GTWHXWXWUB3OCJP72CH3V2VJRQBQ7K5REV4',
-      '2025-01-15', 'active'
+      'John Doe', 'john@company.com', 'Senior Developer', 'Engineering', '5000', DEFAULT_SALARY_CURRENCY,
+      '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+      '2025-01-15', 'active', DEFAULT_PAYOUT_CHAIN, DEFAULT_PAYOUT_TOKEN
     ];
 
     const csvContent = [headers.join(','), sampleData.join(',')].join('\n');
@@ -10,6 +10,7 @@ import { VATRefundOverview } from './VATRefundOverview';
 import { StateChannelManager } from './StateChannelManager';
 import { TestnetTester } from './TestnetTester';
 import type { Employee } from '../lib/supabase';
+import type { ScheduledPayRun } from '../utils/payrollSchedule';
 
 interface DashboardProps {
   companyName: string;
@@ -17,9 +18,10 @@ interface DashboardProps {
   setActiveTab: (tab: string) => void;
   refreshKey?: number;
   onEmployeePayment?: (employee: Employee) => void;
+  onRunPayroll?: (payRun: ScheduledPayRun) => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ companyName, employees, setActiveTab, refreshKey = 0, onEmployeePayment }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ companyName, employees, setActiveTab, refreshKey = 0, onEmployeePayment, onRunPayroll }) => {
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
   const [showEmployeeModal, setShowEmployeeModal] = useState(false);
   const [showAllActivity, setShowAllActivity] = useState(false);
@@ -76,7 +78,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ companyName, employees, se
             <StatsOverview companyName={companyName} employees={employees} />
           </div>
           <div className="lg:col-span-1">
-            <PayrollOverview employees={employees} setActiveTab={setActiveTab} refreshKey={refreshKey} />
+            <PayrollOverview employees={employees} setActiveTab={setActiveTab} refreshKey={refreshKey} onRunPayroll={onRunPayroll} />
           </div>
           <div className="lg:col-span-1">
             <VATRefundOverview setActiveTab={setActiveTab} refreshKey={refreshKey} />
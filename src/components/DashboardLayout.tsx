@@ -14,7 +14,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 // Removed useAuth import in favor of direct wallet connection
 import { useEmployees } from '../hooks/useEmployees';
 import { useNotifications } from '../hooks/useNotifications';
+import { useChannelWatchtower } from '../hooks/useChannelWatchtower';
 import type { Employee } from '../lib/supabase';
+import type { ScheduledPayRun } from '../utils/payrollSchedule';
 import { useAccount } from 'wagmi';
 
 interface DashboardLayoutProps {
@@ -24,6 +26,8 @@ interface DashboardLayoutProps {
 const DashboardLayout: React.FC<DashboardLayoutProps> = ({ companyName }) => {
   const { employees, refetch: refreshEmployees } = useEmployees();
   const { addNotification } = useNotifications();
+  // Guards co-signed channels against stale closes for as long as the app is open
+  useChannelWatchtower();
   const {address, isConnected} = useAccount();
   // Get activeTab from localStorage to maintain persistence
   const [activeTab, setActiveTab] = useState(() => {
@@ -37,6 +41,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ companyName }) => {
   const [walletAddress, setWalletAddress] = useState('');
   const [isConnecting, setIsConnecting] = useState(false);
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
+  const [scheduledPayRun, setScheduledPayRun] = useState<ScheduledPayRun | null>(null);
   const [showEmployeeHistoryModal, setShowEmployeeHistoryModal] = useState(false);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
@@ -143,6 +148,13 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ companyName }) => {
     setSelectedEmployee(employee);
   };
 
+  const handleRunPayroll = (payRun: ScheduledPayRun) => {
+    // Navigate to bulk-transfer page with the pay run's recipients pre-selected
+    setSelectedEmployee(null);
+    setScheduledPayRun(payRun);
+    setActiveTab('bulk-transfer');
+  };
+
   const handleToggleCollapse = (collapsed: boolean) => {
     if (!isMobile) {
       setIsSidebarCollapsed(collapsed);
@@ -170,6 +182,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ companyName }) => {
             setActiveTab={setActiveTab}
             refreshKey={refreshKey}
             onEmployeePayment={handleEmployeePayment}
+            onRunPayroll={handleRunPayroll}
           />
         );
       case 'employees':
@@ -187,6 +200,8 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ companyName }) => {
             walletAddress={walletAddress}
             selectedEmployee={selectedEmployee}
             setSelectedEmployee={setSelectedEmployee}
+            scheduledPayRun={scheduledPayRun}
+            setScheduledPayRun={setScheduledPayRun}
             setActiveTab={setActiveTab}
             onPaymentSuccess={handlePaymentSuccess}
           />
@@ -207,6 +222,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ companyName }) => {
             setActiveTab={setActiveTab}
             refreshKey={refreshKey}
             onEmployeePayment={handleEmployeePayment}
+            onRunPayroll={handleRunPayroll}
           />
         );
     }
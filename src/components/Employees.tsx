@@ -5,6 +5,7 @@ import { AddEmployeeModal } from './AddEmployeeModal';
 import { EditEmployeeModal } from './EditEmployeeModal';
 import { useEmployees } from '../hooks/useEmployees';
 import type { Employee } from '../lib/supabase';
+import { formatFiat } from '../utils/fx';
 
 interface EmployeesProps {
   setActiveTab?: (tab: string) => void;
@@ -402,7 +403,7 @@ export const Employees: React.FC<EmployeesProps> = ({
                     </div>
                     <div className="flex justify-between text-xs text-gray-600">
                       <span>{employee.department}</span>
-                      <span className="font-semibold text-gray-900">${employee.salary.toLocaleString()}</span>
+                      <span className="font-semibold text-gray-900">{formatFiat(employee.salary, employee.salary_currency)}</span>
                     </div>
                   </div>
 
@@ -424,7 +425,7 @@ export const Employees: React.FC<EmployeesProps> = ({
                     </div>
                     
                     <div className="col-span-2">
-                      <span className="font-semibold text-gray-900">${employee.salary.toLocaleString()}</span>
+                      <span className="font-semibold text-gray-900">{formatFiat(employee.salary, employee.salary_currency)}</span>
                     </div>
                     
                     <div className="col-span-2">
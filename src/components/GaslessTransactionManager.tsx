@@ -16,7 +16,6 @@ import {
   isYellowNetworkEnabled, 
   getYellowNetworkStatus, 
   performGaslessVATRefund,
-  performGaslessPayroll,
   lockYellowCollateral
 } from '../utils/yellowNetwork';
 
@@ -81,7 +80,7 @@ export const GaslessTransactionManager: React.FC<GaslessTransactionManagerProps>
     setError(null);
     try {
       const result = await performGaslessVATRefund(
-        '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6', // Test recipient
+        '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6', // Test recipient
         100, // Test amount
         'test-refund-123'
       );
@@ -99,31 +98,6 @@ export const GaslessTransactionManager: React.FC<GaslessTransactionManagerProps>
     }
   };
 
-  const handleGaslessPayroll = async () => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      const testRecipients = [
-        { address: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6', amount: 1000 },
-        { address: '0x8ba1f109551bD432803012645Hac136c', amount: 1500 },
-        { address: '0x1234567890123456789012345678901234567890', amount: 2000 }
-      ];
-
-      const result = await performGaslessPayroll(testRecipients, 'test-payroll-123');
-      
-      if (result.success) {
-        setSuccess(`Gasless payroll processed successfully! ${testRecipients.length} payments with zero fees.`);
-      } else {
-        setError(result.error || 'Failed to process gasless payroll');
-      }
-    } catch (err) {
-      console.error('Gasless payroll failed:', err);
-      setError('Failed to process gasless payroll');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const modalVariants = {
     hidden: { opacity: 0, scale: 0.95 },
     visible: { opacity: 1, scale: 1 },
@@ -256,17 +230,10 @@ export const GaslessTransactionManager: React.FC<GaslessTransactionManagerProps>
                   <p className="text-sm text-gray-600">Zero-fee bulk payments</p>
                 </div>
               </div>
-              <p className="text-sm text-gray-700 mb-4">
-                Process bulk payroll payments through gasless state channels. 
+              <p className="text-sm text-gray-700">
+                Approved pay runs settle over one gasless state channel each when they are paid.
                 Employers save on transaction fees while employees receive instant payments.
               </p>
-              <button
-                onClick={handleGaslessPayroll}
-                disabled={isLoading || !yellowNetworkStatus?.canOpenChannels}
-                className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
-              >
-                {isLoading ? 'Processing...' : 'Test Gasless Payroll'}
-              </button>
             </div>
           </div>
 
@@ -1,9 +1,53 @@
-import React, { useState } from 'react';
-import { X, Send, Users, DollarSign, Clock, Shield, CheckCircle, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Send, Users, DollarSign, Clock, Shield, CheckCircle, AlertCircle, PenLine } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { sendBulkPayment, formatAddress } from '../utils/algorand';
+import { useSignMessage, useWalletClient } from 'wagmi';
+import { WalletStateSigner } from '@erc7824/nitrolite';
+import { formatAddress } from '../utils/algorand';
+import { yellowNetworkService } from '../services/yellowNetworkService';
+import { walletManager } from '../utils/walletManager';
+import { readPaymentJournal, resolveUncertainEntry } from '../utils/paymentJournal';
+import {
+  formatAmount,
+  fromStoredAmount,
+  getTokenDecimals,
+  parseAmount,
+  sumAmounts,
+  toStoredAmount,
+  type TokenAmount,
+} from '../utils/money';
+import {
+  convertFiatToToken,
+  DEFAULT_SALARY_CURRENCY,
+  fetchFxRates,
+  findFxRate,
+  formatFiat,
+  formatFxRate,
+  getFxRateGuardError,
+} from '../utils/fx';
 import { usePayments } from '../hooks/usePayments';
+import { usePayRuns } from '../hooks/usePayRuns';
+import { useApprovalPolicy } from '../hooks/useApprovalPolicy';
 import { sendBulkPaymentEmails, PaymentEmailData } from '../utils/emailService';
+import {
+  applyFxRates,
+  findOpenPayRun,
+  flagUncertainRecipients,
+  getInterruptedResults,
+  getPayRunReference,
+  isPayRunLeaseExpired,
+  PAY_RUN_HEARTBEAT_MS,
+  PAY_RUN_STATUS_LABELS
+} from '../utils/payRuns';
+import {
+  buildApprovalMessage,
+  computePayRunDigest,
+  diffPayRunAmounts,
+  getApprovalError,
+  getValidApprovals,
+  hasApprovalQuorum,
+} from '../utils/approvalPolicy';
+import type { FxRate, PayRun } from '../lib/supabase';
 
 interface PaymentPreviewModalProps {
   isOpen: boolean;
@@ -13,11 +57,14 @@ interface PaymentPreviewModalProps {
     name: string;
     email: string;
     wallet_address: string;
+    // Salary amount in `currency`, converted into the token at the quoted rate
     amount: number;
+    currency?: string;
     selected?: boolean;
   }>;
   selectedToken: string;
-  onConfirmSend: () => void;
+  scheduleId?: string;
+  onConfirmSend: (payRun: PayRun) => void;
   onPaymentSuccess?: () => void;
   walletConnected?: boolean;
   connectedAccount?: string;
@@ -28,13 +75,36 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
   onClose,
   employeesToPay,
   selectedToken,
+  scheduleId,
   onConfirmSend,
   onPaymentSuccess,
   walletConnected = false,
   connectedAccount = '',
 }) => {
-  const { createPayment } = usePayments();
+  const [payRun, setPayRun] = useState<PayRun | null>(null);
+  const { createPayments } = usePayments();
+  // Once a run exists, keep working against its owner's runs and policy even
+  // if an approver switches to their own wallet
+  const {
+    payRuns,
+    createPayRun,
+    addPayRunApproval,
+    requotePayRun,
+    startPayRunExecution,
+    renewPayRunLease,
+    recordPayRunResults,
+    recoverInterruptedPayRun,
+  } = usePayRuns(payRun?.user_id);
+  const { policy } = useApprovalPolicy(payRun?.user_id);
+  const { signMessageAsync } = useSignMessage();
+  const { data: walletClient } = useWalletClient();
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [approvalError, setApprovalError] = useState<string | null>(null);
+  const [quotedRates, setQuotedRates] = useState<FxRate[] | null>(null);
+  const [rateError, setRateError] = useState<string | null>(null);
+  const [rateGuardError, setRateGuardError] = useState<string | null>(null);
+  const [, setJournalVersion] = useState(0);
   const [paymentResult, setPaymentResult] = useState<{
     success: boolean;
     txHash?: string;
@@ -43,6 +113,66 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
     emailResults?: { success: number; failed: number };
   } | null>(null);
 
+  // Salary currencies of the recipients, as a stable key for quoting
+  const salaryCurrencies = Array.isArray(employeesToPay)
+    ? [...new Set(employeesToPay.map(emp => emp.currency || DEFAULT_SALARY_CURRENCY))].sort().join(',')
+    : '';
+
+  // Quote the payout token in every salary currency until a run locks its rates
+  useEffect(() => {
+    if (!isOpen || payRun || !salaryCurrencies) return;
+    let cancelled = false;
+    setRateError(null);
+    fetchFxRates(selectedToken, salaryCurrencies.split(','))
+      .then(rates => {
+        if (!cancelled) setQuotedRates(rates);
+      })
+      .catch(error => {
+        console.error('Failed to quote exchange rates:', error);
+        if (!cancelled) setRateError(error instanceof Error ? error.message : 'Failed to quote exchange rates');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, payRun, salaryCurrencies, selectedToken]);
+
+  // Resume an unfinished run for the same recipients instead of creating a new one
+  useEffect(() => {
+    if (payRun || !Array.isArray(employeesToPay)) return;
+    const openRun = findOpenPayRun(payRuns, employeesToPay.map(emp => ({
+      employee_id: emp.id,
+      amount: emp.amount,
+      token: selectedToken,
+      fiat_amount: emp.amount,
+      fiat_currency: emp.currency || DEFAULT_SALARY_CURRENCY
+    })));
+    if (!openRun) return;
+
+    // A run another tab is still paying is shown as it is
+    if (openRun.status !== 'executing' || !isPayRunLeaseExpired(openRun)) {
+      setPayRun(openRun);
+      return;
+    }
+
+    // The tab executing the run stopped renewing its lease: recipients the
+    // journal shows were never sent can be retried, the rest need review
+    recoverInterruptedPayRun(openRun.id, getInterruptedResults(openRun, 'Execution was interrupted'))
+      .then(recoveredRun => {
+        flagUncertainRecipients(recoveredRun);
+        setPayRun(recoveredRun);
+      })
+      .catch(error => console.error('Failed to recover interrupted pay run:', error));
+  }, [payRun, payRuns, employeesToPay, selectedToken, recoverInterruptedPayRun]);
+
+  // Amounts compared with the owner's last completed run
+  const amountDiff = useMemo(() => {
+    if (!payRun) return [];
+    const previousRun = payRuns
+      .filter(run => run.status === 'completed' && run.id !== payRun.id)
+      .sort((a, b) => (b.completed_at || '').localeCompare(a.completed_at || ''))[0];
+    return diffPayRunAmounts(payRun.line_items, previousRun?.line_items);
+  }, [payRun, payRuns]);
+
   // Validate employeesToPay prop
   if (!employeesToPay || !Array.isArray(employeesToPay)) {
     console.error('PaymentPreviewModal: Invalid employeesToPay prop', employeesToPay);
@@ -51,12 +181,61 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
 
   if (!isOpen) return null;
 
-  const totalAmount = employeesToPay.reduce((sum, emp) => sum + (emp.amount || 0), 0);
-  const estimatedTime = employeesToPay.length * 2; // 2 seconds per transaction
-
-  // Wallet connection status is now passed as props
+  // Once a run exists, show exactly the recipients that are being approved;
+  // before that, salaries are converted at the quoted rates
+  const recipients: Array<{
+    id: string;
+    name: string;
+    email: string;
+    wallet_address: string;
+    amount: TokenAmount | null;
+    fiat_amount?: number;
+    fiat_currency?: string;
+  }> = payRun
+    ? payRun.line_items.map(item => ({
+        id: item.employee_id,
+        name: item.name,
+        email: item.email,
+        wallet_address: item.wallet_address,
+        amount: fromStoredAmount(item),
+        fiat_amount: item.fiat_amount,
+        fiat_currency: item.fiat_currency
+      }))
+    : employeesToPay.map(emp => {
+        const currency = emp.currency || DEFAULT_SALARY_CURRENCY;
+        const rate = quotedRates && findFxRate(quotedRates, currency, selectedToken);
+        return {
+          id: emp.id,
+          name: emp.name,
+          email: emp.email,
+          wallet_address: emp.wallet_address,
+          amount: rate ? convertFiatToToken(emp.amount || 0, rate) : null,
+          fiat_amount: emp.amount,
+          fiat_currency: currency
+        };
+      });
+  const fxRates = payRun ? payRun.fx_rates || [] : quotedRates || [];
+  const amountsPending = recipients.some(emp => emp.amount === null);
+  // Summed in base units so the total matches what the recipients receive
+  const tokenDecimals = getTokenDecimals(selectedToken, 18);
+  const totalAmount = sumAmounts(
+    recipients.flatMap(emp => emp.amount ? [emp.amount] : []),
+    selectedToken,
+    tokenDecimals
+  );
+  const formatTokenTotal = (amount: TokenAmount) => amountsPending ? '…' : formatAmount(amount, { symbol: true });
+  const estimatedTime = recipients.length * 2; // 2 seconds per transaction
+  const validApprovals = payRun ? getValidApprovals(payRun) : [];
+  const requiredApprovals = payRun?.required_approvals ?? 1;
+  const awaitingApproval = payRun?.status === 'draft' && !hasApprovalQuorum(payRun);
+  const uncertainEntries = payRun ? readPaymentJournal(payRun.id).filter(entry => entry.status === 'uncertain') : [];
+  // Being paid by another tab, which holds the run's lease
+  const executingElsewhere = !isProcessing && payRun?.status === 'executing';
+  // A run cannot be submitted until every salary has a quoted rate
+  const actionDisabled = isProcessing || executingElsewhere || !walletConnected || awaitingApproval || (!payRun && amountsPending);
+  const signBlockedReason = payRun && connectedAccount ? getApprovalError(payRun, policy, connectedAccount) : null;
 
-  const handleConfirmPayment = async () => {
+  const handleSubmitForApproval = async () => {
     if (!walletConnected || !connectedAccount) {
       setPaymentResult({
         success: false,
@@ -69,55 +248,186 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
     setPaymentResult(null);
 
     try {
-      // Log the data being sent for debugging
-      console.log('Preparing bulk payment with employees:', employeesToPay);
-      
-      // Ensure we have valid employee data with addresses
-      const recipientsData = employeesToPay.map(emp => {
-        console.log(`Employee ${emp.name}: wallet_address = ${emp.wallet_address}, amount = ${emp.amount}`);
-        
-        // Validate each employee has required fields
+      // Validate each employee has required fields before a run is created
+      employeesToPay.forEach(emp => {
         if (!emp.wallet_address || !emp.amount) {
           throw new Error(`Invalid data for employee ${emp.name}: missing wallet address or amount`);
         }
-        
-        return {
-          address: emp.wallet_address,
-          amount: emp.amount
-        };
       });
 
-      console.log('Recipients data prepared:', recipientsData);
+      // The quoted rates are locked into the run and signed by its approvers
+      if (!quotedRates) {
+        throw new Error(rateError || 'Exchange rates are still being quoted');
+      }
+
+      const draftRun = await createPayRun({
+        schedule_id: scheduleId,
+        line_items: applyFxRates(employeesToPay.map(emp => ({
+          employee_id: emp.id,
+          name: emp.name,
+          email: emp.email,
+          wallet_address: emp.wallet_address,
+          amount: emp.amount,
+          token: selectedToken,
+          fiat_amount: emp.amount,
+          fiat_currency: emp.currency || DEFAULT_SALARY_CURRENCY
+        })), quotedRates),
+        fx_rates: quotedRates
+      }, policy);
+      setPayRun(draftRun);
+    } catch (error) {
+      console.error('Error creating pay run:', error);
+      setPaymentResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create pay run'
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSignApproval = async () => {
+    if (!payRun || !connectedAccount) return;
 
-      const result = await sendBulkPayment(recipientsData, selectedToken);
+    setIsSigning(true);
+    setApprovalError(null);
 
-      if (result.success) {
-        // Record payments in Supabase
+    try {
+      // EIP-191 personal_sign over the run's recipients, amounts and digest
+      const signature = await signMessageAsync({ message: buildApprovalMessage(payRun) });
+      const approvedRun = await addPayRunApproval(payRun.id, {
+        approver: connectedAccount,
+        signature,
+        digest: computePayRunDigest(payRun),
+        approved_at: new Date().toISOString()
+      }, policy);
+      setPayRun(approvedRun);
+    } catch (error) {
+      console.error('Error approving pay run:', error);
+      setApprovalError(error instanceof Error ? error.message : 'Failed to approve pay run');
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  // Wallet connection status is now passed as props
+
+  const handleConfirmPayment = async () => {
+    if (!walletConnected || !connectedAccount) {
+      setPaymentResult({
+        success: false,
+        error: 'Please connect your wallet first'
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    setPaymentResult(null);
+
+    let currentRun = payRun;
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    try {
+      if (!currentRun) {
+        throw new Error('Submit the pay run for approval first');
+      }
+
+      // Refuse to pay at rates that are stale or have moved since they were locked
+      const lockedRates = currentRun.fx_rates || [];
+      if (lockedRates.length > 0) {
+        const marketRates = await fetchFxRates(lockedRates[0].token, lockedRates.map(rate => rate.currency))
+          .catch(error => {
+            console.error('Failed to re-check exchange rates:', error);
+            return null;
+          });
+        const guardError = getFxRateGuardError(lockedRates, marketRates);
+        setRateGuardError(guardError);
+        if (guardError) {
+          throw new Error(guardError);
+        }
+      }
+
+      // Execution is refused until the run has collected its approvals;
+      // a retry re-executes the same run
+      currentRun = await startPayRunExecution(currentRun.id);
+      setPayRun(currentRun);
+      const executingRunId = currentRun.id;
+      heartbeat = setInterval(() => {
+        renewPayRunLease(executingRunId).catch(error => console.error('Failed to renew pay run lease:', error));
+      }, PAY_RUN_HEARTBEAT_MS);
+
+      if (!walletClient) {
+        throw new Error('Connect your wallet to sign channel states');
+      }
+      if (!yellowNetworkService.isWalletConnected()) {
+        await yellowNetworkService.connect();
+      }
+
+      // Only recipients that have not been paid yet are sent; the journal
+      // additionally skips anyone already paid by an earlier, interrupted attempt.
+      // A session key signs every channel state without prompting, within the
+      // scope the wallet gave it; otherwise the connected wallet signs each one
+      const pendingItems = currentRun.line_items.filter(item => item.status !== 'paid');
+      const sessionSigner = walletClient.account ? walletManager.getSessionSigner(walletClient.account.address) : null;
+      const result = await yellowNetworkService.processJournaledPayroll(currentRun.id, pendingItems.map(item => ({
+        employee_id: item.employee_id,
+        address: item.wallet_address,
+        amount: fromStoredAmount(item)
+      })), sessionSigner || new WalletStateSigner(walletClient), selectedToken);
+
+      const getResult = (employeeId: string) => result.results.find(r => r.employee_id === employeeId);
+      const paidItems = pendingItems.filter(item => getResult(item.employee_id)?.status === 'paid');
+
+      // Record payments linked to the pay run
+      let paymentIds: Record<string, string> = {};
+      if (paidItems.length > 0) {
         try {
-          for (const employee of employeesToPay) {
-            await createPayment({
-              employee_id: employee.id,
-              amount: employee.amount,
-              token: selectedToken,
-              transaction_hash: result.txHash,
-              status: 'completed',
-              payment_date: new Date().toISOString()
-            });
-          }
+          const payments = await createPayments(paidItems.map(item => ({
+            employee_id: item.employee_id,
+            amount: item.amount,
+            ...toStoredAmount(fromStoredAmount(item)),
+            token: item.token,
+            transaction_hash: getResult(item.employee_id)?.txHash,
+            status: 'completed',
+            payment_date: new Date().toISOString(),
+            payrun_id: currentRun!.id
+          })));
+          paymentIds = Object.fromEntries(payments.map(payment => [payment.employee_id, payment.id]));
         } catch (dbError) {
           console.error('Failed to record payments in database:', dbError);
           // Continue with success flow even if database recording fails
         }
+      }
+
+      currentRun = await recordPayRunResults(currentRun.id, pendingItems.map(item => {
+        const itemResult = getResult(item.employee_id);
+        return itemResult?.status === 'paid'
+          ? {
+              employee_id: item.employee_id,
+              status: 'paid',
+              payment_id: paymentIds[item.employee_id],
+              transaction_hash: itemResult.txHash
+            }
+          : {
+              employee_id: item.employee_id,
+              status: itemResult?.status === 'uncertain' ? 'uncertain' : 'failed',
+              error: itemResult?.error || result.error || 'Payment failed'
+            };
+      }));
+      setPayRun(currentRun);
+
+      const lastTxHash = paidItems.map(item => getResult(item.employee_id)?.txHash).filter(Boolean).pop();
 
-        // Send email notifications
-        let emailResults = { success: 0, failed: 0 };
+      // Send email notifications
+      let emailResults = { success: 0, failed: 0 };
+      if (paidItems.length > 0) {
         try {
-          const emailDataList: PaymentEmailData[] = employeesToPay.map(employee => ({
-            employeeName: employee.name,
-            employeeEmail: employee.email,
-            amount: employee.amount,
-            token: selectedToken,
-            transactionHash: result.txHash,
+          const emailDataList: PaymentEmailData[] = paidItems.map(item => ({
+            employeeName: item.name,
+            employeeEmail: item.email,
+            amount: item.amount,
+            token: item.token,
+            transactionHash: getResult(item.employee_id)?.txHash,
             companyName: 'Gemtra', // You can make this dynamic later
             paymentDate: new Date().toLocaleDateString('en-US', {
               year: 'numeric',
@@ -140,23 +450,26 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
           console.log('PaymentPreviewModal: Calling onPaymentSuccess callback');
           onPaymentSuccess();
         }
-        
+      }
+
+      if (result.success) {
         setPaymentResult({
           success: true,
-          txHash: result.txHash,
-          processed: result.processed,
+          txHash: lastTxHash,
+          processed: paidItems.length,
           emailResults
         });
         
         // Wait a moment to show success, then trigger the parent callback
+        const completedRun = currentRun;
         setTimeout(() => {
-          onConfirmSend();
+          onConfirmSend(completedRun);
         }, 2000);
       } else {
         setPaymentResult({
           success: false,
           error: result.error || 'Payment failed',
-          processed: result.processed
+          processed: paidItems.length
         });
       }
     } catch (error) {
@@ -177,16 +490,65 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
           errorMessage = error.message;
         }
       }
+
+      // Don't leave the run stuck in executing; recipients the journal shows
+      // were never sent can be retried, the rest need review
+      if (currentRun && currentRun.status === 'executing') {
+        try {
+          const failedRun = await recordPayRunResults(currentRun.id, getInterruptedResults(currentRun, errorMessage));
+          flagUncertainRecipients(failedRun);
+          setPayRun(failedRun);
+        } catch (runError) {
+          console.error('Failed to record pay run failure:', runError);
+        }
+      }
       
       setPaymentResult({
         success: false,
         error: errorMessage
       });
     } finally {
+      if (heartbeat) clearInterval(heartbeat);
       setIsProcessing(false);
     }
   };
 
+  const handleRequoteRates = async () => {
+    const lockedRates = payRun?.fx_rates || [];
+    if (!payRun || lockedRates.length === 0) return;
+
+    setIsProcessing(true);
+    try {
+      const rates = await fetchFxRates(lockedRates[0].token, lockedRates.map(rate => rate.currency));
+      const requotedRun = await requotePayRun(payRun.id, rates, policy);
+      setPayRun(requotedRun);
+      setRateGuardError(null);
+      setPaymentResult(null);
+    } catch (error) {
+      console.error('Failed to re-quote exchange rates:', error);
+      setPaymentResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to re-quote exchange rates'
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleResolveUncertain = (employeeId: string, outcome: 'paid' | 'failed') => {
+    if (!payRun) return;
+    try {
+      resolveUncertainEntry(payRun.id, employeeId, outcome);
+      setJournalVersion(version => version + 1);
+    } catch (error) {
+      console.error('Failed to resolve uncertain payment:', error);
+    }
+  };
+
+  const getLineItemStatus = (employeeId: string) => {
+    return payRun?.line_items.find(item => item.employee_id === employeeId)?.status;
+  };
+
   const viewOnExplorer = () => {
     if (paymentResult?.txHash) {
       window.open(`https://testnet.algoexplorer.io/tx/${paymentResult.txHash}`, '_blank');
@@ -216,7 +578,11 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
             </div>
             <div>
               <h2 className="text-2xl font-bold text-gray-900">Confirm Bulk Payment</h2>
-              <p className="text-gray-600">Review payment details before sending</p>
+              <p className="text-gray-600">
+                {payRun
+                  ? `Pay run ${getPayRunReference(payRun)} · ${awaitingApproval ? 'Awaiting Approval' : PAY_RUN_STATUS_LABELS[payRun.status]}`
+                  : 'Review payment details before sending'}
+              </p>
             </div>
           </div>
           <button
@@ -258,7 +624,7 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                   <Users className="w-5 h-5 text-white" />
                 </div>
                 <div>
-                  <div className="text-2xl font-bold text-gray-900">{employeesToPay.length}</div>
+                  <div className="text-2xl font-bold text-gray-900">{recipients.length}</div>
                   <div className="text-sm text-gray-600">Recipients</div>
                 </div>
               </div>
@@ -270,7 +636,7 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                   <DollarSign className="w-5 h-5 text-white" />
                 </div>
                 <div>
-                  <div className="text-2xl font-bold text-gray-900">${totalAmount.toLocaleString()}</div>
+                  <div className="text-2xl font-bold text-gray-900">{formatTokenTotal(totalAmount)}</div>
                   <div className="text-sm text-gray-600">Total Amount</div>
                 </div>
               </div>
@@ -299,11 +665,11 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
               </h3>
               
               <div className="bg-gray-50 border border-gray-200 rounded-lg max-h-80 overflow-y-auto">
-                {employeesToPay.map((employee, index) => (
+                {recipients.map((employee, index) => (
                   <div
                     key={employee.id}
                     className={`p-4 flex items-center justify-between ${
-                      index !== employeesToPay.length - 1 ? 'border-b border-gray-200' : ''
+                      index !== recipients.length - 1 ? 'border-b border-gray-200' : ''
                     }`}
                   >
                     <div className="flex items-center space-x-3">
@@ -321,9 +687,21 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                     </div>
                     <div className="text-right">
                       <div className="font-semibold text-gray-900">
-                        ${employee.amount.toLocaleString()}
+                        {employee.amount === null ? '…' : formatAmount(employee.amount)}
                       </div>
                       <div className="text-sm text-gray-600">{selectedToken}</div>
+                      {employee.fiat_currency && employee.fiat_amount !== undefined && (
+                        <div className="text-xs text-gray-500">{formatFiat(employee.fiat_amount, employee.fiat_currency)}</div>
+                      )}
+                      {getLineItemStatus(employee.id) === 'paid' && (
+                        <div className="text-xs font-medium text-green-600">Paid</div>
+                      )}
+                      {getLineItemStatus(employee.id) === 'failed' && (
+                        <div className="text-xs font-medium text-red-600">Failed</div>
+                      )}
+                      {getLineItemStatus(employee.id) === 'uncertain' && (
+                        <div className="text-xs font-medium text-yellow-700">Needs review</div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -351,10 +729,26 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                   </div>
                 </div>
 
+                {/* Exchange rates the fiat salaries are converted at */}
+                {fxRates.length > 0 && (
+                  <div className="space-y-1">
+                    <span className="text-gray-600">{payRun ? 'Locked Rates:' : 'Quoted Rates:'}</span>
+                    {fxRates.map(rate => (
+                      <div key={`${rate.currency}-${rate.token}`} className="flex items-center justify-between text-sm">
+                        <span className="font-medium text-gray-900">{formatFxRate(rate)}</span>
+                        <span className="text-gray-600">{rate.source} · {new Date(rate.fetched_at).toLocaleString()}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {!payRun && rateError && (
+                  <div className="text-sm text-red-700">{rateError}</div>
+                )}
+
                 {/* Subtotal */}
                 <div className="flex items-center justify-between">
                   <span className="text-gray-600">Subtotal:</span>
-                  <span className="font-medium text-gray-900">${totalAmount.toLocaleString()}</span>
+                  <span className="font-medium text-gray-900">{formatTokenTotal(totalAmount)}</span>
                 </div>
 
                 {/* Network Fees - Yellow Network is Gasless */}
@@ -373,7 +767,7 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                   <div className="flex items-center justify-between text-lg">
                     <span className="font-semibold text-gray-900">Total Cost:</span>
                     <div className="text-right">
-                      <div className="font-bold text-gray-900">${totalAmount.toLocaleString()}</div>
+                      <div className="font-bold text-gray-900">{formatTokenTotal(totalAmount)}</div>
                       <div className="text-sm text-green-600">+ Gasless (Yellow Network)</div>
                     </div>
                   </div>
@@ -393,6 +787,119 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
             </div>
           </div>
 
+          {/* Approvals */}
+          {payRun && (
+            <div className="mt-8">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+                  <PenLine className="w-5 h-5 text-gray-700" />
+                  <span>Approvals</span>
+                </h3>
+                <span className={`text-sm font-medium ${awaitingApproval ? 'text-yellow-700' : 'text-green-600'}`}>
+                  {Math.min(validApprovals.length, requiredApprovals)} of {requiredApprovals} required
+                </span>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Amount diff against the last completed run */}
+                <div className="bg-gray-50 border border-gray-200 rounded-lg max-h-64 overflow-y-auto">
+                  <div className="px-4 py-2 border-b border-gray-200 text-xs font-medium text-gray-600 uppercase">
+                    Changes since last completed run
+                  </div>
+                  {amountDiff.map(row => (
+                    <div key={row.employee_id} className="px-4 py-2 flex items-center justify-between text-sm border-b border-gray-200 last:border-b-0">
+                      <span className="text-gray-900">{row.name}</span>
+                      <span className={
+                        row.kind === 'added' ? 'text-green-600' :
+                        row.kind === 'removed' ? 'text-red-600 line-through' :
+                        row.kind === 'changed' ? 'text-yellow-700' : 'text-gray-600'
+                      }>
+                        {row.kind === 'changed' && row.previousAmount && `${formatAmount(row.previousAmount)} → `}
+                        {formatAmount((row.currentAmount ?? row.previousAmount)!)} {row.token}
+                        {row.kind === 'added' && ' (new)'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-3">
+                  {validApprovals.length === 0 ? (
+                    <div className="text-sm text-gray-600">No approvals yet</div>
+                  ) : (
+                    validApprovals.map(approval => (
+                      <div key={approval.approver} className="flex items-center justify-between text-sm">
+                        <div className="flex items-center space-x-2">
+                          <CheckCircle className="w-4 h-4 text-green-600" />
+                          <span className="font-mono text-gray-900">{formatAddress(approval.approver)}</span>
+                        </div>
+                        <span className="text-gray-600">{new Date(approval.approved_at).toLocaleString()}</span>
+                      </div>
+                    ))
+                  )}
+
+                  {awaitingApproval && (
+                    <>
+                      <button
+                        onClick={handleSignApproval}
+                        disabled={isSigning || !walletConnected || !!signBlockedReason}
+                        className="w-full flex items-center justify-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-900 py-2 px-4 rounded-lg transition-all duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <PenLine className="w-4 h-4" />
+                        <span>{isSigning ? 'Waiting for signature...' : 'Sign Approval'}</span>
+                      </button>
+                      {signBlockedReason && (
+                        <div className="text-xs text-gray-600">{signBlockedReason}</div>
+                      )}
+                      <div className="text-xs text-gray-600">
+                        Approvers can connect their own wallet to sign. The signature covers every recipient and amount shown above.
+                      </div>
+                    </>
+                  )}
+
+                  {approvalError && (
+                    <div className="text-sm text-red-700">{approvalError}</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Payments interrupted mid-flight */}
+          {uncertainEntries.length > 0 && (
+            <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="flex items-center space-x-2 mb-2">
+                <AlertCircle className="w-5 h-5 text-yellow-700" />
+                <span className="text-yellow-800 font-medium">Payments Need Review</span>
+              </div>
+              <div className="text-sm text-yellow-800 mb-3">
+                These payments may have gone through before execution was interrupted or failed. Check the recipient's balance, then mark each one so it is not paid twice.
+              </div>
+              <div className="space-y-2">
+                {uncertainEntries.map(entry => (
+                  <div key={entry.key} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-900">
+                      {recipients.find(r => r.id === entry.employee_id)?.name || formatAddressShort(entry.address)} · {formatAmount(parseAmount(entry.amount, entry.token, getTokenDecimals(entry.token, 18)), { symbol: true })}
+                    </span>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleResolveUncertain(entry.employee_id, 'paid')}
+                        className="px-3 py-1 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+                      >
+                        Was Paid
+                      </button>
+                      <button
+                        onClick={() => handleResolveUncertain(entry.employee_id, 'failed')}
+                        className="px-3 py-1 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+                      >
+                        Not Paid
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Payment Result */}
           {paymentResult && (
             <div className="mt-6">
@@ -444,14 +951,29 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                   </div>
                   {paymentResult.processed !== undefined && paymentResult.processed > 0 && (
                     <div className="text-sm text-red-600 mt-1">
-                      Processed {paymentResult.processed} out of {employeesToPay.length} payments
+                      Processed {paymentResult.processed} out of {recipients.length} payments
                     </div>
                   )}
+                  {rateGuardError && payRun?.line_items.every(item => item.status !== 'paid') && (
+                    <button
+                      onClick={handleRequoteRates}
+                      disabled={isProcessing}
+                      className="mt-3 px-3 py-1 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      Re-quote Rates
+                    </button>
+                  )}
                 </motion.div>
               )}
             </div>
           )}
 
+          {executingElsewhere && (
+            <div className="mt-6 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+              This pay run is being paid in another tab. Reopen it once that tab has finished.
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-4 mt-8 pt-6 border-t border-gray-200">
             <button
@@ -463,12 +985,12 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
             </button>
             {!paymentResult?.success && (
               <motion.button
-                onClick={handleConfirmPayment}
-                disabled={isProcessing || !walletConnected}
+                onClick={payRun ? handleConfirmPayment : handleSubmitForApproval}
+                disabled={actionDisabled}
                 className={`flex-1 bg-gray-900 hover:bg-gray-800 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 text-lg ${
-                  isProcessing || !walletConnected ? 'opacity-50 cursor-not-allowed' : ''
+                  actionDisabled ? 'opacity-50 cursor-not-allowed' : ''
                 }`}
-                whileHover={{ scale: isProcessing || !walletConnected ? 1 : 1.02 }}
+                whileHover={{ scale: actionDisabled ? 1 : 1.02 }}
                 whileTap={{ scale: 0.98 }}
               >
                 {isProcessing ? (
@@ -479,7 +1001,15 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                 ) : (
                   <div className="flex items-center justify-center space-x-2">
                     <Send className="w-5 h-5" />
-                    <span>Confirm & Send Payments</span>
+                    <span>
+                      {!payRun
+                        ? 'Submit for Approval'
+                        : awaitingApproval
+                          ? `Awaiting Approvals (${validApprovals.length}/${requiredApprovals})`
+                          : payRun.status === 'approved'
+                            ? 'Confirm & Send Payments'
+                            : 'Retry Unpaid Recipients'}
+                    </span>
                   </div>
                 )}
               </motion.button>
@@ -1,17 +1,19 @@
-import React, { useMemo, useEffect, useState } from 'react';
-import { Calendar, Clock, Zap } from 'lucide-react';
-import { usePayments } from '../hooks/usePayments';
+import React, { useMemo } from 'react';
+import { Calendar, Clock, Zap, AlertTriangle } from 'lucide-react';
+import { usePayrollSchedule } from '../hooks/usePayrollSchedule';
+import { formatPayDate, type ScheduledPayRun } from '../utils/payrollSchedule';
+import { formatFiatTotals } from '../utils/fx';
 import type { Employee } from '../lib/supabase';
 
 interface PayrollOverviewProps {
   employees: Employee[];
   setActiveTab: (tab: string) => void;
   refreshKey?: number;
+  onRunPayroll?: (payRun: ScheduledPayRun) => void;
 }
 
-export const PayrollOverview: React.FC<PayrollOverviewProps> = ({ employees, setActiveTab, refreshKey = 0 }) => {
-  const { getAllPayments } = usePayments();
-  const [payments, setPayments] = useState<any[]>([]);
+export const PayrollOverview: React.FC<PayrollOverviewProps> = ({ employees, setActiveTab, refreshKey = 0, onRunPayroll }) => {
+  const { payments, nextPayRun, overduePayRuns } = usePayrollSchedule(employees, refreshKey);
 
   const activeEmployees = useMemo(() => 
     employees.filter(emp => emp.status === 'active'), 
@@ -23,20 +25,6 @@ export const PayrollOverview: React.FC<PayrollOverviewProps> = ({ employees, set
     [activeEmployees]
   );
 
-  useEffect(() => {
-    const fetchPayments = async () => {
-      try {
-        const allPayments = await getAllPayments();
-        setPayments(allPayments);
-      } catch (error) {
-        console.error('PayrollOverview: Failed to fetch payments:', error);
-        setPayments([]);
-      }
-    };
-
-    fetchPayments();
-  }, [getAllPayments, refreshKey]);
-
   const totalPaidAmount = useMemo(() => {
     const paid = payments
       .filter(payment => payment.status === 'completed')
@@ -54,6 +42,13 @@ export const PayrollOverview: React.FC<PayrollOverviewProps> = ({ employees, set
   const hasUnpaidEmployees = remainingAmount > 0;
   const isOverpaid = remainingAmount < 0;
 
+  const handleRunPayroll = (payRun: ScheduledPayRun) => {
+    if (onRunPayroll) {
+      onRunPayroll(payRun);
+    }
+    setActiveTab('bulk-transfer');
+  };
+
   const ProgressBar = ({ percentage }: { percentage: number; label: string }) => {
     const getProgressColor = (percentage: number) => {
       if (percentage === 100) return 'bg-green-500';
@@ -125,19 +120,49 @@ export const PayrollOverview: React.FC<PayrollOverviewProps> = ({ employees, set
       </div>
 
       <div className="space-y-3 sm:space-y-4 mb-4 sm:mb-6">
+        {/* Overdue Runs */}
+        {overduePayRuns.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 sm:p-4">
+            <div className="flex items-center space-x-2 mb-2">
+              <AlertTriangle className="w-3 h-3 sm:w-4 sm:h-4 text-red-600" />
+              <span className="text-red-800 font-medium text-xs sm:text-sm">
+                {overduePayRuns.length} Overdue Pay Run{overduePayRuns.length !== 1 ? 's' : ''}
+              </span>
+            </div>
+            <div className="space-y-2">
+              {overduePayRuns.map(payRun => (
+                <button
+                  key={payRun.id}
+                  onClick={() => handleRunPayroll(payRun)}
+                  className="w-full flex items-center justify-between text-left text-xs sm:text-sm hover:bg-red-100 rounded px-1 py-0.5 transition-colors"
+                >
+                  <span className="text-red-700">{formatPayDate(payRun.payDate)}</span>
+                  <span className="font-semibold text-red-800">
+                    {formatFiatTotals(payRun.unpaidAmount)} · {payRun.recipients.filter(r => !r.paid).length} unpaid
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Next Payout */}
-        {activeEmployees.length > 0 ? (
+        {nextPayRun ? (
           <div className="bg-gray-100 border border-gray-200 rounded-lg p-3 sm:p-4">
-            <div className="flex items-center space-x-2 mb-2">
-              <Calendar className="w-3 h-3 sm:w-4 sm:h-4 text-blue-700" />
-              <span className="text-gray-900 font-medium text-xs sm:text-sm">Next Payout</span>
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center space-x-2">
+                <Calendar className="w-3 h-3 sm:w-4 sm:h-4 text-blue-700" />
+                <span className="text-gray-900 font-medium text-xs sm:text-sm">Next Payout</span>
+              </div>
+              {nextPayRun.status === 'due' && (
+                <span className="text-xs font-medium text-yellow-700 bg-yellow-100 px-2 py-0.5 rounded-full">Due</span>
+              )}
             </div>
             <div className="text-xs sm:text-sm font-semibold text-gray-900">
-              {new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toLocaleDateString('en-US', {
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-              })}
+              {formatPayDate(nextPayRun.payDate)}
+            </div>
+            <div className="text-xs text-gray-600 mt-1">
+              {formatFiatTotals(nextPayRun.unpaidAmount)} to {nextPayRun.recipients.length} recipient{nextPayRun.recipients.length !== 1 ? 's' : ''} · cutoff {formatPayDate(nextPayRun.cutoffDate)}
             </div>
           </div>
         ) : (
@@ -163,7 +188,14 @@ export const PayrollOverview: React.FC<PayrollOverviewProps> = ({ employees, set
       {/* Process Payment Button */}
       <div className="space-y-2">
         <button 
-          onClick={() => setActiveTab('bulk-transfer')}
+          onClick={() => {
+            const payRun = overduePayRuns[0] || nextPayRun;
+            if (payRun) {
+              handleRunPayroll(payRun);
+            } else {
+              setActiveTab('bulk-transfer');
+            }
+          }}
           className={`w-full bg-gray-900 hover:bg-gray-800 text-white font-semibold py-2 sm:py-3 px-4 sm:px-6 rounded-lg transition-all duration-200 text-xs sm:text-sm ${
             !hasUnpaidEmployees || activeEmployees.length === 0 ? 'opacity-50 cursor-not-allowed' : ''
           }`}
@@ -1,7 +1,9 @@
 import React, { useMemo, useEffect, useState } from 'react';
-import { Clock, CheckCircle, Users, Send } from 'lucide-react';
+import { Clock, CheckCircle, Users, Send, Layers } from 'lucide-react';
 import { usePayments } from '../hooks/usePayments';
-import type { Employee } from '../lib/supabase';
+import { usePayRuns } from '../hooks/usePayRuns';
+import { calculatePayRunTotals, formatPayRunTotals, getPayRunReference, groupPaymentsByRun } from '../utils/payRuns';
+import type { Employee, Payment } from '../lib/supabase';
 
 interface Activity {
   id: string;
@@ -22,6 +24,18 @@ interface RecentActivityProps {
   refreshKey?: number;
 }
 
+const formatTimeAgo = (date: Date) => {
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / (1000 * 60));
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffMins < 60) return `${diffMins} minute${diffMins !== 1 ? 's' : ''} ago`;
+  if (diffHours < 24) return `${diffHours} hour${diffHours !== 1 ? 's' : ''} ago`;
+  return `${diffDays} day${diffDays !== 1 ? 's' : ''} ago`;
+};
+
 export const RecentActivity: React.FC<RecentActivityProps> = ({ 
   employees, 
   onEmployeeClick,
@@ -29,7 +43,8 @@ export const RecentActivity: React.FC<RecentActivityProps> = ({
   refreshKey = 0
 }) => {
   const { getAllPayments } = usePayments();
-  const [payments, setPayments] = useState<any[]>([]);
+  const { payRuns } = usePayRuns();
+  const [payments, setPayments] = useState<Payment[]>([]);
 
   useEffect(() => {
     const fetchPayments = async () => {
@@ -45,23 +60,30 @@ export const RecentActivity: React.FC<RecentActivityProps> = ({
     fetchPayments();
   }, [getAllPayments, refreshKey]);
 
-  const formatTimeAgo = (date: Date) => {
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / (1000 * 60));
-    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-    const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-
-    if (diffMins < 60) return `${diffMins} minute${diffMins !== 1 ? 's' : ''} ago`;
-    if (diffHours < 24) return `${diffHours} hour${diffHours !== 1 ? 's' : ''} ago`;
-    return `${diffDays} day${diffDays !== 1 ? 's' : ''} ago`;
-  };
-
   const activities = useMemo(() => {
     const activityList: Activity[] = [];
 
-    // Add payment activities
-    payments.forEach((payment) => {
+    const { runs, standalone } = groupPaymentsByRun(payments);
+
+    // Add one activity per pay run
+    runs.forEach((runPayments, payRunId) => {
+      const payRun = payRuns.find(run => run.id === payRunId);
+      const totals = calculatePayRunTotals(runPayments);
+      const date = new Date(runPayments[0].payment_date);
+      activityList.push({
+        id: `payrun-${payRunId}`,
+        type: 'payrun',
+        title: `Pay Run ${getPayRunReference({ id: payRunId })}`,
+        description: `${runPayments.length} recipient${runPayments.length !== 1 ? 's' : ''} received ${formatPayRunTotals(totals)}`,
+        time: formatTimeAgo(date),
+        status: payRun ? payRun.status : 'completed',
+        amount: formatPayRunTotals(totals),
+        date
+      });
+    });
+
+    // Add standalone payment activities
+    standalone.forEach((payment) => {
       const employee = employees.find(emp => emp.id === payment.employee_id);
       if (employee) {
         const paymentActivity = {
@@ -85,7 +107,7 @@ export const RecentActivity: React.FC<RecentActivityProps> = ({
       .slice(0, 3);
     
     return sortedActivities;
-  }, [employees, payments, formatTimeAgo]);
+  }, [employees, payments, payRuns]);
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -102,6 +124,8 @@ export const RecentActivity: React.FC<RecentActivityProps> = ({
     switch (type) {
       case 'payment':
         return <Send className="w-4 h-4 sm:w-5 sm:h-5 text-green-600" />;
+      case 'payrun':
+        return <Layers className="w-4 h-4 sm:w-5 sm:h-5 text-green-600" />;
       case 'employee':
         return <Users className="w-4 h-4 sm:w-5 sm:h-5 text-gray-700" />;
       default:
@@ -1,9 +1,30 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, User, Building, Save, Edit3, Check, X, Download } from 'lucide-react';
+import { ArrowLeft, User, Building, Save, Edit3, Check, X, Download, ShieldCheck, Receipt, KeyRound, RefreshCw, Trash2, Bot } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useAuth } from '../hooks/useAuth';
+import { useApprovalPolicy } from '../hooks/useApprovalPolicy';
+import { useVATRules } from '../hooks/useVATRules';
+import { useSessionKeys } from '../hooks/useSessionKeys';
+import { useEmployees } from '../hooks/useEmployees';
+import { useAISettings } from '../hooks/useAISettings';
+import { AI_PROVIDER_LABELS, DEFAULT_AI_MODELS, type AIProviderId } from '../utils/aiSettings';
+import { SESSION_OPERATIONS, type SessionOperation } from '../utils/sessionKeys';
+import { formatAmount, fromUnits, parseAmount } from '../utils/money';
+import { validateAddress } from '../utils/addressValidation';
+import type { Address } from 'viem';
+import { DEFAULT_VAT_COUNTRY } from '../utils/vatRules';
 import { supabase } from '../lib/supabase';
 
+const SESSION_OPERATION_LABELS: Record<SessionOperation, string> = {
+  open_channel: 'Open channels',
+  submit_state: 'Pay within channels',
+  close_channel: 'Close channels',
+  checkpoint: 'Checkpoint on chain',
+  challenge: 'Challenge disputes',
+};
+
+const SESSION_TOKENS = ['USDC', 'YELLOW'];
+
 interface SettingsPageProps {
   onBack: () => void;
 }
@@ -24,6 +45,81 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
   });
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const { policy, savePolicy } = useApprovalPolicy();
+  const [policyForm, setPolicyForm] = useState({
+    approvers: '',
+    thresholdAmount: '',
+    thresholdToken: 'USDC',
+    requiredApprovals: '1',
+    makerCanApprove: true,
+  });
+
+  const { session, loading: sessionLoading, error: sessionError, createSession, rotateSession, revokeSession } = useSessionKeys();
+  const { employees } = useEmployees();
+  const [sessionForm, setSessionForm] = useState({
+    operations: ['open_channel', 'submit_state', 'close_channel'] as SessionOperation[],
+    USDC: '',
+    YELLOW: '',
+    recipients: '',
+    expiryHours: '24',
+  });
+
+  // Active employees are the natural recipients of a payroll session key
+  useEffect(() => {
+    const wallets = employees.filter(employee => employee.status === 'active').map(employee => employee.wallet_address);
+    setSessionForm(prev => prev.recipients ? prev : { ...prev, recipients: wallets.join('\n') });
+  }, [employees]);
+
+  const { settings: aiSettings, saveSettings: saveAISettings } = useAISettings();
+  const [aiForm, setAiForm] = useState({
+    provider: aiSettings.provider,
+    model: aiSettings.model,
+    temperature: String(aiSettings.temperature),
+    baseUrl: aiSettings.baseUrl,
+  });
+
+  const { rules, saveCountryRules, resetCountryRules } = useVATRules();
+  const [vatCountry, setVatCountry] = useState(DEFAULT_VAT_COUNTRY);
+  const [vatRulesForm, setVatRulesForm] = useState({
+    vatRatePercent: '',
+    minPurchaseAmount: '',
+    exportDeadlineDays: '',
+    excludedResidencies: '',
+    commissionPercent: '',
+    fixedFee: '',
+  });
+
+  useEffect(() => {
+    const countryRules = rules[vatCountry];
+    if (!countryRules) return;
+    setVatRulesForm({
+      vatRatePercent: String(Math.round(countryRules.vatRate * 10000) / 100),
+      minPurchaseAmount: String(countryRules.minPurchaseAmount),
+      exportDeadlineDays: String(countryRules.exportDeadlineDays),
+      excludedResidencies: countryRules.excludedResidencies.join(', '),
+      commissionPercent: String(Math.round(countryRules.commissionRate * 10000) / 100),
+      fixedFee: String(countryRules.fixedFee),
+    });
+  }, [rules, vatCountry]);
+
+  useEffect(() => {
+    setAiForm({
+      provider: aiSettings.provider,
+      model: aiSettings.model,
+      temperature: String(aiSettings.temperature),
+      baseUrl: aiSettings.baseUrl,
+    });
+  }, [aiSettings]);
+
+  useEffect(() => {
+    setPolicyForm({
+      approvers: policy.approvers.join('\n'),
+      thresholdAmount: String(policy.thresholdAmount),
+      thresholdToken: policy.thresholdToken,
+      requiredApprovals: String(policy.requiredApprovals),
+      makerCanApprove: policy.makerCanApprove,
+    });
+  }, [policy]);
 
   useEffect(() => {
     const fetchUserProfile = async () => {
@@ -120,6 +216,148 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
     }
   };
 
+  const handlePolicyChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setPolicyForm(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value,
+    }));
+    if (error) setError('');
+    if (success) setSuccess('');
+  };
+
+  const handleSavePolicy = async () => {
+    try {
+      await savePolicy({
+        approvers: policyForm.approvers
+          .split(/[\s,]+/)
+          .map(approver => approver.trim())
+          .filter(Boolean),
+        thresholdAmount: parseFloat(policyForm.thresholdAmount) || 0,
+        thresholdToken: policyForm.thresholdToken,
+        requiredApprovals: parseInt(policyForm.requiredApprovals, 10),
+        makerCanApprove: policyForm.makerCanApprove,
+      });
+      setSuccess('Approval policy updated successfully');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update approval policy');
+    }
+  };
+
+  const handleSessionFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setSessionForm(prev => ({ ...prev, [name]: value }));
+    if (error) setError('');
+    if (success) setSuccess('');
+  };
+
+  const toggleSessionOperation = (operation: SessionOperation) => {
+    setSessionForm(prev => ({
+      ...prev,
+      operations: prev.operations.includes(operation)
+        ? prev.operations.filter(candidate => candidate !== operation)
+        : [...prev.operations, operation],
+    }));
+  };
+
+  const handleCreateSession = async () => {
+    try {
+      const recipients = sessionForm.recipients
+        .split(/[\s,]+/)
+        .map(recipient => recipient.trim())
+        .filter(Boolean)
+        .map(recipient => {
+          const validation = validateAddress(recipient);
+          if (!validation.valid || !validation.address) {
+            throw new Error(`${recipient}: ${validation.error || 'Invalid address'}`);
+          }
+          return validation.address as Address;
+        });
+      const allowances: Record<string, bigint> = {};
+      SESSION_TOKENS.forEach(token => {
+        const cap = sessionForm[token as 'USDC' | 'YELLOW'];
+        if (cap) allowances[token] = parseAmount(cap, token).units;
+      });
+      const hours = parseFloat(sessionForm.expiryHours);
+      if (!(hours > 0)) {
+        throw new Error('Expiry must be a positive number of hours');
+      }
+
+      const created = await createSession({
+        operations: sessionForm.operations,
+        allowances,
+        recipients,
+        expiresAt: Math.floor(Date.now() / 1000 + hours * 3600),
+      });
+      if (created) {
+        setSuccess('Session key created');
+        setTimeout(() => setSuccess(''), 3000);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create session key');
+    }
+  };
+
+  const handleVatRulesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setVatRulesForm(prev => ({ ...prev, [name]: value }));
+    if (error) setError('');
+    if (success) setSuccess('');
+  };
+
+  const handleSaveVatRules = () => {
+    try {
+      saveCountryRules({
+        ...rules[vatCountry],
+        vatRate: parseFloat(vatRulesForm.vatRatePercent) / 100,
+        minPurchaseAmount: parseFloat(vatRulesForm.minPurchaseAmount),
+        exportDeadlineDays: Number(vatRulesForm.exportDeadlineDays),
+        excludedResidencies: vatRulesForm.excludedResidencies
+          .split(/[\s,]+/)
+          .map(code => code.trim().toUpperCase())
+          .filter(Boolean),
+        commissionRate: parseFloat(vatRulesForm.commissionPercent) / 100,
+        fixedFee: parseFloat(vatRulesForm.fixedFee) || 0,
+      });
+      setSuccess(`VAT refund rules for ${rules[vatCountry].name} updated successfully`);
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update VAT refund rules');
+    }
+  };
+
+  const handleResetVatRules = () => {
+    resetCountryRules(vatCountry);
+    setSuccess(`VAT refund rules for ${rules[vatCountry].name} reset to defaults`);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handleAiFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setAiForm(prev => name === 'provider'
+      // A model name only means something to the provider it belongs to
+      ? { ...prev, provider: value as AIProviderId, model: DEFAULT_AI_MODELS[value as AIProviderId] }
+      : { ...prev, [name]: value });
+    if (error) setError('');
+    if (success) setSuccess('');
+  };
+
+  const handleSaveAISettings = () => {
+    try {
+      saveAISettings({
+        provider: aiForm.provider,
+        model: aiForm.model.trim(),
+        temperature: parseFloat(aiForm.temperature),
+        baseUrl: aiForm.baseUrl.trim(),
+      });
+      setSuccess('AI assistant settings updated successfully');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update AI assistant settings');
+    }
+  };
+
   const handleExportData = async () => {
     if (!user) return;
 
@@ -367,6 +605,477 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
                 </div>
               </div>
             </div>
+
+            {/* Approval Policy */}
+            <div className="mt-4 sm:mt-8 bg-white border border-gray-200 rounded-lg p-4 sm:p-6 shadow-sm">
+              <div className="flex items-center space-x-2 sm:space-x-3 mb-4 sm:mb-6">
+                <div className="w-8 h-8 sm:w-10 sm:h-10 bg-black rounded-lg flex items-center justify-center">
+                  <ShieldCheck className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-base sm:text-xl font-semibold text-gray-900">Approval Policy</h2>
+                  <p className="text-xs sm:text-sm text-gray-600">Who must sign off on a pay run before it is sent</p>
+                </div>
+              </div>
+
+              <div className="space-y-4 sm:space-y-6">
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                    Approver Wallets
+                  </label>
+                  <textarea
+                    name="approvers"
+                    value={policyForm.approvers}
+                    onChange={handlePolicyChange}
+                    rows={3}
+                    placeholder="One wallet address per line. Leave empty to approve runs yourself."
+                    className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full font-mono focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm"
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Runs Over
+                    </label>
+                    <input
+                      type="number"
+                      name="thresholdAmount"
+                      value={policyForm.thresholdAmount}
+                      onChange={handlePolicyChange}
+                      min="0"
+                      step="0.01"
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Token
+                    </label>
+                    <select
+                      name="thresholdToken"
+                      value={policyForm.thresholdToken}
+                      onChange={handlePolicyChange}
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    >
+                      <option value="USDC">USDC</option>
+                      <option value="YELLOW">YELLOW</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Need Approvals
+                    </label>
+                    <input
+                      type="number"
+                      name="requiredApprovals"
+                      value={policyForm.requiredApprovals}
+                      onChange={handlePolicyChange}
+                      min="1"
+                      step="1"
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    />
+                  </div>
+                </div>
+
+                <label className="flex items-center space-x-2 text-xs sm:text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    name="makerCanApprove"
+                    checked={policyForm.makerCanApprove}
+                    onChange={handlePolicyChange}
+                    className="rounded border-gray-300"
+                  />
+                  <span>The wallet that creates a pay run may also approve it</span>
+                </label>
+
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">
+                    Runs at or below the threshold need a single approval.
+                  </p>
+                  <button
+                    onClick={handleSavePolicy}
+                    className="flex items-center space-x-2 btn-primary px-3 py-2 sm:px-4 sm:py-2 text-sm sm:text-base"
+                  >
+                    <Save className="w-3 h-3 sm:w-4 sm:h-4" />
+                    <span>Save Policy</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Session Keys */}
+            <div className="mt-4 sm:mt-8 bg-white border border-gray-200 rounded-lg p-4 sm:p-6 shadow-sm">
+              <div className="flex items-center space-x-2 sm:space-x-3 mb-4 sm:mb-6">
+                <div className="w-8 h-8 sm:w-10 sm:h-10 bg-black rounded-lg flex items-center justify-center">
+                  <KeyRound className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-base sm:text-xl font-semibold text-gray-900">Session Keys</h2>
+                  <p className="text-xs sm:text-sm text-gray-600">Let a temporary key sign channel payments without a wallet prompt each time</p>
+                </div>
+              </div>
+
+              {sessionError && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-xs sm:text-sm text-red-700">
+                  {sessionError}
+                </div>
+              )}
+
+              {session ? (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-xs sm:text-sm">
+                    <div>
+                      <p className="text-gray-500 mb-1">Key</p>
+                      <p className="font-mono text-gray-900 break-all">{session.sessionKey}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500 mb-1">Expires</p>
+                      <p className="text-gray-900">{new Date(session.expiresAt).toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500 mb-1">May</p>
+                      <p className="text-gray-900">
+                        {session.authorization.scope.operations.map(operation => SESSION_OPERATION_LABELS[operation]).join(', ')}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500 mb-1">Allowances</p>
+                      {Object.entries(session.authorization.scope.allowances).map(([token, cap]) => (
+                        <p key={token} className="text-gray-900">
+                          {formatAmount(fromUnits(session.spent[token] || 0n, token))} of {formatAmount(fromUnits(cap, token), { symbol: true })} spent
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Pays {session.authorization.scope.recipients.length} wallet{session.authorization.scope.recipients.length === 1 ? '' : 's'}. Rotating issues a new key with what is left of each allowance.
+                  </p>
+                  <div className="flex items-center justify-end space-x-2">
+                    <button
+                      onClick={rotateSession}
+                      disabled={sessionLoading}
+                      className="flex items-center space-x-2 btn-secondary px-3 py-2 sm:px-4 sm:py-2 text-sm sm:text-base disabled:opacity-50"
+                    >
+                      <RefreshCw className="w-3 h-3 sm:w-4 sm:h-4" />
+                      <span>Rotate</span>
+                    </button>
+                    <button
+                      onClick={revokeSession}
+                      disabled={sessionLoading}
+                      className="flex items-center space-x-2 btn-primary px-3 py-2 sm:px-4 sm:py-2 text-sm sm:text-base disabled:opacity-50"
+                    >
+                      <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                      <span>Revoke</span>
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-4 sm:space-y-6">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {SESSION_OPERATIONS.map(operation => (
+                      <label key={operation} className="flex items-center space-x-2 text-xs sm:text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={sessionForm.operations.includes(operation)}
+                          onChange={() => toggleSessionOperation(operation)}
+                          className="rounded border-gray-300"
+                        />
+                        <span>{SESSION_OPERATION_LABELS[operation]}</span>
+                      </label>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    {SESSION_TOKENS.map(token => (
+                      <div key={token}>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                          {token} Cap
+                        </label>
+                        <input
+                          type="number"
+                          name={token}
+                          value={sessionForm[token as 'USDC' | 'YELLOW']}
+                          onChange={handleSessionFormChange}
+                          min="0"
+                          step="0.01"
+                          placeholder="Not allowed"
+                          className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                        />
+                      </div>
+                    ))}
+                    <div>
+                      <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                        Expires In (hours)
+                      </label>
+                      <input
+                        type="number"
+                        name="expiryHours"
+                        value={sessionForm.expiryHours}
+                        onChange={handleSessionFormChange}
+                        min="1"
+                        step="1"
+                        className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Recipients
+                    </label>
+                    <textarea
+                      name="recipients"
+                      value={sessionForm.recipients}
+                      onChange={handleSessionFormChange}
+                      rows={3}
+                      placeholder="One wallet address per line. The key cannot pay anyone else."
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full font-mono focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm"
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-500">
+                      Your wallet signs the key's limits once.
+                    </p>
+                    <button
+                      onClick={handleCreateSession}
+                      disabled={sessionLoading}
+                      className="flex items-center space-x-2 btn-primary px-3 py-2 sm:px-4 sm:py-2 text-sm sm:text-base disabled:opacity-50"
+                    >
+                      <KeyRound className="w-3 h-3 sm:w-4 sm:h-4" />
+                      <span>{sessionLoading ? 'Waiting for wallet...' : 'Create Session Key'}</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* VAT Refund Rules */}
+            <div className="mt-4 sm:mt-8 bg-white border border-gray-200 rounded-lg p-4 sm:p-6 shadow-sm">
+              <div className="flex items-center space-x-2 sm:space-x-3 mb-4 sm:mb-6">
+                <div className="w-8 h-8 sm:w-10 sm:h-10 bg-black rounded-lg flex items-center justify-center">
+                  <Receipt className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-base sm:text-xl font-semibold text-gray-900">VAT Refund Rules</h2>
+                  <p className="text-xs sm:text-sm text-gray-600">Which claims qualify for a refund in each country, and your commission</p>
+                </div>
+              </div>
+
+              <div className="space-y-4 sm:space-y-6">
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                    Country
+                  </label>
+                  <select
+                    value={vatCountry}
+                    onChange={(e) => setVatCountry(e.target.value)}
+                    className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                  >
+                    {Object.values(rules).map(countryRules => (
+                      <option key={countryRules.country} value={countryRules.country}>
+                        {countryRules.name} ({countryRules.currency})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Standard VAT Rate (%)
+                    </label>
+                    <input
+                      type="number"
+                      name="vatRatePercent"
+                      value={vatRulesForm.vatRatePercent}
+                      onChange={handleVatRulesChange}
+                      min="0.01"
+                      max="99.99"
+                      step="0.01"
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Minimum Purchase ({rules[vatCountry]?.currency})
+                    </label>
+                    <input
+                      type="number"
+                      name="minPurchaseAmount"
+                      value={vatRulesForm.minPurchaseAmount}
+                      onChange={handleVatRulesChange}
+                      min="0"
+                      step="0.01"
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Export Deadline (days)
+                    </label>
+                    <input
+                      type="number"
+                      name="exportDeadlineDays"
+                      value={vatRulesForm.exportDeadlineDays}
+                      onChange={handleVatRulesChange}
+                      min="1"
+                      step="1"
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Commission (%)
+                    </label>
+                    <input
+                      type="number"
+                      name="commissionPercent"
+                      value={vatRulesForm.commissionPercent}
+                      onChange={handleVatRulesChange}
+                      min="0"
+                      max="99.99"
+                      step="0.01"
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Fixed Fee ({rules[vatCountry]?.currency})
+                    </label>
+                    <input
+                      type="number"
+                      name="fixedFee"
+                      value={vatRulesForm.fixedFee}
+                      onChange={handleVatRulesChange}
+                      min="0"
+                      step="0.01"
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                    Excluded Residencies
+                  </label>
+                  <input
+                    type="text"
+                    name="excludedResidencies"
+                    value={vatRulesForm.excludedResidencies}
+                    onChange={handleVatRulesChange}
+                    placeholder="Two letter country codes, e.g. AE, SA"
+                    className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full font-mono focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={handleResetVatRules}
+                    className="text-xs sm:text-sm text-gray-600 hover:text-gray-900 underline"
+                  >
+                    Reset to defaults
+                  </button>
+                  <button
+                    onClick={handleSaveVatRules}
+                    className="flex items-center space-x-2 btn-primary px-3 py-2 sm:px-4 sm:py-2 text-sm sm:text-base"
+                  >
+                    <Save className="w-3 h-3 sm:w-4 sm:h-4" />
+                    <span>Save Rules</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* AI Assistant */}
+            <div className="mt-4 sm:mt-8 bg-white border border-gray-200 rounded-lg p-4 sm:p-6 shadow-sm">
+              <div className="flex items-center space-x-2 sm:space-x-3 mb-4 sm:mb-6">
+                <div className="w-8 h-8 sm:w-10 sm:h-10 bg-black rounded-lg flex items-center justify-center">
+                  <Bot className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-base sm:text-xl font-semibold text-gray-900">AI Assistant</h2>
+                  <p className="text-xs sm:text-sm text-gray-600">The language model that answers your payroll questions</p>
+                </div>
+              </div>
+
+              <div className="space-y-4 sm:space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Provider
+                    </label>
+                    <select
+                      name="provider"
+                      value={aiForm.provider}
+                      onChange={handleAiFormChange}
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    >
+                      {(Object.keys(AI_PROVIDER_LABELS) as AIProviderId[]).map(provider => (
+                        <option key={provider} value={provider}>{AI_PROVIDER_LABELS[provider]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Model
+                    </label>
+                    <input
+                      type="text"
+                      name="model"
+                      value={aiForm.model}
+                      onChange={handleAiFormChange}
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Temperature
+                    </label>
+                    <input
+                      type="number"
+                      name="temperature"
+                      value={aiForm.temperature}
+                      onChange={handleAiFormChange}
+                      min="0"
+                      max="2"
+                      step="0.05"
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm sm:text-base"
+                    />
+                  </div>
+                </div>
+
+                {aiForm.provider === 'openai_compatible' && (
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                      Server URL
+                    </label>
+                    <input
+                      type="url"
+                      name="baseUrl"
+                      value={aiForm.baseUrl}
+                      onChange={handleAiFormChange}
+                      placeholder="http://localhost:11434/v1"
+                      className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 sm:px-4 sm:py-3 w-full font-mono focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm"
+                    />
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">
+                    API keys are read from the environment and never stored in the browser.
+                  </p>
+                  <button
+                    onClick={handleSaveAISettings}
+                    className="flex items-center space-x-2 btn-primary px-3 py-2 sm:px-4 sm:py-2 text-sm sm:text-base"
+                  >
+                    <Save className="w-3 h-3 sm:w-4 sm:h-4" />
+                    <span>Save AI Settings</span>
+                  </button>
+                </div>
+              </div>
+            </div>
           </div>
 
           {/* Profile Summary */}
@@ -9,8 +9,12 @@ import {
   CheckCircle, 
   Clock,
   Users,
-  Activity
+  Activity,
+  RefreshCw,
+  ShieldCheck
 } from 'lucide-react';
+import { getStateHash, StateIntent } from '@erc7824/nitrolite';
+import type { Hex } from 'viem';
 import { 
   createPaymentChannel, 
   sendPayment, 
@@ -20,6 +24,15 @@ import {
   connectWallet,
   disconnectWallet
 } from '../utils/yellowNetwork';
+import {
+  channelWatchtower,
+  yellowNetworkService,
+  type ChannelReconciliation,
+  type StateUpdate
+} from '../services/yellowNetworkService';
+import type { WatchedChannel } from '../services/channelWatchtower';
+import { getPayrunIdFromState, verifyChannelState } from '../utils/payrollChannel';
+import { formatAmount, fromUnits, SUPPORTED_TOKENS } from '../utils/money';
 
 interface Channel {
   id: string;
@@ -30,6 +43,37 @@ interface Channel {
   createdAt: Date;
 }
 
+// A channel the Yellow Network service holds co-signed states for
+interface SignedChannel {
+  id: string;
+  participants: string[];
+  history: StateUpdate[];
+  // Whether the latest state carries a valid signature from every participant
+  verified?: boolean;
+  watched?: WatchedChannel;
+  reconciliation?: ChannelReconciliation;
+}
+
+const RECONCILIATION_LABELS: Record<ChannelReconciliation['outcome'], string> = {
+  in_sync: 'In sync with the clearnode',
+  local_ahead: 'The clearnode has not seen the latest signed state',
+  remote_ahead: 'The clearnode holds a newer state than this browser',
+  unknown_to_clearnode: 'The clearnode has no record of this channel',
+  closed_remotely: 'The clearnode reports this channel closed'
+};
+
+const STATE_INTENT_LABELS: Record<StateIntent, string> = {
+  [StateIntent.OPERATE]: 'Payment',
+  [StateIntent.INITIALIZE]: 'Funding',
+  [StateIntent.RESIZE]: 'Resize',
+  [StateIntent.FINALIZE]: 'Final',
+};
+
+const formatAllocation = (token: string, amount: bigint) => {
+  const symbol = Object.keys(SUPPORTED_TOKENS).find(key => SUPPORTED_TOKENS[key].address.toLowerCase() === token.toLowerCase());
+  return symbol ? formatAmount(fromUnits(amount, symbol), { symbol: true }) : `${amount.toString()} units`;
+};
+
 interface StateChannelManagerProps {
   onClose: () => void;
 }
@@ -46,11 +90,35 @@ export const StateChannelManager: React.FC<StateChannelManagerProps> = ({ onClos
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [signedChannels, setSignedChannels] = useState<SignedChannel[]>([]);
+  const [expandedChannelId, setExpandedChannelId] = useState<string | null>(null);
 
   useEffect(() => {
     checkConnection();
+    loadSignedChannels();
   }, []);
 
+  // Reads the service's channels and checks the signatures on each latest state
+  const loadSignedChannels = async () => {
+    // Channels restored from storage after a reload are included
+    await yellowNetworkService.whenReady();
+    const loaded = yellowNetworkService.getChannelIds().map(id => ({
+      id,
+      participants: yellowNetworkService.getChannelConfig(id)?.participants || [],
+      history: yellowNetworkService.getChannelHistory(id),
+      watched: channelWatchtower.getWatchedChannel(id as Hex),
+      reconciliation: yellowNetworkService.getReconciliation(id)
+    }));
+    const verified = await Promise.all(loaded.map(async channel => {
+      const latest = channel.history[channel.history.length - 1];
+      return {
+        ...channel,
+        verified: latest ? await verifyChannelState(channel.id as Hex, latest, channel.participants as Hex[]) : false
+      };
+    }));
+    setSignedChannels(verified);
+  };
+
   const checkConnection = async () => {
     try {
       // Check if wallet is connected
@@ -408,6 +476,108 @@ export const StateChannelManager: React.FC<StateChannelManagerProps> = ({ onClos
           )}
         </div>
 
+        {/* Co-signed channel states, e.g. pay run channels */}
+        {isConnected && (
+          <div className="px-6 pb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold text-gray-900">Signed Channel States</h3>
+              <button onClick={loadSignedChannels} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                <RefreshCw className="w-4 h-4 text-gray-500" />
+              </button>
+            </div>
+            {signedChannels.length === 0 ? (
+              <p className="text-sm text-gray-600">No pay run channels have been opened in this session</p>
+            ) : (
+              <div className="space-y-3">
+                {signedChannels.map(channel => {
+                  const latest = channel.history[channel.history.length - 1];
+                  if (!latest) return null;
+                  const isFinal = latest.intent === StateIntent.FINALIZE;
+                  const payrunId = getPayrunIdFromState(latest);
+
+                  return (
+                    <div key={channel.id} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                      <div className="flex items-center justify-between mb-3">
+                        <div>
+                          <h4 className="font-semibold text-gray-900 font-mono">{channel.id.slice(0, 10)}...{channel.id.slice(-6)}</h4>
+                          <p className="text-sm text-gray-600">
+                            Version {latest.version.toString()}
+                            {payrunId && ` • Pay run ${payrunId.slice(0, 8)}`}
+                            {' • '}{channel.history.length} signed states
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className={`flex items-center px-2 py-1 rounded-full text-xs font-medium ${channel.verified ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                            <ShieldCheck className="w-3 h-3 mr-1" />
+                            {channel.verified ? 'Signatures valid' : 'Signatures invalid'}
+                          </span>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(isFinal ? 'closed' : 'open')}`}>
+                            {isFinal ? 'closed' : 'open'}
+                          </span>
+                        </div>
+                      </div>
+
+                      <p className="text-xs text-gray-500 uppercase tracking-wide mb-1">Allocations</p>
+                      <div className="space-y-1 mb-3">
+                        {latest.allocations.map((allocation, index) => (
+                          <div key={`${allocation.destination}-${index}`} className="flex justify-between text-sm">
+                            <span className="font-mono text-gray-700">
+                              {allocation.destination.slice(0, 10)}...
+                              {index === 0 ? ' (employer)' : index === 1 ? ' (clearnode)' : ''}
+                            </span>
+                            <span className="text-gray-900">{formatAllocation(allocation.token, allocation.amount)}</span>
+                          </div>
+                        ))}
+                      </div>
+
+                      <p className="text-xs text-gray-500 uppercase tracking-wide mb-1">Signatures</p>
+                      <div className="space-y-1 mb-3">
+                        {latest.sigs.map((sig, index) => (
+                          <p key={index} className="text-xs font-mono text-gray-600 break-all">
+                            {channel.participants[index]?.slice(0, 10)}...: {sig.slice(0, 20)}...{sig.slice(-8)}
+                          </p>
+                        ))}
+                      </div>
+
+                      {channel.reconciliation && channel.reconciliation.outcome !== 'in_sync' && (
+                        <p className="text-sm mb-3 text-orange-700">
+                          {RECONCILIATION_LABELS[channel.reconciliation.outcome]}
+                          {channel.reconciliation.remoteVersion !== undefined && ` (clearnode at version ${channel.reconciliation.remoteVersion.toString()})`}
+                        </p>
+                      )}
+
+                      {channel.watched && (
+                        <p className={`text-sm mb-3 ${channel.watched.dispute ? 'text-orange-700' : 'text-gray-600'}`}>
+                          Watchtower guarding version {channel.watched.state.version.toString()}
+                          {channel.watched.dispute && ` • disputed on chain at version ${channel.watched.dispute.onChainVersion.toString()}, ends ${new Date(Number(channel.watched.dispute.challengeExpiry) * 1000).toLocaleString()}`}
+                          {channel.watched.dispute?.challengedWithVersion !== undefined && ` • challenged with version ${channel.watched.dispute.challengedWithVersion.toString()}`}
+                        </p>
+                      )}
+
+                      <button
+                        onClick={() => setExpandedChannelId(expandedChannelId === channel.id ? null : channel.id)}
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        {expandedChannelId === channel.id ? 'Hide state history' : 'Show state history'}
+                      </button>
+                      {expandedChannelId === channel.id && (
+                        <div className="mt-2 space-y-1">
+                          {channel.history.map(state => (
+                            <div key={state.version.toString()} className="flex justify-between text-xs text-gray-600">
+                              <span>v{state.version.toString()} • {STATE_INTENT_LABELS[state.intent]} • {state.sigs.length} signatures</span>
+                              <span className="font-mono">{getStateHash(channel.id as Hex, state).slice(0, 18)}...</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Create Channel Modal */}
         {showCreateChannel && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-60">
@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AlertTriangle, RotateCcw, Trash2 } from 'lucide-react';
+import type { OutboxEntry } from '../lib/storage';
+
+interface SyncIssuesDropdownProps {
+  isOpen: boolean;
+  onToggle: () => void;
+  deadLetters: OutboxEntry[];
+  onRetry: (id: string) => Promise<void>;
+  onDiscard: (id: string) => Promise<void>;
+}
+
+const OPERATION_LABELS: Record<OutboxEntry['op'], string> = {
+  insert: 'New',
+  update: 'Changed',
+  remove: 'Deleted',
+};
+
+// Writes the server refused for good. Each record is listed once, since its
+// refused writes are retried or discarded together.
+export const SyncIssuesDropdown: React.FC<SyncIssuesDropdownProps> = ({
+  isOpen,
+  onToggle,
+  deadLetters,
+  onRetry,
+  onDiscard
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node) && isOpen) {
+        onToggle();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, onToggle]);
+
+  const records = deadLetters.filter((entry, index) =>
+    deadLetters.findIndex(other => other.collection === entry.collection && other.record_id === entry.record_id) === index
+  );
+
+  const handleAction = async (id: string, action: (id: string) => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action(id);
+    } catch (err) {
+      console.error('Error resolving sync issue:', err);
+      setError(err instanceof Error ? err.message : 'Could not resolve the sync issue');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      ref={dropdownRef}
+      className="absolute right-0 mt-2 w-80 sm:w-96 bg-white border border-gray-200 rounded-lg shadow-xl z-50 overflow-hidden"
+    >
+      {/* Header */}
+      <div className="p-3 sm:p-4 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center space-x-2">
+          <AlertTriangle className="w-4 h-4 sm:w-5 sm:h-5 text-red-600" />
+          <h3 className="font-semibold text-gray-900 text-sm sm:text-base">Changes that could not be synced</h3>
+        </div>
+        <p className="text-xs text-gray-600 mt-1">
+          The server refused these changes. Retry once the problem is fixed, or discard them to keep the server's copy.
+        </p>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 sm:px-4 bg-red-50 text-xs text-red-700 border-b border-red-100">{error}</div>
+      )}
+
+      {/* Refused writes */}
+      <div className="max-h-80 overflow-y-auto">
+        {records.map(entry => (
+          <div key={entry.id} className="p-3 sm:p-4 border-b border-gray-100">
+            <div className="flex items-start justify-between">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {OPERATION_LABELS[entry.op]} {entry.collection.replace(/_/g, ' ')}
+                </p>
+                <p className="text-xs text-gray-500 truncate">{entry.record_id}</p>
+                {entry.last_error && <p className="text-xs text-red-600 mt-1 line-clamp-2">{entry.last_error}</p>}
+              </div>
+              <div className="flex items-center space-x-1 ml-2 flex-shrink-0">
+                <button
+                  onClick={() => handleAction(entry.id, onRetry)}
+                  disabled={busyId !== null}
+                  className="p-1.5 text-gray-500 hover:text-gray-900 transition-colors rounded-full hover:bg-gray-100 disabled:opacity-50"
+                  title="Retry"
+                  aria-label="Retry sync"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleAction(entry.id, onDiscard)}
+                  disabled={busyId !== null}
+                  className="p-1.5 text-gray-500 hover:text-red-600 transition-colors rounded-full hover:bg-gray-100 disabled:opacity-50"
+                  title="Discard"
+                  aria-label="Discard change"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Footer */}
+      <div className="p-3 border-t border-gray-200 bg-gray-50 text-center">
+        <button
+          onClick={onToggle}
+          className="text-xs text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -21,6 +21,8 @@ import {
   closeChannel,
   getChannelStatus
 } from '../utils/yellowNetwork';
+import { checkOffChainBalance, requestTestTokens } from '../utils/faucetManager';
+import { isClearnodeSimulatorEnabled } from '../services/clearnodeSimulator';
 
 interface TestResult {
   name: string;
@@ -42,6 +44,7 @@ export const TestnetTester: React.FC<TestnetTesterProps> = ({ onClose }) => {
     { name: 'State Channel Creation', status: 'pending' },
     { name: 'Payment Processing', status: 'pending' },
     { name: 'Channel Management', status: 'pending' },
+    { name: 'Clearnode Faucet', status: 'pending' },
     { name: 'Error Handling', status: 'pending' }
   ]);
   const [isRunning, setIsRunning] = useState(false);
@@ -69,7 +72,8 @@ export const TestnetTester: React.FC<TestnetTesterProps> = ({ onClose }) => {
   };
 
   const testEnvironmentConfig = async () => {
-    const requiredVars = [
+    // The local simulator needs no clearnode or Nitrolite credentials
+    const requiredVars = isClearnodeSimulatorEnabled() ? [] : [
       'VITE_YELLOW_NETWORK_CLEARNODE_URL',
       'VITE_NITROLITE_APP_ID',
       'VITE_NITROLITE_API_KEY'
@@ -116,7 +120,7 @@ export const TestnetTester: React.FC<TestnetTesterProps> = ({ onClose }) => {
 
   const testStateChannelCreation = async () => {
     // Create a test channel with a dummy recipient
-    const testRecipient = '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6';
+    const testRecipient = '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6';
     const result = await createPaymentChannel(testRecipient, 1, 'YELLOW');
     
     if (!result.success) {
@@ -125,7 +129,7 @@ export const TestnetTester: React.FC<TestnetTesterProps> = ({ onClose }) => {
   };
 
   const testPaymentProcessing = async () => {
-    const testRecipient = '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6';
+    const testRecipient = '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6';
     const result = await sendPayment(testRecipient, 0.1, 'YELLOW');
     
     if (!result.success) {
@@ -145,6 +149,26 @@ export const TestnetTester: React.FC<TestnetTesterProps> = ({ onClose }) => {
     }
   };
 
+  const testClearnodeFaucet = async () => {
+    // Faucet tokens should show up in the unified balance the clearnode reports
+    const testRecipient = '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6';
+    const before = await checkOffChainBalance(testRecipient);
+    if (!before.success) {
+      throw new Error(before.error || 'Failed to read the off-chain balance');
+    }
+
+    const faucet = await requestTestTokens(testRecipient, 10, 'USDC');
+    if (!faucet.success) {
+      throw new Error(faucet.error || 'Faucet request failed');
+    }
+
+    const after = await checkOffChainBalance(testRecipient);
+    const credited = (after.balance || 0) - (before.balance || 0);
+    if (!after.success || credited !== 10) {
+      throw new Error(after.error || `Expected 10 USDC to be credited, got ${credited}`);
+    }
+  };
+
   const testErrorHandling = async () => {
     // Test with invalid address
     try {
@@ -171,6 +195,7 @@ export const TestnetTester: React.FC<TestnetTesterProps> = ({ onClose }) => {
       { name: 'State Channel Creation', fn: testStateChannelCreation },
       { name: 'Payment Processing', fn: testPaymentProcessing },
       { name: 'Channel Management', fn: testChannelManagement },
+      { name: 'Clearnode Faucet', fn: testClearnodeFaucet },
       { name: 'Error Handling', fn: testErrorHandling }
     ];
 
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { TrendingUp, RefreshCw, Eye, Wallet, Copy, Activity, Coins, Brain } from 'lucide-react';
 import { getAccountBalance, getConnectedAccount, isWalletConnected, formatAddress } from '../utils/algorand';
+import { fromUnits, toNumber } from '../utils/money';
 import { StateChannelManager } from './StateChannelManager';
 import { GaslessTransactionManager } from './GaslessTransactionManager';
 import { NitroliteExamplesManager } from './NitroliteExamplesManager';
@@ -251,7 +252,7 @@ export const TokenBalance: React.FC = () => {
               <TokenRow
                 key={asset.assetId}
                 symbol={asset.unitName}
-                amount={asset.amount / Math.pow(10, asset.decimals)}
+                amount={toNumber(fromUnits(BigInt(asset.amount), asset.unitName, asset.decimals))}
                 unitName={asset.name}
               />
             ))}
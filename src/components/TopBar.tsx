@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
-import { Bell, Search } from 'lucide-react';
+import { Bell, Search, Cloud, CloudOff, RefreshCw, AlertTriangle, ShieldAlert } from 'lucide-react';
 import { NotificationDropdown } from './NotificationDropdown';
+import { SyncIssuesDropdown } from './SyncIssuesDropdown';
 import { useNotifications } from '../hooks/useNotifications';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { useWalletIdentity } from '../hooks/useWalletIdentity';
 
 interface TopBarProps {
   activeTab: string;
@@ -9,7 +12,17 @@ interface TopBarProps {
 
 export const TopBar: React.FC<TopBarProps> = ({ activeTab }) => {
   const { notifications} = useNotifications();
+  const {
+    status: syncStatus,
+    retry: retrySync,
+    clearConflicts,
+    retryDeadLetter,
+    discardDeadLetter
+  } = useSyncStatus();
+  // Supabase only accepts the wallet's reads and writes once it is verified
+  const { status: identityStatus, error: identityError, verify: verifyWallet } = useWalletIdentity();
   const [showNotifications, setShowNotifications] = useState(false);
+  const [showSyncIssues, setShowSyncIssues] = useState(false);
 
   const unreadCount = notifications.filter(n => !n.is_read).length;
 
@@ -60,6 +73,42 @@ export const TopBar: React.FC<TopBarProps> = ({ activeTab }) => {
 
   const { title, subtitle } = getPageTitle();
 
+  const getSyncIndicator = () => {
+    if (!syncStatus) return null;
+    const pending = syncStatus.pending > 0 ? ` · ${syncStatus.pending} pending` : '';
+    const refused = syncStatus.deadLetters.length;
+
+    // Refused writes need the user, so they outrank everything but a running sync
+    if (refused > 0 && syncStatus.state !== 'syncing') {
+      return { label: `${refused} change${refused === 1 ? '' : 's'} not synced`, icon: AlertTriangle, className: 'bg-red-50 text-red-700', spin: false };
+    }
+
+    switch (syncStatus.state) {
+      case 'syncing':
+        return { label: `Syncing${pending}`, icon: RefreshCw, className: 'bg-blue-50 text-blue-700', spin: true };
+      case 'offline':
+        return { label: `Offline${pending}`, icon: CloudOff, className: 'bg-gray-100 text-gray-700', spin: false };
+      case 'error':
+        return { label: `Sync failed${pending}`, icon: AlertTriangle, className: 'bg-red-50 text-red-700', spin: false };
+      default:
+        return syncStatus.conflicts.length > 0
+          ? { label: `${syncStatus.conflicts.length} merged conflict${syncStatus.conflicts.length === 1 ? '' : 's'}`, icon: AlertTriangle, className: 'bg-yellow-50 text-yellow-800', spin: false }
+          : { label: `Synced${pending}`, icon: Cloud, className: 'bg-green-50 text-green-700', spin: false };
+    }
+  };
+
+  const syncIndicator = getSyncIndicator();
+
+  const handleSyncClick = () => {
+    if (syncStatus && syncStatus.deadLetters.length > 0) {
+      setShowSyncIssues(!showSyncIssues);
+    } else if (syncStatus?.state === 'error' || syncStatus?.state === 'offline') {
+      retrySync().catch(err => console.error('Error retrying sync:', err));
+    } else if (syncStatus && syncStatus.conflicts.length > 0) {
+      clearConflicts();
+    }
+  };
+
   const toggleNotifications = () => {
     setShowNotifications(!showNotifications);
   };
@@ -85,6 +134,45 @@ export const TopBar: React.FC<TopBarProps> = ({ activeTab }) => {
             />
           </div>
 
+          {/* Sync status */}
+          {syncIndicator && (
+            <div className="relative">
+              <button
+                onClick={handleSyncClick}
+                className={`flex items-center space-x-1.5 px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${syncIndicator.className}`}
+                title={syncStatus?.lastError || (syncStatus?.lastSyncedAt ? `Last synced ${new Date(syncStatus.lastSyncedAt).toLocaleTimeString()}` : 'Not synced yet')}
+                aria-label="Sync status"
+              >
+                <syncIndicator.icon className={`w-3.5 h-3.5 ${syncIndicator.spin ? 'animate-spin' : ''}`} />
+                <span className="hidden sm:inline">{syncIndicator.label}</span>
+              </button>
+
+              {showSyncIssues && syncStatus && syncStatus.deadLetters.length > 0 && (
+                <SyncIssuesDropdown
+                  isOpen={showSyncIssues}
+                  onToggle={() => setShowSyncIssues(false)}
+                  deadLetters={syncStatus.deadLetters}
+                  onRetry={retryDeadLetter}
+                  onDiscard={discardDeadLetter}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Wallet verification */}
+          {(identityStatus === 'verifying' || identityStatus === 'failed') && (
+            <button
+              onClick={() => verifyWallet()}
+              disabled={identityStatus === 'verifying'}
+              className={`flex items-center space-x-1.5 px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${identityStatus === 'failed' ? 'bg-red-50 text-red-700' : 'bg-blue-50 text-blue-700'}`}
+              title={identityError || 'Sign the message in your wallet to reach your synced data'}
+              aria-label="Wallet verification"
+            >
+              <ShieldAlert className="w-3.5 h-3.5" />
+              <span className="hidden sm:inline">{identityStatus === 'failed' ? 'Verify wallet' : 'Verifying wallet'}</span>
+            </button>
+          )}
+
           {/* Notifications */}
           <div className="relative">
             <button
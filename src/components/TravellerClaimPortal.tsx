@@ -0,0 +1,548 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Clock, Copy, ExternalLink, FileCheck, QrCode, RefreshCw, Upload } from 'lucide-react';
+import { resolvePayoutAddress } from '../utils/addressValidation';
+import { DEFAULT_VAT_COUNTRY, DEFAULT_VAT_RULES, evaluateVATClaim, inferVATCountry } from '../utils/vatRules';
+import { VAT_CLAIM_STATUS_LABELS } from '../utils/vatClaims';
+import { hashDocument } from '../utils/vatFraud';
+import { extractReceipt } from '../utils/receiptExtraction';
+import { formatFiat } from '../utils/fx';
+import { buildClaimStatusLink, type TravellerPortalRoute } from '../utils/vatClaimLinks';
+import {
+  addTravellerClaimDocuments,
+  fetchTravellerClaim,
+  submitTravellerClaim,
+  type TravellerClaimStatus
+} from '../services/vatPortalService';
+
+interface TravellerClaimPortalProps {
+  route: TravellerPortalRoute;
+}
+
+// Status links of claims submitted from this browser, so travellers can find
+// them again
+const SAVED_CLAIMS_KEY = 'revatix_traveller_claims';
+
+interface SavedClaimLink {
+  claimId: string;
+  link: string;
+  merchant: string;
+  submitted_at: string;
+}
+
+const readSavedClaims = (): SavedClaimLink[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_CLAIMS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const EMPTY_FORM = {
+  country: DEFAULT_VAT_COUNTRY,
+  merchantName: '',
+  vatRegNo: '',
+  receiptNo: '',
+  purchaseDate: '',
+  billAmount: '',
+  vatAmount: '',
+  passportNo: '',
+  nationality: '',
+  departureDate: '',
+  flightNo: '',
+  receiverWalletAddress: '',
+  payoutToken: 'USDC'
+};
+
+const inputClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const TravellerClaimPortal: React.FC<TravellerClaimPortalProps> = ({ route }) => {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [statusLink, setStatusLink] = useState<string>('');
+  const [claimStatus, setClaimStatus] = useState<TravellerClaimStatus | null>(null);
+  const [linkInvalid, setLinkInvalid] = useState(false);
+  const [savedClaims] = useState<SavedClaimLink[]>(readSavedClaims);
+
+  const loadStatus = useCallback(async () => {
+    if (route.view !== 'status') return;
+    setIsLoading(true);
+    setErrorMessage(null);
+    try {
+      const status = await fetchTravellerClaim(route.operator, route.claimId, route.token);
+      setClaimStatus(status);
+      setLinkInvalid(!status);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load your claim');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [route]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: name === 'nationality' ? value.toUpperCase() : value }));
+  };
+
+  // Pre-fills the form from the receipt; the traveller checks it before submitting
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSelectedFile(file);
+    setNotice(null);
+
+    try {
+      const { fields } = await extractReceipt(file);
+      const country = inferVATCountry(DEFAULT_VAT_RULES, { vatRegNo: fields.vatRegNo?.value, currency: fields.currency?.value });
+      setFormData(prev => ({
+        ...prev,
+        merchantName: fields.merchantName?.value || prev.merchantName,
+        vatRegNo: fields.vatRegNo?.value || prev.vatRegNo,
+        receiptNo: fields.receiptNo?.value || prev.receiptNo,
+        purchaseDate: fields.purchaseDate?.value || prev.purchaseDate,
+        billAmount: fields.grossAmount?.value || prev.billAmount,
+        vatAmount: fields.vatAmount?.value || prev.vatAmount,
+        ...(country ? { country } : {})
+      }));
+      setNotice('We filled in what we could read from your receipt. Please check every field.');
+    } catch (error) {
+      console.error('Failed to read VAT receipt:', error);
+      setNotice('We could not read your receipt; please enter its details below.');
+    }
+  };
+
+  const claimDetails = {
+    country: formData.country,
+    bill_amount: parseFloat(formData.billAmount) || 0,
+    vat_amount: parseFloat(formData.vatAmount) || 0,
+    purchase_date: formData.purchaseDate,
+    nationality: formData.nationality.trim(),
+    departure_date: formData.departureDate || undefined
+  };
+  // The operator decides with its own rules; the defaults catch the obvious
+  const eligibilityPreview = formData.vatAmount ? evaluateVATClaim(claimDetails, DEFAULT_VAT_RULES) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (
+      !formData.vatRegNo || !formData.receiptNo || !formData.billAmount || !formData.vatAmount ||
+      !formData.purchaseDate || !formData.passportNo || !formData.nationality || !formData.receiverWalletAddress
+    ) {
+      setErrorMessage('Please fill in all required fields');
+      return;
+    }
+    if (!/^[A-Z]{2}$/.test(formData.nationality.trim())) {
+      setErrorMessage('Enter the country of residence as a two letter code, e.g. GB');
+      return;
+    }
+
+    setIsLoading(true);
+    setErrorMessage(null);
+
+    try {
+      const receiver = await resolvePayoutAddress(formData.receiverWalletAddress);
+      if (!receiver.valid || !receiver.address) {
+        throw new Error(receiver.error || 'Please enter a valid EVM wallet address');
+      }
+
+      const { claimId, token } = await submitTravellerClaim(route.operator, {
+        ...claimDetails,
+        vat_reg_no: formData.vatRegNo,
+        receipt_no: formData.receiptNo,
+        merchant_name: formData.merchantName,
+        document_name: selectedFile?.name,
+        document_hash: selectedFile ? await hashDocument(selectedFile) : undefined,
+        passport_no: formData.passportNo,
+        flight_no: formData.flightNo || undefined,
+        receiver_wallet: receiver.address,
+        payout_token: formData.payoutToken
+      });
+
+      const link = buildClaimStatusLink(window.location.origin, route.operator, claimId, token);
+      localStorage.setItem(SAVED_CLAIMS_KEY, JSON.stringify([
+        { claimId, link, merchant: formData.merchantName || formData.vatRegNo, submitted_at: new Date().toISOString() },
+        ...readSavedClaims()
+      ]));
+      setStatusLink(link);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to submit your claim. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddDocuments = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (route.view !== 'status' || !e.target.files?.length) return;
+    const files = Array.from(e.target.files);
+
+    setIsLoading(true);
+    setErrorMessage(null);
+    try {
+      const documents = await Promise.all(files.map(async file => ({ name: file.name, hash: await hashDocument(file) })));
+      setClaimStatus(await addTravellerClaimDocuments(route.operator, route.claimId, route.token, documents));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to send your documents');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setNotice('Link copied');
+    } catch {
+      setNotice('Copy the link from the box above');
+    }
+  };
+
+  const renderStatusLink = (link: string) => (
+    <div className="flex flex-col items-center">
+      <div className="bg-white border-2 border-gray-300 rounded-lg p-6 w-[200px] h-[200px] flex items-center justify-center mb-4">
+        <div className="text-center">
+          <QrCode className="w-16 h-16 mx-auto mb-3 text-gray-700" />
+          <div className="text-sm text-gray-600">Claim Status</div>
+          <div className="text-xs text-gray-500 mt-1">ID: {link.split('claim=')[1]?.slice(0, 8)}</div>
+        </div>
+      </div>
+      <div className="w-full flex gap-2">
+        <input readOnly value={link} className={`${inputClass} text-xs font-mono bg-gray-50`} />
+        <button
+          onClick={() => handleCopyLink(link)}
+          className="flex items-center border border-gray-300 text-gray-700 font-medium py-2 px-3 rounded-lg hover:bg-gray-50"
+        >
+          <Copy className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-2 text-center">
+        Anyone with this link can see the claim's status. Keep it private.
+      </p>
+    </div>
+  );
+
+  const renderSubmitView = () => {
+    if (!route.operator) {
+      return (
+        <div className="text-center py-12">
+          <AlertCircle className="w-10 h-10 text-red-500 mx-auto mb-3" />
+          <p className="text-gray-700">This refund link is incomplete. Ask the store or refund desk for a new one.</p>
+        </div>
+      );
+    }
+
+    if (statusLink) {
+      return (
+        <div className="space-y-6">
+          <div className="text-center">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-3" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Claim Submitted</h2>
+            <p className="text-gray-600">
+              Save this link or scan the code to follow your refund. It is the only way to see your claim.
+            </p>
+          </div>
+          {renderStatusLink(statusLink)}
+          <div className="flex justify-center gap-3">
+            <a href={statusLink} className="bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-6 rounded-lg">
+              Track Claim
+            </a>
+            <button
+              onClick={() => {
+                setStatusLink('');
+                setFormData(EMPTY_FORM);
+                setSelectedFile(null);
+                setNotice(null);
+              }}
+              className="border border-gray-300 text-gray-700 font-medium py-2 px-6 rounded-lg hover:bg-gray-50"
+            >
+              Submit Another Receipt
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    const countryRules = DEFAULT_VAT_RULES[formData.country];
+    return (
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg p-6 flex flex-col items-center">
+          <Upload className="w-10 h-10 text-blue-500 mb-3" />
+          <p className="text-gray-700 mb-3 text-center">Upload your receipt to fill in the form</p>
+          <label className="cursor-pointer bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-6 rounded-lg">
+            Select File
+            <input type="file" className="hidden" accept=".pdf,.jpg,.jpeg,.png,.webp,.xml,.txt" onChange={handleFileChange} />
+          </label>
+          {selectedFile && (
+            <div className="mt-3 flex items-center text-sm text-gray-600">
+              <FileCheck className="w-5 h-5 mr-2 text-green-500" />
+              {selectedFile.name}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Country of Purchase *</label>
+            <select name="country" value={formData.country} onChange={handleInputChange} className={inputClass}>
+              {Object.values(DEFAULT_VAT_RULES).map(rules => (
+                <option key={rules.country} value={rules.country}>{rules.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Merchant Name</label>
+            <input name="merchantName" value={formData.merchantName} onChange={handleInputChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Merchant VAT Number *</label>
+            <input name="vatRegNo" value={formData.vatRegNo} onChange={handleInputChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Receipt Number *</label>
+            <input name="receiptNo" value={formData.receiptNo} onChange={handleInputChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Purchase Date *</label>
+            <input type="date" name="purchaseDate" value={formData.purchaseDate} onChange={handleInputChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Total Paid ({countryRules?.currency}) *</label>
+            <input type="number" step="0.01" min="0" name="billAmount" value={formData.billAmount} onChange={handleInputChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">VAT ({countryRules?.currency}) *</label>
+            <input type="number" step="0.01" min="0" name="vatAmount" value={formData.vatAmount} onChange={handleInputChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Passport Number *</label>
+            <input name="passportNo" value={formData.passportNo} onChange={handleInputChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Country of Residence *</label>
+            <input name="nationality" value={formData.nationality} onChange={handleInputChange} maxLength={2} placeholder="e.g. GB" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Departure Date</label>
+            <input type="date" name="departureDate" value={formData.departureDate} onChange={handleInputChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Flight Number</label>
+            <input name="flightNo" value={formData.flightNo} onChange={handleInputChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Refund Paid In</label>
+            <select name="payoutToken" value={formData.payoutToken} onChange={handleInputChange} className={inputClass}>
+              <option value="USDC">USD Coin (USDC)</option>
+              <option value="YELLOW">Yellow Network (YELLOW)</option>
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Payout Wallet Address or Name *</label>
+            <input
+              name="receiverWalletAddress"
+              value={formData.receiverWalletAddress}
+              onChange={handleInputChange}
+              placeholder="0x... or name.eth"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {eligibilityPreview && !eligibilityPreview.eligible && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <h4 className="font-medium text-amber-800 mb-2">This receipt may not qualify</h4>
+            <ul className="list-disc list-inside space-y-1">
+              {eligibilityPreview.reasons.map(reason => (
+                <li key={reason} className="text-sm text-amber-700">{reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {eligibilityPreview?.eligible && (
+          <p className="text-sm text-gray-600">
+            Estimated refund: {formatFiat(eligibilityPreview.refundableAmount, eligibilityPreview.currency)}, confirmed when the claim is reviewed.
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-6 rounded-lg disabled:opacity-50"
+          >
+            {isLoading ? 'Submitting...' : 'Submit Claim'}
+          </button>
+        </div>
+
+        {savedClaims.length > 0 && (
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Claims submitted from this device</h3>
+            <ul className="space-y-1">
+              {savedClaims.map(saved => (
+                <li key={saved.claimId} className="text-sm">
+                  <a href={saved.link} className="text-blue-600 hover:underline">
+                    {saved.merchant || saved.claimId.slice(0, 8)} · {new Date(saved.submitted_at).toLocaleDateString()}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </form>
+    );
+  };
+
+  const renderStatusView = () => {
+    if (isLoading && !claimStatus) {
+      return (
+        <div className="flex justify-center items-center py-12">
+          <div className="w-8 h-8 border-4 border-gray-300 border-t-blue-500 rounded-full animate-spin"></div>
+          <span className="ml-3 text-gray-600">Loading your claim...</span>
+        </div>
+      );
+    }
+
+    if (linkInvalid || !claimStatus) {
+      return (
+        <div className="text-center py-12">
+          <AlertCircle className="w-10 h-10 text-red-500 mx-auto mb-3" />
+          <p className="text-gray-700">This claim link is not valid. Check that you copied all of it.</p>
+        </div>
+      );
+    }
+
+    const { status } = claimStatus;
+    const isFinal = status === 'paid' || status === 'rejected';
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            {status === 'paid' ? (
+              <CheckCircle className="w-8 h-8 text-green-500 mr-3" />
+            ) : status === 'rejected' || status === 'failed' || status === 'needs_info' ? (
+              <AlertCircle className="w-8 h-8 text-red-500 mr-3" />
+            ) : (
+              <Clock className="w-8 h-8 text-amber-500 mr-3" />
+            )}
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">{VAT_CLAIM_STATUS_LABELS[status]}</h2>
+              <p className="text-sm text-gray-600">
+                {claimStatus.merchant_name || 'Receipt'} {claimStatus.receipt_no} · updated {new Date(claimStatus.updated_at).toLocaleString()}
+              </p>
+            </div>
+          </div>
+          {!isFinal && (
+            <button onClick={loadStatus} disabled={isLoading} className="text-gray-500 hover:text-gray-800">
+              <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-2 border-t border-gray-200 pt-4 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Total Paid:</span>
+            <span className="text-gray-900">{formatFiat(claimStatus.bill_amount, claimStatus.currency)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">VAT:</span>
+            <span className="text-gray-900">{formatFiat(claimStatus.vat_amount, claimStatus.currency)}</span>
+          </div>
+          {claimStatus.refundable_amount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Refund:</span>
+              <span className="text-gray-900">{formatFiat(claimStatus.refundable_amount, claimStatus.currency)}</span>
+            </div>
+          )}
+          {claimStatus.payout_amount !== undefined && claimStatus.payout_amount !== null && (
+            <div className="flex justify-between">
+              <span className="text-gray-900 font-semibold">Paid Out:</span>
+              <span className="text-green-600 font-bold">{claimStatus.payout_amount.toFixed(2)} {claimStatus.payout_token}</span>
+            </div>
+          )}
+        </div>
+
+        {status === 'submitted' && (
+          <p className="text-sm text-gray-600">Your claim is waiting to be checked by the refund desk.</p>
+        )}
+        {status === 'in_review' && (
+          <p className="text-sm text-gray-600">Your claim is being reviewed. This usually takes a few days.</p>
+        )}
+        {status === 'approved' && (
+          <p className="text-sm text-gray-600">Your refund is approved and will be sent to your wallet soon.</p>
+        )}
+        {status === 'failed' && (
+          <p className="text-sm text-gray-600">Sending your refund failed. The refund desk will try again.</p>
+        )}
+
+        {(claimStatus.rejection_reasons || []).length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <ul className="list-disc list-inside space-y-1">
+              {(claimStatus.rejection_reasons || []).map(reason => (
+                <li key={reason} className="text-sm text-red-700">{reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {status === 'needs_info' && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3">
+            <h4 className="font-medium text-amber-800">The refund desk needs more documents</h4>
+            {claimStatus.review_note && <p className="text-sm text-amber-700">{claimStatus.review_note}</p>}
+            <label className="inline-block cursor-pointer bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-4 rounded-lg text-sm">
+              {isLoading ? 'Sending...' : 'Upload Documents'}
+              <input type="file" multiple className="hidden" accept=".pdf,.jpg,.jpeg,.png,.webp" onChange={handleAddDocuments} disabled={isLoading} />
+            </label>
+          </div>
+        )}
+
+        {(claimStatus.additional_documents || []).length > 0 && (
+          <div className="text-sm text-gray-600">
+            Documents sent: {(claimStatus.additional_documents || []).map(document => document.name).join(', ')}
+          </div>
+        )}
+
+        {claimStatus.transaction_hash && (
+          <a
+            href={`https://explorer.yellow.network/tx/${claimStatus.transaction_hash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:underline text-sm flex items-center"
+          >
+            View refund transaction <ExternalLink className="w-3 h-3 ml-1" />
+          </a>
+        )}
+
+        {renderStatusLink(window.location.href)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto px-4 py-10">
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">Revatix VAT Refund</h1>
+        <p className="text-gray-600 mb-6">Claim back the VAT on purchases you are taking home.</p>
+
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+          {errorMessage && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+              {errorMessage}
+            </div>
+          )}
+          {notice && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg mb-4 text-sm">
+              {notice}
+            </div>
+          )}
+          {route.view === 'status' ? renderStatusView() : renderSubmitView()}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,742 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, ChevronDown, ChevronRight, Clock, Copy, Download, Search, ShieldAlert } from 'lucide-react';
+import { getConnectedAccount } from '../utils/algorand';
+import { yellowNetworkService } from '../services/yellowNetworkService';
+import { useAccount } from 'wagmi';
+import { useVATRules } from '../hooks/useVATRules';
+import { useVATSettlements } from '../hooks/useVATSettlements';
+import type { FxRate, VATClaim, VATClaimStatus, VATSettlementItem, VATSettlementMethod } from '../lib/supabase';
+import {
+  filterVATClaims,
+  getVATPayoutAmount,
+  VAT_CLAIM_REVIEW_STATUSES,
+  VAT_CLAIM_STATUS_LABELS,
+  type VATClaimFilters
+} from '../utils/vatClaims';
+import { DEFAULT_VAT_RISK_POLICY } from '../utils/vatFraud';
+import {
+  buildVATSettlementReport,
+  createSettlementItems,
+  executeVATSettlement,
+  isSettleableVATClaim,
+  VAT_SETTLEMENT_METHOD_LABELS
+} from '../utils/vatSettlement';
+import { fetchFxRates, formatFiat } from '../utils/fx';
+import { getJournalEntry, recoverInterruptedEntries, resolveUncertainEntry } from '../utils/paymentJournal';
+import { calculatePayRunTotals, formatPayRunTotals } from '../utils/payRuns';
+import { formatAmount } from '../utils/money';
+import { buildTravellerPortalLink } from '../utils/vatClaimLinks';
+import type { VATRules } from '../utils/vatRules';
+
+interface VATOperatorWorkspaceProps {
+  claims: VATClaim[];
+  // Runs eligibility and risk checks on a claim travellers submitted themselves
+  checkSubmittedClaim: (id: string, rules: VATRules, fxRate?: FxRate) => Promise<VATClaim>;
+  reviewClaim: (
+    id: string,
+    decision: 'approved' | 'rejected' | 'needs_info',
+    review: { reviewer: string; note?: string },
+    fxRate?: FxRate
+  ) => Promise<VATClaim>;
+  // Marks a claim as settling in a batch before its payout is sent
+  reserveClaimForSettlement: (id: string, settlementBatchId: string) => Promise<VATClaim>;
+  markClaimPaid: (
+    id: string,
+    payout: { payment_id?: string; transaction_hash?: string; settlement_batch_id?: string }
+  ) => Promise<VATClaim>;
+  markClaimFailed: (id: string, failure: string, settlementBatchId?: string) => Promise<VATClaim>;
+  // Opens a single approved claim in the refund flow to pay it on its own
+  onPayClaim: (claim: VATClaim) => void;
+}
+
+const RISK_FILTERS: Array<{ label: string; minRiskScore: number }> = [
+  { label: 'Any risk', minRiskScore: 0 },
+  { label: 'Flagged', minRiskScore: 1 },
+  { label: 'High risk', minRiskScore: DEFAULT_VAT_RISK_POLICY.reviewThreshold },
+];
+
+const statusBadgeClass = (status: VATClaimStatus) => {
+  switch (status) {
+    case 'paid':
+      return 'bg-green-100 text-green-800';
+    case 'approved':
+    case 'settling':
+      return 'bg-blue-100 text-blue-800';
+    case 'rejected':
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-amber-100 text-amber-800';
+  }
+};
+
+const inputClass = 'border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const VATOperatorWorkspace: React.FC<VATOperatorWorkspaceProps> = ({
+  claims,
+  checkSubmittedClaim,
+  reviewClaim,
+  reserveClaimForSettlement,
+  markClaimPaid,
+  markClaimFailed,
+  onPayClaim
+}) => {
+  const { address } = useAccount();
+  const { rules } = useVATRules();
+  const { batches, createBatch, recordBatchResults } = useVATSettlements();
+  const [filters, setFilters] = useState<VATClaimFilters>({ status: 'in_review' });
+  const [expandedClaimId, setExpandedClaimId] = useState<string | null>(null);
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [reviewingClaimId, setReviewingClaimId] = useState<string | null>(null);
+  const [selectedClaimIds, setSelectedClaimIds] = useState<string[]>([]);
+  const [settlementMethod, setSettlementMethod] = useState<VATSettlementMethod>('bulk');
+  const [isSettling, setIsSettling] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const filteredClaims = useMemo(() => filterVATClaims(claims, filters), [claims, filters]);
+  const selectedClaims = claims.filter(claim => selectedClaimIds.includes(claim.id) && isSettleableVATClaim(claim));
+  const selectedTotals = calculatePayRunTotals(createSettlementItems(selectedClaims));
+  const awaitingReview = claims.filter(claim => VAT_CLAIM_REVIEW_STATUSES.includes(claim.status)).length;
+  const awaitingSettlement = claims.filter(isSettleableVATClaim).length;
+
+  const portalLink = address ? buildTravellerPortalLink(window.location.origin, address) : '';
+
+  const handleCopyPortalLink = async () => {
+    try {
+      await navigator.clipboard.writeText(portalLink);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      setErrorMessage('Could not copy the link; select it and copy it instead');
+    }
+  };
+
+  const updateFilter = (update: Partial<VATClaimFilters>) => {
+    setFilters(prev => ({ ...prev, ...update }));
+  };
+
+  const parseBound = (value: string) => (value === '' ? undefined : Number(value));
+
+  const toggleSelected = (id: string) => {
+    setSelectedClaimIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const selectAllSettleable = () => {
+    setSelectedClaimIds(filteredClaims.filter(isSettleableVATClaim).map(claim => claim.id));
+  };
+
+  const handleReviewDecision = async (claim: VATClaim, decision: 'approved' | 'rejected' | 'needs_info') => {
+    setReviewingClaimId(claim.id);
+    setErrorMessage(null);
+
+    try {
+      if (!address) {
+        throw new Error('Connect your wallet to review claims');
+      }
+      // The payout is re-quoted at today's rate, not the one from submission
+      const [fxRate] = decision === 'approved'
+        ? await fetchFxRates(claim.payout_token, [claim.currency])
+        : [];
+      await reviewClaim(claim.id, decision, {
+        reviewer: address,
+        note: reviewNotes[claim.id]?.trim() || undefined
+      }, fxRate);
+      setReviewNotes(prev => ({ ...prev, [claim.id]: '' }));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to record the review decision');
+    } finally {
+      setReviewingClaimId(null);
+    }
+  };
+
+  // Portal claims arrive undecided; this applies the operator's rules and
+  // quotes the payout at today's rate
+  const handleRunChecks = async (claim: VATClaim) => {
+    setReviewingClaimId(claim.id);
+    setErrorMessage(null);
+
+    try {
+      const currency = rules[claim.country]?.currency;
+      const [fxRate] = currency ? await fetchFxRates(claim.payout_token, [currency]) : [];
+      await checkSubmittedClaim(claim.id, rules, fxRate);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to check the claim');
+    } finally {
+      setReviewingClaimId(null);
+    }
+  };
+
+  // Creates a batch for the selected claims, reserves them, pays it and
+  // records the outcome on every claim and in the batch report. Claims stay
+  // reserved until their outcome is recorded, so a failure to record a
+  // payout can never lead to paying the traveller again.
+  const handleSettle = async () => {
+    setIsSettling(true);
+    setErrorMessage(null);
+
+    try {
+      if (!getConnectedAccount()) {
+        try {
+          await yellowNetworkService.connect();
+        } catch {
+          throw new Error('Failed to connect wallet. Please try again.');
+        }
+      }
+
+      const batch = await createBatch(selectedClaims, settlementMethod);
+
+      // A claim another batch reserved in the meantime is left out, and left alone
+      const reserved = new Set<string>();
+      for (const item of batch.items) {
+        try {
+          await reserveClaimForSettlement(item.claim_id, batch.id);
+          reserved.add(item.claim_id);
+        } catch (reserveError) {
+          console.warn(`VAT claim ${item.claim_id} could not be reserved for settlement:`, reserveError);
+        }
+      }
+      const reservedBatch = {
+        ...batch,
+        items: batch.items.map(item => reserved.has(item.claim_id)
+          ? item
+          : { ...item, status: 'failed' as const, error: 'The claim is no longer available to settle' })
+      };
+
+      let items: VATSettlementItem[];
+      try {
+        items = await executeVATSettlement(reservedBatch);
+      } catch (error) {
+        // Some payouts may have gone out; the journal knows which
+        const failure = error instanceof Error ? error.message : 'Settlement failed';
+        items = reservedBatch.items.map(item => item.status === 'pending' ? { ...item, status: 'uncertain', error: failure } : item);
+      }
+
+      let unrecorded = 0;
+      for (const item of items) {
+        if (!reserved.has(item.claim_id)) continue;
+        try {
+          if (item.status === 'paid') {
+            await markClaimPaid(item.claim_id, { transaction_hash: item.transaction_hash, settlement_batch_id: batch.id });
+          } else if (item.status === 'failed') {
+            await markClaimFailed(item.claim_id, item.error || 'Settlement failed', batch.id);
+          }
+        } catch (claimError) {
+          console.error(`Failed to record settlement of VAT claim ${item.claim_id}:`, claimError);
+          unrecorded++;
+        }
+      }
+
+      await recordBatchResults(batch.id, items);
+      setSelectedClaimIds([]);
+      setExpandedBatchId(batch.id);
+
+      const unresolved = unrecorded + items.filter(item => item.status === 'uncertain').length;
+      if (unresolved > 0) {
+        setErrorMessage(`${unresolved} claim(s) stay reserved until their payout is resolved; open them to check and resolve each one`);
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to settle the selected claims');
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  // Settles a claim left reserved by an interrupted batch, or one whose
+  // payout could not be recorded. The journal says what is known about it.
+  const handleResolveSettlement = async (claim: VATClaim, outcome: 'paid' | 'failed') => {
+    const batchId = claim.settlement_batch_id;
+    setReviewingClaimId(claim.id);
+    setErrorMessage(null);
+
+    try {
+      if (!batchId) {
+        throw new Error(`VAT claim ${claim.id} has no settlement batch`);
+      }
+      recoverInterruptedEntries(batchId);
+      const entry = getJournalEntry(batchId, claim.id);
+      if (entry?.status === 'uncertain') {
+        resolveUncertainEntry(batchId, claim.id, outcome);
+      }
+
+      const failure = 'Marked as not paid after review';
+      if (outcome === 'paid') {
+        await markClaimPaid(claim.id, { transaction_hash: entry?.tx_hash, settlement_batch_id: batchId });
+      } else {
+        await markClaimFailed(claim.id, failure, batchId);
+      }
+
+      const batch = batches.find(b => b.id === batchId);
+      if (batch) {
+        await recordBatchResults(batchId, batch.items.map(item => item.claim_id !== claim.id ? item : {
+          ...item,
+          status: outcome,
+          transaction_hash: outcome === 'paid' ? entry?.tx_hash : item.transaction_hash,
+          error: outcome === 'failed' ? failure : undefined
+        }));
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to resolve the settlement');
+    } finally {
+      setReviewingClaimId(null);
+    }
+  };
+
+  const handleDownloadReport = (batchId: string) => {
+    const batch = batches.find(b => b.id === batchId);
+    if (!batch) return;
+
+    const blob = new Blob([buildVATSettlementReport(batch, claims)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vat-settlement-${batch.created_at.split('T')[0]}-${batch.id.slice(0, 8)}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const renderSettlementRecovery = (claim: VATClaim) => {
+    const entry = claim.settlement_batch_id ? getJournalEntry(claim.settlement_batch_id, claim.id) : null;
+    const sent = entry?.status === 'paid';
+    const inDoubt = entry?.status === 'uncertain' || entry?.status === 'in_flight';
+    const busy = reviewingClaimId === claim.id;
+
+    return (
+      <div className="border border-amber-200 bg-amber-50 rounded-lg p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <p className="text-sm text-amber-800">
+          {sent
+            ? `The payout went out${entry?.tx_hash ? ` (${entry.tx_hash.slice(0, 10)}...)` : ''} but was not recorded on the claim.`
+            : inDoubt
+              ? 'The settlement stopped while this payout was being sent. Check the receiver wallet before resolving it.'
+              : 'The settlement stopped before this payout was sent.'}
+        </p>
+        <div className="flex gap-2">
+          {(sent || inDoubt) && (
+            <button
+              onClick={() => handleResolveSettlement(claim, 'paid')}
+              disabled={busy}
+              className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg text-sm"
+            >
+              {inDoubt ? 'It Was Paid' : 'Record as Paid'}
+            </button>
+          )}
+          {!sent && (
+            <button
+              onClick={() => handleResolveSettlement(claim, 'failed')}
+              disabled={busy}
+              className="border border-gray-300 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm hover:bg-gray-100 disabled:opacity-50"
+            >
+              {inDoubt ? 'It Was Not Paid' : 'Release for Settlement'}
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderClaimDetails = (claim: VATClaim) => {
+    const canReview = VAT_CLAIM_REVIEW_STATUSES.includes(claim.status) && claim.status !== 'submitted';
+    const payout = getVATPayoutAmount(claim);
+
+    return (
+      <div className="bg-gray-50 px-4 py-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          <div>
+            <p className="text-gray-600">Receipt</p>
+            <p className="text-gray-900">{claim.vat_reg_no} · {claim.receipt_no} · {claim.purchase_date}</p>
+          </div>
+          <div>
+            <p className="text-gray-600">Bill / VAT</p>
+            <p className="text-gray-900">{formatFiat(claim.bill_amount, claim.currency)} / {formatFiat(claim.vat_amount, claim.currency)}</p>
+          </div>
+          <div>
+            <p className="text-gray-600">Traveller</p>
+            <p className="text-gray-900">
+              {claim.passport_no} · {claim.nationality}{claim.departure_date ? ` · departs ${claim.departure_date}` : ''}
+            </p>
+          </div>
+          <div className="md:col-span-2">
+            <p className="text-gray-600">Receiver</p>
+            <p className="text-gray-900 break-all">{claim.receiver_wallet}</p>
+          </div>
+          <div>
+            <p className="text-gray-600">Payout</p>
+            <p className="text-gray-900">
+              {payout ? formatAmount(payout, { symbol: true }) : '-'}
+            </p>
+          </div>
+          <div className="md:col-span-3">
+            <p className="text-gray-600">Documents</p>
+            <p className="text-gray-900">
+              {[claim.document_name, ...(claim.additional_documents || []).map(document => document.name)]
+                .filter(Boolean)
+                .join(', ') || '-'}
+              {claim.submitted_via === 'portal' && <span className="text-gray-500"> · submitted by the traveller</span>}
+            </p>
+          </div>
+        </div>
+
+        {(claim.risk_flags || []).length > 0 && (
+          <ul className="space-y-1">
+            {(claim.risk_flags || []).map(flag => (
+              <li key={flag.rule} className="text-sm text-amber-800 flex items-start">
+                <ShieldAlert className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                <span>
+                  {flag.message}
+                  {flag.related_claim_ids && flag.related_claim_ids.length > 0 && (
+                    <span className="text-amber-600"> (claims {flag.related_claim_ids.map(id => id.slice(0, 8)).join(', ')})</span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {(claim.rejection_reasons || []).length > 0 && (
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {(claim.rejection_reasons || []).map(reason => <li key={reason}>{reason}</li>)}
+          </ul>
+        )}
+
+        {claim.review_note && (
+          <p className="text-sm text-gray-700">
+            Review note{claim.reviewed_by ? ` by ${claim.reviewed_by.slice(0, 10)}...` : ''}: {claim.review_note}
+          </p>
+        )}
+        {claim.error && <p className="text-sm text-red-700">Last payout error: {claim.error}</p>}
+
+        {claim.status === 'submitted' && (
+          <div className="flex justify-end">
+            <button
+              onClick={() => handleRunChecks(claim)}
+              disabled={reviewingClaimId !== null}
+              className="bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-4 rounded-lg text-sm disabled:opacity-50"
+            >
+              {reviewingClaimId === claim.id ? 'Checking...' : 'Run Checks'}
+            </button>
+          </div>
+        )}
+
+        {canReview && (
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <input
+              type="text"
+              value={reviewNotes[claim.id] || ''}
+              onChange={(e) => setReviewNotes(prev => ({ ...prev, [claim.id]: e.target.value }))}
+              placeholder="Reason or documents needed"
+              className={`flex-1 ${inputClass}`}
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleReviewDecision(claim, 'rejected')}
+                disabled={reviewingClaimId !== null}
+                className="border border-red-300 text-red-700 font-medium py-2 px-4 rounded-lg text-sm hover:bg-red-50 disabled:opacity-50"
+              >
+                Reject
+              </button>
+              {claim.status !== 'needs_info' && (
+                <button
+                  onClick={() => handleReviewDecision(claim, 'needs_info')}
+                  disabled={reviewingClaimId !== null}
+                  className="border border-gray-300 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Request Documents
+                </button>
+              )}
+              <button
+                onClick={() => handleReviewDecision(claim, 'approved')}
+                disabled={reviewingClaimId !== null}
+                className="bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-4 rounded-lg text-sm disabled:opacity-50"
+              >
+                {reviewingClaimId === claim.id ? 'Saving...' : 'Approve'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {claim.status === 'settling' && !isSettling && renderSettlementRecovery(claim)}
+
+        {isSettleableVATClaim(claim) && (
+          <div className="flex justify-end">
+            <button
+              onClick={() => onPayClaim(claim)}
+              className="border border-gray-300 text-gray-700 font-medium py-2 px-4 rounded-lg text-sm hover:bg-gray-100"
+            >
+              Pay Individually
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center mb-4 gap-2">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Claims Workspace</h2>
+            <p className="text-sm text-gray-600">
+              {awaitingReview} awaiting review · {awaitingSettlement} approved and awaiting settlement
+            </p>
+          </div>
+          {portalLink && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600">Traveller portal link</span>
+              <input readOnly value={portalLink} className={`w-64 font-mono text-xs bg-gray-50 ${inputClass}`} />
+              <button
+                onClick={handleCopyPortalLink}
+                className="flex items-center border border-gray-300 text-gray-700 font-medium py-2 px-3 rounded-lg text-sm hover:bg-gray-100"
+              >
+                {linkCopied ? <CheckCircle className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {errorMessage && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+            {errorMessage}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-4">
+          <select
+            value={filters.status || 'all'}
+            onChange={(e) => updateFilter({ status: e.target.value as VATClaimFilters['status'] })}
+            className={inputClass}
+          >
+            <option value="all">All statuses</option>
+            {(Object.keys(VAT_CLAIM_STATUS_LABELS) as VATClaimStatus[])
+              .filter(status => status !== 'draft')
+              .map(status => (
+                <option key={status} value={status}>{VAT_CLAIM_STATUS_LABELS[status]}</option>
+              ))}
+          </select>
+          <select
+            value={filters.country || ''}
+            onChange={(e) => updateFilter({ country: e.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">All countries</option>
+            {Object.values(rules).map(countryRules => (
+              <option key={countryRules.country} value={countryRules.country}>{countryRules.name}</option>
+            ))}
+          </select>
+          <div className="relative md:col-span-2">
+            <input
+              type="text"
+              value={filters.merchant || ''}
+              onChange={(e) => updateFilter({ merchant: e.target.value })}
+              placeholder="Merchant or VAT number"
+              className={`w-full pl-9 ${inputClass}`}
+            />
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              value={filters.minAmount ?? ''}
+              onChange={(e) => updateFilter({ minAmount: parseBound(e.target.value) })}
+              placeholder="Min refund"
+              className={`w-full ${inputClass}`}
+            />
+            <input
+              type="number"
+              min="0"
+              value={filters.maxAmount ?? ''}
+              onChange={(e) => updateFilter({ maxAmount: parseBound(e.target.value) })}
+              placeholder="Max refund"
+              className={`w-full ${inputClass}`}
+            />
+          </div>
+          <select
+            value={filters.minRiskScore ?? 0}
+            onChange={(e) => updateFilter({ minRiskScore: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {RISK_FILTERS.map(risk => (
+              <option key={risk.label} value={risk.minRiskScore}>{risk.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {filteredClaims.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No claims match the filters</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="py-3 px-2 w-8"></th>
+                  <th className="text-left py-3 px-2 font-semibold text-gray-600 text-sm">Submitted</th>
+                  <th className="text-left py-3 px-2 font-semibold text-gray-600 text-sm">Merchant</th>
+                  <th className="text-center py-3 px-2 font-semibold text-gray-600 text-sm">Country</th>
+                  <th className="text-right py-3 px-2 font-semibold text-gray-600 text-sm">Refundable</th>
+                  <th className="text-center py-3 px-2 font-semibold text-gray-600 text-sm">Risk</th>
+                  <th className="text-center py-3 px-2 font-semibold text-gray-600 text-sm">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredClaims.map(claim => (
+                  <React.Fragment key={claim.id}>
+                    <tr
+                      className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedClaimId(expandedClaimId === claim.id ? null : claim.id)}
+                    >
+                      <td className="py-3 px-2" onClick={(e) => e.stopPropagation()}>
+                        {isSettleableVATClaim(claim) && (
+                          <input
+                            type="checkbox"
+                            checked={selectedClaimIds.includes(claim.id)}
+                            onChange={() => toggleSelected(claim.id)}
+                          />
+                        )}
+                      </td>
+                      <td className="py-3 px-2 text-sm text-gray-800">
+                        <div className="flex items-center">
+                          {expandedClaimId === claim.id
+                            ? <ChevronDown className="w-4 h-4 mr-1 text-gray-400" />
+                            : <ChevronRight className="w-4 h-4 mr-1 text-gray-400" />}
+                          {new Date(claim.submitted_at || claim.created_at).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="py-3 px-2 text-sm text-gray-800">
+                        {claim.merchant_name || claim.vat_reg_no}
+                        <span className="text-gray-500"> · {claim.receipt_no}</span>
+                      </td>
+                      <td className="py-3 px-2 text-sm text-center text-gray-800">{claim.country}</td>
+                      <td className="py-3 px-2 text-sm text-right text-gray-800">
+                        {formatFiat(claim.refundable_amount, claim.currency)}
+                      </td>
+                      <td className="py-3 px-2 text-sm text-center">
+                        <span className={(claim.risk_score ?? 0) >= DEFAULT_VAT_RISK_POLICY.reviewThreshold ? 'text-red-700 font-medium' : 'text-gray-800'}>
+                          {claim.risk_score ?? '-'}
+                        </span>
+                      </td>
+                      <td className="py-3 px-2 text-center">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusBadgeClass(claim.status)}`}>
+                          {VAT_CLAIM_STATUS_LABELS[claim.status]}
+                        </span>
+                      </td>
+                    </tr>
+                    {expandedClaimId === claim.id && (
+                      <tr className="border-b border-gray-100">
+                        <td colSpan={7}>{renderClaimDetails(claim)}</td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-3 mt-4 pt-4 border-t border-gray-200">
+          <div className="text-sm text-gray-700">
+            {selectedClaims.length > 0
+              ? `${selectedClaims.length} selected · ${formatPayRunTotals(selectedTotals)}`
+              : 'Select approved claims to settle them in one batch'}
+            <button onClick={selectAllSettleable} className="ml-3 text-blue-600 hover:underline">
+              Select all approved
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={settlementMethod}
+              onChange={(e) => setSettlementMethod(e.target.value as VATSettlementMethod)}
+              className={inputClass}
+            >
+              {(Object.keys(VAT_SETTLEMENT_METHOD_LABELS) as VATSettlementMethod[]).map(method => (
+                <option key={method} value={method}>{VAT_SETTLEMENT_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleSettle}
+              disabled={isSettling || selectedClaims.length === 0}
+              className="bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-4 rounded-lg text-sm disabled:opacity-50"
+            >
+              {isSettling ? 'Settling...' : `Settle ${selectedClaims.length || ''} Claims`}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Settlement Batches</h3>
+        {batches.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No claims have been settled in batches yet</div>
+        ) : (
+          <div className="space-y-3">
+            {batches.map(batch => {
+              const paid = batch.items.filter(item => item.status === 'paid').length;
+              const failed = batch.items.filter(item => item.status === 'failed').length;
+              return (
+                <div key={batch.id} className="border border-gray-200 rounded-lg">
+                  <div
+                    className="flex justify-between items-center p-4 cursor-pointer hover:bg-gray-50"
+                    onClick={() => setExpandedBatchId(expandedBatchId === batch.id ? null : batch.id)}
+                  >
+                    <div className="flex items-center">
+                      {batch.status === 'completed' ? (
+                        <CheckCircle className="w-5 h-5 mr-3 text-green-500" />
+                      ) : batch.status === 'executing' ? (
+                        <Clock className="w-5 h-5 mr-3 text-amber-500" />
+                      ) : (
+                        <AlertCircle className="w-5 h-5 mr-3 text-red-500" />
+                      )}
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {new Date(batch.created_at).toLocaleString()} · {VAT_SETTLEMENT_METHOD_LABELS[batch.method]}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatPayRunTotals(batch.totals)} · {paid} paid, {failed} failed of {batch.items.length}
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDownloadReport(batch.id);
+                      }}
+                      className="flex items-center text-sm text-blue-600 hover:underline"
+                    >
+                      <Download className="w-4 h-4 mr-1" /> Report
+                    </button>
+                  </div>
+                  {expandedBatchId === batch.id && (
+                    <div className="border-t border-gray-200 overflow-x-auto">
+                      <table className="w-full">
+                        <tbody>
+                          {batch.items.map(item => (
+                            <tr key={item.claim_id} className="border-b border-gray-100 text-sm">
+                              <td className="py-2 px-4 text-gray-800">{item.claim_id.slice(0, 8)}...</td>
+                              <td className="py-2 px-4 text-gray-800 break-all">{item.receiver_wallet}</td>
+                              <td className="py-2 px-4 text-right text-gray-800">{item.amount.toFixed(2)} {item.token}</td>
+                              <td className={`py-2 px-4 ${item.status === 'paid' ? 'text-green-700' : item.status === 'failed' ? 'text-red-700' : item.status === 'uncertain' ? 'text-amber-700' : 'text-gray-600'}`}>
+                                {item.status === 'failed'
+                                  ? `Failed: ${item.error}`
+                                  : item.status === 'paid' ? 'Paid' : item.status === 'uncertain' ? 'Needs review' : 'Pending'}
+                              </td>
+                              <td className="py-2 px-4 font-mono text-gray-600">
+                                {item.transaction_hash ? `${item.transaction_hash.slice(0, 10)}...` : '-'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
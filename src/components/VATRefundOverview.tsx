@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { Receipt, ArrowRight, Clock, CheckCircle, ExternalLink } from 'lucide-react';
+import { Receipt, ArrowRight, Clock, CheckCircle, ExternalLink, AlertCircle } from 'lucide-react';
 import { usePayments } from '../hooks/usePayments';
+import { useVATClaims } from '../hooks/useVATClaims';
 
 interface VATRefundOverviewProps {
   setActiveTab: (tab: string) => void;
@@ -27,6 +28,7 @@ interface RefundItem {
 
 export const VATRefundOverview: React.FC<VATRefundOverviewProps> = ({ setActiveTab, refreshKey = 0 }) => {
   const { getAllPayments } = usePayments();
+  const { claims } = useVATClaims();
   const [isLoading, setIsLoading] = useState(true);
   const [stats, setStats] = useState<RefundStats>({
     totalRefunded: 0,
@@ -43,27 +45,58 @@ export const VATRefundOverview: React.FC<VATRefundOverviewProps> = ({ setActiveT
       setIsLoading(true);
       try {
         const allPayments = await getAllPayments();
-        
-        // Filter VAT refund payments
-        const vatRefunds = allPayments.filter(payment => payment.employee_id === 'vat-refund');
+
+        // Claims, plus refunds paid before claims existed, which were recorded
+        // only as payments with employee_id 'vat-refund'
+        const claimPaymentIds = new Set(claims.map(claim => claim.payment_id));
+        const vatRefunds: Array<RefundItem & { paid_at?: string; submitted_at?: string }> = [
+          ...claims.map(claim => ({
+            id: claim.id,
+            date: claim.created_at,
+            amount: claim.payout_amount ?? 0,
+            status: claim.status,
+            token: claim.payout_token,
+            transaction_hash: claim.transaction_hash,
+            submitted_at: claim.submitted_at,
+            paid_at: claim.paid_at
+          })),
+          ...allPayments
+            .filter(payment => payment.employee_id === 'vat-refund' && !claimPaymentIds.has(payment.id))
+            .map(payment => ({
+              id: payment.id,
+              date: payment.created_at,
+              amount: payment.amount,
+              status: payment.status === 'completed' ? 'paid' : payment.status,
+              token: payment.token || 'YELLOW',
+              transaction_hash: payment.transaction_hash
+            }))
+        ];
         
         if (vatRefunds.length === 0) {
           setIsLoading(false);
           return;
         }
         
-        // Calculate stats
-        const completedRefunds = vatRefunds.filter(payment => payment.status === 'completed');
-        const pendingRefunds = vatRefunds.filter(payment => payment.status === 'pending');
+        // Calculate stats; approved claims and failed payouts are still owed
+        const completedRefunds = vatRefunds.filter(refund => refund.status === 'paid');
+        const pendingRefunds = vatRefunds.filter(refund => ['pending', 'submitted', 'in_review', 'needs_info', 'approved', 'failed'].includes(refund.status));
         
-        const totalRefunded = completedRefunds.reduce((sum, payment) => sum + payment.amount, 0);
-        const pendingAmount = pendingRefunds.reduce((sum, payment) => sum + payment.amount, 0);
+        const totalRefunded = completedRefunds.reduce((sum, refund) => sum + refund.amount, 0);
+        const pendingAmount = pendingRefunds.reduce((sum, refund) => sum + refund.amount, 0);
         
-        // Calculate average processing time (mock for now)
-        const averageProcessingTime = '1 day';
+        // Average time from submission to payout over paid claims
+        const processingTimes = completedRefunds
+          .filter(refund => refund.submitted_at && refund.paid_at)
+          .map(refund => new Date(refund.paid_at as string).getTime() - new Date(refund.submitted_at as string).getTime());
+        const averageHours = processingTimes.length > 0
+          ? processingTimes.reduce((sum, time) => sum + time, 0) / processingTimes.length / 3600000
+          : 0;
+        const averageProcessingTime = averageHours < 24
+          ? `${Math.max(Math.round(averageHours), processingTimes.length > 0 ? 1 : 0)} hours`
+          : `${Math.round(averageHours / 24)} days`;
         
         // Get the most recent refund date
-        const dates = vatRefunds.map(payment => new Date(payment.created_at).getTime());
+        const dates = vatRefunds.map(refund => new Date(refund.date).getTime());
         const lastRefundDate = dates.length > 0 ? new Date(Math.max(...dates)).toISOString() : new Date().toISOString();
         
         setStats({
@@ -77,16 +110,9 @@ export const VATRefundOverview: React.FC<VATRefundOverviewProps> = ({ setActiveT
         
         // Get recent refunds (most recent 3)
         const sortedRefunds = [...vatRefunds]
-          .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
           .slice(0, 3)
-          .map(payment => ({
-            id: payment.id,
-            date: payment.created_at,
-            amount: payment.amount,
-            status: payment.status,
-            token: payment.token || 'YELLOW',
-            transaction_hash: payment.transaction_hash
-          }));
+          .map(({ id, date, amount, status, token, transaction_hash }) => ({ id, date, amount, status, token, transaction_hash }));
         
         setRecentRefunds(sortedRefunds);
       } catch (error) {
@@ -97,7 +123,7 @@ export const VATRefundOverview: React.FC<VATRefundOverviewProps> = ({ setActiveT
     };
     
     fetchVATRefundData();
-  }, [getAllPayments, refreshKey]);
+  }, [getAllPayments, claims, refreshKey]);
 
   return (
     <div className="stat-card">
@@ -182,8 +208,10 @@ export const VATRefundOverview: React.FC<VATRefundOverviewProps> = ({ setActiveT
                 {recentRefunds.map((refund) => (
                   <div key={refund.id} className="flex items-center justify-between text-xs sm:text-sm">
                     <div className="flex items-center space-x-2">
-                      {refund.status === 'completed' ? (
+                      {refund.status === 'paid' ? (
                         <CheckCircle className="w-3 h-3 text-green-500" />
+                      ) : refund.status === 'rejected' || refund.status === 'failed' ? (
+                        <AlertCircle className="w-3 h-3 text-red-500" />
                       ) : (
                         <Clock className="w-3 h-3 text-yellow-500" />
                       )}
@@ -4,22 +4,59 @@ import { getConnectedAccount, sendBulkPayment } from '../utils/algorand';
 import { yellowNetworkService } from '../services/yellowNetworkService';
 import { usePayments } from '../hooks/usePayments';
 import { useAccount, useSendTransaction } from "wagmi";
-import { parseEther } from "viem";
+import { resolvePayoutAddress } from '../utils/addressValidation';
+import { parseAmount, toDecimalString } from '../utils/money';
+import { useVATRules } from '../hooks/useVATRules';
+import { useVATClaims } from '../hooks/useVATClaims';
+import { DEFAULT_VAT_COUNTRY, evaluateVATClaim, inferVATCountry } from '../utils/vatRules';
+import { getVATPayoutAmount, VAT_CLAIM_REVIEW_STATUSES, VAT_CLAIM_STATUS_LABELS } from '../utils/vatClaims';
+import { hashDocument } from '../utils/vatFraud';
+import { VATOperatorWorkspace } from './VATOperatorWorkspace';
+import { fetchFxRates, formatFiat, formatFxRate } from '../utils/fx';
+import type { VATClaim } from '../lib/supabase';
+import {
+  extractReceipt,
+  isLowConfidence,
+  RECEIPT_FIELD_LABELS,
+  type ReceiptExtraction,
+  type ReceiptField,
+} from '../utils/receiptExtraction';
 
 
 interface VATRefundPageProps {
   onBack?: () => void;
 }
 
+// Claim form fields pre-filled from the uploaded document
+const EXTRACTED_FORM_FIELDS: Record<string, ReceiptField> = {
+  merchantName: 'merchantName',
+  vatRegNo: 'vatRegNo',
+  receiptNo: 'receiptNo',
+  purchaseDate: 'purchaseDate',
+  billAmount: 'grossAmount',
+  vatAmount: 'vatAmount',
+};
+
 export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
   const { createPayment, getAllPayments } = usePayments();
-  const [activeTab, setActiveTab] = useState<'upload' | 'history'>('upload');
+  const { rules } = useVATRules();
+  const {
+    claims,
+    submitClaim,
+    checkSubmittedClaim,
+    reviewClaim,
+    reserveClaimForSettlement,
+    markClaimPaid,
+    markClaimFailed
+  } = useVATClaims();
+  const [activeTab, setActiveTab] = useState<'upload' | 'review' | 'history'>('upload');
   const [step, setStep] = useState<'upload' | 'review' | 'sign' | 'confirmation' | 'error'>('upload');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [qrValue, setQrValue] = useState<string>('');
-  const [refundAmount, setRefundAmount] = useState<number>(0);
+  const [claim, setClaim] = useState<VATClaim | null>(null);
+  const [extraction, setExtraction] = useState<ReceiptExtraction | null>(null);
   const [entryMode, setEntryMode] = useState<'upload' | 'manual'>('upload');
   const [selectedToken, setSelectedToken] = useState<'YELLOW' | 'USDC'>('YELLOW');
   const [transactionStatus, setTransactionStatus] = useState<'waiting' | 'confirmed' | 'rejected'>('waiting');
@@ -31,6 +68,9 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
   const { address } = useAccount();
   const { sendTransactionAsync } = useSendTransaction();
 
+  // Only approved claims carry a payout amount
+  const refundAmount = claim?.payout_amount ?? 0;
+
   // Form fields for manual entry
   const [formData, setFormData] = useState({
     vatRegNo: '',
@@ -44,6 +84,8 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
     purchaseDate: '',
     merchantName: '',
     merchantAddress: '',
+    country: DEFAULT_VAT_COUNTRY,
+    departureDate: '',
     receiverWalletAddress: ''
   });
 
@@ -54,19 +96,32 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
       try {
         const allPayments = await getAllPayments();
 
-        // Filter payments that are VAT refunds (employee_id === 'vat-refund')
-        const vatRefunds = allPayments
-          .filter(payment => payment.employee_id === 'vat-refund')
+        const claimRefunds = claims.map(vatClaim => ({
+          id: vatClaim.id,
+          date: vatClaim.created_at,
+          amount: vatClaim.payout_amount ?? 0,
+          status: vatClaim.status,
+          token: vatClaim.payout_token,
+          transaction_hash: vatClaim.transaction_hash,
+          reasons: vatClaim.rejection_reasons || (vatClaim.error ? [vatClaim.error] : [])
+        }));
+
+        // Refunds paid before claims existed were recorded only as payments
+        // with employee_id 'vat-refund'
+        const claimPaymentIds = new Set(claims.map(vatClaim => vatClaim.payment_id));
+        const legacyRefunds = allPayments
+          .filter(payment => payment.employee_id === 'vat-refund' && !claimPaymentIds.has(payment.id))
           .map(payment => ({
             id: payment.id,
             date: payment.created_at,
             amount: payment.amount,
-            status: payment.status,
+            status: payment.status === 'completed' ? 'paid' : payment.status,
             token: payment.token,
             transaction_hash: payment.transaction_hash,
-            payment_date: payment.payment_date,
-            document: payment.employee_id === 'vat-refund' ? 'VAT Refund' : ''
-          }))
+            reasons: [] as string[]
+          }));
+
+        const vatRefunds = [...claimRefunds, ...legacyRefunds]
           .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
         setRefundHistory(vatRefunds);
@@ -78,44 +133,106 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
     };
 
     fetchRefundHistory();
-  }, [getAllPayments, refreshKey]);
+  }, [getAllPayments, claims, refreshKey]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setSelectedFile(e.target.files[0]);
-      // Simulate VAT calculation based on file - range between 1-10 YELLOW
-      setRefundAmount(Math.floor(Math.random() * 9) + 1);
     }
   };
 
+  // Reads the document and pre-fills the claim form with what was found;
+  // the traveller checks the details there before submitting
   const handleUpload = async () => {
     if (!selectedFile) {
       setErrorMessage('Please select a file to upload');
       return;
     }
 
-    if (!formData.receiverWalletAddress) {
-      setErrorMessage('Please enter a receiver wallet address');
-      return;
-    }
-
-    // Validate wallet address format (basic validation)
-    if (formData.receiverWalletAddress.length !== 42) {
-      setErrorMessage('Please enter a valid EVM wallet address (42 characters)');
-      return;
-    }
-
     setIsLoading(true);
     setErrorMessage(null);
 
     try {
-      // Simulate document processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      setStep('review');
+      const result = await extractReceipt(selectedFile);
+      const { fields } = result;
+      const prefill = Object.fromEntries(
+        Object.entries(EXTRACTED_FORM_FIELDS)
+          .filter(([, source]) => fields[source])
+          .map(([name, source]) => [name, fields[source]?.value as string])
+      );
+      const country = inferVATCountry(rules, { vatRegNo: fields.vatRegNo?.value, currency: fields.currency?.value });
+
+      setExtraction(result);
+      setFormData(prev => ({ ...prev, ...prefill, ...(country ? { country } : {}) }));
     } catch (error) {
-      setErrorMessage('Failed to process document. Please try again.');
+      console.error('Failed to read VAT receipt:', error);
+      setExtraction({ source: 'None', fields: {}, warnings: ['The document could not be read; enter the receipt details manually'] });
     } finally {
       setIsLoading(false);
+      setEntryMode('manual');
+    }
+  };
+
+  // Extracted field behind a form field, if the document supplied it
+  const extractedField = (name: string) => {
+    const source = EXTRACTED_FORM_FIELDS[name];
+    return source ? extraction?.fields[source] : undefined;
+  };
+
+  const needsCheck = (name: string) => isLowConfidence(extractedField(name));
+
+  const inputClass = (name: string) =>
+    `w-full border rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 ${needsCheck(name) ? 'border-amber-400 bg-amber-50' : 'border-gray-300'}`;
+
+  const renderConfidenceHint = (name: string) => {
+    const field = extractedField(name);
+    if (!field || !isLowConfidence(field)) return null;
+    return (
+      <p className="text-xs text-amber-700 mt-1">
+        Read from the document with {Math.round(field.confidence * 100)}% confidence. Please check.
+      </p>
+    );
+  };
+
+  const reviewValueClass = (name: string) =>
+    `text-sm font-medium ${needsCheck(name) ? 'text-amber-800 bg-amber-50 border border-amber-300 rounded px-1 inline-block' : 'text-gray-900'}`;
+
+  const lowConfidenceLabels = Object.entries(EXTRACTED_FORM_FIELDS)
+    .filter(([name]) => needsCheck(name))
+    .map(([, source]) => RECEIPT_FIELD_LABELS[source]);
+
+  // Records the refund payment and links it to the claim
+  const recordRefundPayout = async (txHash: string, token: string) => {
+    if (!claim) return;
+
+    let paymentId: string | undefined;
+    try {
+      const payment = await createPayment({
+        employee_id: 'vat-refund',
+        amount: refundAmount,
+        token,
+        transaction_hash: txHash,
+        status: 'completed',
+        payment_date: new Date().toISOString()
+      });
+      paymentId = payment?.id;
+    } catch (dbError) {
+      console.error('Failed to record VAT refund payment:', dbError);
+    }
+
+    try {
+      setClaim(await markClaimPaid(claim.id, { payment_id: paymentId, transaction_hash: txHash }));
+    } catch (claimError) {
+      console.error('Failed to mark VAT claim as paid:', claimError);
+    }
+  };
+
+  const recordRefundFailure = async (failure: string) => {
+    if (!claim) return;
+    try {
+      setClaim(await markClaimFailed(claim.id, failure));
+    } catch (claimError) {
+      console.error('Failed to mark VAT claim payout as failed:', claimError);
     }
   };
 
@@ -128,19 +245,16 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
         throw new Error("Wallet not connected. Please connect your wallet.");
       }
 
-      // Recipient wallet address
-      const recipientAddress =
-        entryMode === "manual"
-          ? formData.receiverWalletAddress
-          : formData.receiverWalletAddress;
-
-      if (!recipientAddress) {
-        throw new Error("Recipient wallet address is required");
+      if (!claim || (claim.status !== "approved" && claim.status !== "failed")) {
+        throw new Error("Only approved VAT claims can be paid");
       }
 
+      const recipientAddress = claim.receiver_wallet;
+
       // Amount in YELLOW (or chain's native token)
-      const amount = refundAmount?.toString();
-      if (!amount) throw new Error("Refund amount is required");
+      const payout = getVATPayoutAmount(claim);
+      if (!payout || payout.units <= 0n) throw new Error("Refund amount is required");
+      const amount = toDecimalString(payout);
 
       console.log("Processing VAT refund payment:", {
         recipient: recipientAddress,
@@ -153,24 +267,13 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
       // Send transaction
       const tx = await sendTransactionAsync({
         to: recipientAddress as `0x${string}`,
-        value: parseEther(amount), // Convert string YELLOW -> wei
+        value: parseAmount(amount, 'YELLOW').units, // Convert string YELLOW -> wei
       });
 
       console.log("Transaction sent:", tx);
 
-      // Record payment in local DB/storage
-      try {
-        await createPayment({
-          employee_id: "vat-refund",
-          amount: refundAmount,
-          token: "native",
-          transaction_hash: tx, // wagmi returns tx hash string
-          status: "completed",
-          payment_date: new Date().toISOString(),
-        });
-      } catch (dbError) {
-        console.error("Failed to record VAT refund payment:", dbError);
-      }
+      // Record payment in local DB/storage; wagmi returns the tx hash string
+      await recordRefundPayout(tx, "native");
 
       setTransactionHash(tx);
       setQrValue(`evm://tx/${tx}`);
@@ -190,6 +293,7 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
       }
 
       setErrorMessage(errorMessage);
+      await recordRefundFailure(errorMessage);
       setTransactionStatus("rejected");
       setStep("sign");
     } finally {
@@ -217,17 +321,19 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
         }
       }
 
-      // Prepare recipient data for the payment
-      const recipientAddress = entryMode === 'manual' ? formData.receiverWalletAddress : 'XBYLS2E6YI6XXL5BWCAMOA4GTWHXWXWUB3OCJP72CH3V2VJRQBQ7K5REV4';
-
-      if (!recipientAddress) {
-        throw new Error('Recipient wallet address is required');
+      if (!claim || (claim.status !== 'approved' && claim.status !== 'failed')) {
+        throw new Error('Only approved VAT claims can be paid');
       }
 
+      // Prepare recipient data for the payment
+      const recipientAddress = claim.receiver_wallet;
+
       // Prepare payment data
+      const payout = getVATPayoutAmount(claim);
+      if (!payout) throw new Error('Refund amount is required');
       const recipientsData = [{
         address: recipientAddress,
-        amount: refundAmount
+        amount: toDecimalString(payout)
       }];
 
       // Process the payment using sendBulkPayment
@@ -237,18 +343,7 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
         setTransactionHash(result.txHash);
 
         // Record the payment
-        try {
-          await createPayment({
-            employee_id: 'vat-refund', // Special ID for VAT refunds
-            amount: refundAmount,
-            token: selectedToken,
-            transaction_hash: result.txHash,
-            status: 'completed',
-            payment_date: new Date().toISOString()
-          });
-        } catch (dbError) {
-          console.error('Failed to record VAT refund payment in database:', dbError);
-        }
+        await recordRefundPayout(result.txHash, selectedToken);
 
         // Set transaction as confirmed
         setTransactionStatus('confirmed');
@@ -256,6 +351,7 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
       } else {
         // Handle payment failure
         setErrorMessage(result.error || 'Payment failed');
+        await recordRefundFailure(result.error || 'Payment failed');
         setTransactionStatus('rejected');
       }
     } catch (error) {
@@ -273,6 +369,7 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
       }
 
       setErrorMessage(errorMessage);
+      await recordRefundFailure(errorMessage);
       setTransactionStatus('rejected');
     } finally {
       setIsLoading(false);
@@ -286,7 +383,8 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
     setQrValue('');
     setTransactionStatus('waiting');
     setTransactionHash('');
-    setRefundAmount(0);
+    setClaim(null);
+    setExtraction(null);
     // Refresh history data
     setRefreshKey(prev => prev + 1);
     setFormData({
@@ -301,59 +399,121 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
       purchaseDate: '',
       merchantName: '',
       merchantAddress: '',
+      country: DEFAULT_VAT_COUNTRY,
+      departureDate: '',
       receiverWalletAddress: ''
     });
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
-
-    // If VAT amount is updated, update refund amount
-    if (name === 'vatAmount' && value) {
-      const vatAmount = parseFloat(value);
-      if (!isNaN(vatAmount)) {
-        setRefundAmount(vatAmount);
-      }
+    setFormData(prev => ({ ...prev, [name]: name === 'nationality' ? value.toUpperCase() : value }));
+
+    // A field the traveller edited no longer needs checking
+    const source = EXTRACTED_FORM_FIELDS[name];
+    if (source) {
+      setExtraction(prev => prev && prev.fields[source]
+        ? { ...prev, fields: { ...prev.fields, [source]: { value, confidence: 1 } } }
+        : prev);
     }
   };
 
+  // Claim details as entered, before the rules decide on them
+  const claimDetails = {
+    country: formData.country,
+    bill_amount: parseFloat(formData.billAmount) || 0,
+    vat_amount: parseFloat(formData.vatAmount) || 0,
+    purchase_date: formData.purchaseDate,
+    nationality: formData.nationality.trim(),
+    departure_date: formData.departureDate || undefined
+  };
+  const eligibilityPreview = formData.vatAmount ? evaluateVATClaim(claimDetails, rules) : null;
+  const countryRules = rules[formData.country];
+
   const handleManualSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // Basic validation
-    if (!formData.vatRegNo || !formData.receiptNo || !formData.vatAmount || !formData.passportNo || !formData.receiverWalletAddress) {
+    if (
+      !formData.vatRegNo || !formData.receiptNo || !formData.billAmount || !formData.vatAmount ||
+      !formData.purchaseDate || !formData.passportNo || !formData.nationality || !formData.receiverWalletAddress
+    ) {
       setErrorMessage('Please fill in all required fields');
       return;
     }
 
-    // Validate wallet address format (basic validation)
-    if (formData.receiverWalletAddress.length !== 42) {
-      setErrorMessage('Please enter a valid EVM wallet address (42 characters)');
+    if (!/^[A-Z]{2}$/.test(formData.nationality.trim())) {
+      setErrorMessage('Enter the country of residence as a two letter code, e.g. GB');
+      return;
+    }
+
+    // Validate the wallet address (or resolve the name) before processing
+    const receiver = await resolvePayoutAddress(formData.receiverWalletAddress);
+    const receiverAddress = receiver.address;
+    if (!receiver.valid || !receiverAddress) {
+      setErrorMessage(receiver.error || 'Please enter a valid EVM wallet address');
       return;
     }
+    setFormData(prev => ({ ...prev, receiverWalletAddress: receiverAddress }));
 
     setIsLoading(true);
     setErrorMessage(null);
 
     try {
-      // Simulate processing
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      // Parse VAT amount
-      const vatAmount = parseFloat(formData.vatAmount);
-      if (!isNaN(vatAmount)) {
-        setRefundAmount(vatAmount);
-      }
-
+      // Eligible claims are paid at the payout token's current price in the
+      // country's currency; rejected claims need no rate
+      const eligibility = evaluateVATClaim(claimDetails, rules);
+      const [fxRate] = eligibility.eligible ? await fetchFxRates(selectedToken, [eligibility.currency]) : [];
+
+      const submittedClaim = await submitClaim({
+        ...claimDetails,
+        vat_reg_no: formData.vatRegNo,
+        receipt_no: formData.receiptNo,
+        merchant_name: formData.merchantName,
+        merchant_address: formData.merchantAddress || undefined,
+        document_name: selectedFile?.name,
+        document_hash: selectedFile ? await hashDocument(selectedFile) : undefined,
+        passport_no: formData.passportNo,
+        date_of_birth: formData.dob || undefined,
+        flight_no: formData.flightNo || undefined,
+        receiver_wallet: receiverAddress,
+        payout_token: selectedToken
+      }, rules, fxRate);
+
+      setClaim(submittedClaim);
       setStep('review');
     } catch (error) {
-      setErrorMessage('Failed to process your request. Please try again.');
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to process your request. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Loads an approved claim into the review step so its refund can be paid
+  // on its own rather than in a settlement batch
+  const handlePayReviewedClaim = (reviewedClaim: VATClaim) => {
+    handleReset();
+    setClaim(reviewedClaim);
+    setSelectedToken(reviewedClaim.payout_token === 'USDC' ? 'USDC' : 'YELLOW');
+    setFormData({
+      vatRegNo: reviewedClaim.vat_reg_no,
+      receiptNo: reviewedClaim.receipt_no,
+      billAmount: String(reviewedClaim.bill_amount),
+      vatAmount: String(reviewedClaim.vat_amount),
+      passportNo: reviewedClaim.passport_no,
+      flightNo: reviewedClaim.flight_no || '',
+      nationality: reviewedClaim.nationality,
+      dob: reviewedClaim.date_of_birth || '',
+      purchaseDate: reviewedClaim.purchase_date,
+      merchantName: reviewedClaim.merchant_name,
+      merchantAddress: reviewedClaim.merchant_address || '',
+      country: reviewedClaim.country,
+      departureDate: reviewedClaim.departure_date || '',
+      receiverWalletAddress: reviewedClaim.receiver_wallet
+    });
+    setStep('review');
+    setActiveTab('upload');
+  };
 
   const renderUploadTab = () => {
     switch (step) {
@@ -388,7 +548,7 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
 
             <p className="text-gray-600 mb-6">
               {entryMode === 'upload'
-                ? 'Upload your VAT receipt document to process your refund. We support PDF, JPG, and PNG formats.'
+                ? 'Upload your VAT receipt and we will read its details for you to check. We support PDF, JPG, PNG, e-invoice XML (UBL / Peppol) and QR payload text files.'
                 : 'Enter your VAT receipt details manually to process your refund.'}
             </p>
 
@@ -402,7 +562,7 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                     <input
                       type="file"
                       className="hidden"
-                      accept=".pdf,.jpg,.jpeg,.png"
+                      accept=".pdf,.jpg,.jpeg,.png,.webp,.xml,.txt"
                       onChange={handleFileChange}
                     />
                   </label>
@@ -414,61 +574,14 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                   )}
                 </div>
 
-                <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 mb-6">
-                  <h3 className="font-semibold text-gray-900 mb-4">Payment Details</h3>
-
-                  <div className="space-y-4">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Receiver Wallet Address <span className="text-red-500">*</span></label>
-                      <input
-                        type="text"
-                        name="receiverWalletAddress"
-                        value={formData.receiverWalletAddress}
-                        onChange={handleInputChange}
-                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        placeholder="e.g. 0xdAF0182De86F904918Db8d07c7340A1EfcDF8244"
-                        required
-                      />
-                    </div>
-
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Token</label>
-                      <div className="flex space-x-4">
-                        <label className="flex items-center">
-                          <input
-                            type="radio"
-                            name="token"
-                            value="YELLOW"
-                            checked={selectedToken === 'YELLOW'}
-                            onChange={() => setSelectedToken('YELLOW')}
-                            className="mr-2"
-                          />
-                          <span className="text-sm">Yellow Network (YELLOW)</span>
-                        </label>
-                        <label className="flex items-center">
-                          <input
-                            type="radio"
-                            name="token"
-                            value="USDC"
-                            checked={selectedToken === 'USDC'}
-                            onChange={() => setSelectedToken('USDC')}
-                            className="mr-2"
-                          />
-                          <span className="text-sm">USD Coin (USDC)</span>
-                        </label>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
                 <div className="flex justify-end">
                   <button
                     onClick={handleUpload}
-                    disabled={!selectedFile || !formData.receiverWalletAddress || isLoading}
-                    className={`bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-6 rounded-lg transition-all duration-200 ${!selectedFile || !formData.receiverWalletAddress || isLoading ? 'opacity-50 cursor-not-allowed' : ''
+                    disabled={!selectedFile || isLoading}
+                    className={`bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-6 rounded-lg transition-all duration-200 ${!selectedFile || isLoading ? 'opacity-50 cursor-not-allowed' : ''
                       }`}
                   >
-                    {isLoading ? 'Processing...' : 'Upload Document'}
+                    {isLoading ? 'Reading Document...' : 'Read Document'}
                   </button>
                 </div>
               </>
@@ -480,9 +593,53 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                   </div>
                 )}
 
+                {selectedFile && (
+                  <div className="flex items-center text-sm text-gray-600">
+                    <FileCheck className="w-5 h-5 mr-2 text-green-500" />
+                    Attached: {selectedFile.name}
+                  </div>
+                )}
+
+                {extraction && (
+                  <div className={`border rounded-lg px-4 py-3 text-sm ${Object.keys(extraction.fields).length > 0 ? 'bg-blue-50 border-blue-200 text-blue-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                    {Object.keys(extraction.fields).length > 0 ? (
+                      <p>
+                        Read {Object.keys(extraction.fields).length} details from the document ({extraction.source}).
+                        {lowConfidenceLabels.length > 0 && ' Please check the highlighted fields.'}
+                      </p>
+                    ) : (
+                      <p>No details could be read from the document. Please enter them below.</p>
+                    )}
+                    {extraction.warnings.map(warning => (
+                      <p key={warning} className="text-xs mt-1">{warning}</p>
+                    ))}
+                    {extraction.fields.currency && countryRules && extraction.fields.currency.value !== countryRules.currency && (
+                      <p className="text-xs mt-1">
+                        The receipt is in {extraction.fields.currency.value}, but purchases in {countryRules.name} are claimed in {countryRules.currency}. Check the country of purchase.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
                   <h3 className="font-semibold text-gray-900 mb-4">Receipt Information</h3>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Country of Purchase <span className="text-red-500">*</span></label>
+                      <select
+                        name="country"
+                        value={formData.country}
+                        onChange={handleInputChange}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        required
+                      >
+                        {Object.values(rules).map(countryOption => (
+                          <option key={countryOption.country} value={countryOption.country}>
+                            {countryOption.name} ({countryOption.currency})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">VAT Registration No. <span className="text-red-500">*</span></label>
                       <input
@@ -490,10 +647,11 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                         name="vatRegNo"
                         value={formData.vatRegNo}
                         onChange={handleInputChange}
-                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        className={inputClass('vatRegNo')}
                         placeholder="e.g. GB123456789"
                         required
                       />
+                      {renderConfidenceHint('vatRegNo')}
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">Receipt/Invoice No. <span className="text-red-500">*</span></label>
@@ -502,47 +660,53 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                         name="receiptNo"
                         value={formData.receiptNo}
                         onChange={handleInputChange}
-                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        className={inputClass('receiptNo')}
                         placeholder="e.g. INV-12345"
                         required
                       />
+                      {renderConfidenceHint('receiptNo')}
                     </div>
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Total Bill Amount</label>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Total Bill Amount ({countryRules?.currency}) <span className="text-red-500">*</span></label>
                       <input
                         type="number"
                         name="billAmount"
                         value={formData.billAmount}
                         onChange={handleInputChange}
-                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        className={inputClass('billAmount')}
                         placeholder="e.g. 1000.00"
                         step="0.01"
                         min="0"
+                        required
                       />
+                      {renderConfidenceHint('billAmount')}
                     </div>
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">VAT Amount <span className="text-red-500">*</span></label>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">VAT Amount ({countryRules?.currency}) <span className="text-red-500">*</span></label>
                       <input
                         type="number"
                         name="vatAmount"
                         value={formData.vatAmount}
                         onChange={handleInputChange}
-                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        className={inputClass('vatAmount')}
                         placeholder="e.g. 200.00"
                         step="0.01"
                         min="0"
                         required
                       />
+                      {renderConfidenceHint('vatAmount')}
                     </div>
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Purchase Date</label>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Purchase Date <span className="text-red-500">*</span></label>
                       <input
                         type="date"
                         name="purchaseDate"
                         value={formData.purchaseDate}
                         onChange={handleInputChange}
-                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        className={inputClass('purchaseDate')}
+                        required
                       />
+                      {renderConfidenceHint('purchaseDate')}
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">Receiver Wallet Address <span className="text-red-500">*</span></label>
@@ -586,15 +750,21 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                     </div>
                   </div>
 
-                  {formData.vatAmount && (
-                    <div className="mt-4 p-3 bg-gray-100 border border-gray-200 rounded-lg">
+                  {eligibilityPreview && countryRules && (
+                    <div className="mt-4 p-3 bg-gray-100 border border-gray-200 rounded-lg space-y-1">
+                      <div className="flex justify-between items-center text-sm text-gray-600">
+                        <span>Operator Commission:</span>
+                        <span>{formatFiat(eligibilityPreview.commissionAmount, countryRules.currency)}</span>
+                      </div>
                       <div className="flex justify-between items-center">
                         <span className="text-sm font-medium text-gray-700">Calculated Refund Amount:</span>
                         <span className="text-lg font-bold text-green-600">
-                          {selectedToken === 'YELLOW' ? 'YELLOW ' : 'USDC '}
-                          {parseFloat(formData.vatAmount) > 0 ? parseFloat(formData.vatAmount).toFixed(2) : '0.00'}
+                          {formatFiat(eligibilityPreview.refundableAmount, countryRules.currency)}
                         </span>
                       </div>
+                      <p className="text-xs text-gray-500">
+                        Paid in {selectedToken} at the current rate. Minimum purchase {formatFiat(countryRules.minPurchaseAmount, countryRules.currency)}; goods must leave {countryRules.name} within {countryRules.exportDeadlineDays} days.
+                      </p>
                     </div>
                   )}
                 </div>
@@ -626,14 +796,26 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                       />
                     </div>
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Country of Nationality</label>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Country of Residence <span className="text-red-500">*</span></label>
                       <input
                         type="text"
                         name="nationality"
                         value={formData.nationality}
                         onChange={handleInputChange}
                         className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        placeholder="e.g. United Kingdom"
+                        placeholder="Two letter code, e.g. GB"
+                        maxLength={2}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Departure Date</label>
+                      <input
+                        type="date"
+                        name="departureDate"
+                        value={formData.departureDate}
+                        onChange={handleInputChange}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
                       />
                     </div>
                     <div>
@@ -659,9 +841,10 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                         name="merchantName"
                         value={formData.merchantName}
                         onChange={handleInputChange}
-                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        className={inputClass('merchantName')}
                         placeholder="e.g. ABC Store Ltd."
                       />
+                      {renderConfidenceHint('merchantName')}
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">Merchant Address</label>
@@ -698,7 +881,7 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
             <h2 className="text-xl font-bold text-gray-900 mb-4">Review VAT Refund Details</h2>
 
             <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 mb-6">
-              {entryMode === 'upload' ? (
+              {selectedFile ? (
                 <div className="flex items-start mb-4">
                   <div className="bg-blue-100 p-3 rounded-lg mr-4">
                     <FileText className="w-6 h-6 text-blue-600" />
@@ -720,6 +903,12 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                 </div>
               )}
 
+              {lowConfidenceLabels.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-lg px-4 py-3 mb-4 text-sm">
+                  These details were read from the document with low confidence and are highlighted below: {lowConfidenceLabels.join(', ')}. Go back to correct them if they are wrong.
+                </div>
+              )}
+
               <div className="space-y-4">
                 {entryMode === 'manual' && (
                   <>
@@ -728,22 +917,28 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                         <div>
                           <p className="text-sm text-gray-600">VAT Registration No.</p>
-                          <p className="text-sm font-medium text-gray-900">{formData.vatRegNo}</p>
+                          <p className={reviewValueClass('vatRegNo')}>{formData.vatRegNo}</p>
                         </div>
                         <div>
                           <p className="text-sm text-gray-600">Receipt/Invoice No.</p>
-                          <p className="text-sm font-medium text-gray-900">{formData.receiptNo}</p>
+                          <p className={reviewValueClass('receiptNo')}>{formData.receiptNo}</p>
                         </div>
                         {formData.billAmount && (
                           <div>
                             <p className="text-sm text-gray-600">Total Bill Amount</p>
-                            <p className="text-sm font-medium text-gray-900">${parseFloat(formData.billAmount).toFixed(2)}</p>
+                            <p className={reviewValueClass('billAmount')}>{formatFiat(parseFloat(formData.billAmount), countryRules?.currency)}</p>
+                          </div>
+                        )}
+                        {extraction?.fields.netAmount && (
+                          <div>
+                            <p className="text-sm text-gray-600">Net Amount (from document)</p>
+                            <p className="text-sm font-medium text-gray-900">{formatFiat(Number(extraction.fields.netAmount.value), countryRules?.currency)}</p>
                           </div>
                         )}
                         {formData.purchaseDate && (
                           <div>
                             <p className="text-sm text-gray-600">Purchase Date</p>
-                            <p className="text-sm font-medium text-gray-900">{formData.purchaseDate}</p>
+                            <p className={reviewValueClass('purchaseDate')}>{formData.purchaseDate}</p>
                           </div>
                         )}
                         <div>
@@ -772,10 +967,16 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                         )}
                         {formData.nationality && (
                           <div>
-                            <p className="text-sm text-gray-600">Country of Nationality</p>
+                            <p className="text-sm text-gray-600">Country of Residence</p>
                             <p className="text-sm font-medium text-gray-900">{formData.nationality}</p>
                           </div>
                         )}
+                        {formData.departureDate && (
+                          <div>
+                            <p className="text-sm text-gray-600">Departure Date</p>
+                            <p className="text-sm font-medium text-gray-900">{formData.departureDate}</p>
+                          </div>
+                        )}
                         {formData.dob && (
                           <div>
                             <p className="text-sm text-gray-600">Date of Birth</p>
@@ -792,7 +993,7 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                           {formData.merchantName && (
                             <div>
                               <p className="text-sm text-gray-600">Merchant Name</p>
-                              <p className="text-sm font-medium text-gray-900">{formData.merchantName}</p>
+                              <p className={reviewValueClass('merchantName')}>{formData.merchantName}</p>
                             </div>
                           )}
                           {formData.merchantAddress && (
@@ -819,10 +1020,56 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                   <span className="text-gray-600">Token Type:</span>
                   <span className="text-gray-900 font-medium">{selectedToken}</span>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-900 font-semibold">Total Refund:</span>
-                  <span className="text-green-600 font-bold">{refundAmount.toFixed(2)} {selectedToken}</span>
-                </div>
+                {claim?.status === 'in_review' && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                    <h4 className="font-medium text-amber-800 mb-2">This claim is held for manual review</h4>
+                    <p className="text-sm text-amber-700 mb-2">
+                      It will be paid once an operator approves it in the operator workspace.
+                    </p>
+                    <ul className="list-disc list-inside space-y-1">
+                      {(claim.risk_flags || []).map(flag => (
+                        <li key={flag.rule} className="text-sm text-amber-700">{flag.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {claim?.status === 'rejected' ? (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                    <h4 className="font-medium text-red-800 mb-2">This claim is not eligible for a refund</h4>
+                    <ul className="list-disc list-inside space-y-1">
+                      {(claim.rejection_reasons || []).map(reason => (
+                        <li key={reason} className="text-sm text-red-700">{reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : claim && (
+                  <>
+                    <div className="flex justify-between border-b border-gray-200 pb-2">
+                      <span className="text-gray-600">VAT Paid:</span>
+                      <span className={needsCheck('vatAmount') ? 'text-amber-800 bg-amber-50 border border-amber-300 rounded px-1 font-medium' : 'text-gray-900 font-medium'}>
+                        {formatFiat(claim.vat_amount, claim.currency)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between border-b border-gray-200 pb-2">
+                      <span className="text-gray-600">Operator Commission:</span>
+                      <span className="text-gray-900 font-medium">-{formatFiat(claim.commission_amount, claim.currency)}</span>
+                    </div>
+                    <div className="flex justify-between border-b border-gray-200 pb-2">
+                      <span className="text-gray-600">Refundable:</span>
+                      <span className="text-gray-900 font-medium">{formatFiat(claim.refundable_amount, claim.currency)}</span>
+                    </div>
+                    {claim.fx_rate && (
+                      <div className="flex justify-between border-b border-gray-200 pb-2">
+                        <span className="text-gray-600">Rate:</span>
+                        <span className="text-gray-900 font-medium">{formatFxRate(claim.fx_rate)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-gray-900 font-semibold">Total Refund:</span>
+                      <span className="text-green-600 font-bold">{refundAmount.toFixed(2)} {selectedToken}</span>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
 
@@ -835,8 +1082,8 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
               </button>
               <button
                 onClick={handleApprove}
-                disabled={isLoading}
-                className={`bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-6 rounded-lg transition-all duration-200 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''
+                disabled={isLoading || claim?.status !== 'approved'}
+                className={`bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-6 rounded-lg transition-all duration-200 ${isLoading || claim?.status !== 'approved' ? 'opacity-50 cursor-not-allowed' : ''
                   }`}
               >
                 {isLoading ? 'Processing...' : 'Approve & Continue'}
@@ -879,7 +1126,7 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                       </div>
                       <div className="flex justify-between">
                         <span className="text-sm text-blue-700">Receiver:</span>
-                        <span className="text-sm font-medium text-blue-900 break-all">{entryMode === 'manual' ? formData.receiverWalletAddress : 'Revatix VAT Refund Service'}</span>
+                        <span className="text-sm font-medium text-blue-900 break-all">{claim?.receiver_wallet}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-sm text-blue-700">Network Fee:</span>
@@ -982,21 +1229,21 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
               <div className="space-y-4">
                 <div className="flex justify-between border-b border-gray-200 pb-2">
                   <span className="text-gray-600">Refund ID:</span>
-                  <span className="text-gray-900 font-medium">VAT-{Date.now().toString().slice(-7)}</span>
+                  <span className="text-gray-900 font-medium">VAT-{claim?.id.slice(0, 8).toUpperCase()}</span>
                 </div>
                 <div className="flex justify-between border-b border-gray-200 pb-2">
                   <span className="text-gray-600">Submission Type:</span>
                   <span className="text-gray-900 font-medium">
-                    {entryMode === 'upload' ? 'Document Upload' : 'Manual Entry'}
+                    {selectedFile ? 'Document Upload' : 'Manual Entry'}
                   </span>
                 </div>
-                {entryMode === 'upload' && selectedFile && (
+                {selectedFile && (
                   <div className="flex justify-between border-b border-gray-200 pb-2">
                     <span className="text-gray-600">Document:</span>
                     <span className="text-gray-900 font-medium">{selectedFile.name}</span>
                   </div>
                 )}
-                {entryMode === 'manual' && (
+                {claim && (
                   <>
                     <div className="flex justify-between border-b border-gray-200 pb-2">
                       <span className="text-gray-600">VAT Registration No:</span>
@@ -1037,7 +1284,7 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Status:</span>
                   <span className="text-green-600 font-medium">
-                    Completed
+                    {claim ? VAT_CLAIM_STATUS_LABELS[claim.status] : 'Completed'}
                   </span>
                 </div>
               </div>
@@ -1137,13 +1384,20 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex justify-center">
-                        {refund.status === 'completed' ? (
+                        {refund.status === 'paid' ? (
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                            <CheckCircle className="w-3 h-3 mr-1" /> Completed
+                            <CheckCircle className="w-3 h-3 mr-1" /> Paid
+                          </span>
+                        ) : refund.status === 'rejected' || refund.status === 'failed' ? (
+                          <span
+                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                            title={refund.reasons.join('\n')}
+                          >
+                            <AlertCircle className="w-3 h-3 mr-1" /> {VAT_CLAIM_STATUS_LABELS[refund.status as VATClaim['status']]}
                           </span>
                         ) : (
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
-                            <Clock className="w-3 h-3 mr-1" /> Pending
+                            <Clock className="w-3 h-3 mr-1" /> {VAT_CLAIM_STATUS_LABELS[refund.status as VATClaim['status']] || 'Pending'}
                           </span>
                         )}
                       </div>
@@ -1189,6 +1443,15 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
             >
               Submit New Refund
             </button>
+            <button
+              onClick={() => setActiveTab('review')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'review'
+                  ? 'border-gray-900 text-gray-900'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+            >
+              Operator Workspace{claims.some(queued => VAT_CLAIM_REVIEW_STATUSES.includes(queued.status)) && ` (${claims.filter(queued => VAT_CLAIM_REVIEW_STATUSES.includes(queued.status)).length})`}
+            </button>
             <button
               onClick={() => setActiveTab('history')}
               className={`py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'history'
@@ -1202,7 +1465,17 @@ export const VATRefundPage: React.FC<VATRefundPageProps> = () => {
         </div>
       </div>
 
-      {activeTab === 'upload' ? renderUploadTab() : renderHistoryTab()}
+      {activeTab === 'upload' ? renderUploadTab() : activeTab === 'review' ? (
+        <VATOperatorWorkspace
+          claims={claims}
+          checkSubmittedClaim={checkSubmittedClaim}
+          reviewClaim={reviewClaim}
+          reserveClaimForSettlement={reserveClaimForSettlement}
+          markClaimPaid={markClaimPaid}
+          markClaimFailed={markClaimFailed}
+          onPayClaim={handlePayReviewedClaim}
+        />
+      ) : renderHistoryTab()}
     </div>
   );
 };
@@ -11,6 +11,7 @@ import {
 } from 'lucide-react';
 import { useAccount } from 'wagmi';
 import { ENV_CONFIG } from '../config/environment';
+import { getClearnodeSimulator, isClearnodeSimulatorEnabled } from '../services/clearnodeSimulator';
 
 interface YellowNetworkFaucetProps {
   onClose: () => void;
@@ -37,6 +38,18 @@ export const YellowNetworkFaucet: React.FC<YellowNetworkFaucetProps> = ({ onClos
     setResult(null);
 
     try {
+      if (isClearnodeSimulatorEnabled()) {
+        const credited = getClearnodeSimulator().requestTokens(userAddress as `0x${string}`);
+        setResult({
+          success: true,
+          message: 'Tokens credited to the simulated unified balance',
+          amount: credited.amount,
+          asset: credited.token,
+          destination: userAddress
+        });
+        return;
+      }
+
       const response = await fetch(ENV_CONFIG.yellowNetwork.faucetUrl, {
         method: 'POST',
         headers: {
@@ -1,5 +1,13 @@
 // Revatix Environment Configuration
 
+// Numeric setting, falling back only when it is unset or not a number so an
+// explicit 0 is kept
+const numberSetting = (value: string | undefined, fallback: number): number => {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
 export const ENV_CONFIG = {
   // Supabase Configuration
   supabase: {
@@ -7,12 +15,43 @@ export const ENV_CONFIG = {
     anonKey: import.meta.env.VITE_SUPABASE_ANON_KEY || 'placeholder-key',
   },
 
+  // Storage backend for app data: localStorage, indexedDB, supabase, memory or
+  // synced (localStorage cache kept in sync with Supabase)
+  storage: {
+    backend: import.meta.env.VITE_STORAGE_BACKEND || (import.meta.env.VITE_SUPABASE_URL ? 'synced' : 'localStorage'),
+  },
+
+  // Fiat salary conversion. `rates` is an optional JSON map of local token
+  // prices, e.g. {"USDC":{"USD":1,"EUR":0.92}}, used instead of CoinGecko.
+  // Pay runs refuse to execute on locked rates older than `maxRateAgeMinutes`
+  // or that moved more than `maxSlippageBps` against the market.
+  fx: {
+    rates: import.meta.env.VITE_FX_RATES || '',
+    maxRateAgeMinutes: numberSetting(import.meta.env.VITE_FX_MAX_RATE_AGE_MINUTES, 1440),
+    maxSlippageBps: numberSetting(import.meta.env.VITE_FX_MAX_SLIPPAGE_BPS, 100),
+  },
+
+  // Receipt OCR for VAT claims. `endpoint` is an optional HTTP service that
+  // receives the file and returns { text, confidence }; without it Gemini is
+  // used when a Google AI key is set.
+  ocr: {
+    endpoint: import.meta.env.VITE_OCR_ENDPOINT || '',
+  },
+
   // Yellow Network Configuration
   yellowNetwork: {
     clearnodeUrl: import.meta.env.VITE_YELLOW_NETWORK_CLEARNODE_URL || 'wss://clearnet.yellow.org/ws',
     testnetUrl: import.meta.env.VITE_YELLOW_NETWORK_TESTNET_URL || 'https://clearnet-sandbox.yellow.com',
     faucetUrl: import.meta.env.VITE_YELLOW_NETWORK_FAUCET_URL || 'https://clearnet-sandbox.yellow.com/faucet/requestTokens',
     defaultChain: import.meta.env.VITE_YELLOW_NETWORK_DEFAULT_CHAIN || 'yellow-mainnet',
+    // Local clearnode simulator, for development without the network
+    simulator: {
+      enabled: import.meta.env.VITE_YELLOW_NETWORK_SIMULATOR === 'true',
+      // Comma-separated faults to inject: timeout, reject_signature, insufficient_funds
+      faults: import.meta.env.VITE_YELLOW_NETWORK_SIMULATOR_FAULTS || '',
+      faucetAmount: Number(import.meta.env.VITE_YELLOW_NETWORK_SIMULATOR_FAUCET_AMOUNT) || 1000,
+      timeoutMs: Number(import.meta.env.VITE_YELLOW_NETWORK_SIMULATOR_TIMEOUT_MS) || 5000,
+    },
   },
 
   // Nitrolite SDK Configuration
@@ -21,9 +60,14 @@ export const ENV_CONFIG = {
     apiKey: import.meta.env.VITE_NITROLITE_API_KEY || '',
   },
 
-  // AI Services
+  // AI Services. The assistant's provider and model are chosen per
+  // organisation in Settings; keys stay here so they are never stored in
+  // the browser. `openaiBaseUrl` is the default OpenAI-compatible server.
   ai: {
     googleApiKey: import.meta.env.VITE_GOOGLE_AI_API_KEY || '',
+    geminiApiKey: import.meta.env.VITE_GEMINI_API_KEY || '',
+    openaiApiKey: import.meta.env.VITE_OPENAI_API_KEY || '',
+    openaiBaseUrl: import.meta.env.VITE_OPENAI_BASE_URL || 'http://localhost:11434/v1',
   },
 
   // Email Services
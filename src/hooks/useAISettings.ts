@@ -0,0 +1,51 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useAccount } from 'wagmi';
+import { DEFAULT_AI_SETTINGS, validateAISettings, type AISettings } from '../utils/aiSettings';
+
+// The assistant's model settings belong to the organisation's wallet
+export const useAISettings = () => {
+  const { address, isConnected } = useAccount();
+  const walletAddress = isConnected && address ? address : null;
+  const [settings, setSettings] = useState<AISettings>(DEFAULT_AI_SETTINGS);
+  const [error, setError] = useState<string | null>(null);
+
+  const readStoredSettings = useCallback((): AISettings => {
+    if (!walletAddress) return DEFAULT_AI_SETTINGS;
+    const storedSettings = localStorage.getItem(`gemetra_ai_settings_${walletAddress}`);
+    if (!storedSettings) return DEFAULT_AI_SETTINGS;
+    try {
+      return { ...DEFAULT_AI_SETTINGS, ...JSON.parse(storedSettings) };
+    } catch (parseError) {
+      console.error('Error parsing AI settings from localStorage:', parseError);
+      return DEFAULT_AI_SETTINGS;
+    }
+  }, [walletAddress]);
+
+  // Load the settings from localStorage when wallet address changes
+  useEffect(() => {
+    setSettings(readStoredSettings());
+  }, [readStoredSettings]);
+
+  const saveSettings = useCallback((updatedSettings: AISettings) => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    const validationError = validateAISettings(updatedSettings);
+    if (validationError) {
+      setError(validationError);
+      throw new Error(validationError);
+    }
+
+    setError(null);
+    setSettings(updatedSettings);
+    localStorage.setItem(`gemetra_ai_settings_${walletAddress}`, JSON.stringify(updatedSettings));
+    return updatedSettings;
+  }, [walletAddress]);
+
+  return {
+    settings,
+    error,
+    saveSettings,
+  };
+};
@@ -0,0 +1,132 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useAccount } from 'wagmi';
+import type { ApprovalPolicyRecord } from '../lib/supabase';
+import { createRepository } from '../lib/storage';
+import {
+  DEFAULT_APPROVAL_POLICY,
+  validateApprovalPolicy,
+  type ApprovalPolicy,
+} from '../utils/approvalPolicy';
+
+const policyRepository = createRepository<ApprovalPolicyRecord>('approval_policies');
+
+// Policies saved before they were shared lived in the maker's localStorage
+const legacyPolicyKey = (walletAddress: string) => `gemetra_approval_policy_${walletAddress}`;
+
+const readLegacyPolicy = (walletAddress: string): ApprovalPolicy | null => {
+  const storedPolicy = localStorage.getItem(legacyPolicyKey(walletAddress));
+  if (!storedPolicy) return null;
+  try {
+    return { ...DEFAULT_APPROVAL_POLICY, ...JSON.parse(storedPolicy) };
+  } catch (parseError) {
+    console.error('Error parsing approval policy from localStorage:', parseError);
+    return null;
+  }
+};
+
+// The policy belongs to the payroll owner and is stored with its data, so
+// approvers and other devices see the same rules; pass `ownerAddress` when
+// a different wallet (e.g. an approver) is currently connected
+export const useApprovalPolicy = (ownerAddress?: string) => {
+  const { address, isConnected } = useAccount();
+  const connectedAddress = isConnected && address ? address : null;
+  const walletAddress = ownerAddress || connectedAddress;
+  const [policy, setPolicy] = useState<ApprovalPolicy>(DEFAULT_APPROVAL_POLICY);
+  const [error, setError] = useState<string | null>(null);
+
+  const writePolicy = useCallback(async (updatedPolicy: ApprovalPolicy, exists: boolean) => {
+    if (!walletAddress || !connectedAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    const now = new Date().toISOString();
+    const scope = { owner: walletAddress };
+    if (exists) {
+      await policyRepository.update(scope, walletAddress, {
+        policy: updatedPolicy,
+        updated_by: connectedAddress,
+        updated_at: now
+      });
+    } else {
+      await policyRepository.insert(scope, [{
+        id: walletAddress,
+        user_id: walletAddress,
+        policy: updatedPolicy,
+        updated_by: connectedAddress,
+        created_at: now,
+        updated_at: now
+      }]);
+    }
+    localStorage.removeItem(legacyPolicyKey(walletAddress));
+  }, [walletAddress, connectedAddress]);
+
+  const readStoredPolicy = useCallback(async (): Promise<ApprovalPolicy> => {
+    if (!walletAddress) return DEFAULT_APPROVAL_POLICY;
+
+    // Listed rather than fetched by ID so the synced backend pulls the
+    // latest policy from the server first
+    const [stored] = await policyRepository.list({ owner: walletAddress }, { where: { id: walletAddress } });
+    if (stored) return { ...DEFAULT_APPROVAL_POLICY, ...stored.policy };
+
+    const legacyPolicy = readLegacyPolicy(walletAddress);
+    if (!legacyPolicy) return DEFAULT_APPROVAL_POLICY;
+
+    // Only the owner moves its old policy over; approvers just read it
+    if (connectedAddress?.toLowerCase() === walletAddress.toLowerCase()) {
+      try {
+        await writePolicy(legacyPolicy, false);
+      } catch (migrateError) {
+        console.warn('Could not move the approval policy out of localStorage:', migrateError);
+      }
+    }
+    return legacyPolicy;
+  }, [walletAddress, connectedAddress, writePolicy]);
+
+  // Load the policy when wallet address changes
+  useEffect(() => {
+    let cancelled = false;
+    readStoredPolicy()
+      .then(storedPolicy => {
+        if (!cancelled) setPolicy(storedPolicy);
+      })
+      .catch(err => {
+        console.error('Error loading approval policy:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load approval policy');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [readStoredPolicy]);
+
+  const savePolicy = useCallback(async (updatedPolicy: ApprovalPolicy) => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    const validationError = validateApprovalPolicy(updatedPolicy);
+    if (validationError) {
+      setError(validationError);
+      throw new Error(validationError);
+    }
+
+    try {
+      const existing = await policyRepository.get({ owner: walletAddress }, walletAddress);
+      await writePolicy(updatedPolicy, !!existing);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save approval policy';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    setError(null);
+    setPolicy(updatedPolicy);
+    return updatedPolicy;
+  }, [walletAddress, writePolicy]);
+
+  return {
+    policy,
+    error,
+    savePolicy,
+    readStoredPolicy,
+  };
+};
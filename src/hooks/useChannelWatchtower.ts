@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNotifications } from './useNotifications';
+import { channelWatchtower } from '../services/yellowNetworkService';
+import type { WatchedChannel, WatchtowerEvent } from '../services/channelWatchtower';
+
+const WATCHTOWER_POLL_INTERVAL_MS = 60000;
+
+const shortId = (channelId: string) => `${channelId.slice(0, 10)}...`;
+
+const formatRemaining = (remainingMs: number) => {
+  const minutes = Math.max(1, Math.round(remainingMs / 60000));
+  return minutes >= 60 ? `${Math.round(minutes / 60)}h` : `${minutes}m`;
+};
+
+const describeEvent = (event: WatchtowerEvent): string | null => {
+  switch (event.type) {
+    case 'dispute_detected':
+      return `Channel ${shortId(event.channelId)} was disputed with stale version ${event.onChainVersion}; the latest signed version is ${event.latestVersion}`;
+    case 'challenge_submitted':
+      return `Challenged channel ${shortId(event.channelId)} with version ${event.version} (tx ${event.txHash.slice(0, 10)}...)`;
+    case 'challenge_failed':
+      return `Could not challenge channel ${shortId(event.channelId)}: ${event.error}`;
+    case 'deadline_approaching':
+      return event.resolved
+        ? `Dispute on channel ${shortId(event.channelId)} ends in ${formatRemaining(event.remainingMs)} with the latest state on chain`
+        : `Dispute on channel ${shortId(event.channelId)} ends in ${formatRemaining(event.remainingMs)} and the latest state is not on chain yet`;
+    default:
+      return null;
+  }
+};
+
+// Runs the channel watchtower while mounted and turns its events into notifications
+export const useChannelWatchtower = () => {
+  const { addNotification } = useNotifications();
+  const [watchedChannels, setWatchedChannels] = useState<WatchedChannel[]>(() => channelWatchtower.getWatchedChannels());
+
+  useEffect(() => {
+    const unsubscribe = channelWatchtower.subscribe(event => {
+      setWatchedChannels(channelWatchtower.getWatchedChannels());
+      const message = describeEvent(event);
+      if (message) addNotification(message);
+    });
+    return unsubscribe;
+  }, [addNotification]);
+
+  useEffect(() => {
+    channelWatchtower.start(WATCHTOWER_POLL_INTERVAL_MS);
+    return () => channelWatchtower.stop();
+  }, []);
+
+  const checkNow = useCallback(async () => {
+    await channelWatchtower.checkAll();
+    setWatchedChannels(channelWatchtower.getWatchedChannels());
+  }, []);
+
+  return {
+    watchedChannels,
+    checkNow
+  };
+};
@@ -1,7 +1,17 @@
 import { useState, useEffect, useCallback } from 'react';
-import { supabase } from '../lib/supabase';
 import { getConnectedAccount, isWalletConnected } from '../utils/algorand';
-import type { ChatSession, ChatMessage } from '../lib/supabase';
+import type { ChatSession, ChatMessage, ChatActionPlan, ChatToolCall } from '../lib/supabase';
+import { createRepository, type StorageScope } from '../lib/storage';
+import { forgetSessionMemory } from '../services/aiService';
+
+const sessionRepository = createRepository<ChatSession>('chat_sessions');
+const messageRepository = createRepository<ChatMessage>('chat_messages');
+
+// Messages are stored per chat session
+const messageScope = (walletAddress: string, sessionId: string): StorageScope => ({
+  owner: walletAddress,
+  partition: { field: 'session_id', value: sessionId }
+});
 
 // Helper function to generate a UUID
 function generateUUID() {
@@ -41,39 +51,13 @@ export const useChat = () => {
 
     setLoadingSessions(true);
     setError(null);
-    
-    // First try to get chat sessions from localStorage
-    const localStorageKey = `gemetra_chat_sessions_${walletAddress}`;
-    const storedSessions = localStorage.getItem(localStorageKey);
-    
-    if (storedSessions) {
-      try {
-        const parsedSessions = JSON.parse(storedSessions);
-        setChatSessions(parsedSessions);
-        setLoadingSessions(false);
-        return;
-      } catch (parseError) {
-        console.error('Error parsing chat sessions from localStorage:', parseError);
-      }
-    }
-    
-    // If no sessions in localStorage, try to get from Supabase for backward compatibility
-    try {
-      const { data, error } = await supabase
-        .from('chat_sessions')
-        .select('*')
-        .eq('user_id', walletAddress)
-        .order('updated_at', { ascending: false });
 
-      if (error) throw error;
-      
-      if (data && data.length > 0) {
-        setChatSessions(data);
-        // Save to localStorage for future use
-        localStorage.setItem(localStorageKey, JSON.stringify(data));
-      } else {
-        setChatSessions([]);
-      }
+    try {
+      const sessions = await sessionRepository.list(
+        { owner: walletAddress },
+        { orderBy: { field: 'updated_at', ascending: false } }
+      );
+      setChatSessions(sessions);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch chat sessions');
       console.error('Error fetching chat sessions:', err);
@@ -106,38 +90,17 @@ export const useChat = () => {
         updated_at: now
       };
       
-      // Add to state
-      const updatedSessions = [newSession, ...chatSessions];
-      setChatSessions(updatedSessions);
-      
-      // Save to localStorage
-      const localStorageKey = `gemetra_chat_sessions_${walletAddress}`;
-      localStorage.setItem(localStorageKey, JSON.stringify(updatedSessions));
-      
-      console.log('Created chat session in localStorage:', newSession);
-      
-      // Try to also save to Supabase for backward compatibility
-      try {
-        await supabase
-          .from('chat_sessions')
-          .insert({
-            id: newSession.id,
-            user_id: walletAddress,
-            title: title,
-            last_message_content: initialMessageContent || null,
-            last_message_timestamp: initialMessageContent ? now : null,
-          });
-      } catch (supabaseError) {
-        console.error('Failed to save chat session to Supabase (continuing anyway):', supabaseError);
-      }
-      
+      await sessionRepository.insert({ owner: walletAddress }, [newSession]);
+      setChatSessions(prev => [newSession, ...prev]);
+
+      console.log('Created chat session:', newSession);
       return newSession;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create chat session');
       console.error('Error creating chat session:', err);
       return null;
     }
-  }, [walletAddress, chatSessions]);
+  }, [walletAddress]);
 
   const updateChatSession = useCallback(async (sessionId: string, updates: Partial<ChatSession>): Promise<ChatSession | null> => {
     if (!walletAddress) {
@@ -147,52 +110,22 @@ export const useChat = () => {
 
     setError(null);
     try {
-      // Find the session to update
-      const sessionToUpdate = chatSessions.find(session => session.id === sessionId);
-      if (!sessionToUpdate) {
-        throw new Error(`Chat session with ID ${sessionId} not found`);
-      }
-      
-      // Create updated session
-      const updatedSession = {
-        ...sessionToUpdate,
+      const updatedSession = await sessionRepository.update({ owner: walletAddress }, sessionId, {
         ...updates,
         updated_at: new Date().toISOString()
-      };
-      
-      // Update in state
-      const updatedSessions = chatSessions.map(session => 
+      });
+      setChatSessions(prev => prev.map(session =>
         session.id === sessionId ? updatedSession : session
-      );
-      setChatSessions(updatedSessions);
-      
-      // Save to localStorage
-      const localStorageKey = `gemetra_chat_sessions_${walletAddress}`;
-      localStorage.setItem(localStorageKey, JSON.stringify(updatedSessions));
-      
-      console.log('Updated chat session in localStorage:', updatedSession);
-      
-      // Try to also update in Supabase for backward compatibility
-      try {
-        await supabase
-          .from('chat_sessions')
-          .update({
-            ...updates,
-            updated_at: updatedSession.updated_at
-          })
-          .eq('id', sessionId)
-          .eq('user_id', walletAddress);
-      } catch (supabaseError) {
-        console.error('Failed to update chat session in Supabase (continuing anyway):', supabaseError);
-      }
-      
+      ));
+
+      console.log('Updated chat session:', updatedSession);
       return updatedSession;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update chat session');
       console.error('Error updating chat session:', err);
       return null;
     }
-  }, [walletAddress, chatSessions]);
+  }, [walletAddress]);
 
   const deleteChatSession = useCallback(async (sessionId: string): Promise<boolean> => {
     if (!walletAddress) {
@@ -202,34 +135,18 @@ export const useChat = () => {
 
     setError(null);
     try {
-      // Update state by filtering out the session
-      const updatedSessions = chatSessions.filter(session => session.id !== sessionId);
-      setChatSessions(updatedSessions);
-      
-      // Save to localStorage
-      const localStorageKey = `gemetra_chat_sessions_${walletAddress}`;
-      localStorage.setItem(localStorageKey, JSON.stringify(updatedSessions));
-      
-      console.log('Deleted chat session from localStorage, ID:', sessionId);
-      
-      // Try to also delete from Supabase for backward compatibility
-      try {
-        await supabase
-          .from('chat_sessions')
-          .delete()
-          .eq('id', sessionId)
-          .eq('user_id', walletAddress);
-      } catch (supabaseError) {
-        console.error('Failed to delete chat session from Supabase (continuing anyway):', supabaseError);
-      }
-      
+      await sessionRepository.remove({ owner: walletAddress }, sessionId);
+      setChatSessions(prev => prev.filter(session => session.id !== sessionId));
+      forgetSessionMemory(sessionId);
+
+      console.log('Deleted chat session, ID:', sessionId);
       return true;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete chat session');
       console.error('Error deleting chat session:', err);
       return false;
     }
-  }, [walletAddress, chatSessions]);
+  }, [walletAddress]);
 
   const getChatMessages = useCallback(async (sessionId: string): Promise<ChatMessage[]> => {
     if (!walletAddress) {
@@ -238,38 +155,12 @@ export const useChat = () => {
     }
 
     setError(null);
-    
-    // First try to get chat messages from localStorage
-    const localStorageKey = `gemetra_chat_messages_${walletAddress}_${sessionId}`;
-    const storedMessages = localStorage.getItem(localStorageKey);
-    
-    if (storedMessages) {
-      try {
-        const parsedMessages = JSON.parse(storedMessages);
-        return parsedMessages;
-      } catch (parseError) {
-        console.error('Error parsing chat messages from localStorage:', parseError);
-      }
-    }
-    
-    // If no messages in localStorage, try to get from Supabase for backward compatibility
-    try {
-      const { data, error } = await supabase
-        .from('chat_messages')
-        .select('*')
-        .eq('session_id', sessionId)
-        .eq('user_id', walletAddress)
-        .order('created_at', { ascending: true });
 
-      if (error) throw error;
-      
-      if (data && data.length > 0) {
-        // Save to localStorage for future use
-        localStorage.setItem(localStorageKey, JSON.stringify(data));
-        return data;
-      }
-      
-      return [];
+    try {
+      return await messageRepository.list(
+        messageScope(walletAddress, sessionId),
+        { orderBy: { field: 'created_at', ascending: true } }
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch chat messages');
       console.error('Error fetching chat messages:', err);
@@ -277,7 +168,14 @@ export const useChat = () => {
     }
   }, [walletAddress]);
 
-  const addChatMessage = useCallback(async (sessionId: string, type: 'user' | 'assistant', content: string): Promise<ChatMessage | null> => {
+  const addChatMessage = useCallback(async (
+    sessionId: string,
+    type: 'user' | 'assistant',
+    content: string,
+    toolCalls?: ChatToolCall[],
+    actionPlan?: ChatActionPlan,
+    cancelled?: boolean
+  ): Promise<ChatMessage | null> => {
     if (!walletAddress) {
       setError('Wallet not connected');
       return null;
@@ -292,53 +190,23 @@ export const useChat = () => {
         user_id: walletAddress,
         type: type,
         content: content,
+        ...(toolCalls && toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        ...(actionPlan ? { action_plan: actionPlan } : {}),
+        ...(cancelled ? { cancelled: true } : {}),
         created_at: now
       };
       
-      // Get existing messages for this session
-      const localStorageKey = `gemetra_chat_messages_${walletAddress}_${sessionId}`;
-      const storedMessages = localStorage.getItem(localStorageKey);
-      let existingMessages: ChatMessage[] = [];
-      
-      if (storedMessages) {
-        try {
-          existingMessages = JSON.parse(storedMessages);
-        } catch (parseError) {
-          console.error('Error parsing existing messages:', parseError);
-        }
-      }
-      
-      // Add new message
-      const updatedMessages = [...existingMessages, newMessage];
-      
-      // Save to localStorage
-      localStorage.setItem(localStorageKey, JSON.stringify(updatedMessages));
-      
-      console.log('Added chat message to localStorage:', newMessage);
-      
+      await messageRepository.insert(messageScope(walletAddress, sessionId), [newMessage]);
+
+      console.log('Added chat message:', newMessage);
+
       // Update the last message in the session
       await updateChatSession(sessionId, {
         last_message_content: content,
         last_message_timestamp: now,
         updated_at: now
       });
-      
-      // Try to also save to Supabase for backward compatibility
-      try {
-        await supabase
-          .from('chat_messages')
-          .insert({
-            id: newMessage.id,
-            session_id: sessionId,
-            user_id: walletAddress,
-            type: type,
-            content: content,
-            created_at: now
-          });
-      } catch (supabaseError) {
-        console.error('Failed to save chat message to Supabase (continuing anyway):', supabaseError);
-      }
-      
+
       return newMessage;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add chat message');
@@ -347,6 +215,28 @@ export const useChat = () => {
     }
   }, [walletAddress, updateChatSession]);
 
+  // Only the plan can change on a stored message: which proposed actions
+  // were applied or discarded
+  const updateChatMessageActionPlan = useCallback(async (
+    sessionId: string,
+    messageId: string,
+    actionPlan: ChatActionPlan
+  ): Promise<ChatMessage | null> => {
+    if (!walletAddress) {
+      setError('Wallet not connected');
+      return null;
+    }
+
+    setError(null);
+    try {
+      return await messageRepository.update(messageScope(walletAddress, sessionId), messageId, { action_plan: actionPlan });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update chat message');
+      console.error('Error updating chat message:', err);
+      return null;
+    }
+  }, [walletAddress]);
+
   return {
     chatSessions,
     loadingSessions,
@@ -357,5 +247,6 @@ export const useChat = () => {
     deleteChatSession,
     getChatMessages,
     addChatMessage,
+    updateChatMessageActionPlan,
   };
 };
\ No newline at end of file
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
-import type { Employee, EmployeeWithPayments } from '../lib/supabase';
+import type { Employee, EmployeeWithPayments, Payment } from '../lib/supabase';
+import { createRepository } from '../lib/storage';
 import { useAccount } from 'wagmi';
+
+const employeeRepository = createRepository<Employee>('employees');
+const paymentRepository = createRepository<Payment>('payments');
+
 // Helper function to generate a UUID
 function generateUUID() {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
@@ -40,54 +44,16 @@ export const useEmployees = () => {
 
     try {
       setLoading(true);
-
-      // Get employees from localStorage
-      const localStorageKey = `gemetra_employees_${walletAddress}`;
-      const storedEmployees = localStorage.getItem(localStorageKey);
-
-      if (storedEmployees) {
-        try {
-          const parsedEmployees = JSON.parse(storedEmployees);
-          setEmployees(parsedEmployees);
-          console.log('Loaded employees from localStorage:', parsedEmployees.length);
-        } catch (parseError) {
-          console.error('Error parsing employees from localStorage:', parseError);
-          setEmployees([]);
-        }
-      } else {
-        // If no employees in localStorage, try to get from Supabase for backward compatibility
-        try {
-          const { data, error } = await supabase
-            .from('employees')
-            .select('*')
-            .eq('wallet_address', walletAddress)
-            .order('created_at', { ascending: false });
-
-          if (!error && data && data.length > 0) {
-            setEmployees(data);
-            // Save to localStorage for future use
-            localStorage.setItem(localStorageKey, JSON.stringify(data));
-          } else {
-            const { data: legacyData, error: legacyError } = await supabase
-              .from('employees')
-              .select('*')
-              .eq('user_id', walletAddress)
-              .order('created_at', { ascending: false });
-
-            if (!legacyError && legacyData && legacyData.length > 0) {
-              setEmployees(legacyData);
-              // Save to localStorage for future use
-              localStorage.setItem(localStorageKey, JSON.stringify(legacyData));
-            } else {
-              setEmployees([]);
-            }
-          }
-        } catch (supabaseError) {
-          console.error('Error fetching from Supabase:', supabaseError);
-          setEmployees([]);
-        }
-      }
+      setError(null);
+
+      const storedEmployees = await employeeRepository.list(
+        { owner: walletAddress },
+        { orderBy: { field: 'created_at', ascending: false } }
+      );
+      setEmployees(storedEmployees);
+      console.log('Loaded employees:', storedEmployees.length);
     } catch (err) {
+      console.error('Error fetching employees:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch employees');
       setEmployees([]);
     } finally {
@@ -109,35 +75,15 @@ export const useEmployees = () => {
         updated_at: now
       };
 
-      // Add to state
-      const updatedEmployees = [newEmployee, ...employees];
-      setEmployees(updatedEmployees);
-
-      // Save to localStorage
-      const localStorageKey = `gemetra_employees_${walletAddress}`;
-      localStorage.setItem(localStorageKey, JSON.stringify(updatedEmployees));
-
-      console.log('Added employee to localStorage:', newEmployee);
-
-      // Try to also save to Supabase for backward compatibility
-      try {
-        await supabase
-          .from('employees')
-          .insert([
-            {
-              ...employeeData,
-              id: newEmployee.id,
-              user_id: walletAddress,
-            },
-          ]);
-      } catch (supabaseError) {
-        console.error('Failed to save employee to Supabase (continuing anyway):', supabaseError);
-      }
+      await employeeRepository.insert({ owner: walletAddress }, [newEmployee]);
+      setEmployees(prev => [newEmployee, ...prev]);
 
+      console.log('Added employee:', newEmployee);
       return newEmployee;
-    } catch (error) {
-      console.error('Error adding employee:', error);
-      throw error;
+    } catch (err) {
+      console.error('Error adding employee:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add employee');
+      throw err;
     }
   };
 
@@ -145,46 +91,18 @@ export const useEmployees = () => {
     if (!walletAddress) throw new Error('Wallet not connected');
 
     try {
-      // Find the employee to update
-      const employeeToUpdate = employees.find(emp => emp.id === id);
-      if (!employeeToUpdate) {
-        throw new Error(`Employee with ID ${id} not found`);
-      }
-
-      // Create updated employee
-      const updatedEmployee = {
-        ...employeeToUpdate,
+      const updatedEmployee = await employeeRepository.update({ owner: walletAddress }, id, {
         ...updates,
         updated_at: new Date().toISOString()
-      };
-
-      // Update in state
-      const updatedEmployees = employees.map(emp => emp.id === id ? updatedEmployee : emp);
-      setEmployees(updatedEmployees);
-
-      // Save to localStorage
-      const localStorageKey = `gemetra_employees_${walletAddress}`;
-      localStorage.setItem(localStorageKey, JSON.stringify(updatedEmployees));
-
-      console.log('Updated employee in localStorage:', updatedEmployee);
-
-      // Try to also update in Supabase for backward compatibility
-      try {
-        await supabase
-          .from('employees')
-          .update({
-            ...updates,
-            updated_at: updatedEmployee.updated_at
-          })
-          .eq('id', id);
-      } catch (supabaseError) {
-        console.error('Failed to update employee in Supabase (continuing anyway):', supabaseError);
-      }
+      });
+      setEmployees(prev => prev.map(emp => emp.id === id ? updatedEmployee : emp));
 
+      console.log('Updated employee:', updatedEmployee);
       return updatedEmployee;
-    } catch (error) {
-      console.error('Error updating employee:', error);
-      throw error;
+    } catch (err) {
+      console.error('Error updating employee:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update employee');
+      throw err;
     }
   };
 
@@ -192,28 +110,14 @@ export const useEmployees = () => {
     if (!walletAddress) throw new Error('Wallet not connected');
 
     try {
-      // Update state by filtering out the employee
-      const updatedEmployees = employees.filter(emp => emp.id !== id);
-      setEmployees(updatedEmployees);
-
-      // Save to localStorage
-      const localStorageKey = `gemetra_employees_${walletAddress}`;
-      localStorage.setItem(localStorageKey, JSON.stringify(updatedEmployees));
+      await employeeRepository.remove({ owner: walletAddress }, id);
+      setEmployees(prev => prev.filter(emp => emp.id !== id));
 
-      console.log('Deleted employee from localStorage, ID:', id);
-
-      // Try to also delete from Supabase for backward compatibility
-      try {
-        await supabase
-          .from('employees')
-          .delete()
-          .eq('id', id);
-      } catch (supabaseError) {
-        console.error('Failed to delete employee from Supabase (continuing anyway):', supabaseError);
-      }
-    } catch (error) {
-      console.error('Error deleting employee:', error);
-      throw error;
+      console.log('Deleted employee, ID:', id);
+    } catch (err) {
+      console.error('Error deleting employee:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete employee');
+      throw err;
     }
   };
 
@@ -221,36 +125,24 @@ export const useEmployees = () => {
     if (!walletAddress) throw new Error('Wallet not connected');
 
     try {
-      // Find employee in local state
-      const employee = employees.find(emp => emp.id === id);
+      const employee = await employeeRepository.get({ owner: walletAddress }, id);
       if (!employee) {
         throw new Error(`Employee with ID ${id} not found`);
       }
 
-      // For payments, we'll still try to get from Supabase if possible
-      let payments: any[] = [];
-
-      try {
-        const { data: paymentsData, error: payError } = await supabase
-          .from('payments')
-          .select('*')
-          .eq('employee_id', id)
-          .order('payment_date', { ascending: false });
-
-        if (!payError && paymentsData) {
-          payments = paymentsData;
-        }
-      } catch (error) {
-        console.error('Error fetching payments (continuing with empty payments):', error);
-      }
+      const payments = await paymentRepository.list(
+        { owner: walletAddress },
+        { where: { employee_id: id }, orderBy: { field: 'payment_date', ascending: false } }
+      );
 
       return {
         ...employee,
-        payments: payments || [],
+        payments,
       };
-    } catch (error) {
-      console.error('Error getting employee with payments:', error);
-      throw error;
+    } catch (err) {
+      console.error('Error getting employee with payments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load employee');
+      throw err;
     }
   };
 
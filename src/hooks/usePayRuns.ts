@@ -0,0 +1,328 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { FxRate, PayRun, PayRunApproval, PayRunLineItem } from '../lib/supabase';
+import { createRepository } from '../lib/storage';
+import { useAccount } from 'wagmi';
+import {
+  applyFxRates,
+  assertPayRunTransition,
+  calculatePayRunTotals,
+  deriveExecutedStatus,
+  isPayRunLeaseExpired,
+} from '../utils/payRuns';
+import {
+  assertPayRunQuorum,
+  computePayRunDigest,
+  getApprovalError,
+  getRequiredApprovals,
+  getVerifiedApprovals,
+  hasApprovalQuorum,
+  quoteThresholdRates,
+  verifyPayRunApproval,
+  type ApprovalPolicy,
+} from '../utils/approvalPolicy';
+
+const payRunRepository = createRepository<PayRun>('pay_runs');
+
+// Helper function to generate a UUID
+function generateUUID() {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+    const r = Math.random() * 16 | 0;
+    const v = c === 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+}
+
+// Identifies this tab as the holder of the execution leases it takes
+const executionOwnerId = generateUUID();
+
+export interface PayRunDraft {
+  schedule_id?: string;
+  line_items: Array<Omit<PayRunLineItem, 'status'>>;
+  // Rates the fiat line items were converted at
+  fx_rates?: FxRate[];
+}
+
+export interface PayRunLineItemResult {
+  employee_id: string;
+  status: 'paid' | 'failed' | 'uncertain';
+  payment_id?: string;
+  transaction_hash?: string;
+  error?: string;
+}
+
+// Sets the outcome of the recipients of an execution and the status the run
+// ends in
+const applyPayRunResults = (payRun: PayRun, results: PayRunLineItemResult[]): PayRun => {
+  const lineItems = payRun.line_items.map(item => {
+    const result = results.find(r => r.employee_id === item.employee_id);
+    // Paid recipients are final and are never overwritten by a later retry
+    if (!result || item.status === 'paid') return item;
+    return {
+      ...item,
+      status: result.status,
+      payment_id: result.payment_id,
+      transaction_hash: result.transaction_hash,
+      error: result.error
+    };
+  });
+
+  const status = deriveExecutedStatus(lineItems);
+  assertPayRunTransition(payRun, status);
+
+  const paymentIds = lineItems
+    .map(item => item.payment_id)
+    .filter((paymentId): paymentId is string => !!paymentId);
+
+  return {
+    ...payRun,
+    status,
+    line_items: lineItems,
+    payment_ids: Array.from(new Set([...payRun.payment_ids, ...paymentIds])),
+    completed_at: status === 'completed' ? new Date().toISOString() : payRun.completed_at
+  };
+};
+
+// Runs are stored under the maker's wallet; pass `ownerAddress` so an
+// approver connected with a different wallet works on the same runs
+export const usePayRuns = (ownerAddress?: string) => {
+  const { address, isConnected } = useAccount();
+  const walletAddress = ownerAddress || (isConnected && address ? address : null);
+  const [payRuns, setPayRuns] = useState<PayRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Always read the latest run from storage so consecutive updates within
+  // one flow never overwrite each other with stale state
+  const readStoredPayRun = useCallback(async (id: string): Promise<PayRun> => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+    const payRun = await payRunRepository.get({ owner: walletAddress }, id);
+    if (!payRun) {
+      throw new Error(`Pay run with ID ${id} not found`);
+    }
+    return payRun;
+  }, [walletAddress]);
+
+  // Load pay runs when wallet address changes
+  useEffect(() => {
+    if (!walletAddress) {
+      setPayRuns([]);
+      return;
+    }
+
+    payRunRepository
+      .list({ owner: walletAddress }, { orderBy: { field: 'created_at', ascending: false } })
+      .then(storedPayRuns => {
+        setPayRuns(storedPayRuns);
+        if (storedPayRuns.length > 0) {
+          console.log('Loaded pay runs:', storedPayRuns.length);
+        }
+      })
+      .catch(err => {
+        console.error('Error loading pay runs:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load pay runs');
+        setPayRuns([]);
+      });
+  }, [walletAddress]);
+
+  const updatePayRun = useCallback(async (id: string, update: (payRun: PayRun) => PayRun) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const payRun = await readStoredPayRun(id);
+      const updatedPayRun = await payRunRepository.update({ owner: payRun.user_id }, id, {
+        ...update(payRun),
+        updated_at: new Date().toISOString()
+      });
+      setPayRuns(prev => prev.map(run => run.id === id ? updatedPayRun : run));
+      return updatedPayRun;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update pay run';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [readStoredPayRun]);
+
+  const createPayRun = useCallback(async (draft: PayRunDraft, policy: ApprovalPolicy) => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (draft.line_items.length === 0) {
+      throw new Error('A pay run needs at least one recipient');
+    }
+
+    const now = new Date().toISOString();
+    const id = generateUUID();
+    const lineItems: PayRunLineItem[] = draft.line_items.map(item => ({ ...item, status: 'pending' }));
+    const totals = calculatePayRunTotals(lineItems);
+    const thresholdRates = await quoteThresholdRates(policy, Object.keys(totals));
+    // The required approvals and digest are fixed when the run is created,
+    // so later policy edits do not change what approvers are signing
+    const payRun: PayRun = {
+      id,
+      user_id: walletAddress,
+      schedule_id: draft.schedule_id,
+      status: 'draft',
+      line_items: lineItems,
+      totals,
+      fx_rates: draft.fx_rates,
+      payment_ids: [],
+      created_by: walletAddress,
+      approvals: [],
+      required_approvals: getRequiredApprovals(policy, totals, thresholdRates),
+      approval_digest: computePayRunDigest({ id, line_items: lineItems, fx_rates: draft.fx_rates }),
+      created_at: now,
+      updated_at: now
+    };
+
+    try {
+      await payRunRepository.insert({ owner: walletAddress }, [payRun]);
+      setPayRuns(prev => [payRun, ...prev]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create pay run';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    console.log('Created pay run:', payRun.id);
+    return payRun;
+  }, [walletAddress]);
+
+  const addPayRunApproval = useCallback(async (id: string, approval: PayRunApproval, policy: ApprovalPolicy) => {
+    const payRun = await readStoredPayRun(id);
+    if (payRun.status !== 'draft') {
+      throw new Error('Only draft pay runs can be approved');
+    }
+
+    const approvalError = getApprovalError(payRun, policy, approval.approver);
+    if (approvalError) {
+      setError(approvalError);
+      throw new Error(approvalError);
+    }
+
+    if (!await verifyPayRunApproval(payRun, approval)) {
+      const errorMessage = 'Approval signature does not match this pay run';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    return updatePayRun(id, run => {
+      const approved = { ...run, approvals: [...(run.approvals || []), approval] };
+      if (!hasApprovalQuorum(approved)) return approved;
+
+      assertPayRunTransition(run, 'approved');
+      return {
+        ...approved,
+        status: 'approved',
+        approved_by: approval.approver,
+        approved_at: approval.approved_at
+      };
+    });
+  }, [readStoredPayRun, updatePayRun]);
+
+  // Converts the run's fiat amounts again at fresh rates. The amounts change,
+  // so the run goes back to draft and collects its approvals again.
+  const requotePayRun = useCallback(async (id: string, rates: FxRate[], policy: ApprovalPolicy) => {
+    // Re-quoting changes amounts but never the tokens a run pays out in
+    const storedPayRun = await readStoredPayRun(id);
+    const thresholdRates = await quoteThresholdRates(policy, Object.keys(storedPayRun.totals));
+
+    return updatePayRun(id, payRun => {
+      if (payRun.line_items.some(item => item.status === 'paid' || item.status === 'uncertain')) {
+        throw new Error('Rates cannot be re-quoted once recipients have been paid');
+      }
+      assertPayRunTransition(payRun, 'draft');
+
+      const lineItems = applyFxRates(payRun.line_items, rates)
+        .map(item => ({ ...item, status: 'pending' as const, error: undefined }));
+      const totals = calculatePayRunTotals(lineItems);
+      return {
+        ...payRun,
+        status: 'draft',
+        line_items: lineItems,
+        totals,
+        fx_rates: rates,
+        approvals: [],
+        required_approvals: getRequiredApprovals(policy, totals, thresholdRates),
+        approval_digest: computePayRunDigest({ id, line_items: lineItems, fx_rates: rates }),
+        approved_by: undefined,
+        approved_at: undefined
+      };
+    });
+  }, [readStoredPayRun, updatePayRun]);
+
+  const startPayRunExecution = useCallback(async (id: string) => {
+    // Every signature is recovered again right before funds move; stored
+    // approvals are only trusted once they verify against the current run
+    const storedPayRun = await readStoredPayRun(id);
+    const verifiedApprovals = await getVerifiedApprovals(storedPayRun);
+
+    return updatePayRun(id, payRun => {
+      if (computePayRunDigest(payRun) !== computePayRunDigest(storedPayRun)) {
+        throw new Error('Pay run changed while its approvals were being verified');
+      }
+      // A run without approvals has zero approvals, never an exemption
+      assertPayRunQuorum({ ...payRun, approvals: verifiedApprovals });
+      assertPayRunTransition(payRun, 'executing');
+      const now = new Date().toISOString();
+      return {
+        ...payRun,
+        status: 'executing',
+        executed_at: now,
+        execution_owner: executionOwnerId,
+        execution_heartbeat_at: now
+      };
+    });
+  }, [readStoredPayRun, updatePayRun]);
+
+  // Keeps this tab's lease on a run it is executing, so other tabs do not
+  // take it for interrupted
+  const renewPayRunLease = useCallback(async (id: string) => {
+    return updatePayRun(id, payRun => {
+      if (payRun.status !== 'executing' || payRun.execution_owner !== executionOwnerId) {
+        throw new Error('Pay run is no longer executed by this tab');
+      }
+      return { ...payRun, execution_heartbeat_at: new Date().toISOString() };
+    });
+  }, [updatePayRun]);
+
+  const recordPayRunResults = useCallback(async (id: string, results: PayRunLineItemResult[]) => {
+    return updatePayRun(id, payRun => applyPayRunResults(payRun, results));
+  }, [updatePayRun]);
+
+  // Records the outcome of a run whose executing tab went away. A run whose
+  // lease is still held is being paid right now and is left alone.
+  const recoverInterruptedPayRun = useCallback(async (id: string, results: PayRunLineItemResult[]) => {
+    return updatePayRun(id, payRun => {
+      if (payRun.status !== 'executing') return payRun;
+      if (!isPayRunLeaseExpired(payRun)) {
+        throw new Error('Pay run is being executed in another tab');
+      }
+      return applyPayRunResults(payRun, results);
+    });
+  }, [updatePayRun]);
+
+  const getPayRun = useCallback(async (id: string): Promise<PayRun | null> => {
+    if (!walletAddress) return null;
+    return payRunRepository.get({ owner: walletAddress }, id);
+  }, [walletAddress]);
+
+  return {
+    payRuns,
+    loading,
+    error,
+    createPayRun,
+    addPayRunApproval,
+    requotePayRun,
+    startPayRunExecution,
+    renewPayRunLease,
+    recordPayRunResults,
+    recoverInterruptedPayRun,
+    getPayRun,
+  };
+};
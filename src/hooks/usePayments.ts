@@ -1,7 +1,10 @@
 import { useState, useCallback, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
 import type { Payment } from '../lib/supabase';
+import { createRepository } from '../lib/storage';
 import { useAccount } from 'wagmi';
+import { isSupportedToken, parseAmount, toStoredAmount } from '../utils/money';
+
+const paymentRepository = createRepository<Payment>('payments');
 
 // Helper function to generate a UUID
 function generateUUID() {
@@ -14,7 +17,6 @@ function generateUUID() {
 
 export const usePayments = () => {
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
-  const [payments, setPayments] = useState<Payment[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { address,isConnected } = useAccount();
@@ -30,131 +32,67 @@ export const usePayments = () => {
     };
     checkWalletConnection();
   }, []);
-  
-  // Load payments from localStorage when wallet address changes
-  useEffect(() => {
-    if (walletAddress) {
-      const localStorageKey = `gemetra_payments_${walletAddress}`;
-      const storedPayments = localStorage.getItem(localStorageKey);
-      
-      if (storedPayments) {
-        try {
-          const parsedPayments = JSON.parse(storedPayments);
-          setPayments(parsedPayments);
-          console.log('Loaded payments from localStorage:', parsedPayments.length);
-        } catch (parseError) {
-          console.error('Error parsing payments from localStorage:', parseError);
-          setPayments([]);
-        }
-      } else {
-        setPayments([]);
-      }
-    } else {
-      setPayments([]);
-    }
-  }, [walletAddress]);
 
-  const createPayment = useCallback(async (paymentData: Omit<Payment, 'id' | 'user_id' | 'created_at'>) => {
-    setLoading(true);
-    setError(null);
-    
+  // Records several payments in one write, e.g. every recipient of a pay run
+  const createPayments = useCallback(async (paymentDataList: Array<Omit<Payment, 'id' | 'user_id' | 'created_at'>>) => {
     if (!walletAddress) {
       throw new Error('Wallet not connected');
     }
 
+    setLoading(true);
+    setError(null);
+
     try {
-      // Create a new payment with generated ID and timestamp
       const now = new Date().toISOString();
-      const newPayment: Payment = {
+      const newPayments: Payment[] = paymentDataList.map(paymentData => ({
         id: generateUUID(),
         user_id: walletAddress, // Use wallet address as user ID
+        // Exact amount alongside the display amount, for supported tokens
+        ...(isSupportedToken(paymentData.token) ? toStoredAmount(parseAmount(paymentData.amount, paymentData.token)) : {}),
         ...paymentData,
-        created_at: now
-      };
-      
-      // Add to state
-      const updatedPayments = [newPayment, ...payments];
-      setPayments(updatedPayments);
-      
-      // Save to localStorage
-      const localStorageKey = `gemetra_payments_${walletAddress}`;
-      localStorage.setItem(localStorageKey, JSON.stringify(updatedPayments));
-      
-      console.log('Added payment to localStorage:', newPayment);
-      
-      // Try to also save to Supabase for backward compatibility
-      try {
-        await supabase
-          .from('payments')
-          .insert([{
-            ...paymentData,
-            id: newPayment.id,
-            user_id: walletAddress,
-          }]);
-      } catch (supabaseError) {
-        console.error('Failed to save payment to Supabase (continuing anyway):', supabaseError);
-      }
-      
-      return newPayment;
+        created_at: now,
+        updated_at: now
+      }));
+
+      await paymentRepository.insert({ owner: walletAddress }, newPayments);
+
+      console.log('Added payments:', newPayments.length);
+      return newPayments;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create payment';
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create payments';
       setError(errorMessage);
       throw new Error(errorMessage);
     } finally {
       setLoading(false);
     }
-  }, [walletAddress, payments]);
+  }, [walletAddress]);
+
+  const createPayment = useCallback(async (paymentData: Omit<Payment, 'id' | 'user_id' | 'created_at'>) => {
+    const [newPayment] = await createPayments([paymentData]);
+    return newPayment;
+  }, [createPayments]);
 
   const updatePaymentStatus = useCallback(async (
     id: string, 
     status: 'pending' | 'completed' | 'failed',
     transactionHash?: string
   ) => {
-    setLoading(true);
-    setError(null);
-    
     if (!walletAddress) {
       throw new Error('Wallet not connected');
     }
 
+    setLoading(true);
+    setError(null);
+
     try {
-      // Find the payment to update
-      const paymentToUpdate = payments.find(payment => payment.id === id);
-      if (!paymentToUpdate) {
-        throw new Error(`Payment with ID ${id} not found`);
-      }
-      
-      // Create updated payment
-      const updateData: Partial<Payment> = { status };
+      const updateData: Partial<Payment> = { status, updated_at: new Date().toISOString() };
       if (transactionHash) {
         updateData.transaction_hash = transactionHash;
       }
-      
-      const updatedPayment = {
-        ...paymentToUpdate,
-        ...updateData
-      };
-      
-      // Update in state
-      const updatedPayments = payments.map(payment => payment.id === id ? updatedPayment : payment);
-      setPayments(updatedPayments);
-      
-      // Save to localStorage
-      const localStorageKey = `gemetra_payments_${walletAddress}`;
-      localStorage.setItem(localStorageKey, JSON.stringify(updatedPayments));
-      
-      console.log('Updated payment in localStorage:', updatedPayment);
-      
-      // Try to also update in Supabase for backward compatibility
-      try {
-        await supabase
-          .from('payments')
-          .update(updateData)
-          .eq('id', id);
-      } catch (supabaseError) {
-        console.error('Failed to update payment in Supabase (continuing anyway):', supabaseError);
-      }
-      
+
+      const updatedPayment = await paymentRepository.update({ owner: walletAddress }, id, updateData);
+
+      console.log('Updated payment:', updatedPayment);
       return updatedPayment;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update payment';
@@ -163,28 +101,22 @@ export const usePayments = () => {
     } finally {
       setLoading(false);
     }
-  }, [walletAddress, payments]);
+  }, [walletAddress]);
 
   const getPaymentsByEmployee = useCallback(async (employeeId: string) => {
-    setLoading(true);
-    setError(null);
-    
     if (!walletAddress) {
       return [];
     }
 
+    setLoading(true);
+    setError(null);
+
     try {
-      // Filter payments by employee ID from local state
-      const employeePayments = payments.filter(payment => payment.employee_id === employeeId);
-      
-      // Sort by payment date descending
-      const sortedPayments = [...employeePayments].sort((a, b) => {
-        const dateA = a.payment_date ? new Date(a.payment_date).getTime() : 0;
-        const dateB = b.payment_date ? new Date(b.payment_date).getTime() : 0;
-        return dateB - dateA;
-      });
-      
-      return sortedPayments;
+      // Sorted by payment date descending
+      return await paymentRepository.list(
+        { owner: walletAddress },
+        { where: { employee_id: employeeId }, orderBy: { field: 'payment_date', ascending: false } }
+      );
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch payments';
       setError(errorMessage);
@@ -192,26 +124,22 @@ export const usePayments = () => {
     } finally {
       setLoading(false);
     }
-  }, [walletAddress, payments]);
+  }, [walletAddress]);
 
   const getAllPayments = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-
     if (!walletAddress) {
       return [];
     }
 
+    setLoading(true);
+    setError(null);
+
     try {
-      // Return all payments from local state
-      // Sort by payment date descending
-      const sortedPayments = [...payments].sort((a, b) => {
-        const dateA = a.payment_date ? new Date(a.payment_date).getTime() : 0;
-        const dateB = b.payment_date ? new Date(b.payment_date).getTime() : 0;
-        return dateB - dateA;
-      });
-      
-      return sortedPayments;
+      // Sorted by payment date descending
+      return await paymentRepository.list(
+        { owner: walletAddress },
+        { orderBy: { field: 'payment_date', ascending: false } }
+      );
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch all payments';
       setError(errorMessage);
@@ -219,12 +147,13 @@ export const usePayments = () => {
     } finally {
       setLoading(false);
     }
-  }, [walletAddress, payments]);
+  }, [walletAddress]);
 
   return {
     loading,
     error,
     createPayment,
+    createPayments,
     updatePaymentStatus,
     getPaymentsByEmployee,
     getAllPayments,
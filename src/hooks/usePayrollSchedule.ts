@@ -0,0 +1,43 @@
+import { useState, useEffect, useMemo } from 'react';
+import { usePayments } from './usePayments';
+import type { Employee, Payment } from '../lib/supabase';
+import {
+  generatePayRuns,
+  getNextPayRun,
+  getOverduePayRuns,
+  type ScheduledPayRun,
+} from '../utils/payrollSchedule';
+
+export const usePayrollSchedule = (employees: Employee[], refreshKey: number = 0) => {
+  const { getAllPayments } = usePayments();
+  const [payments, setPayments] = useState<Payment[]>([]);
+
+  useEffect(() => {
+    const fetchPayments = async () => {
+      try {
+        const allPayments = await getAllPayments();
+        setPayments(allPayments);
+      } catch (error) {
+        console.error('usePayrollSchedule: Failed to fetch payments:', error);
+        setPayments([]);
+      }
+    };
+
+    fetchPayments();
+  }, [getAllPayments, refreshKey]);
+
+  const payRuns: ScheduledPayRun[] = useMemo(
+    () => generatePayRuns(employees, payments),
+    [employees, payments]
+  );
+
+  const nextPayRun = useMemo(() => getNextPayRun(payRuns), [payRuns]);
+  const overduePayRuns = useMemo(() => getOverduePayRuns(payRuns), [payRuns]);
+
+  return {
+    payments,
+    payRuns,
+    nextPayRun,
+    overduePayRuns,
+  };
+};
@@ -0,0 +1,77 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useAccount, useWalletClient } from 'wagmi';
+import { walletManager, type SignSessionAuthorization, type WalletSession } from '../utils/walletManager';
+import type { SessionScope } from '../utils/sessionKeys';
+
+// The connected wallet's session key: create one with a scope, rotate it or
+// revoke it. Creating and rotating ask the wallet for one signature each.
+export const useSessionKeys = () => {
+  const { address, isConnected } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const walletAddress = isConnected && address ? address : null;
+  const [session, setSession] = useState<WalletSession | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    await walletManager.whenReady();
+    setSession(walletAddress ? walletManager.getActiveSession(walletAddress) : null);
+  }, [walletAddress]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const signAuthorization: SignSessionAuthorization = useCallback(async (typedData) => {
+    if (!walletClient?.account) {
+      throw new Error('Wallet not connected');
+    }
+    return walletClient.signTypedData({ ...typedData, account: walletClient.account });
+  }, [walletClient]);
+
+  const run = useCallback(async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error || 'Session key request failed');
+      }
+      await refresh();
+      return result.success;
+    } finally {
+      setLoading(false);
+    }
+  }, [refresh]);
+
+  const createSession = useCallback((scope: SessionScope) => run(async () => {
+    if (!walletAddress || !walletClient) {
+      return { success: false, error: 'Wallet not connected' };
+    }
+    return walletManager.createWalletSession(walletAddress, scope, walletClient.chain.id, signAuthorization);
+  }), [run, walletAddress, walletClient, signAuthorization]);
+
+  const rotateSession = useCallback(() => run(async () => {
+    if (!walletAddress) {
+      return { success: false, error: 'Wallet not connected' };
+    }
+    return walletManager.rotateSession(walletAddress, signAuthorization);
+  }), [run, walletAddress, signAuthorization]);
+
+  const revokeSession = useCallback(() => run(async () => {
+    if (!walletAddress || !walletManager.revokeSession(walletAddress)) {
+      return { success: false, error: 'No active session to revoke' };
+    }
+    return { success: true };
+  }), [run, walletAddress]);
+
+  return {
+    session,
+    loading,
+    error,
+    createSession,
+    rotateSession,
+    revokeSession,
+    refresh,
+  };
+};
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getSyncEngine, type SyncStatus } from '../lib/storage';
+
+// Status of the offline sync outbox; `status` is null when the active storage
+// backend does not sync (e.g. plain localStorage)
+export const useSyncStatus = () => {
+  const [status, setStatus] = useState<SyncStatus | null>(() => getSyncEngine()?.getStatus() ?? null);
+
+  useEffect(() => {
+    const engine = getSyncEngine();
+    if (!engine) return;
+    setStatus(engine.getStatus());
+    return engine.subscribe(setStatus);
+  }, []);
+
+  const retry = useCallback(async () => {
+    await getSyncEngine()?.flush();
+  }, []);
+
+  const clearConflicts = useCallback(() => {
+    getSyncEngine()?.clearConflicts();
+  }, []);
+
+  // Writes the server refused are sent again, or dropped in favour of the
+  // server's copy, only when the user says so
+  const retryDeadLetter = useCallback(async (id: string) => {
+    await getSyncEngine()?.retryDeadLetter(id);
+  }, []);
+
+  const discardDeadLetter = useCallback(async (id: string) => {
+    await getSyncEngine()?.discardDeadLetter(id);
+  }, []);
+
+  return {
+    status,
+    retry,
+    clearConflicts,
+    retryDeadLetter,
+    discardDeadLetter,
+  };
+};
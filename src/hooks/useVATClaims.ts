@@ -0,0 +1,255 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { FxRate, VATClaim } from '../lib/supabase';
+import { createRepository } from '../lib/storage';
+import { useAccount } from 'wagmi';
+import { assertVATClaimTransition, decideVATClaim, withPayoutAmount } from '../utils/vatClaims';
+import type { VATRules } from '../utils/vatRules';
+import { convertFiatToToken } from '../utils/fx';
+import { computeClaimFingerprint, DEFAULT_VAT_RISK_POLICY, type VATRiskPolicy } from '../utils/vatFraud';
+
+const vatClaimRepository = createRepository<VATClaim>('vat_claims');
+
+// Helper function to generate a UUID
+function generateUUID() {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+    const r = Math.random() * 16 | 0;
+    const v = c === 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+}
+
+// Receipt, traveller and payout details entered for a claim; amounts, risk
+// and the decision are filled in by the rules
+export type VATClaimDraft = Omit<
+  VATClaim,
+  | 'id' | 'user_id' | 'status' | 'currency' | 'refundable_amount' | 'commission_amount' | 'payout_amount'
+  | 'payout_amount_base_units' | 'payout_token_decimals'
+  | 'fx_rate' | 'rejection_reasons' | 'fingerprint' | 'risk_score' | 'risk_flags'
+  | 'reviewed_by' | 'reviewed_at' | 'review_note' | 'settlement_batch_id' | 'payment_id' | 'transaction_hash' | 'error'
+  | 'submitted_via' | 'access_token_hash'
+  | 'submitted_at' | 'decided_at' | 'paid_at' | 'created_at' | 'updated_at'
+>;
+
+export const useVATClaims = (ownerAddress?: string) => {
+  const { address, isConnected } = useAccount();
+  const walletAddress = ownerAddress || (isConnected && address ? address : null);
+  const [claims, setClaims] = useState<VATClaim[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readStoredClaim = useCallback(async (id: string): Promise<VATClaim> => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+    const claim = await vatClaimRepository.get({ owner: walletAddress }, id);
+    if (!claim) {
+      throw new Error(`VAT claim with ID ${id} not found`);
+    }
+    return claim;
+  }, [walletAddress]);
+
+  // Load claims when wallet address changes
+  useEffect(() => {
+    if (!walletAddress) {
+      setClaims([]);
+      return;
+    }
+
+    vatClaimRepository
+      .list({ owner: walletAddress }, { orderBy: { field: 'created_at', ascending: false } })
+      .then(setClaims)
+      .catch(err => {
+        console.error('Error loading VAT claims:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load VAT claims');
+        setClaims([]);
+      });
+  }, [walletAddress]);
+
+  const updateClaim = useCallback(async (id: string, update: (claim: VATClaim) => VATClaim) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const claim = await readStoredClaim(id);
+      const updatedClaim = await vatClaimRepository.update({ owner: claim.user_id }, id, {
+        ...update(claim),
+        updated_at: new Date().toISOString()
+      });
+      setClaims(prev => prev.map(c => c.id === id ? updatedClaim : c));
+      return updatedClaim;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update VAT claim';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [readStoredClaim]);
+
+  // Lists the stored claims to compare a new claim against; state may still
+  // be loading
+  const listExistingClaims = useCallback(async (): Promise<VATClaim[]> => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+    try {
+      return await vatClaimRepository.list({ owner: walletAddress });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to check earlier VAT claims';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  }, [walletAddress]);
+
+  // Submits a claim and decides it against the rules straight away (see
+  // decideVATClaim). Eligible claims need `fxRate` (the payout token's price
+  // in the claim currency) to fix the payout amount.
+  const submitClaim = useCallback(async (
+    draft: VATClaimDraft,
+    rules: VATRules,
+    fxRate?: FxRate,
+    policy: VATRiskPolicy = DEFAULT_VAT_RISK_POLICY
+  ) => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    const now = new Date().toISOString();
+    const submitted: VATClaim = {
+      ...draft,
+      id: generateUUID(),
+      user_id: walletAddress,
+      status: 'submitted',
+      currency: rules[draft.country]?.currency || '',
+      refundable_amount: 0,
+      commission_amount: 0,
+      fingerprint: computeClaimFingerprint(draft),
+      submitted_via: 'operator',
+      submitted_at: now,
+      created_at: now,
+      updated_at: now
+    };
+    const claim = decideVATClaim(submitted, await listExistingClaims(), rules, fxRate, policy, now);
+
+    try {
+      await vatClaimRepository.insert({ owner: walletAddress }, [claim]);
+      setClaims(prev => [claim, ...prev]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to submit VAT claim';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    console.log(`VAT claim ${claim.id} ${claim.status}`);
+    return claim;
+  }, [walletAddress, listExistingClaims]);
+
+  // Decides a claim that arrived through the traveller portal, which only
+  // submits claims, against the operator's rules
+  const checkSubmittedClaim = useCallback(async (
+    id: string,
+    rules: VATRules,
+    fxRate?: FxRate,
+    policy: VATRiskPolicy = DEFAULT_VAT_RISK_POLICY
+  ) => {
+    const existingClaims = await listExistingClaims();
+    return updateClaim(id, claim => decideVATClaim(claim, existingClaims, rules, fxRate, policy));
+  }, [listExistingClaims, updateClaim]);
+
+  // Records an operator's decision on a claim waiting in review. Rejecting
+  // and asking for documents need a note, which the traveller is shown.
+  // Approving re-quotes the payout at `fxRate`, since the claim may have
+  // waited a while.
+  const reviewClaim = useCallback(async (
+    id: string,
+    decision: 'approved' | 'rejected' | 'needs_info',
+    review: { reviewer: string; note?: string },
+    fxRate?: FxRate
+  ) => {
+    return updateClaim(id, claim => {
+      assertVATClaimTransition(claim, decision);
+      if (decision !== 'approved' && !review.note) {
+        throw new Error(decision === 'rejected' ? 'Give a reason for the rejection' : 'Say which documents are needed');
+      }
+
+      const now = new Date().toISOString();
+      const reviewed: VATClaim = {
+        ...claim,
+        status: decision,
+        reviewed_by: review.reviewer,
+        reviewed_at: now,
+        review_note: review.note
+      };
+
+      if (decision === 'needs_info') {
+        return reviewed;
+      }
+
+      if (decision === 'rejected') {
+        return {
+          ...reviewed,
+          rejection_reasons: [`Rejected in review: ${review.note}`],
+          ...withPayoutAmount(),
+          fx_rate: undefined,
+          decided_at: now
+        };
+      }
+
+      if (!fxRate || fxRate.currency !== claim.currency || fxRate.token !== claim.payout_token) {
+        throw new Error(`A ${claim.payout_token} rate in ${claim.currency} is needed to approve this claim`);
+      }
+      return {
+        ...reviewed,
+        ...withPayoutAmount(convertFiatToToken(claim.refundable_amount, fxRate)),
+        fx_rate: fxRate,
+        decided_at: now
+      };
+    });
+  }, [updateClaim]);
+
+  // Reserves a claim for a settlement batch before its payout is sent, so no
+  // other batch picks it up while the outcome is not recorded yet
+  const reserveClaimForSettlement = useCallback(async (id: string, settlementBatchId: string) => {
+    return updateClaim(id, claim => {
+      assertVATClaimTransition(claim, 'settling');
+      return { ...claim, status: 'settling', settlement_batch_id: settlementBatchId, error: undefined };
+    });
+  }, [updateClaim]);
+
+  const markClaimPaid = useCallback(async (
+    id: string,
+    payout: { payment_id?: string; transaction_hash?: string; settlement_batch_id?: string }
+  ) => {
+    return updateClaim(id, claim => {
+      assertVATClaimTransition(claim, 'paid');
+      return {
+        ...claim,
+        status: 'paid',
+        payment_id: payout.payment_id,
+        transaction_hash: payout.transaction_hash,
+        settlement_batch_id: payout.settlement_batch_id ?? claim.settlement_batch_id,
+        error: undefined,
+        paid_at: new Date().toISOString()
+      };
+    });
+  }, [updateClaim]);
+
+  const markClaimFailed = useCallback(async (id: string, failure: string, settlementBatchId?: string) => {
+    return updateClaim(id, claim => {
+      assertVATClaimTransition(claim, 'failed');
+      return { ...claim, status: 'failed', error: failure, settlement_batch_id: settlementBatchId ?? claim.settlement_batch_id };
+    });
+  }, [updateClaim]);
+
+  return {
+    claims,
+    loading,
+    error,
+    submitClaim,
+    checkSubmittedClaim,
+    reviewClaim,
+    reserveClaimForSettlement,
+    markClaimPaid,
+    markClaimFailed,
+  };
+};
@@ -0,0 +1,86 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useAccount } from 'wagmi';
+import {
+  DEFAULT_VAT_RULES,
+  validateVATCountryRules,
+  type VATCountryRules,
+  type VATRules,
+} from '../utils/vatRules';
+
+// Rules belong to the refund operator's wallet; only the countries the
+// operator changed are stored, so updated defaults still reach the rest
+export const useVATRules = (ownerAddress?: string) => {
+  const { address, isConnected } = useAccount();
+  const walletAddress = ownerAddress || (isConnected && address ? address : null);
+  const [rules, setRules] = useState<VATRules>(DEFAULT_VAT_RULES);
+  const [error, setError] = useState<string | null>(null);
+
+  const readStoredOverrides = useCallback((): VATRules => {
+    if (!walletAddress) return {};
+    const storedRules = localStorage.getItem(`gemetra_vat_rules_${walletAddress}`);
+    if (!storedRules) return {};
+    try {
+      return JSON.parse(storedRules);
+    } catch (parseError) {
+      console.error('Error parsing VAT rules from localStorage:', parseError);
+      return {};
+    }
+  }, [walletAddress]);
+
+  const readStoredRules = useCallback((): VATRules => {
+    const overrides = readStoredOverrides();
+    return Object.fromEntries(
+      Object.entries(DEFAULT_VAT_RULES).map(([country, defaults]) => [country, { ...defaults, ...overrides[country] }])
+    );
+  }, [readStoredOverrides]);
+
+  // Load the rules from localStorage when wallet address changes
+  useEffect(() => {
+    setRules(readStoredRules());
+  }, [readStoredRules]);
+
+  const saveCountryRules = useCallback((updatedRules: VATCountryRules) => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!DEFAULT_VAT_RULES[updatedRules.country]) {
+      const errorMessage = `VAT refunds are not offered for ${updatedRules.country}`;
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    const validationError = validateVATCountryRules(updatedRules);
+    if (validationError) {
+      setError(validationError);
+      throw new Error(validationError);
+    }
+
+    const overrides = { ...readStoredOverrides(), [updatedRules.country]: updatedRules };
+    setError(null);
+    setRules(prev => ({ ...prev, [updatedRules.country]: updatedRules }));
+    localStorage.setItem(`gemetra_vat_rules_${walletAddress}`, JSON.stringify(overrides));
+    return updatedRules;
+  }, [walletAddress, readStoredOverrides]);
+
+  const resetCountryRules = useCallback((country: string) => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    const overrides = readStoredOverrides();
+    delete overrides[country];
+    setError(null);
+    setRules(prev => ({ ...prev, [country]: DEFAULT_VAT_RULES[country] }));
+    localStorage.setItem(`gemetra_vat_rules_${walletAddress}`, JSON.stringify(overrides));
+    return DEFAULT_VAT_RULES[country];
+  }, [walletAddress, readStoredOverrides]);
+
+  return {
+    rules,
+    error,
+    saveCountryRules,
+    resetCountryRules,
+    readStoredRules,
+  };
+};
@@ -0,0 +1,122 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { VATClaim, VATSettlementBatch, VATSettlementItem, VATSettlementMethod } from '../lib/supabase';
+import { createRepository } from '../lib/storage';
+import { useAccount } from 'wagmi';
+import { calculatePayRunTotals } from '../utils/payRuns';
+import { createSettlementItems, deriveSettlementStatus } from '../utils/vatSettlement';
+
+const settlementRepository = createRepository<VATSettlementBatch>('vat_settlements');
+
+// Helper function to generate a UUID
+function generateUUID() {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+    const r = Math.random() * 16 | 0;
+    const v = c === 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+}
+
+export const useVATSettlements = (ownerAddress?: string) => {
+  const { address, isConnected } = useAccount();
+  const walletAddress = ownerAddress || (isConnected && address ? address : null);
+  const [batches, setBatches] = useState<VATSettlementBatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load batches when wallet address changes
+  useEffect(() => {
+    if (!walletAddress) {
+      setBatches([]);
+      return;
+    }
+
+    settlementRepository
+      .list({ owner: walletAddress }, { orderBy: { field: 'created_at', ascending: false } })
+      .then(setBatches)
+      .catch(err => {
+        console.error('Error loading VAT settlements:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load VAT settlements');
+        setBatches([]);
+      });
+  }, [walletAddress]);
+
+  // Creates a batch for approved claims, ready to be executed
+  const createBatch = useCallback(async (claims: VATClaim[], method: VATSettlementMethod) => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+    if (claims.length === 0) {
+      throw new Error('Select at least one approved claim to settle');
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const items = createSettlementItems(claims);
+      const now = new Date().toISOString();
+      const batch: VATSettlementBatch = {
+        id: generateUUID(),
+        user_id: walletAddress,
+        method,
+        status: 'executing',
+        items,
+        totals: calculatePayRunTotals(items),
+        created_by: walletAddress,
+        created_at: now,
+        updated_at: now
+      };
+
+      await settlementRepository.insert({ owner: walletAddress }, [batch]);
+      setBatches(prev => [batch, ...prev]);
+      return batch;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create VAT settlement';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [walletAddress]);
+
+  const recordBatchResults = useCallback(async (id: string, items: VATSettlementItem[]) => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const batch = await settlementRepository.get({ owner: walletAddress }, id);
+      if (!batch) {
+        throw new Error(`VAT settlement with ID ${id} not found`);
+      }
+
+      const now = new Date().toISOString();
+      const updatedBatch = await settlementRepository.update({ owner: batch.user_id }, id, {
+        ...batch,
+        items,
+        status: deriveSettlementStatus(items),
+        completed_at: now,
+        updated_at: now
+      });
+      setBatches(prev => prev.map(b => b.id === id ? updatedBatch : b));
+      return updatedBatch;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to record VAT settlement';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [walletAddress]);
+
+  return {
+    batches,
+    loading,
+    error,
+    createBatch,
+    recordBatchResults,
+  };
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { requiresWalletIdentity, verifyWalletIdentity } from '../services/walletIdentityService';
+
+export type WalletIdentityStatus = 'idle' | 'verifying' | 'verified' | 'failed';
+
+// Verifies the connected wallet with Supabase whenever it changes, so row
+// level security lets it at its data; does nothing for browser-only backends
+export const useWalletIdentity = () => {
+  const { address, isConnected, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [status, setStatus] = useState<WalletIdentityStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = useCallback(async () => {
+    if (!isConnected || !address || !chainId || !requiresWalletIdentity()) {
+      setStatus('idle');
+      return;
+    }
+
+    setStatus('verifying');
+    setError(null);
+    try {
+      await verifyWalletIdentity(address, chainId, message => signMessageAsync({ message }));
+      setStatus('verified');
+    } catch (err) {
+      console.error('Error verifying wallet identity:', err);
+      setError(err instanceof Error ? err.message : 'Failed to verify wallet');
+      setStatus('failed');
+    }
+  }, [address, isConnected, chainId, signMessageAsync]);
+
+  // A wallet the session already verified is not asked to sign again
+  useEffect(() => {
+    void verify();
+  }, [verify]);
+
+  return {
+    status,
+    error,
+    verify,
+  };
+};
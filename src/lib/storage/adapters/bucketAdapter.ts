@@ -0,0 +1,115 @@
+import {
+  StorageError,
+  type StorageAdapter,
+  type StorageBackend,
+  type StorageCollection,
+  type StorageQuery,
+  type StorageRecord,
+  type StorageScope,
+} from '../types';
+
+// Browser backends keep each scope's records together in one "bucket",
+// stored under the same key the hooks have always used:
+// gemetra_<collection>_<owner>[_<partition>]
+export const getBucketKey = (collection: StorageCollection, scope: StorageScope): string => {
+  const partition = scope.partition ? `_${scope.partition.value}` : '';
+  return `gemetra_${collection}_${scope.owner}${partition}`;
+};
+
+export interface BucketStore {
+  read(key: string): Promise<unknown[] | null>;
+  write(key: string, records: unknown[]): Promise<void>;
+}
+
+/**
+ * Applies a query to records held in memory
+ * @param records - Records to filter
+ * @param query - Filter, ordering and limit
+ */
+export const applyQuery = <T extends StorageRecord>(records: T[], query: StorageQuery<T> = {}): T[] => {
+  let result = records;
+
+  if (query.where) {
+    const conditions = Object.entries(query.where);
+    result = result.filter(record =>
+      conditions.every(([field, value]) => (record as Record<string, unknown>)[field] === value)
+    );
+  }
+
+  if (query.orderBy) {
+    const { field, ascending = true } = query.orderBy;
+    result = [...result].sort((a, b) => {
+      const valueA = a[field] as unknown as string | number | null | undefined;
+      const valueB = b[field] as unknown as string | number | null | undefined;
+      if (valueA === valueB) return 0;
+      if (valueA === null || valueA === undefined) return 1;
+      if (valueB === null || valueB === undefined) return -1;
+      const order = valueA < valueB ? -1 : 1;
+      return ascending ? order : -order;
+    });
+  }
+
+  return query.limit !== undefined ? result.slice(0, query.limit) : result;
+};
+
+/**
+ * Builds a storage adapter on top of a key/value bucket store
+ * @param backend - Backend name reported in errors
+ * @param store - Reads and writes whole buckets
+ */
+export const createBucketAdapter = (backend: StorageBackend, store: BucketStore): StorageAdapter => {
+  const readBucket = async <T extends StorageRecord>(collection: StorageCollection, scope: StorageScope): Promise<T[]> => {
+    const records = await store.read(getBucketKey(collection, scope));
+    if (records === null) return [];
+    if (!Array.isArray(records)) {
+      throw new StorageError('INVALID_DATA', `Stored ${collection} are not a list`, backend);
+    }
+    return records as T[];
+  };
+
+  const writeBucket = async <T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, records: T[]) => {
+    await store.write(getBucketKey(collection, scope), records);
+  };
+
+  const notFound = (collection: StorageCollection, id: string) =>
+    new StorageError('NOT_FOUND', `No ${collection} record with ID ${id}`, backend);
+
+  return {
+    backend,
+
+    async list<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, query?: StorageQuery<T>) {
+      return applyQuery(await readBucket<T>(collection, scope), query);
+    },
+
+    async get<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, id: string) {
+      const records = await readBucket<T>(collection, scope);
+      return records.find(record => record.id === id) || null;
+    },
+
+    async insert<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, records: T[]) {
+      const existing = await readBucket<T>(collection, scope);
+      const duplicate = records.find(record => existing.some(stored => stored.id === record.id));
+      if (duplicate) {
+        throw new StorageError('DUPLICATE', `A ${collection} record with ID ${duplicate.id} already exists`, backend);
+      }
+      await writeBucket(collection, scope, [...records, ...existing]);
+      return records;
+    },
+
+    async update<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, id: string, updates: Partial<T>) {
+      const records = await readBucket<T>(collection, scope);
+      const current = records.find(record => record.id === id);
+      if (!current) throw notFound(collection, id);
+
+      const updated = { ...current, ...updates, id };
+      await writeBucket(collection, scope, records.map(record => record.id === id ? updated : record));
+      return updated;
+    },
+
+    async remove(collection: StorageCollection, scope: StorageScope, id: string) {
+      const records = await readBucket(collection, scope);
+      if (!records.some(record => record.id === id)) throw notFound(collection, id);
+      await writeBucket(collection, scope, records.filter(record => record.id !== id));
+    },
+  };
+};
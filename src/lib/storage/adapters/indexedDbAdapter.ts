@@ -0,0 +1,59 @@
+import { StorageError, type StorageAdapter } from '../types';
+import { createBucketAdapter } from './bucketAdapter';
+
+const DB_NAME = 'gemetra';
+const DB_VERSION = 1;
+const STORE_NAME = 'buckets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new StorageError('UNAVAILABLE', 'IndexedDB is not available in this browser', 'indexedDB'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new StorageError('UNAVAILABLE', request.error?.message || 'Failed to open IndexedDB', 'indexedDB'));
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(new StorageError('BACKEND_ERROR', transaction.error?.message || 'IndexedDB request failed', 'indexedDB'));
+    transaction.onabort = () => reject(new StorageError('BACKEND_ERROR', transaction.error?.message || 'IndexedDB transaction aborted', 'indexedDB'));
+  });
+};
+
+/**
+ * Stores records in IndexedDB, one entry per owner scope. Suited to larger
+ * payrolls and chat histories that outgrow the localStorage quota.
+ */
+export const createIndexedDbAdapter = (): StorageAdapter => {
+  return createBucketAdapter('indexedDB', {
+    async read(key) {
+      const records = await runRequest<unknown[] | undefined>('readonly', store => store.get(key));
+      return records ?? null;
+    },
+
+    async write(key, records) {
+      await runRequest('readwrite', store => store.put(records, key));
+    },
+  });
+};
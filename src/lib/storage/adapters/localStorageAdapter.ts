@@ -0,0 +1,35 @@
+import { StorageError, type StorageAdapter } from '../types';
+import { createBucketAdapter } from './bucketAdapter';
+
+/**
+ * Stores records in window.localStorage. Keeps the existing
+ * gemetra_<collection>_<wallet> keys so data saved before the storage layer
+ * existed is still found.
+ */
+export const createLocalStorageAdapter = (): StorageAdapter => {
+  return createBucketAdapter('localStorage', {
+    async read(key) {
+      const stored = localStorage.getItem(key);
+      if (stored === null) return null;
+      try {
+        return JSON.parse(stored);
+      } catch (parseError) {
+        console.error(`Error parsing ${key} from localStorage:`, parseError);
+        throw new StorageError('INVALID_DATA', `Stored data under ${key} is corrupted`, 'localStorage');
+      }
+    },
+
+    async write(key, records) {
+      try {
+        localStorage.setItem(key, JSON.stringify(records));
+      } catch (writeError) {
+        // Typically the storage quota being exceeded
+        throw new StorageError(
+          'BACKEND_ERROR',
+          writeError instanceof Error ? writeError.message : `Failed to write ${key}`,
+          'localStorage'
+        );
+      }
+    },
+  });
+};
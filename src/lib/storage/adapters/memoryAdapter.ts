@@ -0,0 +1,23 @@
+import type { StorageAdapter } from '../types';
+import { createBucketAdapter } from './bucketAdapter';
+
+/**
+ * Keeps records in memory only. Used for tests and as a fallback when no
+ * browser storage is available.
+ * @param initialData - Buckets to start with, keyed like localStorage keys
+ */
+export const createMemoryAdapter = (initialData: Record<string, unknown[]> = {}): StorageAdapter => {
+  const buckets = new Map<string, unknown[]>(Object.entries(initialData));
+
+  return createBucketAdapter('memory', {
+    async read(key) {
+      // Hand out copies so callers cannot mutate stored records in place
+      const records = buckets.get(key);
+      return records ? structuredClone(records) : null;
+    },
+
+    async write(key, records) {
+      buckets.set(key, structuredClone(records));
+    },
+  });
+};
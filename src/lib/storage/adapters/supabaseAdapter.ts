@@ -0,0 +1,86 @@
+import { supabase } from '../../supabase';
+import {
+  StorageError,
+  type StorageAdapter,
+  type StorageCollection,
+  type StorageQuery,
+  type StorageRecord,
+  type StorageScope,
+} from '../types';
+
+const toStorageError = (error: { message: string; code?: string }, collection: StorageCollection) => {
+  // PGRST116: the query matched no rows where exactly one was expected
+  if (error.code === 'PGRST116') {
+    return new StorageError('NOT_FOUND', `No ${collection} record found`, 'supabase');
+  }
+  // 23505: unique_violation
+  if (error.code === '23505') {
+    return new StorageError('DUPLICATE', error.message, 'supabase');
+  }
+  // 22xxx: data exceptions, 23xxx: other constraint violations, 42703 and
+  // PGRST204: unknown columns; the record itself is at fault
+  if (error.code && (/^2[23]/.test(error.code) || error.code === '42703' || error.code === 'PGRST204')) {
+    return new StorageError('INVALID_DATA', error.message, 'supabase');
+  }
+  return new StorageError('BACKEND_ERROR', error.message, 'supabase');
+};
+
+// Every query is restricted to the scope's owner and partition
+const scopeFilters = (scope: StorageScope): Record<string, string> => ({
+  user_id: scope.owner,
+  ...(scope.partition ? { [scope.partition.field]: scope.partition.value } : {}),
+});
+
+/**
+ * Stores records directly in the Supabase tables of the same name. Errors
+ * are raised to the caller instead of being logged and ignored.
+ */
+export const createSupabaseAdapter = (): StorageAdapter => ({
+  backend: 'supabase',
+
+  async list<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, query: StorageQuery<T> = {}) {
+    let request = supabase.from(collection).select('*').match({
+      ...(query.where as Record<string, unknown> | undefined),
+      ...scopeFilters(scope),
+    });
+    if (query.orderBy) request = request.order(query.orderBy.field, { ascending: query.orderBy.ascending ?? true });
+    if (query.limit !== undefined) request = request.limit(query.limit);
+
+    const { data, error } = await request;
+    if (error) throw toStorageError(error, collection);
+    return (data || []) as T[];
+  },
+
+  async get<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, id: string) {
+    const { data, error } = await supabase.from(collection).select('*')
+      .match({ ...scopeFilters(scope), id })
+      .maybeSingle();
+    if (error) throw toStorageError(error, collection);
+    return (data as T | null) || null;
+  },
+
+  async insert<T extends StorageRecord>(collection: StorageCollection, _scope: StorageScope, records: T[]) {
+    const { data, error } = await supabase.from(collection).insert(records).select();
+    if (error) throw toStorageError(error, collection);
+    return (data || records) as T[];
+  },
+
+  async update<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, id: string, updates: Partial<T>) {
+    const { data, error } = await supabase.from(collection).update(updates as Record<string, unknown>)
+      .match({ ...scopeFilters(scope), id })
+      .select()
+      .single();
+    if (error) throw toStorageError(error, collection);
+    return data as T;
+  },
+
+  async remove(collection: StorageCollection, scope: StorageScope, id: string) {
+    const { data, error } = await supabase.from(collection).delete()
+      .match({ ...scopeFilters(scope), id })
+      .select('id');
+    if (error) throw toStorageError(error, collection);
+    if (!data || data.length === 0) {
+      throw new StorageError('NOT_FOUND', `No ${collection} record with ID ${id}`, 'supabase');
+    }
+  },
+});
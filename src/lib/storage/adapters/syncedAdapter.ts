@@ -0,0 +1,65 @@
+import type { StorageAdapter, StorageCollection, StorageQuery, StorageRecord, StorageScope } from '../types';
+import type { SyncEngine } from '../syncEngine';
+
+/**
+ * Serves every read from the local cache and queues every write in the sync
+ * engine's outbox, so the app keeps working offline and nothing written
+ * while the server is unreachable is lost. Every write stamps `edited_at`
+ * with the time of the edit, which the server leaves alone, so conflicting
+ * edits are ordered by when they were made rather than when they synced.
+ */
+export const createSyncedAdapter = (local: StorageAdapter, engine: SyncEngine): StorageAdapter => ({
+  backend: 'synced',
+
+  async list<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, query?: StorageQuery<T>) {
+    // Refresh the cache first; when the server is unreachable the cached
+    // records are still returned
+    try {
+      await engine.flush();
+      await engine.pull(collection, scope);
+    } catch (error) {
+      console.warn(`Could not sync ${collection}, using cached data:`, error);
+    }
+    return local.list<T>(collection, scope, query);
+  },
+
+  get<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, id: string) {
+    return local.get<T>(collection, scope, id);
+  },
+
+  async insert<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, records: T[]) {
+    const editedAt = new Date().toISOString();
+    const stamped: T[] = records.map(record => ({ edited_at: editedAt, ...record }));
+    const inserted = await local.insert(collection, scope, stamped);
+    inserted.forEach(record => {
+      engine.enqueue({ collection, scope, op: 'insert', record_id: record.id, payload: { ...record } as Record<string, unknown> });
+    });
+    return inserted;
+  },
+
+  async update<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, id: string, updates: Partial<T>) {
+    const current = await local.get<T>(collection, scope, id);
+    const edit = { ...updates, edited_at: new Date().toISOString() };
+    const updated = await local.update<T>(collection, scope, id, edit);
+
+    // Remember what the changed fields looked like before this edit so a
+    // concurrent remote edit of other fields can be merged instead of overwritten
+    const previous = (current || {}) as Record<string, unknown>;
+    const base = Object.fromEntries(Object.keys(updates).map(field => [field, previous[field]]));
+    engine.enqueue({
+      collection,
+      scope,
+      op: 'update',
+      record_id: id,
+      payload: edit,
+      base,
+      base_edited_at: typeof previous.edited_at === 'string' ? previous.edited_at : undefined,
+    });
+    return updated;
+  },
+
+  async remove(collection: StorageCollection, scope: StorageScope, id: string) {
+    await local.remove(collection, scope, id);
+    engine.enqueue({ collection, scope, op: 'remove', record_id: id });
+  },
+});
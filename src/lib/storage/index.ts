@@ -0,0 +1,96 @@
+import { ENV_CONFIG } from '../../config/environment';
+import { createLocalStorageAdapter } from './adapters/localStorageAdapter';
+import { createIndexedDbAdapter } from './adapters/indexedDbAdapter';
+import { createSupabaseAdapter } from './adapters/supabaseAdapter';
+import { createMemoryAdapter } from './adapters/memoryAdapter';
+import { createSyncedAdapter } from './adapters/syncedAdapter';
+import { SyncEngine } from './syncEngine';
+import type {
+  StorageAdapter,
+  StorageBackend,
+  StorageCollection,
+  StorageQuery,
+  StorageRecord,
+  StorageScope,
+} from './types';
+
+export * from './types';
+export type { OutboxEntry, SyncConflict, SyncState, SyncStatus } from './syncEngine';
+export { createMemoryAdapter, SyncEngine };
+export { createMemorySecureStore, createSecureStore, getSecureStore } from './secureStore';
+export type { SecureStore } from './secureStore';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['localStorage', 'indexedDB', 'supabase', 'memory', 'synced'];
+
+let syncEngine: SyncEngine | null = null;
+
+const createAdapter = (backend: StorageBackend): StorageAdapter => {
+  switch (backend) {
+    case 'synced': {
+      const local = createLocalStorageAdapter();
+      syncEngine = new SyncEngine(local, createSupabaseAdapter());
+      return createSyncedAdapter(local, syncEngine);
+    }
+    case 'indexedDB':
+      return createIndexedDbAdapter();
+    case 'supabase':
+      return createSupabaseAdapter();
+    case 'memory':
+      return createMemoryAdapter();
+    default:
+      return createLocalStorageAdapter();
+  }
+};
+
+let activeAdapter: StorageAdapter | null = null;
+
+/**
+ * Returns the adapter for the backend configured in ENV_CONFIG.storage
+ */
+export const getStorageAdapter = (): StorageAdapter => {
+  if (!activeAdapter) {
+    const configured = ENV_CONFIG.storage.backend as StorageBackend;
+    if (!STORAGE_BACKENDS.includes(configured)) {
+      console.warn(`Unknown storage backend "${configured}", falling back to localStorage`);
+    }
+    activeAdapter = createAdapter(STORAGE_BACKENDS.includes(configured) ? configured : 'localStorage');
+  }
+  return activeAdapter;
+};
+
+/**
+ * Returns the sync engine when the `synced` backend is active, otherwise null
+ */
+export const getSyncEngine = (): SyncEngine | null => {
+  getStorageAdapter();
+  return syncEngine;
+};
+
+/**
+ * Replaces the active adapter, e.g. with an in-memory adapter in tests
+ * @param adapter - The adapter to use from now on
+ */
+export const setStorageAdapter = (adapter: StorageAdapter): void => {
+  activeAdapter = adapter;
+  syncEngine = null;
+};
+
+export interface Repository<T extends StorageRecord> {
+  list(scope: StorageScope, query?: StorageQuery<T>): Promise<T[]>;
+  get(scope: StorageScope, id: string): Promise<T | null>;
+  insert(scope: StorageScope, records: T[]): Promise<T[]>;
+  update(scope: StorageScope, id: string, updates: Partial<T>): Promise<T>;
+  remove(scope: StorageScope, id: string): Promise<void>;
+}
+
+/**
+ * Typed access to one collection through whichever adapter is active
+ * @param collection - The collection (Supabase table) to access
+ */
+export const createRepository = <T extends StorageRecord>(collection: StorageCollection): Repository<T> => ({
+  list: (scope, query) => getStorageAdapter().list<T>(collection, scope, query),
+  get: (scope, id) => getStorageAdapter().get<T>(collection, scope, id),
+  insert: (scope, records) => getStorageAdapter().insert<T>(collection, scope, records),
+  update: (scope, id, updates) => getStorageAdapter().update<T>(collection, scope, id, updates),
+  remove: (scope, id) => getStorageAdapter().remove(collection, scope, id),
+});
@@ -0,0 +1,208 @@
+import { StorageError } from './types';
+
+// Keeps values that must survive a reload but must not sit in plain text in
+// the browser's storage: signed channel states and session metadata. Values
+// are encrypted with AES-GCM under a key generated on first use and stored
+// non-extractable in IndexedDB, so the raw key never leaves the browser's
+// crypto implementation. This protects data at rest (profile copies, storage
+// dumps); code running on the page itself can still decrypt through the store.
+export interface SecureStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+  // Keys stored under this store's namespace, optionally narrowed by prefix
+  keys(prefix?: string): Promise<string[]>;
+}
+
+const DB_NAME = 'revatix_secure';
+const DB_VERSION = 1;
+const KEY_STORE = 'keys';
+const RECORD_STORE = 'records';
+const MASTER_KEY_ID = 'master';
+
+interface EncryptedRecord {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+// Values may hold bigints (versions, amounts), which JSON cannot carry
+const encode = (value: unknown): string => {
+  return JSON.stringify(value, (_key, item) => typeof item === 'bigint' ? { $bigint: item.toString() } : item);
+};
+
+const decode = <T>(text: string): T => {
+  return JSON.parse(text, (_key, item) => {
+    return item && typeof item === 'object' && typeof item.$bigint === 'string' && Object.keys(item).length === 1
+      ? BigInt(item.$bigint)
+      : item;
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined' || typeof crypto === 'undefined' || !crypto.subtle) {
+        reject(new StorageError('UNAVAILABLE', 'Encrypted storage needs IndexedDB and WebCrypto', 'indexedDB'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        [KEY_STORE, RECORD_STORE].forEach(name => {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new StorageError('UNAVAILABLE', request.error?.message || 'Failed to open encrypted storage', 'indexedDB'));
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(new StorageError('BACKEND_ERROR', transaction.error?.message || 'Encrypted storage request failed', 'indexedDB'));
+    transaction.onabort = () => reject(new StorageError('BACKEND_ERROR', transaction.error?.message || 'Encrypted storage transaction aborted', 'indexedDB'));
+  });
+};
+
+// Stores the key unless one is stored already, and returns whichever key is
+// stored afterwards. Both happen in one transaction: another tab generating a
+// key at the same time cannot replace the key this one encrypts with.
+const storeKeyOnce = async (key: CryptoKey): Promise<CryptoKey> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(KEY_STORE, 'readwrite');
+    const store = transaction.objectStore(KEY_STORE);
+    let stored = key;
+
+    const addRequest = store.add(key, MASTER_KEY_ID);
+    addRequest.onerror = event => {
+      if (addRequest.error?.name !== 'ConstraintError') return;
+      // Another tab stored its key first; keep the transaction and use that one
+      event.preventDefault();
+      event.stopPropagation();
+      const getRequest = store.get(MASTER_KEY_ID);
+      getRequest.onsuccess = () => { stored = getRequest.result; };
+    };
+    transaction.oncomplete = () => resolve(stored);
+    transaction.onerror = () => reject(new StorageError('BACKEND_ERROR', transaction.error?.message || 'Failed to store the encryption key', 'indexedDB'));
+    transaction.onabort = () => reject(new StorageError('BACKEND_ERROR', transaction.error?.message || 'Encrypted storage transaction aborted', 'indexedDB'));
+  });
+};
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+const getEncryptionKey = (): Promise<CryptoKey> => {
+  if (!keyPromise) {
+    keyPromise = (async () => {
+      const existing = await runRequest<CryptoKey | undefined>(KEY_STORE, 'readonly', store => store.get(MASTER_KEY_ID));
+      if (existing) return existing;
+
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+      return storeKeyOnce(key);
+    })();
+    keyPromise.catch(() => { keyPromise = null; });
+  }
+  return keyPromise;
+};
+
+/**
+ * Creates an encrypted store backed by IndexedDB
+ * @param namespace - Keeps one feature's keys apart from another's
+ */
+export const createSecureStore = (namespace: string): SecureStore => {
+  const recordId = (key: string) => `${namespace}:${key}`;
+
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      const record = await runRequest<EncryptedRecord | undefined>(RECORD_STORE, 'readonly', store => store.get(recordId(key)));
+      if (!record) return null;
+      try {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, await getEncryptionKey(), record.data);
+        return decode<T>(new TextDecoder().decode(plain));
+      } catch {
+        throw new StorageError('INVALID_DATA', `Could not decrypt ${recordId(key)}`, 'indexedDB');
+      }
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        await getEncryptionKey(),
+        new TextEncoder().encode(encode(value))
+      );
+      const record: EncryptedRecord = { iv, data };
+      await runRequest(RECORD_STORE, 'readwrite', store => store.put(record, recordId(key)));
+    },
+
+    async remove(key: string): Promise<void> {
+      await runRequest(RECORD_STORE, 'readwrite', store => store.delete(recordId(key)));
+    },
+
+    async keys(prefix: string = ''): Promise<string[]> {
+      const all = await runRequest<IDBValidKey[]>(RECORD_STORE, 'readonly', store => store.getAllKeys());
+      const start = recordId(prefix);
+      return all
+        .map(String)
+        .filter(id => id.startsWith(start))
+        .map(id => id.slice(namespace.length + 1));
+    },
+  };
+};
+
+/**
+ * An unencrypted, in-memory store with the same behaviour, for environments
+ * without IndexedDB such as tests and server-side scripts
+ */
+export const createMemorySecureStore = (): SecureStore => {
+  const values = new Map<string, string>();
+
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      const value = values.get(key);
+      return value === undefined ? null : decode<T>(value);
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      values.set(key, encode(value));
+    },
+
+    async remove(key: string): Promise<void> {
+      values.delete(key);
+    },
+
+    async keys(prefix: string = ''): Promise<string[]> {
+      return [...values.keys()].filter(key => key.startsWith(prefix));
+    },
+  };
+};
+
+/**
+ * The encrypted store for a namespace, or an in-memory one where the browser
+ * cannot provide encrypted storage
+ * @param namespace - Keeps one feature's keys apart from another's
+ */
+export const getSecureStore = (namespace: string): SecureStore => {
+  const supported = typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+  if (!supported) {
+    console.warn(`Encrypted storage is not available; ${namespace} data will not survive a reload`);
+    return createMemorySecureStore();
+  }
+  return createSecureStore(namespace);
+};
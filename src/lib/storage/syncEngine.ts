@@ -0,0 +1,505 @@
+import {
+  StorageError,
+  type StorageAdapter,
+  type StorageCollection,
+  type StorageRecord,
+  type StorageScope,
+} from './types';
+import { getBucketKey } from './adapters/bucketAdapter';
+
+// A queued write waiting to be replayed against the remote backend
+export interface OutboxEntry {
+  id: string;
+  seq: number;
+  collection: StorageCollection;
+  scope: StorageScope;
+  op: 'insert' | 'update' | 'remove';
+  record_id: string;
+  // The full record for inserts, the changed fields for updates
+  payload?: Record<string, unknown>;
+  // Values of the changed fields before the local edit, used to tell which
+  // fields the remote side changed in the meantime, and the edit time of the
+  // record the edit was made on
+  base?: Record<string, unknown>;
+  base_edited_at?: string;
+  created_at: string;
+  attempts: number;
+  last_error?: string;
+}
+
+export interface SyncConflict {
+  collection: StorageCollection;
+  record_id: string;
+  fields: Array<{ field: string; kept: 'local' | 'remote' }>;
+  detected_at: string;
+}
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  conflicts: SyncConflict[];
+  // Writes the server refused for good; they wait for the user to retry or
+  // discard them
+  deadLetters: OutboxEntry[];
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+const OUTBOX_KEY = 'gemetra_sync_outbox';
+const CONFLICTS_KEY = 'gemetra_sync_conflicts';
+const DEAD_LETTERS_KEY = 'gemetra_sync_dead_letters';
+const FLUSH_LOCK = 'gemetra_sync_flush';
+const MAX_CONFLICTS = 20;
+const MAX_RETRY_DELAY_MS = 60000;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return fallback;
+  try {
+    return JSON.parse(stored);
+  } catch (parseError) {
+    console.error(`Error parsing ${key} from localStorage:`, parseError);
+    return fallback;
+  }
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const timestamp = (value: unknown): number => {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return isNaN(time) ? 0 : time;
+};
+
+// When a record was last edited; rows written before edits were stamped
+// only have the time they were saved
+const editedAt = (record: Record<string, unknown>): number =>
+  timestamp(record.edited_at ?? record.updated_at);
+
+// Errors the server will give again however often the write is retried,
+// e.g. a value a column constraint rejects. Refused permissions are not among
+// them: writes queued before the wallet was verified go through once it is.
+const isPermanentFailure = (error: unknown): boolean =>
+  error instanceof StorageError &&
+  (error.code === 'INVALID_DATA' || error.code === 'DUPLICATE' || error.code === 'NOT_FOUND');
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Only one tab replays the outbox at a time. Without Web Locks each tab
+// replays on its own, which replays tolerate: inserts already made are
+// skipped and updates are merged with the server copy.
+const withFlushLock = async (replay: () => Promise<void>): Promise<void> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    await navigator.locks.request(FLUSH_LOCK, replay);
+  } else {
+    await replay();
+  }
+};
+
+/**
+ * Offline-first sync between a local cache and a remote backend.
+ * Writes land in the cache and a persistent outbox; the outbox is replayed
+ * in order whenever the remote is reachable. Concurrent edits of the same
+ * record are merged per field using `edited_at`, the time each edit was
+ * made, so two devices editing different fields of an employee both keep
+ * their changes. Every tab of the app shares the outbox: it is read back
+ * from localStorage before each change, so tabs never overwrite each other's
+ * queued writes.
+ */
+export class SyncEngine {
+  private local: StorageAdapter;
+  private remote: StorageAdapter;
+  private outbox: OutboxEntry[] = [];
+  private conflicts: SyncConflict[] = [];
+  private deadLetters: OutboxEntry[] = [];
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private state: SyncState = 'idle';
+  private lastSyncedAt: string | null = null;
+  private lastError: string | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempt = 0;
+
+  constructor(local: StorageAdapter, remote: StorageAdapter) {
+    this.local = local;
+    this.remote = remote;
+    this.load();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => { void this.flush(); });
+      window.addEventListener('offline', () => this.setState('offline'));
+      // Writes queued, synced or refused in another tab
+      window.addEventListener('storage', event => {
+        if (event.key !== OUTBOX_KEY && event.key !== DEAD_LETTERS_KEY && event.key !== CONFLICTS_KEY) return;
+        this.load();
+        this.notify();
+      });
+    }
+    if (!isOnline()) this.state = 'offline';
+  }
+
+  getStatus(): SyncStatus {
+    return {
+      state: this.state,
+      pending: this.outbox.length,
+      conflicts: this.conflicts,
+      deadLetters: this.deadLetters,
+      lastSyncedAt: this.lastSyncedAt,
+      lastError: this.lastError,
+    };
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  clearConflicts(): void {
+    this.conflicts = [];
+    localStorage.setItem(CONFLICTS_KEY, JSON.stringify(this.conflicts));
+    this.notify();
+  }
+
+  // Queue a write and try to replay it straight away
+  enqueue(entry: Omit<OutboxEntry, 'id' | 'seq' | 'created_at' | 'attempts'>): void {
+    this.updateOutbox(outbox => {
+      const seq = outbox.length > 0 ? outbox[outbox.length - 1].seq + 1 : 1;
+      return [...outbox, {
+        ...entry,
+        id: `${Date.now()}_${seq}_${Math.random().toString(36).slice(2, 8)}`,
+        seq,
+        created_at: new Date().toISOString(),
+        attempts: 0,
+      }];
+    });
+    this.notify();
+    void this.flush();
+  }
+
+  // Whether any local write has not reached the server yet, including writes
+  // it refused that the user has not retried or discarded
+  hasPending(collection: StorageCollection, scope: StorageScope, recordId?: string): boolean {
+    const key = getBucketKey(collection, scope);
+    return [...this.outbox, ...this.deadLetters].some(entry =>
+      getBucketKey(entry.collection, entry.scope) === key &&
+      (recordId === undefined || entry.record_id === recordId)
+    );
+  }
+
+  // Queue the refused writes of a record again, in their original order
+  async retryDeadLetter(id: string): Promise<void> {
+    const entries = this.takeDeadLetters(id);
+    entries.forEach(({ collection, scope, op, record_id, payload, base, base_edited_at }) => {
+      this.enqueue({ collection, scope, op, record_id, payload, base, base_edited_at });
+    });
+    await this.flush();
+  }
+
+  // Drop the refused writes of a record and put the server's copy back in the
+  // local cache, so the record shows what the server actually holds
+  async discardDeadLetter(id: string): Promise<void> {
+    this.load();
+    const [entry] = this.deadLetters.filter(deadLetter => deadLetter.id === id);
+    if (!entry) return;
+
+    const { collection, scope, record_id } = entry;
+    const remoteRecord = await this.remote.get<StorageRecord>(collection, scope, record_id);
+    const localRecord = await this.local.get<StorageRecord>(collection, scope, record_id);
+    if (remoteRecord && localRecord) {
+      await this.local.update(collection, scope, record_id, remoteRecord);
+    } else if (remoteRecord) {
+      await this.local.insert(collection, scope, [remoteRecord]);
+    } else if (localRecord) {
+      await this.local.remove(collection, scope, record_id);
+    }
+    this.takeDeadLetters(id);
+  }
+
+  // Replay the outbox in order. A write that fails for a passing reason
+  // stops the replay so later writes never overtake it, and is retried with
+  // exponential backoff. A write the server refuses for good is set aside as
+  // a dead letter, together with every later write of the same record, and
+  // the rest of the outbox carries on.
+  flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+    if (!isOnline()) {
+      this.setState('offline');
+      return Promise.resolve();
+    }
+
+    this.flushing = withFlushLock(async () => {
+      if (this.retryTimer) {
+        clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+      }
+      // Another tab may have replayed or queued writes in the meantime
+      this.load();
+      if (this.outbox.length > 0) this.setState('syncing');
+
+      while (this.outbox.length > 0) {
+        const entry = this.outbox[0];
+        if (this.isDeadLettered(entry)) {
+          entry.last_error = 'An earlier change to this record could not be synced';
+          this.moveToDeadLetters(entry);
+          continue;
+        }
+
+        try {
+          await this.replay(entry);
+          this.updateOutbox(outbox => outbox.filter(other => other.id !== entry.id));
+          this.notify();
+        } catch (error) {
+          entry.attempts += 1;
+          entry.last_error = error instanceof Error ? error.message : 'Sync failed';
+          if (isPermanentFailure(error)) {
+            console.warn(`Sync of ${entry.collection} ${entry.record_id} refused:`, error);
+            this.moveToDeadLetters(entry);
+            continue;
+          }
+          this.updateOutbox(outbox => outbox.map(other => other.id === entry.id ? entry : other));
+          this.lastError = entry.last_error;
+          this.setState(isOnline() ? 'error' : 'offline');
+          this.scheduleRetry();
+          return;
+        }
+      }
+
+      this.retryAttempt = 0;
+      this.lastError = null;
+      this.lastSyncedAt = new Date().toISOString();
+      this.setState('idle');
+    }).finally(() => {
+      this.flushing = null;
+    });
+
+    return this.flushing;
+  }
+
+  // Bring remote changes into the local cache. Records with queued local
+  // writes are left alone; their replay merges them with the remote copy.
+  async pull(collection: StorageCollection, scope: StorageScope): Promise<void> {
+    if (!isOnline()) {
+      this.setState('offline');
+      return;
+    }
+
+    const remoteRecords = await this.remote.list<StorageRecord>(collection, scope);
+    const localRecords = await this.local.list<StorageRecord>(collection, scope);
+    this.load();
+    const knownIds = this.readKnownIds(collection, scope);
+
+    for (const remoteRecord of remoteRecords) {
+      if (this.hasPending(collection, scope, remoteRecord.id)) continue;
+      const localRecord = localRecords.find(record => record.id === remoteRecord.id);
+      if (!localRecord) {
+        await this.local.insert(collection, scope, [remoteRecord]);
+      } else if (!isEqual(localRecord, remoteRecord) && !this.isNewer(localRecord, remoteRecord)) {
+        await this.local.update(collection, scope, remoteRecord.id, remoteRecord);
+      }
+    }
+
+    for (const localRecord of localRecords) {
+      if (remoteRecords.some(record => record.id === localRecord.id)) continue;
+      if (this.hasPending(collection, scope, localRecord.id)) continue;
+
+      if (knownIds.has(localRecord.id)) {
+        // Synced before and gone now: it was deleted on another device
+        await this.local.remove(collection, scope, localRecord.id);
+      } else {
+        // Never reached the server (e.g. saved before sync existed)
+        this.enqueue({ collection, scope, op: 'insert', record_id: localRecord.id, payload: { ...localRecord } });
+      }
+    }
+
+    this.writeKnownIds(collection, scope, new Set(remoteRecords.map(record => record.id)));
+    this.lastSyncedAt = new Date().toISOString();
+    this.notify();
+  }
+
+  private async replay(entry: OutboxEntry): Promise<void> {
+    const { collection, scope, record_id } = entry;
+
+    if (entry.op === 'insert') {
+      try {
+        await this.remote.insert(collection, scope, [entry.payload as unknown as StorageRecord]);
+      } catch (error) {
+        // Already inserted by an earlier replay that was interrupted
+        if (!(error instanceof StorageError && error.code === 'DUPLICATE')) throw error;
+      }
+      this.addKnownId(collection, scope, record_id);
+      return;
+    }
+
+    if (entry.op === 'remove') {
+      try {
+        await this.remote.remove(collection, scope, record_id);
+      } catch (error) {
+        if (!(error instanceof StorageError && error.code === 'NOT_FOUND')) throw error;
+      }
+      this.removeKnownId(collection, scope, record_id);
+      return;
+    }
+
+    const remoteRecord = await this.remote.get<StorageRecord>(collection, scope, record_id);
+    if (!remoteRecord) {
+      // Deleted on another device; the deletion wins
+      this.recordConflict(collection, record_id, Object.keys(entry.payload || {}).map(field => ({ field, kept: 'remote' })));
+      const localRecord = await this.local.get(collection, scope, record_id);
+      if (localRecord) await this.local.remove(collection, scope, record_id);
+      return;
+    }
+
+    const patch = this.mergePatch(entry, remoteRecord as unknown as Record<string, unknown>);
+    const merged = await this.remote.update<StorageRecord>(collection, scope, record_id, patch);
+
+    // Later queued edits of this record carry their own base values, so the
+    // cache can take the merged server copy
+    if (!this.hasLaterUpdate(entry)) {
+      const localRecord = await this.local.get(collection, scope, record_id);
+      if (localRecord) await this.local.update(collection, scope, record_id, merged);
+    }
+    this.addKnownId(collection, scope, record_id);
+  }
+
+  // Keeps local changes to fields the remote side did not touch. Fields both
+  // sides changed go to whichever edit was made later. Both sides' edit times
+  // are compared, never the server's sync time: `updated_at` is set when a
+  // write reaches the server, which for an offline edit can be long after it
+  // was made.
+  private mergePatch(entry: OutboxEntry, remoteRecord: Record<string, unknown>): Record<string, unknown> {
+    const patch = { ...(entry.payload || {}) };
+    const remoteChanged = remoteRecord.edited_at == null || remoteRecord.edited_at !== entry.base_edited_at;
+
+    if (remoteChanged) {
+      const fields: SyncConflict['fields'] = [];
+      const localIsNewer = timestamp(patch.edited_at ?? entry.created_at) >= editedAt(remoteRecord);
+
+      Object.keys(patch).forEach(field => {
+        if (field === 'updated_at' || field === 'edited_at') return;
+        const remoteValue = remoteRecord[field];
+        if (isEqual(remoteValue, entry.base?.[field]) || isEqual(remoteValue, patch[field])) return;
+
+        fields.push({ field, kept: localIsNewer ? 'local' : 'remote' });
+        if (!localIsNewer) delete patch[field];
+      });
+
+      if (fields.length > 0) this.recordConflict(entry.collection, entry.record_id, fields);
+      // The record was last edited by whichever of the two edits came later;
+      // leaving `edited_at` out keeps the remote edit's time on the server
+      if (!localIsNewer) delete patch.edited_at;
+    }
+
+    if ('updated_at' in patch) patch.updated_at = new Date().toISOString();
+    return patch;
+  }
+
+  private hasLaterUpdate(entry: OutboxEntry): boolean {
+    return this.outbox.some(other =>
+      other.seq > entry.seq && other.collection === entry.collection && other.record_id === entry.record_id
+    );
+  }
+
+  private isNewer(a: StorageRecord, b: StorageRecord): boolean {
+    return editedAt(a as unknown as Record<string, unknown>) > editedAt(b as unknown as Record<string, unknown>);
+  }
+
+  private recordConflict(collection: StorageCollection, recordId: string, fields: SyncConflict['fields']): void {
+    console.warn(`Sync conflict on ${collection} ${recordId}:`, fields);
+    this.conflicts = [
+      { collection, record_id: recordId, fields, detected_at: new Date().toISOString() },
+      ...readJson<SyncConflict[]>(CONFLICTS_KEY, []),
+    ].slice(0, MAX_CONFLICTS);
+    localStorage.setItem(CONFLICTS_KEY, JSON.stringify(this.conflicts));
+    this.notify();
+  }
+
+  private isSameRecord(a: OutboxEntry, b: OutboxEntry): boolean {
+    return getBucketKey(a.collection, a.scope) === getBucketKey(b.collection, b.scope) && a.record_id === b.record_id;
+  }
+
+  // Later writes of a record wait with its refused ones; replaying them on
+  // their own would build on a write the server never took
+  private isDeadLettered(entry: OutboxEntry): boolean {
+    return this.deadLetters.some(deadLetter => this.isSameRecord(deadLetter, entry));
+  }
+
+  // Takes an entry out of the replay
+  private moveToDeadLetters(entry: OutboxEntry): void {
+    this.updateOutbox(outbox => outbox.filter(other => other.id !== entry.id));
+    this.updateDeadLetters(deadLetters => [...deadLetters, entry]);
+    this.notify();
+  }
+
+  // Removes and returns the dead letters of the record the given one belongs to
+  private takeDeadLetters(id: string): OutboxEntry[] {
+    let taken: OutboxEntry[] = [];
+    this.updateDeadLetters(deadLetters => {
+      const [entry] = deadLetters.filter(deadLetter => deadLetter.id === id);
+      if (!entry) return deadLetters;
+      taken = deadLetters.filter(deadLetter => this.isSameRecord(deadLetter, entry));
+      return deadLetters.filter(deadLetter => !this.isSameRecord(deadLetter, entry));
+    });
+    this.notify();
+    return taken;
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    const delay = Math.min(1000 * Math.pow(2, this.retryAttempt), MAX_RETRY_DELAY_MS);
+    this.retryAttempt += 1;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  // IDs that are known to exist remotely, per scope
+  private readKnownIds(collection: StorageCollection, scope: StorageScope): Set<string> {
+    return new Set(readJson<string[]>(`gemetra_sync_known_${getBucketKey(collection, scope)}`, []));
+  }
+
+  private writeKnownIds(collection: StorageCollection, scope: StorageScope, ids: Set<string>): void {
+    localStorage.setItem(`gemetra_sync_known_${getBucketKey(collection, scope)}`, JSON.stringify(Array.from(ids)));
+  }
+
+  private addKnownId(collection: StorageCollection, scope: StorageScope, id: string): void {
+    const ids = this.readKnownIds(collection, scope);
+    ids.add(id);
+    this.writeKnownIds(collection, scope, ids);
+  }
+
+  private removeKnownId(collection: StorageCollection, scope: StorageScope, id: string): void {
+    const ids = this.readKnownIds(collection, scope);
+    ids.delete(id);
+    this.writeKnownIds(collection, scope, ids);
+  }
+
+  // Reads the state every tab shares
+  private load(): void {
+    this.outbox = readJson<OutboxEntry[]>(OUTBOX_KEY, []);
+    this.conflicts = readJson<SyncConflict[]>(CONFLICTS_KEY, []);
+    this.deadLetters = readJson<OutboxEntry[]>(DEAD_LETTERS_KEY, []);
+  }
+
+  // Changes the stored outbox as it is now, not as this tab last saw it
+  private updateOutbox(change: (outbox: OutboxEntry[]) => OutboxEntry[]): void {
+    this.outbox = change(readJson<OutboxEntry[]>(OUTBOX_KEY, []));
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(this.outbox));
+  }
+
+  private updateDeadLetters(change: (deadLetters: OutboxEntry[]) => OutboxEntry[]): void {
+    this.deadLetters = change(readJson<OutboxEntry[]>(DEAD_LETTERS_KEY, []));
+    localStorage.setItem(DEAD_LETTERS_KEY, JSON.stringify(this.deadLetters));
+  }
+
+  private setState(state: SyncState): void {
+    this.state = state;
+    this.notify();
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
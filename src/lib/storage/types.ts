@@ -0,0 +1,61 @@
+// Storage layer types shared by every backend
+
+// `synced` keeps a localStorage cache and replays writes to Supabase
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'supabase' | 'memory' | 'synced';
+
+// Collections map 1:1 to Supabase tables
+export type StorageCollection =
+  | 'employees'
+  | 'payments'
+  | 'pay_runs'
+  | 'approval_policies'
+  | 'vat_claims'
+  | 'vat_settlements'
+  | 'chat_sessions'
+  | 'chat_messages';
+
+export interface StorageRecord {
+  id: string;
+}
+
+// Records are always scoped to their owner (the wallet address stored in
+// `user_id`), optionally narrowed to a partition such as a chat session
+export interface StorageScope {
+  owner: string;
+  partition?: { field: string; value: string };
+}
+
+export interface StorageQuery<T> {
+  where?: Partial<T>;
+  orderBy?: { field: keyof T & string; ascending?: boolean };
+  limit?: number;
+}
+
+export type StorageErrorCode = 'NOT_FOUND' | 'DUPLICATE' | 'INVALID_DATA' | 'BACKEND_ERROR' | 'UNAVAILABLE';
+
+export class StorageError extends Error {
+  code: StorageErrorCode;
+  backend: StorageBackend;
+
+  constructor(code: StorageErrorCode, message: string, backend: StorageBackend) {
+    super(message);
+    this.name = 'StorageError';
+    this.code = code;
+    this.backend = backend;
+  }
+}
+
+// Every backend implements the same CRUD and query semantics:
+// - list returns [] for an empty scope and applies the query
+// - get returns null when the record does not exist
+// - insert throws a DUPLICATE StorageError when an ID already exists
+// - update and remove throw a NOT_FOUND StorageError for unknown IDs
+// - any other failure throws a StorageError; nothing is swallowed
+export interface StorageAdapter {
+  backend: StorageBackend;
+  list<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, query?: StorageQuery<T>): Promise<T[]>;
+  get<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, id: string): Promise<T | null>;
+  insert<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, records: T[]): Promise<T[]>;
+  update<T extends StorageRecord>(collection: StorageCollection, scope: StorageScope, id: string, updates: Partial<T>): Promise<T>;
+  remove(collection: StorageCollection, scope: StorageScope, id: string): Promise<void>;
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { ENV_CONFIG } from '../config/environment';
+import type { ApprovalPolicy } from '../utils/approvalPolicy';
 
 export const supabase = createClient(
   ENV_CONFIG.supabase.url,
@@ -15,17 +16,67 @@ export interface User {
   updated_at: string;
 }
 
+// Organisation that groups the wallets working on one payroll
+export interface Organization {
+  id: string;
+  name: string;
+  owner_wallet: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type OrganizationRole = 'owner' | 'admin' | 'approver' | 'viewer';
+
+export interface OrganizationMember {
+  organization_id: string;
+  wallet_address: string;
+  role: OrganizationRole;
+  created_at: string;
+}
+
+// Links a verified wallet to a Supabase auth user; row level security
+// resolves `user_id` wallets through this table
+export interface WalletIdentity {
+  wallet_address: string;
+  auth_user_id: string;
+  chain: string;
+  verified_at: string | null;
+  created_at: string;
+}
+
+// Exact token amount in the token's smallest unit. numeric(78,0) columns
+// come back from PostgREST as strings, so they are never parsed as numbers.
+export type BaseUnitAmount = string;
+
+// Payroll schedule frequency
+export type PayFrequency = 'weekly' | 'bi-weekly' | 'semi-monthly' | 'monthly';
+
+// Chain an employee is paid on, one of YELLOW_NETWORK_CONFIG.supportedChains
+export type PayoutChain = 'mainnet' | 'polygon' | 'base' | 'celo';
+
+// `user_id` on payroll and chat records is the owner's wallet address
 export interface Employee {
   id: string;
   user_id: string;
+  organization_id?: string;
   name: string;
   email: string;
   designation: string;
   department: string;
+  // Monthly salary in whole units of `salary_currency`, to the cent at most,
+  // which a number holds exactly. Token amounts derived from it are exact
+  // base units (see utils/money).
   salary: number;
+  // ISO 4217 currency the salary is denominated in; USD when absent
+  salary_currency?: string;
   wallet_address: string;
   join_date: string;
   status: 'active' | 'inactive';
+  pay_frequency?: PayFrequency;
+  pay_anchor_date?: string;
+  pay_cutoff_days?: number;
+  payout_chain?: PayoutChain;
+  payout_token?: string;
   created_at: string;
   updated_at: string;
 }
@@ -34,12 +85,245 @@ export interface Payment {
   id: string;
   employee_id: string;
   user_id: string;
+  organization_id?: string;
+  // Display copy of the amount; `amount_base_units` is exact and absent only
+  // on payments recorded before it existed
   amount: number;
+  amount_base_units?: BaseUnitAmount;
+  token_decimals?: number;
   token: string;
   transaction_hash?: string;
   status: 'pending' | 'completed' | 'failed';
   payment_date: string;
+  payrun_id?: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Pay run lifecycle: draft → approved → executing → partially_paid → completed/failed
+export type PayRunStatus = 'draft' | 'approved' | 'executing' | 'partially_paid' | 'completed' | 'failed';
+
+// A single recipient of a pay run
+export interface PayRunLineItem {
+  employee_id: string;
+  name: string;
+  email: string;
+  wallet_address: string;
+  // Amount of `token` paid; converted from `fiat_amount` for fiat salaries.
+  // `amount` is a display copy; the base units are exact and absent only on
+  // runs created before they existed.
+  amount: number;
+  amount_base_units?: BaseUnitAmount;
+  token_decimals?: number;
+  token: string;
+  fiat_amount?: number;
+  fiat_currency?: string;
+  // uncertain: may have been paid by an execution that was interrupted
+  status: 'pending' | 'paid' | 'failed' | 'uncertain';
+  payment_id?: string;
+  transaction_hash?: string;
+  error?: string;
+}
+
+// Price of a payout token in a salary currency, locked into a pay run when
+// its fiat amounts are converted
+export interface FxRate {
+  currency: string;
+  token: string;
+  // Price of one token in `currency`, as an exact decimal string
+  price: string;
+  source: string;
+  fetched_at: string;
+}
+
+// An approver's EIP-191 signature over a pay run's approval digest
+export interface PayRunApproval {
+  approver: string;
+  signature: string;
+  digest: string;
+  approved_at: string;
+}
+
+// Per-token totals in base units. Runs saved before totals were exact hold
+// whole-token numbers; read them with payRunTotalsToAmounts.
+export type PayRunTotals = Record<string, BaseUnitAmount | number>;
+
+// Pay run Interface
+export interface PayRun {
+  id: string;
+  user_id: string;
+  organization_id?: string;
+  schedule_id?: string;
+  status: PayRunStatus;
+  line_items: PayRunLineItem[];
+  totals: PayRunTotals;
+  fx_rates?: FxRate[];
+  payment_ids: string[];
+  created_by: string;
+  approvals?: PayRunApproval[];
+  required_approvals?: number;
+  approval_digest?: string;
+  approved_by?: string;
+  approved_at?: string;
+  executed_at?: string;
+  // Lease of the tab executing the run: its ID and when it last confirmed it
+  // is still paying. Other tabs leave the run alone until the lease expires.
+  execution_owner?: string;
+  execution_heartbeat_at?: string;
+  completed_at?: string;
   created_at: string;
+  updated_at: string;
+}
+
+// Maker/checker policy of a payroll, one per owner wallet so approvers and
+// every device read the same rules
+export interface ApprovalPolicyRecord {
+  // The owner wallet
+  id: string;
+  user_id: string;
+  policy: ApprovalPolicy;
+  updated_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// VAT claim lifecycle: draft → submitted → approved/rejected → paid, with
+// failed payouts retried. Risky claims pass through manual review first,
+// where the reviewer may ask the traveller for more documents. Claims in a
+// settlement batch are `settling` from before the payout is sent until its
+// outcome is recorded.
+export type VATClaimStatus =
+  | 'draft'
+  | 'submitted'
+  | 'in_review'
+  | 'needs_info'
+  | 'approved'
+  | 'rejected'
+  | 'settling'
+  | 'paid'
+  | 'failed';
+
+export type VATRiskRule =
+  | 'duplicate_receipt'
+  | 'duplicate_document'
+  | 'passport_volume'
+  | 'vat_mismatch'
+  | 'purchase_after_departure';
+
+// A fraud signal raised when a claim was submitted
+export interface VATRiskFlag {
+  rule: VATRiskRule;
+  message: string;
+  // Contribution to the claim's risk score
+  weight: number;
+  // Earlier claims the flag refers to, e.g. the original of a duplicate
+  related_claim_ids?: string[];
+}
+
+// A document a traveller added to a claim after submitting it
+export interface VATClaimDocument {
+  name: string;
+  // SHA-256 of the file
+  hash: string;
+  uploaded_at: string;
+}
+
+// A traveller's claim for the VAT paid on one receipt
+export interface VATClaim {
+  id: string;
+  user_id: string;
+  organization_id?: string;
+  status: VATClaimStatus;
+  // ISO 3166-1 alpha-2 country the goods were bought in; selects the rules
+  country: string;
+  currency: string;
+  vat_reg_no: string;
+  receipt_no: string;
+  bill_amount: number;
+  vat_amount: number;
+  purchase_date: string;
+  merchant_name: string;
+  merchant_address?: string;
+  document_name?: string;
+  passport_no: string;
+  // ISO 3166-1 alpha-2 country of residence
+  nationality: string;
+  date_of_birth?: string;
+  flight_no?: string;
+  // Day the goods leave the country; the claim date when not given
+  departure_date?: string;
+  receiver_wallet: string;
+  payout_token: string;
+  // VAT returned to the traveller and the operator's commission, in `currency`
+  refundable_amount: number;
+  commission_amount: number;
+  // Refund converted into `payout_token` at `fx_rate`. `payout_amount` is a
+  // display copy; the base units are exact and absent only on claims decided
+  // before they existed.
+  payout_amount?: number;
+  payout_amount_base_units?: BaseUnitAmount;
+  payout_token_decimals?: number;
+  fx_rate?: FxRate;
+  rejection_reasons?: string[];
+  // Hash of merchant VAT number, receipt number, amount and date; equal for
+  // claims on the same receipt
+  fingerprint: string;
+  // SHA-256 of the uploaded document
+  document_hash?: string;
+  risk_score?: number;
+  risk_flags?: VATRiskFlag[];
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_note?: string;
+  additional_documents?: VATClaimDocument[];
+  // Claims from the traveller portal are decided by the operator, and their
+  // status link carries a token whose SHA-256 is kept here
+  submitted_via?: 'operator' | 'portal';
+  access_token_hash?: string;
+  // Settlement batch the refund was (last) paid in
+  settlement_batch_id?: string;
+  payment_id?: string;
+  transaction_hash?: string;
+  error?: string;
+  submitted_at?: string;
+  decided_at?: string;
+  paid_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type VATSettlementMethod = 'bulk' | 'gasless';
+
+export type VATSettlementStatus = 'executing' | 'completed' | 'partially_paid' | 'failed';
+
+// One claim's refund within a settlement batch
+export interface VATSettlementItem {
+  claim_id: string;
+  receiver_wallet: string;
+  // Display copy of the exact base units, as on pay run line items
+  amount: number;
+  amount_base_units?: BaseUnitAmount;
+  token_decimals?: number;
+  token: string;
+  // uncertain: the payout was in flight when the settlement was interrupted
+  status: 'pending' | 'paid' | 'failed' | 'uncertain';
+  transaction_hash?: string;
+  error?: string;
+}
+
+// Approved claims paid out together, and the report of how each went
+export interface VATSettlementBatch {
+  id: string;
+  user_id: string;
+  organization_id?: string;
+  method: VATSettlementMethod;
+  status: VATSettlementStatus;
+  items: VATSettlementItem[];
+  totals: PayRunTotals;
+  created_by: string;
+  created_at: string;
+  completed_at?: string;
+  updated_at: string;
 }
 
 // Employee with payment history
@@ -58,6 +342,54 @@ export interface ChatSession {
   updated_at: string;
 }
 
+// A tool the assistant called while answering, with what it returned
+export interface ChatToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+// A change the assistant proposes; nothing runs until the user confirms it
+export type ChatAction =
+  | {
+    kind: 'update_employee';
+    employee_id: string;
+    employee_name: string;
+    changes: Partial<Pick<Employee, 'salary' | 'status' | 'department' | 'designation'>>;
+    previous: Partial<Pick<Employee, 'salary' | 'status' | 'department' | 'designation'>>;
+    // yyyy-mm-dd; the change cannot be applied before this date
+    effective_from?: string;
+  }
+  | {
+    kind: 'pay_run';
+    token: string;
+    period?: string;
+    recipients: Array<{
+      employee_id: string;
+      name: string;
+      email: string;
+      wallet_address: string;
+      amount: number;
+      currency: string;
+    }>;
+  };
+
+export type ChatActionStatus = 'proposed' | 'applied' | 'discarded' | 'failed';
+
+export interface ChatActionPlan {
+  id: string;
+  steps: Array<{
+    id: string;
+    summary: string;
+    action: ChatAction;
+    status: ChatActionStatus;
+    error?: string;
+    applied_at?: string;
+  }>;
+  created_at: string;
+}
+
 // Chat Message Interface
 export interface ChatMessage {
   id: string;
@@ -65,6 +397,12 @@ export interface ChatMessage {
   user_id: string;
   type: 'user' | 'assistant';
   content: string;
+  // Tool calls behind an assistant answer, shown so users can check it
+  tool_calls?: ChatToolCall[];
+  // Changes the assistant proposed, with what became of each
+  action_plan?: ChatActionPlan;
+  // The answer was stopped before it finished; `content` is what had arrived
+  cancelled?: boolean;
   created_at: string;
 }
 
@@ -1,14 +1,9 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { fetchCryptoPrice, formatPriceResponse } from './priceService';
 import { fixTypos } from './textProcessingService';
-
-const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-
-if (!GEMINI_API_KEY) {
-  console.warn('Gemini API key not found. AI features will use fallback responses.');
-}
-
-const genAI = GEMINI_API_KEY ? new GoogleGenerativeAI(GEMINI_API_KEY) : null;
+import { AI_TOOLS, collectActionPlan, runAITool } from './aiTools';
+import { addUsage, createLLMProvider, estimateTokens, type LLMMessage, type LLMResult, type LLMUsage } from './llmProviders';
+import { DEFAULT_AI_SETTINGS, type AISettings } from '../utils/aiSettings';
+import type { ChatActionPlan, ChatMessage, ChatToolCall } from '../lib/supabase';
 
 export interface AIContext {
   employees: any[];
@@ -16,6 +11,30 @@ export interface AIContext {
   companyName: string;
 }
 
+// An answer, with the tool calls its figures came from and any changes it
+// proposes for the user to confirm
+export interface AIResponse {
+  content: string;
+  toolCalls: ChatToolCall[];
+  actionPlan?: ChatActionPlan;
+  // Tokens the model used for the answer; absent when no model was called
+  usage?: LLMUsage;
+  // The request was aborted; `content` is the text that had streamed in
+  cancelled?: boolean;
+}
+
+export interface AIResponseOptions {
+  // Aborts the model request
+  signal?: AbortSignal;
+  // Streams the answer: called with the text so far each time more arrives
+  onText?: (text: string) => void;
+  // The chat session the question belongs to; its memory is used and updated
+  sessionId?: string;
+}
+
+// Rounds of tool calls the model may make before it has to answer
+const MAX_TOOL_ROUNDS = 4;
+
 // Advanced memory and thinking system
 interface ConversationMemory {
   message: string;
@@ -38,15 +57,50 @@ interface ThinkingContext {
   recentQuestions: string[];
 }
 
-let conversationMemory: ConversationMemory[] = [];
-let thinkingContext: ThinkingContext = {
-  currentTopic: 'algorand',
-  primaryCrypto: 'algorand',
-  userIntent: 'general',
-  conversationPhase: 'initial',
-  establishedFacts: {},
-  userPreferences: [],
-  recentQuestions: []
+// What the assistant remembers of one chat session. Recent exchanges are
+// kept whole; once they outgrow MEMORY_TOKEN_BUDGET the oldest are folded
+// into short notes in `summary`.
+interface SessionMemory {
+  exchanges: ConversationMemory[];
+  summary: string[];
+  thinking: ThinkingContext;
+  // Exchanges so far, including those folded into the summary
+  turns: number;
+}
+
+// Estimated tokens of whole exchanges sent with each question
+const MEMORY_TOKEN_BUDGET = 2000;
+
+// Estimated tokens of summary notes; the oldest notes are dropped beyond it
+const SUMMARY_TOKEN_BUDGET = 400;
+
+const createSessionMemory = (): SessionMemory => ({
+  exchanges: [],
+  summary: [],
+  thinking: {
+    currentTopic: 'algorand',
+    primaryCrypto: 'algorand',
+    userIntent: 'general',
+    conversationPhase: 'initial',
+    establishedFacts: {},
+    userPreferences: [],
+    recentQuestions: []
+  },
+  turns: 0
+});
+
+// Keyed by chat session ID, so one conversation never sees another's context
+const sessionMemories = new Map<string, SessionMemory>();
+
+// Questions asked outside a session get a memory of their own that is not kept
+const getSessionMemory = (sessionId?: string): SessionMemory => {
+  if (!sessionId) return createSessionMemory();
+  let memory = sessionMemories.get(sessionId);
+  if (!memory) {
+    memory = createSessionMemory();
+    sessionMemories.set(sessionId, memory);
+  }
+  return memory;
 };
 
 const analyzeMessage = (message: string): { topics: string[], entities: string[], intent: string } => {
@@ -102,67 +156,93 @@ const analyzeMessage = (message: string): { topics: string[], entities: string[]
   return { topics, entities, intent };
 };
 
-const updateThinkingContext = (message: string, analysis: any) => {
+const updateThinkingContext = (memory: SessionMemory, message: string, analysis: any) => {
   // Update primary crypto
   if (analysis.entities.includes('bitcoin') || analysis.entities.includes('btc')) {
-    thinkingContext.primaryCrypto = 'bitcoin';
+    memory.thinking.primaryCrypto = 'bitcoin';
   } else if (analysis.entities.includes('yellow') || analysis.entities.includes('yell')) {
-    thinkingContext.primaryCrypto = 'yellow';
+    memory.thinking.primaryCrypto = 'yellow';
   } else if (analysis.entities.includes('algorand') || analysis.entities.includes('algo') || analysis.topics.includes('ath') || analysis.topics.includes('atl')) {
-    thinkingContext.primaryCrypto = 'algorand';
+    memory.thinking.primaryCrypto = 'algorand';
   }
   
   // Update topic
   if (analysis.topics.length > 0) {
-    thinkingContext.currentTopic = analysis.topics[0];
+    memory.thinking.currentTopic = analysis.topics[0];
   }
   
   // Update intent
-  thinkingContext.userIntent = analysis.intent;
+  memory.thinking.userIntent = analysis.intent;
   
   // Update conversation phase
-  const messageCount = conversationMemory.length;
-  if (messageCount < 3) thinkingContext.conversationPhase = 'initial';
-  else if (messageCount < 7) thinkingContext.conversationPhase = 'exploring';
-  else thinkingContext.conversationPhase = 'deep_dive';
+  const messageCount = memory.turns;
+  if (messageCount < 3) memory.thinking.conversationPhase = 'initial';
+  else if (messageCount < 7) memory.thinking.conversationPhase = 'exploring';
+  else memory.thinking.conversationPhase = 'deep_dive';
   
   // Track recent questions
-  thinkingContext.recentQuestions.push(message);
-  if (thinkingContext.recentQuestions.length > 5) {
-    thinkingContext.recentQuestions = thinkingContext.recentQuestions.slice(-5);
+  memory.thinking.recentQuestions.push(message);
+  if (memory.thinking.recentQuestions.length > 5) {
+    memory.thinking.recentQuestions = memory.thinking.recentQuestions.slice(-5);
   }
 };
 
-const addToMemory = (message: string, response: string, responseType: string) => {
+const exchangeTokens = (exchange: ConversationMemory): number => {
+  return estimateTokens(exchange.message) + estimateTokens(exchange.response);
+};
+
+const truncate = (text: string, length: number): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.substring(0, length - 1)}…` : flat;
+};
+
+// One line standing in for an exchange that no longer fits in memory
+const summarizeExchange = (exchange: ConversationMemory): string => {
+  const topics = exchange.topics.length > 0 ? ` (${exchange.topics.join(', ')})` : '';
+  const firstSentence = exchange.response.split(/(?<=[.!?])\s/)[0];
+  return `Asked "${truncate(exchange.message, 80)}"${topics}; answered: ${truncate(firstSentence, 120)}`;
+};
+
+const compactMemory = (memory: SessionMemory) => {
+  let total = memory.exchanges.reduce((sum, exchange) => sum + exchangeTokens(exchange), 0);
+  // The latest exchange always stays whole
+  while (memory.exchanges.length > 1 && total > MEMORY_TOKEN_BUDGET) {
+    const oldest = memory.exchanges.shift()!;
+    total -= exchangeTokens(oldest);
+    memory.summary.push(summarizeExchange(oldest));
+  }
+  while (memory.summary.length > 0 && estimateTokens(memory.summary.join('\n')) > SUMMARY_TOKEN_BUDGET) {
+    memory.summary.shift();
+  }
+};
+
+const addToMemory = (memory: SessionMemory, message: string, response: string, responseType: string, timestamp: Date = new Date()) => {
   const analysis = analyzeMessage(message);
   
-  conversationMemory.push({
+  memory.exchanges.push({
     message,
     response,
     type: responseType,
-    timestamp: new Date(),
+    timestamp,
     topics: analysis.topics,
     entities: analysis.entities,
     intent: analysis.intent,
-    context: { ...thinkingContext }
+    context: { ...memory.thinking }
   });
+  memory.turns++;
+  compactMemory(memory);
   
-  // Keep last 20 exchanges for deep context
-  if (conversationMemory.length > 20) {
-    conversationMemory = conversationMemory.slice(-20);
-  }
-  
-  updateThinkingContext(message, analysis);
+  updateThinkingContext(memory, message, analysis);
 };
 
-const intelligentThinking = (message: string): { shouldAnswer: boolean, directAnswer?: string, reasoning: string } => {
+const intelligentThinking = (memory: SessionMemory, message: string): { shouldAnswer: boolean, directAnswer?: string, reasoning: string } => {
   const analysis = analyzeMessage(message);
   
   console.log('🤔 AI Thinking:', {
     message,
     analysis,
-    currentContext: thinkingContext,
-    recentMemory: conversationMemory.slice(-3).map(m => ({ msg: m.message, topics: m.topics }))
+    currentContext: memory.thinking,
+    recentMemory: memory.exchanges.slice(-3).map(m => ({ msg: m.message, topics: m.topics }))
   });
   
   // Intelligent reasoning based on context
@@ -198,7 +278,7 @@ const intelligentThinking = (message: string): { shouldAnswer: boolean, directAn
   
   // Price questions
   if (analysis.topics.includes('pricing')) {
-    const targetCrypto = analysis.entities.find(e => ['bitcoin', 'ethereum', 'cardano', 'solana'].includes(e)) || thinkingContext.primaryCrypto;
+    const targetCrypto = analysis.entities.find(e => ['bitcoin', 'ethereum', 'cardano', 'solana'].includes(e)) || memory.thinking.primaryCrypto;
     return {
       shouldAnswer: true,
       directAnswer: 'price',
@@ -207,13 +287,13 @@ const intelligentThinking = (message: string): { shouldAnswer: boolean, directAn
   }
   
   // If we've been in a conversation and user asks vague questions, use context
-  if (conversationMemory.length > 2 && analysis.intent === 'question') {
-    const recentTopics = conversationMemory.slice(-3).flatMap(m => m.topics);
+  if (memory.exchanges.length > 2 && analysis.intent === 'question') {
+    const recentTopics = memory.exchanges.slice(-3).flatMap(m => m.topics);
     if (recentTopics.includes('ath') || recentTopics.includes('atl') || recentTopics.includes('pricing')) {
       return {
         shouldAnswer: true,
         directAnswer: 'contextual',
-        reasoning: `Based on conversation history, user likely wants ${thinkingContext.primaryCrypto} data.`
+        reasoning: `Based on conversation history, user likely wants ${memory.thinking.primaryCrypto} data.`
       };
     }
   }
@@ -224,20 +304,13 @@ const intelligentThinking = (message: string): { shouldAnswer: boolean, directAn
   };
 };
 
-const createSystemPrompt = (context: AIContext) => {
-  const employeeData = context.employees.length > 0 
-    ? context.employees.map(emp => `- ${emp.name}: ${emp.designation} in ${emp.department}, Salary: $${emp.salary}`).join('\n')
-    : '- No employees in system yet';
-
-  const paymentData = context.payments.length > 0
-    ? context.payments.slice(-5).map(payment => `- $${payment.amount} to ${payment.employee_name || 'Employee'} on ${payment.created_at || 'N/A'}`).join('\n')
-    : '- No payments made yet';
-
-  const memoryContext = conversationMemory.slice(-5).map(m => 
-    `User: ${m.message} (Topics: ${m.topics.join(', ')}) -> AI: ${m.response.substring(0, 100)}...`
-  ).join('\n');
+const createSystemPrompt = (context: AIContext, memory: SessionMemory) => {
+  // Recent exchanges are sent as the chat history; older ones only as notes
+  const memoryContext = memory.summary.length > 0
+    ? memory.summary.map(note => `- ${note}`).join('\n')
+    : 'Nothing earlier than the messages that follow.';
 
-  const factContext = Object.entries(thinkingContext.establishedFacts)
+  const factContext = Object.entries(memory.thinking.establishedFacts)
     .map(([key, value]) => `${key}: ${value}`)
     .join('\n');
 
@@ -255,19 +328,18 @@ const createSystemPrompt = (context: AIContext) => {
 - Company: ${context.companyName} (Algorand-based payroll)
 - Employees: ${context.employees.length}
 - Payments: ${context.payments.length}
+- Today: ${new Date().toISOString().substring(0, 10)}
 
-👥 EMPLOYEE DATA:
-${employeeData}
-
-💰 RECENT PAYMENTS:
-${paymentData}
+📐 PAYROLL TOOLS:
+Employee, salary and payment figures come only from the tools listEmployees, sumPayments, getEmployee and payrollForecast. Call them for every such figure, never estimate or invent one, and say which filters you used.
+To pay people or change employees, call proposePayRun, proposeSalaryChange or proposeStatusChange. They only draft a plan that the user reviews and confirms below your answer; never say a payment was sent or a change was made.
 
 🧠 CURRENT THINKING CONTEXT:
-- Primary Focus: ${thinkingContext.primaryCrypto.toUpperCase()}
-- Current Topic: ${thinkingContext.currentTopic}
-- User Intent: ${thinkingContext.userIntent}
-- Conversation Phase: ${thinkingContext.conversationPhase}
-- Recent Questions: ${thinkingContext.recentQuestions.slice(-3).join(' | ')}
+- Primary Focus: ${memory.thinking.primaryCrypto.toUpperCase()}
+- Current Topic: ${memory.thinking.currentTopic}
+- User Intent: ${memory.thinking.userIntent}
+- Conversation Phase: ${memory.thinking.conversationPhase}
+- Recent Questions: ${memory.thinking.recentQuestions.slice(-3).join(' | ')}
 
 📚 CONVERSATION MEMORY:
 ${memoryContext}
@@ -292,15 +364,16 @@ ${factContext}
 CRITICAL: Think intelligently. Use context. Make inferences. Provide direct answers when context is clear. Be naturally conversational and remember everything we've discussed.`;
 };
 
-const handleIntelligentQueries = async (message: string, context: AIContext): Promise<string | null> => {
-  const thinking = intelligentThinking(message);
+const handleIntelligentQueries = async (message: string, context: AIContext, hasModel: boolean, memory: SessionMemory): Promise<string | null> => {
+  const thinking = intelligentThinking(memory, message);
   
   console.log('🧠 Intelligent Analysis:', thinking);
   
-  // First check for company intelligence questions
-  const companyResponse = handleCompanyIntelligence(message, context);
+  // With a model, company questions are answered through the payroll tools;
+  // without one, the canned answers are the best available
+  const companyResponse = hasModel ? null : handleCompanyIntelligence(message, context);
   if (companyResponse) {
-    addToMemory(message, companyResponse, 'company_intelligence');
+    addToMemory(memory, message, companyResponse, 'company_intelligence');
     return companyResponse;
   }
   
@@ -309,7 +382,7 @@ const handleIntelligentQueries = async (message: string, context: AIContext): Pr
   try {
     switch (thinking.directAnswer) {
       case 'ath':
-        const athCrypto = thinkingContext.primaryCrypto;
+        const athCrypto = memory.thinking.primaryCrypto;
         const athData = await fetchCryptoPrice(athCrypto);
         if (athData?.ath) {
           const athDate = new Date(athData.athDate || '').toLocaleDateString();
@@ -323,14 +396,14 @@ const handleIntelligentQueries = async (message: string, context: AIContext): Pr
 
 ${distanceFromATH > -50 ? '💡 Still within reasonable distance of peak levels!' : '🔍 Significant discount from peak - interesting for long-term perspective.'}`;
 
-          thinkingContext.establishedFacts[`${athCrypto}_ath`] = athData.ath;
-          addToMemory(message, response, 'ath_intelligent');
+          memory.thinking.establishedFacts[`${athCrypto}_ath`] = athData.ath;
+          addToMemory(memory, message, response, 'ath_intelligent');
           return response;
         }
         break;
         
       case 'atl':
-        const atlCrypto = thinkingContext.primaryCrypto;
+        const atlCrypto = memory.thinking.primaryCrypto;
         const atlData = await fetchCryptoPrice(atlCrypto);
         if (atlData?.atl) {
           const atlDate = new Date(atlData.atlDate || '').toLocaleDateString();
@@ -344,8 +417,8 @@ ${distanceFromATH > -50 ? '💡 Still within reasonable distance of peak levels!
 
 🚀 Amazing ${gainFromATL.toFixed(0)}% recovery from the absolute lows!`;
 
-          thinkingContext.establishedFacts[`${atlCrypto}_atl`] = atlData.atl;
-          addToMemory(message, response, 'atl_intelligent');
+          memory.thinking.establishedFacts[`${atlCrypto}_atl`] = atlData.atl;
+          addToMemory(memory, message, response, 'atl_intelligent');
           return response;
         }
         break;
@@ -364,17 +437,17 @@ Created Algorand to solve the "blockchain trilemma" - achieving security, scalab
 
 💡 **Why It Matters:** Having a Turing Award winner behind Algorand gives serious academic and technical credibility to the project.`;
 
-        thinkingContext.establishedFacts['algorand_founder'] = 'Silvio Micali';
-        addToMemory(message, founderResponse, 'founder_intelligent');
+        memory.thinking.establishedFacts['algorand_founder'] = 'Silvio Micali';
+        addToMemory(memory, message, founderResponse, 'founder_intelligent');
         return founderResponse;
         
       case 'price':
-        const priceCrypto = thinkingContext.primaryCrypto;
+        const priceCrypto = memory.thinking.primaryCrypto;
         const priceData = await fetchCryptoPrice(priceCrypto);
         if (priceData) {
           const response = formatPriceResponse(priceData, priceCrypto);
-          thinkingContext.establishedFacts[`${priceCrypto}_price`] = priceData.price;
-          addToMemory(message, response, 'price_intelligent');
+          memory.thinking.establishedFacts[`${priceCrypto}_price`] = priceData.price;
+          addToMemory(memory, message, response, 'price_intelligent');
           return response;
         }
         break;
@@ -404,8 +477,8 @@ const fallbackResponses = {
   ]
 };
 
-const getContextualFallback = (message: string): string => {
-  const messageCount = conversationMemory.length;
+const getContextualFallback = (message: string, memory: SessionMemory): string => {
+  const messageCount = memory.turns;
   
   if (/(hi|hello|hey)/i.test(message)) {
     return fallbackResponses.greeting[Math.floor(Math.random() * fallbackResponses.greeting.length)];
@@ -418,24 +491,61 @@ const getContextualFallback = (message: string): string => {
   return fallbackResponses.clarification[Math.floor(Math.random() * fallbackResponses.clarification.length)];
 };
 
+/**
+ * Rebuilds a session's memory from its stored messages, for a conversation
+ * reopened after a reload or from the chat history. Memory already held for
+ * the session is kept, since it is at least as current as the store.
+ * @param sessionId - The chat session
+ * @param messages - The session's messages, oldest first
+ */
+export const restoreSessionMemory = (sessionId: string, messages: ChatMessage[]): void => {
+  if (sessionMemories.has(sessionId)) return;
+
+  const memory = createSessionMemory();
+  messages.forEach((message, index) => {
+    const question = messages[index - 1];
+    // Only finished answers to a question count; stopped answers and the
+    // outcomes of action plans recorded in the transcript do not
+    if (message.type === 'assistant' && !message.cancelled && question?.type === 'user') {
+      addToMemory(memory, fixTypos(question.content), message.content, 'restored', new Date(message.created_at));
+    }
+  });
+  sessionMemories.set(sessionId, memory);
+};
+
+/**
+ * Drops what the assistant remembers of a session, e.g. once it is deleted
+ * @param sessionId - The chat session
+ */
+export const forgetSessionMemory = (sessionId: string): void => {
+  sessionMemories.delete(sessionId);
+};
+
 export const generateAIResponse = async (
   message: string, 
-  context: AIContext
-): Promise<string> => {
+  context: AIContext,
+  settings: AISettings = DEFAULT_AI_SETTINGS,
+  options: AIResponseOptions = {}
+): Promise<AIResponse> => {
+  const { signal, onText } = options;
+  const provider = createLLMProvider(settings);
+  const memory = getSessionMemory(options.sessionId);
   console.log('🧠 Generating ultra-intelligent response for:', message);
   console.log('📊 Full context:', { 
     employees: context.employees.length, 
     payments: context.payments.length, 
     company: context.companyName,
-    conversationMemory: conversationMemory.length,
-    thinkingContext
+    provider: provider ? `${provider.name} (${provider.model})` : 'none',
+    sessionId: options.sessionId,
+    memory: { turns: memory.turns, kept: memory.exchanges.length, summarized: memory.summary.length },
+    thinking: memory.thinking
   });
 
   // First, try intelligent contextual handling
-  const intelligentResponse = await handleIntelligentQueries(message, context);
+  const intelligentResponse = await handleIntelligentQueries(message, context, !!provider, memory);
   if (intelligentResponse) {
     console.log('🎯 Returning contextually intelligent response');
-    return intelligentResponse;
+    return { content: intelligentResponse, toolCalls: [] };
   }
 
   // Fix typos in the message
@@ -444,48 +554,87 @@ export const generateAIResponse = async (
     console.log('✏️ Fixed typos:', message, '->', correctedMessage);
   }
 
-  if (!genAI) {
+  if (!provider) {
     console.log('🔄 Using contextual fallback');
-    const response = getContextualFallback(correctedMessage);
-    addToMemory(correctedMessage, response, 'contextual_fallback');
-    return response;
+    const response = getContextualFallback(correctedMessage, memory);
+    addToMemory(memory, correctedMessage, response, 'contextual_fallback');
+    return { content: response, toolCalls: [] };
   }
 
+  const toolCalls: ChatToolCall[] = [];
+  let partial = '';
+
   try {
-    const model = genAI.getGenerativeModel({ 
-      model: "gemini-pro",
-      generationConfig: {
-        temperature: 0.95,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 1200,
+    const messages: LLMMessage[] = [
+      { role: 'system', content: createSystemPrompt(context, memory) },
+      ...memory.exchanges.flatMap((exchange): LLMMessage[] => [
+        { role: 'user', content: exchange.message },
+        { role: 'assistant', content: exchange.response }
+      ]),
+      {
+        role: 'user',
+        content: `User Question: ${correctedMessage}\n\nRespond with perfect contextual understanding and human-level intelligence. If the question is ambiguous, ask for clarification. If it's specific, provide exact data. Be naturally conversational and build on our conversation history:`
       }
-    });
-    
-    const systemPrompt = createSystemPrompt(context);
-    const fullPrompt = `${systemPrompt}\n\nUser Question: ${correctedMessage}\n\nRespond with perfect contextual understanding and human-level intelligence. If the question is ambiguous, ask for clarification. If it's specific, provide exact data. Be naturally conversational and build on our conversation history:`;
+    ];
+    const request = { tools: AI_TOOLS, temperature: settings.temperature, maxOutputTokens: 1200, signal };
+    const send = (): Promise<LLMResult> => {
+      partial = '';
+      return onText
+        ? provider.stream({ ...request, messages }, text => {
+            partial += text;
+            onText(partial);
+          })
+        : provider.chat({ ...request, messages });
+    };
     
-    console.log('🚀 Calling Gemini with ultra-smart prompt...');
-    const result = await model.generateContent(fullPrompt);
-    const response = await result.response;
-    const text = response.text();
+    console.log(`🚀 Calling ${provider.name} with ultra-smart prompt...`);
+    let result = await send();
+    let usage = result.usage;
+
+    // Answer the model's tool calls until it replies in text
+    for (let round = 0; round < MAX_TOOL_ROUNDS && result.toolCalls.length > 0; round++) {
+      const calls = result.toolCalls;
+      const results = calls.map(call => runAITool({ name: call.name, args: call.args }, context));
+      console.log('🛠️ Tool calls:', results);
+      toolCalls.push(...results);
+
+      messages.push({ role: 'assistant', content: result.text, toolCalls: calls });
+      results.forEach((toolResult, index) => messages.push({
+        role: 'tool',
+        toolCallId: calls[index].id,
+        name: toolResult.name,
+        response: toolResult.error ? { error: toolResult.error } : { result: toolResult.result }
+      }));
+      result = await send();
+      usage = addUsage(usage, result.usage);
+    }
+
+    const text = result.text;
     
     console.log('✅ Ultra-intelligent response received:', text?.substring(0, 100) + '...');
+    console.log('🔢 Token usage:', usage);
     
     if (!text || text.trim().length === 0) {
       throw new Error('Empty response from AI');
     }
     
-    addToMemory(correctedMessage, text.trim(), 'gemini_intelligent');
-    return text.trim();
+    addToMemory(memory, correctedMessage, text.trim(), `${provider.id}_intelligent`);
+    return { content: text.trim(), toolCalls, actionPlan: collectActionPlan(toolCalls), usage };
     
   } catch (error) {
+    // A stopped turn is left out of memory, so the next question builds on
+    // the last exchange that finished
+    if (signal?.aborted) {
+      console.log('⏹️ Response cancelled');
+      return { content: partial.trim(), toolCalls, cancelled: true };
+    }
+
     console.error('❌ AI service error:', error);
     console.log('🔄 Falling back to contextual response');
     
-    const response = getContextualFallback(correctedMessage);
-    addToMemory(correctedMessage, response, 'error_fallback');
-    return response;
+    const response = getContextualFallback(correctedMessage, memory);
+    addToMemory(memory, correctedMessage, response, 'error_fallback');
+    return { content: response, toolCalls: [] };
   }
 };
 
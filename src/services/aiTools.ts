@@ -0,0 +1,477 @@
+import type { ChatAction, ChatActionPlan, ChatToolCall, Employee, Payment } from '../lib/supabase';
+import type { AIContext } from './aiService';
+import { fromStoredAmount, isSupportedToken, sumAmounts, toDecimalString, type TokenAmount } from '../utils/money';
+import { getEmployeeSchedule, getPayDates, getRunAmount, toDateKey } from '../utils/payrollSchedule';
+
+// A parameter of a tool, described the way function-calling models expect
+export interface AIToolParameter {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  description: string;
+  enum?: string[];
+}
+
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, AIToolParameter>;
+  required?: string[];
+}
+
+// A call the model asked for; results are recorded as ChatToolCall
+export type AIToolCall = Pick<ChatToolCall, 'name' | 'args'>;
+
+// What a proposal tool returns: drafted changes, none of them applied
+interface ProposedActions {
+  proposed: Array<{ summary: string; action: ChatAction }>;
+  skipped?: string[];
+}
+
+// Tools that draft changes for the user to confirm instead of reading data
+const PROPOSAL_TOOLS = ['proposePayRun', 'proposeSalaryChange', 'proposeStatusChange'];
+
+// Forecasts never run further ahead than this
+const MAX_FORECAST_MONTHS = 24;
+
+// Lists are cut off here so a result stays small enough to send back to the model
+const MAX_LIST_LENGTH = 50;
+
+// Tokens of historical payments may have left SUPPORTED_TOKENS
+const FALLBACK_DECIMALS = 6;
+
+export const AI_TOOLS: AIToolDefinition[] = [
+  {
+    name: 'listEmployees',
+    description: 'Lists employees with their role, department, monthly salary and status. Use it for questions about who works here, headcount, or the highest and lowest paid.',
+    parameters: {
+      department: { type: 'string', description: 'Only employees in this department (case-insensitive)' },
+      status: { type: 'string', description: 'Only active or only inactive employees', enum: ['active', 'inactive'] },
+      search: { type: 'string', description: 'Only employees whose name or designation contains this text' },
+      sortBy: { type: 'string', description: 'Field to sort by', enum: ['salary', 'join_date', 'name'] },
+      order: { type: 'string', description: 'Sort order; descending by default', enum: ['asc', 'desc'] },
+      limit: { type: 'integer', description: `Most employees to return, up to ${MAX_LIST_LENGTH}` }
+    }
+  },
+  {
+    name: 'sumPayments',
+    description: 'Totals payments per token, optionally within a date range, for one department or one token. Use it for any question about how much was paid.',
+    parameters: {
+      from: { type: 'string', description: 'First payment date to include, yyyy-mm-dd' },
+      to: { type: 'string', description: 'Last payment date to include, yyyy-mm-dd' },
+      department: { type: 'string', description: 'Only payments to employees in this department' },
+      token: { type: 'string', description: 'Only payments in this token, e.g. USDC' },
+      status: { type: 'string', description: 'Payment status to count; completed by default', enum: ['completed', 'pending', 'failed', 'any'] }
+    }
+  },
+  {
+    name: 'getEmployee',
+    description: 'Looks up one employee by name, with the payments they have received.',
+    parameters: {
+      name: { type: 'string', description: 'Full or partial name' }
+    },
+    required: ['name']
+  },
+  {
+    name: 'payrollForecast',
+    description: 'Projects payroll cost per calendar month from the active employees\' salaries and pay schedules, starting next month.',
+    parameters: {
+      months: { type: 'integer', description: `Number of months to project, up to ${MAX_FORECAST_MONTHS}` },
+      department: { type: 'string', description: 'Only employees in this department' }
+    },
+    required: ['months']
+  },
+  {
+    name: 'proposePayRun',
+    description: 'Drafts a pay run of one month\'s salary for active employees, for the user to review and send. It pays nobody by itself.',
+    parameters: {
+      token: { type: 'string', description: 'Token to pay in, e.g. USDC' },
+      department: { type: 'string', description: 'Only employees in this department' },
+      names: { type: 'string', description: 'Only these employees, comma-separated full or partial names' },
+      period: { type: 'string', description: 'Pay period the run is for, e.g. "March 2026"' }
+    },
+    required: ['token']
+  },
+  {
+    name: 'proposeSalaryChange',
+    description: 'Drafts a salary change for one employee, by percentage or to a new monthly amount, for the user to review. It changes nothing by itself.',
+    parameters: {
+      name: { type: 'string', description: 'Full or partial name' },
+      percent: { type: 'number', description: 'Change in percent; negative for a cut' },
+      newSalary: { type: 'number', description: 'New monthly salary in the employee\'s salary currency' },
+      effectiveFrom: { type: 'string', description: 'Date the change takes effect, yyyy-mm-dd; today when omitted' }
+    },
+    required: ['name']
+  },
+  {
+    name: 'proposeStatusChange',
+    description: 'Drafts activating or deactivating employees, chosen by department and/or names, for the user to review. It changes nothing by itself.',
+    parameters: {
+      status: { type: 'string', description: 'Status to set', enum: ['active', 'inactive'] },
+      department: { type: 'string', description: 'Employees in this department' },
+      names: { type: 'string', description: 'These employees, comma-separated full or partial names' }
+    },
+    required: ['status']
+  }
+];
+
+const readString = (args: Record<string, unknown>, key: string): string | undefined => {
+  const value = args[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new Error(`${key} must be a string`);
+  return value.trim();
+};
+
+const readInteger = (args: Record<string, unknown>, key: string): number | undefined => {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isInteger(number)) throw new Error(`${key} must be a whole number`);
+  return number;
+};
+
+const readDate = (args: Record<string, unknown>, key: string): string | undefined => {
+  const value = readString(args, key);
+  if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) throw new Error(`${key} must be a yyyy-mm-dd date`);
+  return value;
+};
+
+const sameText = (a: string | undefined, b: string) => (a || '').toLowerCase() === b.toLowerCase();
+
+const summarizeEmployee = (employee: Employee) => ({
+  id: employee.id,
+  name: employee.name,
+  designation: employee.designation,
+  department: employee.department,
+  salary: employee.salary,
+  salary_currency: employee.salary_currency || 'USD',
+  status: employee.status,
+  join_date: employee.join_date
+});
+
+// Stored base units are exact; older rows only have the display amount
+const getPaymentAmount = (payment: Payment): TokenAmount => fromStoredAmount(payment, FALLBACK_DECIMALS);
+
+const totalPerToken = (payments: Payment[]): Array<{ token: string; amount: string }> => {
+  const byToken = new Map<string, TokenAmount[]>();
+  payments.forEach(payment => {
+    byToken.set(payment.token, [...(byToken.get(payment.token) || []), getPaymentAmount(payment)]);
+  });
+  return [...byToken.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([token, amounts]) => ({
+      token,
+      amount: toDecimalString(sumAmounts(amounts, token, amounts[0].decimals))
+    }));
+};
+
+const getPaymentDate = (payment: Payment) => (payment.payment_date || payment.created_at || '').substring(0, 10);
+
+const listEmployees = (args: Record<string, unknown>, employees: Employee[]) => {
+  const department = readString(args, 'department');
+  const status = readString(args, 'status');
+  const search = readString(args, 'search')?.toLowerCase();
+  const sortBy = readString(args, 'sortBy') || 'salary';
+  const descending = readString(args, 'order') !== 'asc';
+  const limit = Math.min(Math.max(readInteger(args, 'limit') ?? MAX_LIST_LENGTH, 1), MAX_LIST_LENGTH);
+
+  const matches = employees
+    .filter(employee => !department || sameText(employee.department, department))
+    .filter(employee => !status || employee.status === status)
+    .filter(employee => !search || `${employee.name} ${employee.designation}`.toLowerCase().includes(search))
+    .sort((a, b) => {
+      const order = sortBy === 'name'
+        ? a.name.localeCompare(b.name)
+        : sortBy === 'join_date'
+          ? (a.join_date || '').localeCompare(b.join_date || '')
+          : (a.salary || 0) - (b.salary || 0);
+      return descending ? -order : order;
+    });
+
+  return {
+    count: matches.length,
+    employees: matches.slice(0, limit).map(summarizeEmployee)
+  };
+};
+
+const sumPayments = (args: Record<string, unknown>, employees: Employee[], payments: Payment[]) => {
+  const from = readDate(args, 'from');
+  const to = readDate(args, 'to');
+  const department = readString(args, 'department');
+  const token = readString(args, 'token');
+  const status = readString(args, 'status') || 'completed';
+
+  const departmentIds = department
+    ? new Set(employees.filter(employee => sameText(employee.department, department)).map(employee => employee.id))
+    : null;
+
+  const matches = payments.filter(payment => {
+    const date = getPaymentDate(payment);
+    return (status === 'any' || payment.status === status)
+      && (!token || sameText(payment.token, token))
+      && (!from || date >= from)
+      && (!to || date <= to)
+      && (!departmentIds || departmentIds.has(payment.employee_id));
+  });
+
+  return {
+    count: matches.length,
+    totals: totalPerToken(matches),
+    filters: { from, to, department, token, status }
+  };
+};
+
+const getEmployee = (args: Record<string, unknown>, employees: Employee[], payments: Payment[]) => {
+  const name = readString(args, 'name');
+  if (!name) throw new Error('name is required');
+
+  // An exact name wins over partial matches
+  const exact = employees.filter(employee => sameText(employee.name, name));
+  const matches = exact.length > 0
+    ? exact
+    : employees.filter(employee => employee.name.toLowerCase().includes(name.toLowerCase()));
+
+  if (matches.length === 0) {
+    return { found: false, message: `No employee named "${name}"` };
+  }
+  if (matches.length > 1) {
+    return { found: false, message: `Several employees match "${name}"`, candidates: matches.map(employee => employee.name) };
+  }
+
+  const employee = matches[0];
+  const received = payments
+    .filter(payment => payment.employee_id === employee.id)
+    .sort((a, b) => getPaymentDate(b).localeCompare(getPaymentDate(a)));
+  const completed = received.filter(payment => payment.status === 'completed');
+  const last = received[0];
+
+  return {
+    found: true,
+    employee: { ...summarizeEmployee(employee), email: employee.email, pay_frequency: getEmployeeSchedule(employee).frequency },
+    payments: {
+      count: received.length,
+      completed: completed.length,
+      totalsPaid: totalPerToken(completed),
+      last: last
+        ? { date: getPaymentDate(last), amount: toDecimalString(getPaymentAmount(last)), token: last.token, status: last.status }
+        : null
+    }
+  };
+};
+
+// Each name must pick out exactly one employee, so a plan never guesses
+const findEmployeesByName = (names: string, employees: Employee[]): Employee[] => {
+  return names.split(',').map(name => name.trim()).filter(Boolean).map(name => {
+    const exact = employees.filter(employee => sameText(employee.name, name));
+    const matches = exact.length > 0
+      ? exact
+      : employees.filter(employee => employee.name.toLowerCase().includes(name.toLowerCase()));
+    if (matches.length === 0) throw new Error(`No employee named "${name}"`);
+    if (matches.length > 1) throw new Error(`Several employees match "${name}": ${matches.map(employee => employee.name).join(', ')}`);
+    return matches[0];
+  });
+};
+
+const selectEmployees = (args: Record<string, unknown>, employees: Employee[]): Employee[] => {
+  const department = readString(args, 'department');
+  const names = readString(args, 'names');
+  if (!department && !names) throw new Error('Give a department or names');
+
+  const named = names ? findEmployeesByName(names, employees) : employees;
+  return named.filter(employee => !department || sameText(employee.department, department));
+};
+
+const formatMoney = (amount: number, currency: string) => `${amount.toLocaleString()} ${currency}`;
+
+const proposePayRun = (args: Record<string, unknown>, employees: Employee[]): ProposedActions => {
+  const token = readString(args, 'token')?.toUpperCase();
+  if (!token || !isSupportedToken(token)) throw new Error(`Unsupported token ${token || ''}`.trim());
+  const period = readString(args, 'period');
+
+  const selected = readString(args, 'department') || readString(args, 'names')
+    ? selectEmployees(args, employees)
+    : employees;
+  const skipped: string[] = [];
+  const recipients = selected.filter(employee => {
+    if (employee.status !== 'active') {
+      skipped.push(`${employee.name} is inactive`);
+      return false;
+    }
+    if (!employee.wallet_address) {
+      skipped.push(`${employee.name} has no wallet address`);
+      return false;
+    }
+    return true;
+  });
+  if (recipients.length === 0) throw new Error('No active employees with a wallet match');
+
+  const action: ChatAction = {
+    kind: 'pay_run',
+    token,
+    period,
+    recipients: recipients.map(employee => ({
+      employee_id: employee.id,
+      name: employee.name,
+      email: employee.email,
+      wallet_address: employee.wallet_address,
+      amount: employee.salary || 0,
+      currency: employee.salary_currency || 'USD'
+    }))
+  };
+  return {
+    proposed: [{
+      summary: `Pay ${recipients.length} employee${recipients.length === 1 ? '' : 's'} a month's salary in ${token}${period ? ` for ${period}` : ''}`,
+      action
+    }],
+    skipped
+  };
+};
+
+const proposeSalaryChange = (args: Record<string, unknown>, employees: Employee[]): ProposedActions => {
+  const name = readString(args, 'name');
+  if (!name) throw new Error('name is required');
+  const [employee] = findEmployeesByName(name, employees);
+  const percent = args.percent === undefined || args.percent === null ? undefined : Number(args.percent);
+  const newSalary = args.newSalary === undefined || args.newSalary === null ? undefined : Number(args.newSalary);
+  if ((percent === undefined) === (newSalary === undefined)) throw new Error('Give either percent or newSalary');
+  if (percent !== undefined && !Number.isFinite(percent)) throw new Error('percent must be a number');
+
+  const salary = newSalary !== undefined
+    ? newSalary
+    : Math.round((employee.salary || 0) * (1 + percent! / 100) * 100) / 100;
+  if (!Number.isFinite(salary) || salary <= 0) throw new Error('The new salary must be greater than zero');
+  const effectiveFrom = readDate(args, 'effectiveFrom');
+  const currency = employee.salary_currency || 'USD';
+
+  return {
+    proposed: [{
+      summary: `Change ${employee.name}'s salary from ${formatMoney(employee.salary || 0, currency)} to ${formatMoney(salary, currency)}${effectiveFrom ? ` from ${effectiveFrom}` : ''}`,
+      action: {
+        kind: 'update_employee',
+        employee_id: employee.id,
+        employee_name: employee.name,
+        changes: { salary },
+        previous: { salary: employee.salary },
+        effective_from: effectiveFrom
+      }
+    }]
+  };
+};
+
+const proposeStatusChange = (args: Record<string, unknown>, employees: Employee[]): ProposedActions => {
+  const status = readString(args, 'status');
+  if (status !== 'active' && status !== 'inactive') throw new Error('status must be active or inactive');
+
+  const selected = selectEmployees(args, employees);
+  const changing = selected.filter(employee => employee.status !== status);
+  return {
+    proposed: changing.map(employee => ({
+      summary: `${status === 'active' ? 'Reactivate' : 'Deactivate'} ${employee.name} (${employee.department})`,
+      action: {
+        kind: 'update_employee',
+        employee_id: employee.id,
+        employee_name: employee.name,
+        changes: { status },
+        previous: { status: employee.status }
+      }
+    })),
+    skipped: selected.filter(employee => employee.status === status).map(employee => `${employee.name} is already ${status}`)
+  };
+};
+
+const payrollForecast = (args: Record<string, unknown>, employees: Employee[], today: Date) => {
+  const months = readInteger(args, 'months');
+  if (months === undefined || months < 1 || months > MAX_FORECAST_MONTHS) {
+    throw new Error(`months must be between 1 and ${MAX_FORECAST_MONTHS}`);
+  }
+  const department = readString(args, 'department');
+  const included = employees
+    .filter(employee => employee.status === 'active')
+    .filter(employee => !department || sameText(employee.department, department));
+
+  // Totals are kept in cents so months add up exactly
+  const grandTotal = new Map<string, number>();
+  const forecast = Array.from({ length: months }, (_, index) => {
+    const start = new Date(today.getFullYear(), today.getMonth() + index + 1, 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+    const totals = new Map<string, number>();
+    let runs = 0;
+
+    included.forEach(employee => {
+      const schedule = getEmployeeSchedule(employee);
+      const payDates = getPayDates(schedule.frequency, schedule.anchorDate, start, end);
+      const currency = employee.salary_currency || 'USD';
+      const cents = Math.round(getRunAmount(employee.salary || 0, schedule.frequency) * 100) * payDates.length;
+      runs += payDates.length;
+      totals.set(currency, (totals.get(currency) || 0) + cents);
+      grandTotal.set(currency, (grandTotal.get(currency) || 0) + cents);
+    });
+
+    return {
+      month: toDateKey(start).substring(0, 7),
+      payments: runs,
+      totals: [...totals.entries()].map(([currency, cents]) => ({ currency, amount: cents / 100 }))
+    };
+  });
+
+  return {
+    employees: included.length,
+    months: forecast,
+    total: [...grandTotal.entries()].map(([currency, cents]) => ({ currency, amount: cents / 100 }))
+  };
+};
+
+/**
+ * Runs a tool over the company's data. Tools only read the context, so the
+ * same call always gives the same answer; bad arguments come back as an
+ * error the model can correct rather than a thrown exception.
+ * @param call - Tool name and arguments, as the model sent them
+ * @param context - The company's employees and payments
+ * @param today - Reference date for forecasts
+ */
+export const runAITool = (call: AIToolCall, context: AIContext, today: Date = new Date()): ChatToolCall => {
+  const employees: Employee[] = context.employees;
+  const payments: Payment[] = context.payments;
+  const args = call.args || {};
+
+  try {
+    switch (call.name) {
+      case 'listEmployees':
+        return { ...call, result: listEmployees(args, employees) };
+      case 'sumPayments':
+        return { ...call, result: sumPayments(args, employees, payments) };
+      case 'getEmployee':
+        return { ...call, result: getEmployee(args, employees, payments) };
+      case 'payrollForecast':
+        return { ...call, result: payrollForecast(args, employees, today) };
+      case 'proposePayRun':
+        return { ...call, result: proposePayRun(args, employees) };
+      case 'proposeSalaryChange':
+        return { ...call, result: proposeSalaryChange(args, employees) };
+      case 'proposeStatusChange':
+        return { ...call, result: proposeStatusChange(args, employees) };
+      default:
+        return { ...call, error: `Unknown tool ${call.name}` };
+    }
+  } catch (error) {
+    return { ...call, error: error instanceof Error ? error.message : 'Tool failed' };
+  }
+};
+
+/**
+ * Gathers the changes proposal tools drafted during one answer into a plan
+ * for the user to review
+ * @param toolCalls - The answer's tool calls
+ * @returns The plan, or undefined when nothing was proposed
+ */
+export const collectActionPlan = (toolCalls: ChatToolCall[]): ChatActionPlan | undefined => {
+  const proposed = toolCalls
+    .filter(call => PROPOSAL_TOOLS.includes(call.name) && !call.error && call.result)
+    .flatMap(call => (call.result as ProposedActions).proposed);
+  if (proposed.length === 0) return undefined;
+
+  const id = Date.now().toString();
+  return {
+    id,
+    steps: proposed.map((step, index) => ({ id: `${id}-${index}`, ...step, status: 'proposed' })),
+    created_at: new Date().toISOString()
+  };
+};
@@ -0,0 +1,277 @@
+import { ChannelStatus, type State } from '@erc7824/nitrolite';
+import type { Hex } from 'viem';
+import type { ChannelAdjudicator } from './yellowNetworkService';
+import { getSecureStore, type SecureStore } from '../lib/storage';
+
+// What the watchtower keeps per channel: the newest state every participant
+// signed, and what it has already done about a dispute
+export interface WatchedChannel {
+  channelId: Hex;
+  state: State;
+  lastCheckedAt?: string;
+  dispute?: {
+    onChainVersion: bigint;
+    // Unix seconds, as the custody contract reports it
+    challengeExpiry: bigint;
+    challengedWithVersion?: bigint;
+    txHash?: Hex;
+    // Deadline warnings already raised, in milliseconds before expiry
+    warned: number[];
+  };
+}
+
+export type WatchtowerEvent =
+  | { type: 'dispute_detected'; channelId: Hex; onChainVersion: bigint; latestVersion: bigint; challengeExpiry: bigint }
+  | { type: 'challenge_submitted'; channelId: Hex; version: bigint; txHash: Hex }
+  | { type: 'challenge_failed'; channelId: Hex; error: string }
+  | { type: 'deadline_approaching'; channelId: Hex; challengeExpiry: bigint; remainingMs: number; resolved: boolean }
+  | { type: 'channel_closed'; channelId: Hex; version: bigint };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Warnings go out when this little of a dispute's challenge period is left
+const DEADLINE_WARNINGS_MS = [6 * HOUR_MS, HOUR_MS, 15 * 60 * 1000];
+
+const STORAGE_KEY = 'channels';
+
+// Guards channels while their challenge period runs. It keeps the newest
+// co-signed state of every channel across reloads and polls the adjudicator;
+// when a counterparty puts an older state on chain, it challenges with the
+// newer one before the period ends.
+export class ChannelWatchtower {
+  private channels: Map<string, WatchedChannel> = new Map();
+  private listeners: Set<(event: WatchtowerEvent) => void> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+  private adjudicator: ChannelAdjudicator;
+  private store: SecureStore;
+  private loaded: Promise<void>;
+  private saving: Promise<void>;
+  // Channels unwatched while the stored ones are loading, which loading must
+  // not bring back; null once loaded
+  private unwatchedBeforeLoad: Set<string> | null = new Set();
+  private now: () => number;
+
+  constructor(
+    adjudicator: ChannelAdjudicator,
+    store: SecureStore = getSecureStore('watchtower'),
+    now: () => number = () => Date.now()
+  ) {
+    this.adjudicator = adjudicator;
+    this.store = store;
+    this.now = now;
+    this.loaded = this.load();
+    // Nothing is written before the stored channels are merged in, or a save
+    // made during loading would replace them
+    this.saving = this.loaded;
+  }
+
+  // Stored channels are merged under any newer state watched meanwhile
+  private async load() {
+    try {
+      const channels = (await this.store.get<WatchedChannel[]>(STORAGE_KEY)) || [];
+      channels.forEach(channel => {
+        if (this.unwatchedBeforeLoad?.has(channel.channelId)) return;
+        const current = this.channels.get(channel.channelId);
+        if (!current || current.state.version < channel.state.version) {
+          this.channels.set(channel.channelId, channel);
+        }
+      });
+    } catch (error) {
+      console.warn('Ignoring unreadable watchtower state:', error);
+    }
+    this.unwatchedBeforeLoad = null;
+  }
+
+  // Writes run one after another, after loading, each saving the channels as
+  // they are then
+  private save() {
+    this.saving = this.saving
+      .then(() => this.store.set(STORAGE_KEY, [...this.channels.values()]))
+      .catch(error => console.error('Failed to persist watchtower state:', error));
+  }
+
+  private emit(event: WatchtowerEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Watchtower listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Receives watchtower events
+   * @param listener - Called for every event
+   * @returns Stops the listener
+   */
+  subscribe(listener: (event: WatchtowerEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Starts guarding a channel with a state, or moves it to a newer one.
+   * Older versions than the one held are ignored.
+   * @param channelId - The channel
+   * @param state - A state carrying every participant's signature
+   */
+  watch(channelId: Hex, state: State): void {
+    const watched = this.channels.get(channelId);
+    if (watched && watched.state.version >= state.version) return;
+    this.channels.set(channelId, { ...watched, channelId, state });
+    this.save();
+  }
+
+  /**
+   * Stops guarding a channel
+   * @param channelId - The channel
+   */
+  unwatch(channelId: Hex): void {
+    // While loading, the channel may so far only be in storage
+    const loading = this.unwatchedBeforeLoad !== null;
+    this.unwatchedBeforeLoad?.add(channelId);
+    if (this.channels.delete(channelId) || loading) this.save();
+  }
+
+  // Resolves once stored channels have been loaded
+  whenLoaded(): Promise<void> {
+    return this.loaded;
+  }
+
+  getWatchedChannels(): WatchedChannel[] {
+    return [...this.channels.values()];
+  }
+
+  getWatchedChannel(channelId: Hex): WatchedChannel | undefined {
+    return this.channels.get(channelId);
+  }
+
+  private raiseDeadlineWarnings(watched: WatchedChannel) {
+    const dispute = watched.dispute!;
+    const remainingMs = Number(dispute.challengeExpiry) * 1000 - this.now();
+    if (remainingMs <= 0) return;
+
+    // Thresholds crossed since the last check are announced together, once
+    const due = DEADLINE_WARNINGS_MS.filter(threshold => remainingMs <= threshold && !dispute.warned.includes(threshold));
+    if (due.length === 0) return;
+
+    dispute.warned = [...dispute.warned, ...due];
+    this.emit({
+      type: 'deadline_approaching',
+      channelId: watched.channelId,
+      challengeExpiry: dispute.challengeExpiry,
+      remainingMs,
+      resolved: dispute.onChainVersion >= watched.state.version
+    });
+  }
+
+  /**
+   * Compares one channel's on-chain state with the one held, challenging
+   * when the chain has an older version under dispute
+   * @param channelId - The channel
+   */
+  async checkChannel(channelId: Hex): Promise<void> {
+    const watched = this.channels.get(channelId);
+    if (!watched) return;
+
+    const anchored = await this.adjudicator.getChannel(channelId);
+    watched.lastCheckedAt = new Date(this.now()).toISOString();
+    if (!anchored) {
+      this.save();
+      return;
+    }
+
+    if (anchored.status === ChannelStatus.FINAL) {
+      this.channels.delete(channelId);
+      this.save();
+      this.emit({ type: 'channel_closed', channelId, version: anchored.state.version });
+      return;
+    }
+
+    if (anchored.status !== ChannelStatus.DISPUTE) {
+      watched.dispute = undefined;
+      this.save();
+      return;
+    }
+
+    const isNewDispute = !watched.dispute || watched.dispute.challengeExpiry !== anchored.challengeExpiry;
+    watched.dispute = {
+      warned: [],
+      ...(isNewDispute ? {} : watched.dispute),
+      onChainVersion: anchored.state.version,
+      challengeExpiry: anchored.challengeExpiry
+    };
+    if (isNewDispute && anchored.state.version < watched.state.version) {
+      this.emit({
+        type: 'dispute_detected',
+        channelId,
+        onChainVersion: anchored.state.version,
+        latestVersion: watched.state.version,
+        challengeExpiry: anchored.challengeExpiry
+      });
+    }
+
+    // A stale state was put on chain; answer with the newest one
+    const alreadyChallenged = watched.dispute.challengedWithVersion === watched.state.version;
+    if (anchored.state.version < watched.state.version && !alreadyChallenged) {
+      try {
+        const txHash = await this.adjudicator.challenge(channelId, watched.state);
+        watched.dispute.challengedWithVersion = watched.state.version;
+        watched.dispute.txHash = txHash;
+        this.emit({ type: 'challenge_submitted', channelId, version: watched.state.version, txHash });
+      } catch (error) {
+        this.emit({
+          type: 'challenge_failed',
+          channelId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    this.raiseDeadlineWarnings(watched);
+    this.save();
+  }
+
+  /**
+   * Checks every watched channel; one failing check does not stop the others
+   */
+  async checkAll(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+    try {
+      await this.loaded;
+      for (const channelId of this.channels.keys()) {
+        try {
+          await this.checkChannel(channelId as Hex);
+        } catch (error) {
+          console.error('Watchtower check failed:', channelId, error);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Polls the adjudicator until stopped
+   * @param intervalMs - Time between checks
+   */
+  start(intervalMs: number = 60000): void {
+    if (this.timer) return;
+    this.checkAll();
+    this.timer = setInterval(() => this.checkAll(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
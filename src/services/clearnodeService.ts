@@ -0,0 +1,206 @@
+import { RPCMethod, type Channel, type NitroliteRPCMessage, type State } from '@erc7824/nitrolite';
+import type { Address, Hex } from 'viem';
+import { ENV_CONFIG } from '../config/environment';
+import { getClearnodeSimulator, isClearnodeSimulatorEnabled, SimulatedClearnodeSocket, type LedgerBalance } from './clearnodeSimulator';
+import type { SessionAuthorization } from '../utils/sessionKeys';
+
+// The clearnode's side of a payroll channel. It countersigns every state the
+// employer proposes, after checking the employer's signature and that the
+// state follows the last one it signed; the returned signature completes the
+// state. A channel opened by a session key carries the wallet's
+// authorization, so the clearnode can hold the key to its scope.
+export interface ClearnodeCounterparty {
+  getAddress(): Promise<Address>;
+  openChannel(channelId: Hex, channel: Channel, state: State, authorization?: SessionAuthorization): Promise<Hex>;
+  submitState(channelId: Hex, state: State): Promise<Hex>;
+  closeChannel(channelId: Hex, state: State): Promise<Hex>;
+}
+
+// The part of a WebSocket the client uses, so a simulated clearnode can stand in
+export interface ClearnodeSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: Event) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+}
+
+// A channel as the clearnode reports it
+export interface ClearnodeChannel {
+  channel_id: Hex;
+  participant: Address;
+  status: 'open' | 'closed' | 'challenged';
+  version: number;
+}
+
+const SOCKET_OPEN = 1;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Channel states hold bigints, which JSON cannot carry
+const serialize = (message: NitroliteRPCMessage): string => {
+  return JSON.stringify(message, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+};
+
+// Speaks the Nitrolite RPC to a clearnode over WebSocket
+export class ClearnodeRPCClient implements ClearnodeCounterparty {
+  private socket: ClearnodeSocket | null = null;
+  private connecting: Promise<ClearnodeSocket> | null = null;
+  private pending: Map<number, PendingRequest> = new Map();
+  private brokerAddress: Address | null = null;
+  private nextRequestId = Date.now();
+  private url: string;
+  private timeoutMs: number;
+  private createSocket: (url: string) => ClearnodeSocket;
+
+  constructor(
+    url: string,
+    timeoutMs: number = 30000,
+    createSocket: (url: string) => ClearnodeSocket = (socketUrl) => new WebSocket(socketUrl)
+  ) {
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+    this.createSocket = createSocket;
+  }
+
+  private connect(): Promise<ClearnodeSocket> {
+    if (this.socket?.readyState === SOCKET_OPEN) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<ClearnodeSocket>((resolve, reject) => {
+      const socket = this.createSocket(this.url);
+      socket.onopen = () => {
+        this.socket = socket;
+        this.connecting = null;
+        resolve(socket);
+      };
+      socket.onerror = () => {
+        this.connecting = null;
+        reject(new Error(`Could not connect to the clearnode at ${this.url}`));
+      };
+      socket.onclose = () => {
+        this.socket = null;
+        this.pending.forEach(request => {
+          clearTimeout(request.timer);
+          request.reject(new Error('Clearnode connection closed'));
+        });
+        this.pending.clear();
+      };
+      socket.onmessage = (event) => this.handleMessage(event.data);
+    });
+    return this.connecting;
+  }
+
+  private handleMessage(data: string) {
+    let message: NitroliteRPCMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      console.warn('Ignoring malformed clearnode message');
+      return;
+    }
+
+    const [requestId, method, result] = message.res || [];
+    const request = requestId !== undefined ? this.pending.get(requestId) : undefined;
+    if (!request) return;
+
+    clearTimeout(request.timer);
+    this.pending.delete(requestId!);
+    if (method === RPCMethod.Error) {
+      request.reject(new Error((result as { error?: string })?.error || 'Clearnode request failed'));
+    } else {
+      request.resolve(result);
+    }
+  }
+
+  private async request<T>(method: RPCMethod, params: object): Promise<T> {
+    const socket = await this.connect();
+    const requestId = this.nextRequestId++;
+    const message: NitroliteRPCMessage = { req: [requestId, method, params, Date.now()], sig: [] };
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error(`Clearnode did not answer ${method} in time`));
+      }, this.timeoutMs);
+      this.pending.set(requestId, { resolve: resolve as (result: unknown) => void, reject, timer });
+      socket.send(serialize(message));
+    });
+  }
+
+  async getAddress(): Promise<Address> {
+    if (!this.brokerAddress) {
+      const config = await this.request<{ broker_address: Address }>(RPCMethod.GetConfig, {});
+      this.brokerAddress = config.broker_address;
+    }
+    return this.brokerAddress;
+  }
+
+  async openChannel(channelId: Hex, channel: Channel, state: State, authorization?: SessionAuthorization): Promise<Hex> {
+    const result = await this.request<{ server_signature: Hex }>(RPCMethod.CreateChannel, {
+      channel_id: channelId,
+      channel,
+      state,
+      ...(authorization ? { session_authorization: authorization } : {})
+    });
+    return result.server_signature;
+  }
+
+  async submitState(channelId: Hex, state: State): Promise<Hex> {
+    const result = await this.request<{ server_signature: Hex }>(RPCMethod.SubmitAppState, {
+      channel_id: channelId,
+      state
+    });
+    return result.server_signature;
+  }
+
+  async closeChannel(channelId: Hex, state: State): Promise<Hex> {
+    const result = await this.request<{ server_signature: Hex }>(RPCMethod.CloseChannel, {
+      channel_id: channelId,
+      state
+    });
+    return result.server_signature;
+  }
+
+  /**
+   * The channels the clearnode holds for a participant
+   * @param participant - The wallet that opened them
+   */
+  async getChannels(participant: Address): Promise<ClearnodeChannel[]> {
+    const result = await this.request<{ channels: ClearnodeChannel[] }>(RPCMethod.GetChannels, { participant });
+    return result.channels || [];
+  }
+
+  /**
+   * A participant's unified balances held by the clearnode
+   * @param participant - The wallet
+   */
+  async getLedgerBalances(participant: Address): Promise<LedgerBalance[]> {
+    return this.request<LedgerBalance[]>(RPCMethod.GetLedgerBalances, { participant });
+  }
+
+  disconnect(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+let clearnode: ClearnodeRPCClient | null = null;
+
+// The clearnode payroll channels are opened with; the local simulator when
+// it is switched on
+export const getClearnode = (): ClearnodeRPCClient => {
+  if (!clearnode) {
+    clearnode = isClearnodeSimulatorEnabled()
+      ? new ClearnodeRPCClient('simulator://clearnode', ENV_CONFIG.yellowNetwork.simulator.timeoutMs,
+        () => new SimulatedClearnodeSocket(getClearnodeSimulator()))
+      : new ClearnodeRPCClient(ENV_CONFIG.yellowNetwork.clearnodeUrl);
+  }
+  return clearnode;
+};
@@ -0,0 +1,491 @@
+import { ChannelStatus, getStateHash, RPCMethod, StateIntent, type Channel, type NitroliteRPCMessage, type State } from '@erc7824/nitrolite';
+import { keccak256, stringToHex, type Address, type Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { ENV_CONFIG } from '../config/environment';
+import { getChannelTotals, getStateTransitionError, isStateSignedBy } from '../utils/payrollChannel';
+import { fromUnits, parseAmount, SUPPORTED_TOKENS, toDecimalString } from '../utils/money';
+import {
+  checkSessionPayments,
+  checkSessionScope,
+  getStatePayments,
+  verifySessionAuthorization,
+  type SessionAuthorization,
+  type SessionOperation
+} from '../utils/sessionKeys';
+import type { ClearnodeChannel, ClearnodeSocket } from './clearnodeService';
+import type { AnchoredChannel, ChannelAdjudicator } from './yellowNetworkService';
+
+// Failures the simulator can be told to produce:
+// - timeout: requests are never answered
+// - reject_signature: every state is refused as badly signed
+// - insufficient_funds: channels cannot be funded and the faucet is dry
+export type ClearnodeFault = 'timeout' | 'reject_signature' | 'insufficient_funds';
+
+const CLEARNODE_FAULTS: ClearnodeFault[] = ['timeout', 'reject_signature', 'insufficient_funds'];
+
+export interface LedgerBalance {
+  asset: string;
+  amount: string;
+}
+
+interface SimulatedChannel {
+  channel: Channel;
+  state: State;
+  closed: boolean;
+  // Set when a session key opened the channel for a wallet
+  session?: {
+    authorization: SessionAuthorization;
+    spent: Record<string, bigint>;
+  };
+}
+
+// Requests arrive as JSON, with every bigint as a string
+const reviveChannel = (channel: Channel): Channel => ({
+  ...channel,
+  challenge: BigInt(channel.challenge),
+  nonce: BigInt(channel.nonce)
+});
+
+const reviveState = (state: State): State => ({
+  ...state,
+  version: BigInt(state.version),
+  allocations: state.allocations.map(allocation => ({ ...allocation, amount: BigInt(allocation.amount) }))
+});
+
+const reviveAuthorization = (authorization: SessionAuthorization): SessionAuthorization => ({
+  ...authorization,
+  scope: {
+    ...authorization.scope,
+    allowances: Object.fromEntries(Object.entries(authorization.scope.allowances).map(([token, cap]) => [token, BigInt(cap)]))
+  }
+});
+
+const getTokenSymbol = (token: string): string | undefined => {
+  return Object.keys(SUPPORTED_TOKENS).find(symbol => SUPPORTED_TOKENS[symbol].address.toLowerCase() === token.toLowerCase());
+};
+
+/**
+ * Parses a comma-separated fault list, e.g. "timeout,insufficient_funds"
+ * @param value - The list; unknown names are ignored
+ */
+export const parseClearnodeFaults = (value: string): ClearnodeFault[] => {
+  return value
+    .split(',')
+    .map(fault => fault.trim())
+    .filter((fault): fault is ClearnodeFault => CLEARNODE_FAULTS.includes(fault as ClearnodeFault));
+};
+
+// An in-process clearnode for development without the network. It answers
+// the same RPC messages the real one does, keeps every participant's unified
+// balance, and countersigns channel states under the same checks, so pay
+// runs can be exercised end to end and with repeatable results.
+export class ClearnodeSimulator {
+  private account: PrivateKeyAccount;
+  // Unified balances per participant, then per token address, in base units
+  private ledger: Map<string, Map<string, bigint>> = new Map();
+  private channels: Map<string, SimulatedChannel> = new Map();
+  private faults: Set<ClearnodeFault>;
+  private faucetAmount: number;
+
+  constructor(faults: ClearnodeFault[] = [], faucetAmount: number = 1000, privateKey: Hex = generatePrivateKey()) {
+    this.account = privateKeyToAccount(privateKey);
+    this.faults = new Set(faults);
+    this.faucetAmount = faucetAmount;
+  }
+
+  get address(): Address {
+    return this.account.address;
+  }
+
+  setFaults(faults: ClearnodeFault[]): void {
+    this.faults = new Set(faults);
+  }
+
+  getFaults(): ClearnodeFault[] {
+    return [...this.faults];
+  }
+
+  private getBalance(participant: string, token: string): bigint {
+    return this.ledger.get(participant.toLowerCase())?.get(token.toLowerCase()) || 0n;
+  }
+
+  private setBalance(participant: string, token: string, amount: bigint) {
+    const key = participant.toLowerCase();
+    if (!this.ledger.has(key)) this.ledger.set(key, new Map());
+    this.ledger.get(key)!.set(token.toLowerCase(), amount);
+  }
+
+  /**
+   * Credits test tokens to a participant's unified balance
+   * @param participant - Wallet to credit
+   * @param amount - Whole tokens; the configured faucet amount by default
+   * @param token - Token symbol
+   */
+  requestTokens(participant: Address, amount: number = this.faucetAmount, token: string = 'USDC'): { amount: number; token: string } {
+    if (this.faults.has('insufficient_funds')) {
+      throw new Error('Faucet has insufficient funds');
+    }
+    const tokenConfig = SUPPORTED_TOKENS[token];
+    if (!tokenConfig) {
+      throw new Error(`Unsupported token: ${token}`);
+    }
+    const units = parseAmount(amount, token).units;
+    this.setBalance(participant, tokenConfig.address, this.getBalance(participant, tokenConfig.address) + units);
+    return { amount, token };
+  }
+
+  /**
+   * A participant's unified balances, in whole tokens
+   * @param participant - The wallet
+   */
+  getLedgerBalances(participant: string): LedgerBalance[] {
+    const balances = this.ledger.get(participant.toLowerCase());
+    if (!balances) return [];
+    return [...balances.entries()].flatMap(([token, units]) => {
+      const symbol = getTokenSymbol(token);
+      return symbol ? [{ asset: symbol.toLowerCase(), amount: toDecimalString(fromUnits(units, symbol)) }] : [];
+    });
+  }
+
+  private getChannels(participant: string): ClearnodeChannel[] {
+    return [...this.channels.entries()]
+      .filter(([, open]) => open.channel.participants[0].toLowerCase() === participant.toLowerCase())
+      .map(([channelId, open]) => ({
+        channel_id: channelId as Hex,
+        participant: open.channel.participants[0],
+        status: open.closed ? 'closed' : 'open',
+        version: Number(open.state.version)
+      }));
+  }
+
+  private async countersign(channelId: Hex, state: State, signer: Address): Promise<Hex> {
+    const valid = !this.faults.has('reject_signature') && state.sigs.length > 0
+      && await isStateSignedBy(channelId, state, state.sigs[0], signer);
+    if (!valid) {
+      throw new Error('Invalid state signature');
+    }
+    return this.account.sign({ hash: getStateHash(channelId, state) });
+  }
+
+  private requireChannel(channelId: Hex): SimulatedChannel {
+    const open = this.channels.get(channelId);
+    if (!open) {
+      throw new Error(`Unknown channel ${channelId}`);
+    }
+    if (open.closed) {
+      throw new Error(`Channel ${channelId} is closed`);
+    }
+    return open;
+  }
+
+  // Holds a session-key channel to the scope its wallet signed
+  private checkSession(open: SimulatedChannel, operation: SessionOperation) {
+    if (!open.session) return;
+    const error = checkSessionScope(open.session.authorization, operation, open.session.spent);
+    if (error) throw new Error(error);
+  }
+
+  private async createChannel(params: { channel_id: Hex; channel: Channel; state: State; session_authorization?: SessionAuthorization }) {
+    const channel = reviveChannel(params.channel);
+    const state = reviveState(params.state);
+    const [funder, broker] = channel.participants;
+
+    if (this.channels.has(params.channel_id)) {
+      throw new Error(`Channel ${params.channel_id} already exists`);
+    }
+    if (broker?.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error('The clearnode must be the second participant');
+    }
+    if (state.intent !== StateIntent.INITIALIZE || state.version !== 0n) {
+      throw new Error('A channel must open with its initial state');
+    }
+
+    // A session key opens channels funded from the wallet that authorised it
+    let session: SimulatedChannel['session'];
+    let account: string = funder;
+    if (params.session_authorization) {
+      const authorization = reviveAuthorization(params.session_authorization);
+      if (authorization.sessionKey.toLowerCase() !== funder.toLowerCase()
+        || !(await verifySessionAuthorization(authorization))) {
+        throw new Error('Invalid session authorization');
+      }
+      session = { authorization, spent: {} };
+      account = authorization.wallet;
+    }
+
+    // The channel is funded from the opener's unified balance
+    const totals = getChannelTotals(state);
+    for (const [token, amount] of Object.entries(totals)) {
+      if (session) {
+        const error = checkSessionScope(session.authorization, 'open_channel', {}, { token: getTokenSymbol(token) || token, amount });
+        if (error) throw new Error(error);
+      }
+      if (this.faults.has('insufficient_funds') || this.getBalance(account, token) < amount) {
+        throw new Error('Insufficient funds to open the channel');
+      }
+    }
+
+    const serverSignature = await this.countersign(params.channel_id, state, funder);
+    Object.entries(totals).forEach(([token, amount]) => {
+      this.setBalance(account, token, this.getBalance(account, token) - amount);
+    });
+    this.channels.set(params.channel_id, {
+      channel,
+      state: { ...state, sigs: [state.sigs[0], serverSignature] },
+      closed: false,
+      session
+    });
+    return { channel_id: params.channel_id, server_signature: serverSignature };
+  }
+
+  private async submitState(params: { channel_id: Hex; state: State }) {
+    const open = this.requireChannel(params.channel_id);
+    const state = reviveState(params.state);
+
+    const transitionError = getStateTransitionError(open.state, state);
+    if (transitionError) throw new Error(transitionError);
+    if (state.intent === StateIntent.FINALIZE) {
+      throw new Error('Use close_channel to finalize a channel');
+    }
+
+    this.checkSession(open, 'submit_state');
+    const payments = open.session ? getStatePayments(open.state, state) : [];
+    if (open.session) {
+      const error = checkSessionPayments(open.session.authorization, payments, open.session.spent);
+      if (error) throw new Error(error);
+    }
+
+    const serverSignature = await this.countersign(params.channel_id, state, open.channel.participants[0]);
+    open.state = { ...state, sigs: [state.sigs[0], serverSignature] };
+    if (open.session) {
+      const spent = open.session.spent;
+      payments.forEach(payment => {
+        spent[payment.token] = (spent[payment.token] || 0n) + payment.amount;
+      });
+    }
+    return { channel_id: params.channel_id, version: state.version, server_signature: serverSignature };
+  }
+
+  private async closeChannel(params: { channel_id: Hex; state: State }) {
+    const open = this.requireChannel(params.channel_id);
+    const state = reviveState(params.state);
+
+    if (state.intent !== StateIntent.FINALIZE) {
+      throw new Error('A channel closes with a final state');
+    }
+    const transitionError = getStateTransitionError(open.state, state);
+    if (transitionError) throw new Error(transitionError);
+    this.checkSession(open, 'close_channel');
+
+    const serverSignature = await this.countersign(params.channel_id, state, open.channel.participants[0]);
+    // Final allocations go back to each destination's unified balance; what
+    // is left to a session key returns to its wallet
+    const funder = open.channel.participants[0].toLowerCase();
+    state.allocations.forEach(allocation => {
+      const account = open.session && allocation.destination.toLowerCase() === funder
+        ? open.session.authorization.wallet
+        : allocation.destination;
+      this.setBalance(account, allocation.token, this.getBalance(account, allocation.token) + allocation.amount);
+    });
+    open.state = { ...state, sigs: [state.sigs[0], serverSignature] };
+    open.closed = true;
+    return { channel_id: params.channel_id, version: state.version, server_signature: serverSignature };
+  }
+
+  private dispatch(method: string, params: Record<string, unknown>): Promise<unknown> | unknown {
+    switch (method) {
+      case RPCMethod.Ping:
+        return {};
+      case RPCMethod.GetConfig:
+        return { broker_address: this.address, networks: [] };
+      case RPCMethod.GetChannels:
+        return { channels: this.getChannels(String(params.participant || '')) };
+      case RPCMethod.GetLedgerBalances:
+        return this.getLedgerBalances(String(params.participant || ''));
+      case RPCMethod.CreateChannel:
+        return this.createChannel(params as unknown as { channel_id: Hex; channel: Channel; state: State; session_authorization?: SessionAuthorization });
+      case RPCMethod.SubmitAppState:
+        return this.submitState(params as unknown as { channel_id: Hex; state: State });
+      case RPCMethod.CloseChannel:
+        return this.closeChannel(params as unknown as { channel_id: Hex; state: State });
+      default:
+        throw new Error(`Unsupported method ${method}`);
+    }
+  }
+
+  /**
+   * Handles one RPC request
+   * @param data - The serialized request
+   * @returns The serialized response, or null when the request goes unanswered
+   */
+  async handleMessage(data: string): Promise<string | null> {
+    if (this.faults.has('timeout')) return null;
+
+    let message: NitroliteRPCMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return null;
+    }
+    if (!message.req) return null;
+
+    const [requestId, method, params] = message.req;
+    let response: NitroliteRPCMessage;
+    try {
+      const result = await this.dispatch(method, (params || {}) as Record<string, unknown>);
+      response = { res: [requestId, method, result as object, Date.now()], sig: [] };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Request failed';
+      response = { res: [requestId, RPCMethod.Error, { error: reason }, Date.now()], sig: [] };
+    }
+    return JSON.stringify(response, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+  }
+}
+
+const SOCKET_OPEN = 1;
+const SOCKET_CLOSED = 3;
+
+// Stands in for the clearnode WebSocket, handing every message to a simulator
+export class SimulatedClearnodeSocket implements ClearnodeSocket {
+  readyState = 0;
+  onopen: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  private simulator: ClearnodeSimulator;
+
+  constructor(simulator: ClearnodeSimulator) {
+    this.simulator = simulator;
+    // Like a real socket, it opens after the caller has attached its handlers
+    setTimeout(() => {
+      this.readyState = SOCKET_OPEN;
+      this.onopen?.(new Event('open'));
+    }, 0);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== SOCKET_OPEN) {
+      throw new Error('Simulated clearnode socket is not open');
+    }
+    this.simulator.handleMessage(data).then(response => {
+      if (response !== null && this.readyState === SOCKET_OPEN) {
+        this.onmessage?.(new MessageEvent('message', { data: response }));
+      }
+    });
+  }
+
+  close(): void {
+    if (this.readyState === SOCKET_CLOSED) return;
+    this.readyState = SOCKET_CLOSED;
+    this.onclose?.(new CloseEvent('close'));
+  }
+}
+
+// Deterministic stand-in transaction hashes
+const simulatedTxHash = (channelKey: string, action: string, version: bigint): Hex => {
+  return keccak256(stringToHex(`${channelKey}:${action}:${version}`));
+};
+
+// Seconds a simulated dispute lasts, the same 24 hours as the state channel config
+const SIMULATED_CHALLENGE_PERIOD = 86400n;
+
+// Stands in for the custody contract: nothing goes on chain, and channels
+// move between statuses at once, except that a challenge opens a dispute
+// lasting the channel's challenge period
+export class SimulatedAdjudicator implements ChannelAdjudicator {
+  private anchored: Map<string, AnchoredChannel & { challenge: bigint }> = new Map();
+
+  async create(channel: Channel, state: State): Promise<Hex> {
+    return simulatedTxHash(`${channel.participants.join(',')}:${channel.nonce}`, 'create', state.version);
+  }
+
+  private requireAnchored(channelId: Hex) {
+    const anchored = this.anchored.get(channelId);
+    if (!anchored) {
+      throw new Error(`Channel ${channelId} is not anchored`);
+    }
+    if (anchored.status === ChannelStatus.FINAL) {
+      throw new Error(`Channel ${channelId} is already closed`);
+    }
+    return anchored;
+  }
+
+  // Channels are anchored by ID on their first checkpoint or close, since
+  // create does not know the ID the app derives for the chain
+  private anchor(channelId: Hex, state: State) {
+    if (!this.anchored.has(channelId)) {
+      this.anchored.set(channelId, {
+        status: ChannelStatus.ACTIVE,
+        challengeExpiry: 0n,
+        state,
+        challenge: SIMULATED_CHALLENGE_PERIOD
+      });
+    }
+    return this.anchored.get(channelId)!;
+  }
+
+  async checkpoint(channelId: Hex, state: State): Promise<Hex> {
+    const anchored = this.anchored.has(channelId) ? this.requireAnchored(channelId) : this.anchor(channelId, state);
+    if (state.version < anchored.state.version) {
+      throw new Error('Checkpoint is older than the anchored state');
+    }
+    anchored.state = state;
+    return simulatedTxHash(channelId, 'checkpoint', state.version);
+  }
+
+  async challenge(channelId: Hex, state: State): Promise<Hex> {
+    const anchored = this.requireAnchored(channelId);
+    if (anchored.status === ChannelStatus.DISPUTE && state.version <= anchored.state.version) {
+      throw new Error('Challenge must carry a newer state');
+    }
+    anchored.status = ChannelStatus.DISPUTE;
+    anchored.state = state;
+    anchored.challengeExpiry = BigInt(Math.floor(Date.now() / 1000)) + anchored.challenge;
+    return simulatedTxHash(channelId, 'challenge', state.version);
+  }
+
+  async close(channelId: Hex, state: State): Promise<Hex> {
+    const anchored = this.anchored.has(channelId) ? this.requireAnchored(channelId) : this.anchor(channelId, state);
+    anchored.status = ChannelStatus.FINAL;
+    anchored.state = state;
+    return simulatedTxHash(channelId, 'close', state.version);
+  }
+
+  async getChannel(channelId: Hex): Promise<AnchoredChannel | null> {
+    const anchored = this.anchored.get(channelId);
+    return anchored ? { status: anchored.status, challengeExpiry: anchored.challengeExpiry, state: anchored.state } : null;
+  }
+
+  /**
+   * Plays a counterparty disputing a channel with an older state, to
+   * exercise the watchtower
+   * @param channelId - The channel
+   * @param state - The stale state the counterparty submits
+   * @param challengePeriod - Seconds until the dispute expires
+   */
+  simulateStaleChallenge(channelId: Hex, state: State, challengePeriod: bigint = SIMULATED_CHALLENGE_PERIOD): void {
+    const anchored = this.anchor(channelId, state);
+    anchored.status = ChannelStatus.DISPUTE;
+    anchored.state = state;
+    anchored.challenge = challengePeriod;
+    anchored.challengeExpiry = BigInt(Math.floor(Date.now() / 1000)) + challengePeriod;
+  }
+}
+
+export const simulatedAdjudicator = new SimulatedAdjudicator();
+
+/**
+ * Whether the app talks to the local simulator instead of a clearnode
+ */
+export const isClearnodeSimulatorEnabled = (): boolean => ENV_CONFIG.yellowNetwork.simulator.enabled;
+
+let simulator: ClearnodeSimulator | null = null;
+
+// The simulator shared by the app, set up from the environment
+export const getClearnodeSimulator = (): ClearnodeSimulator => {
+  if (!simulator) {
+    const { faults, faucetAmount } = ENV_CONFIG.yellowNetwork.simulator;
+    simulator = new ClearnodeSimulator(parseClearnodeFaults(faults), faucetAmount);
+  }
+  return simulator;
+};
@@ -0,0 +1,444 @@
+/**
+ * Language model providers for Revatix
+ * One interface for chat, streaming, tool calls and token accounting, with
+ * adapters for Gemini, OpenAI-compatible HTTP servers (OpenAI, llama.cpp,
+ * Ollama) and a deterministic mock
+ */
+
+import {
+  GoogleGenerativeAI,
+  SchemaType,
+  type Content,
+  type FunctionDeclarationSchema,
+  type GenerateContentRequest,
+  type GenerateContentResponse,
+  type Part,
+  type Schema,
+} from '@google/generative-ai';
+import { ENV_CONFIG } from '../config/environment';
+import type { AIToolDefinition, AIToolParameter } from './aiTools';
+import type { AIProviderId, AISettings } from '../utils/aiSettings';
+
+export interface LLMToolCall {
+  // Links the call to its result; providers without IDs get generated ones
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; response: Record<string, unknown> };
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // True when the provider reported no counts and these are estimates
+  estimated?: boolean;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  tools?: AIToolDefinition[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+}
+
+// One model turn: text, tool calls to answer before the model goes on, or both
+export interface LLMResult {
+  text: string;
+  toolCalls: LLMToolCall[];
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  id: AIProviderId;
+  name: string;
+  model: string;
+  chat(request: LLMRequest): Promise<LLMResult>;
+  // Same as chat, handing text to `onText` as it arrives
+  stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResult>;
+}
+
+/**
+ * Rough token count for text, for providers that report no usage and for
+ * budgeting prompts; about four characters per token for English
+ * @param text - The text to count
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateUsage = (messages: LLMMessage[], output: string): LLMUsage => ({
+  inputTokens: messages.reduce((sum, message) => {
+    return sum + estimateTokens(message.role === 'tool' ? JSON.stringify(message.response) : message.content);
+  }, 0),
+  outputTokens: estimateTokens(output),
+  estimated: true,
+});
+
+/**
+ * Adds one turn's usage to a running total
+ * @param total - Usage so far
+ * @param usage - The turn's usage
+ */
+export const addUsage = (total: LLMUsage, usage: LLMUsage): LLMUsage => ({
+  inputTokens: total.inputTokens + usage.inputTokens,
+  outputTokens: total.outputTokens + usage.outputTokens,
+  estimated: total.estimated || usage.estimated,
+});
+
+const toGeminiSchema = (parameter: AIToolParameter): Schema => {
+  switch (parameter.type) {
+    case 'number':
+      return { type: SchemaType.NUMBER, description: parameter.description };
+    case 'integer':
+      return { type: SchemaType.INTEGER, description: parameter.description };
+    case 'boolean':
+      return { type: SchemaType.BOOLEAN, description: parameter.description };
+    default:
+      return parameter.enum
+        ? { type: SchemaType.STRING, format: 'enum', enum: parameter.enum, description: parameter.description }
+        : { type: SchemaType.STRING, description: parameter.description };
+  }
+};
+
+const toGeminiRequest = (request: LLMRequest): GenerateContentRequest => {
+  const contents: Content[] = [];
+  request.messages.forEach(message => {
+    if (message.role === 'user') {
+      contents.push({ role: 'user', parts: [{ text: message.content }] });
+    } else if (message.role === 'assistant') {
+      const parts: Part[] = message.content ? [{ text: message.content }] : [];
+      (message.toolCalls || []).forEach(call => parts.push({ functionCall: { name: call.name, args: call.args } }));
+      contents.push({ role: 'model', parts });
+    } else if (message.role === 'tool') {
+      // Results of one round of calls go back in a single turn
+      const part: Part = { functionResponse: { name: message.name, response: message.response } };
+      const last = contents[contents.length - 1];
+      if (last?.role === 'function') last.parts.push(part);
+      else contents.push({ role: 'function', parts: [part] });
+    }
+  });
+
+  // Older Gemini models take no system instruction, so it leads the first
+  // user turn instead
+  const system = request.messages.flatMap(message => message.role === 'system' ? [message.content] : []).join('\n\n');
+  const firstUser = contents.find(content => content.role === 'user');
+  if (system && firstUser) {
+    firstUser.parts = [{ text: `${system}\n\n${firstUser.parts.map(part => part.text || '').join('')}` }];
+  }
+
+  return {
+    contents,
+    generationConfig: {
+      temperature: request.temperature,
+      topK: 40,
+      topP: 0.95,
+      maxOutputTokens: request.maxOutputTokens,
+    },
+    tools: request.tools && request.tools.length > 0
+      ? [{
+          functionDeclarations: request.tools.map(tool => {
+            const parameters: FunctionDeclarationSchema = {
+              type: SchemaType.OBJECT,
+              properties: Object.fromEntries(Object.entries(tool.parameters).map(([name, parameter]) => [name, toGeminiSchema(parameter)])),
+              required: tool.required,
+            };
+            return { name: tool.name, description: tool.description, parameters };
+          }),
+        }]
+      : undefined,
+  };
+};
+
+const fromGeminiResponse = (response: GenerateContentResponse, request: LLMRequest, text: string): LLMResult => {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const toolCalls = parts
+    .filter(part => part.functionCall)
+    .map((part, index) => ({
+      id: `${part.functionCall!.name}-${index}`,
+      name: part.functionCall!.name,
+      args: (part.functionCall!.args || {}) as Record<string, unknown>,
+    }));
+  const usage = response.usageMetadata
+    ? { inputTokens: response.usageMetadata.promptTokenCount, outputTokens: response.usageMetadata.candidatesTokenCount || 0 }
+    : estimateUsage(request.messages, text);
+  return { text, toolCalls, usage };
+};
+
+const getGeminiText = (response: GenerateContentResponse): string => {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  return parts.map(part => part.text || '').join('');
+};
+
+/**
+ * Provider backed by Google's Gemini models
+ * @param apiKey - Google AI API key
+ * @param model - Model name, e.g. gemini-pro
+ */
+export const createGeminiProvider = (apiKey: string, model: string): LLMProvider => {
+  const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+  return {
+    id: 'gemini',
+    name: 'Gemini',
+    model,
+    async chat(request) {
+      const result = await generativeModel.generateContent(toGeminiRequest(request), { signal: request.signal });
+      return fromGeminiResponse(result.response, request, getGeminiText(result.response));
+    },
+    async stream(request, onText) {
+      const result = await generativeModel.generateContentStream(toGeminiRequest(request), { signal: request.signal });
+      let text = '';
+      for await (const chunk of result.stream) {
+        const delta = getGeminiText(chunk);
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+      return fromGeminiResponse(await result.response, request, text);
+    },
+  };
+};
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+const toOpenAIMessage = (message: LLMMessage) => {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls && message.toolCalls.length > 0
+          ? message.toolCalls.map((call): OpenAIToolCall => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.args) },
+            }))
+          : undefined,
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: JSON.stringify(message.response) };
+    default:
+      return { role: message.role, content: message.content };
+  }
+};
+
+const toOpenAITools = (tools: AIToolDefinition[]) => tools.map(tool => ({
+  type: 'function',
+  function: {
+    name: tool.name,
+    description: tool.description,
+    parameters: {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(tool.parameters).map(([name, parameter]) => [name, {
+        type: parameter.type,
+        description: parameter.description,
+        ...(parameter.enum ? { enum: parameter.enum } : {}),
+      }])),
+      required: tool.required || [],
+    },
+  },
+}));
+
+// Models sometimes produce malformed arguments; the tool then reports the
+// missing parameters back to the model
+const parseArguments = (text: string): Record<string, unknown> => {
+  try {
+    const args = JSON.parse(text || '{}');
+    return args && typeof args === 'object' && !Array.isArray(args) ? args : {};
+  } catch {
+    return {};
+  }
+};
+
+const fromOpenAIUsage = (usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): LLMUsage | null => {
+  return usage && typeof usage.prompt_tokens === 'number'
+    ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens || 0 }
+    : null;
+};
+
+/**
+ * Provider backed by a server speaking the OpenAI chat completions API:
+ * OpenAI itself, or a local llama.cpp or Ollama server
+ * @param options - Server base URL (up to and including /v1), model and optional API key
+ */
+export const createOpenAICompatibleProvider = (options: { baseUrl: string; model: string; apiKey?: string }): LLMProvider => {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (request: LLMRequest, stream: boolean): Promise<Response> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages: request.messages.map(toOpenAIMessage),
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        tools: request.tools && request.tools.length > 0 ? toOpenAITools(request.tools) : undefined,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: request.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Model server returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai_compatible',
+    name: 'OpenAI-compatible server',
+    model: options.model,
+    async chat(request) {
+      const data = await (await post(request, false)).json();
+      const message = data.choices?.[0]?.message || {};
+      const text = typeof message.content === 'string' ? message.content : '';
+      const toolCalls = ((message.tool_calls || []) as OpenAIToolCall[]).map((call, index) => ({
+        id: call.id || `call-${index}`,
+        name: call.function.name,
+        args: parseArguments(call.function.arguments),
+      }));
+      return { text, toolCalls, usage: fromOpenAIUsage(data.usage) || estimateUsage(request.messages, text) };
+    },
+    async stream(request, onText) {
+      const response = await post(request, true);
+      if (!response.body) throw new Error('Model server sent no stream');
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const calls: Array<{ id: string; name: string; arguments: string }> = [];
+      let usage: LLMUsage | null = null;
+      let text = '';
+      let buffer = '';
+
+      // Server-sent events: one `data: {...}` line per chunk, `data: [DONE]` last
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return;
+        const payload = trimmed.slice(5).trim();
+        if (!payload || payload === '[DONE]') return;
+
+        const chunk = JSON.parse(payload);
+        usage = fromOpenAIUsage(chunk.usage) || usage;
+        const delta = chunk.choices?.[0]?.delta;
+        if (typeof delta?.content === 'string' && delta.content) {
+          text += delta.content;
+          onText(delta.content);
+        }
+        // Tool calls arrive in pieces, keyed by their index
+        (delta?.tool_calls || []).forEach((piece: { index?: number; id?: string; function?: { name?: string; arguments?: string } }) => {
+          const index = piece.index ?? calls.length;
+          const call = calls[index] || (calls[index] = { id: '', name: '', arguments: '' });
+          if (piece.id) call.id = piece.id;
+          if (piece.function?.name) call.name = piece.function.name;
+          if (piece.function?.arguments) call.arguments += piece.function.arguments;
+        });
+      };
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer);
+
+      return {
+        text,
+        toolCalls: calls.filter(Boolean).map((call, index) => ({
+          id: call.id || `call-${index}`,
+          name: call.name,
+          args: parseArguments(call.arguments),
+        })),
+        usage: usage || estimateUsage(request.messages, text),
+      };
+    },
+  };
+};
+
+// A scripted reply for the mock provider
+export interface MockLLMReply {
+  text?: string;
+  toolCalls?: Array<{ name: string; args: Record<string, unknown> }>;
+}
+
+/**
+ * Provider that answers without a model. Scripted replies are returned in
+ * order, one per turn; after them it echoes the user's last message. Usage
+ * is always estimated, so the same conversation always costs the same.
+ * @param replies - Replies to give, in order
+ * @param options - Model name to report and a delay between streamed words
+ */
+export const createMockLLMProvider = (
+  replies: Array<string | MockLLMReply> = [],
+  options: { model?: string; chunkDelayMs?: number } = {}
+): LLMProvider => {
+  const queue = [...replies];
+  let turn = 0;
+
+  const nextReply = (request: LLMRequest): LLMResult => {
+    request.signal?.throwIfAborted();
+    turn++;
+    const scripted = queue.shift();
+    const question = request.messages.flatMap(message => message.role === 'user' ? [message.content] : []).pop() || '';
+    const reply: MockLLMReply = typeof scripted === 'string' ? { text: scripted } : scripted || {
+      text: `Mock reply: ${question.split('\n')[0]}`,
+    };
+    const text = reply.text || '';
+    return {
+      text,
+      toolCalls: (reply.toolCalls || []).map((call, index) => ({ id: `mock-${turn}-${index}`, ...call })),
+      usage: estimateUsage(request.messages, text),
+    };
+  };
+
+  return {
+    id: 'mock',
+    name: 'Mock',
+    model: options.model || 'mock',
+    async chat(request) {
+      return nextReply(request);
+    },
+    async stream(request, onText) {
+      const result = nextReply(request);
+      for (const word of result.text.match(/\S+\s*/g) || []) {
+        if (options.chunkDelayMs) await new Promise(resolve => setTimeout(resolve, options.chunkDelayMs));
+        request.signal?.throwIfAborted();
+        onText(word);
+      }
+      return result;
+    },
+  };
+};
+
+/**
+ * The provider an organisation's settings select
+ * @param settings - The organisation's AI settings
+ * @returns The provider, or null when it needs an API key that is not configured
+ */
+export const createLLMProvider = (settings: AISettings): LLMProvider | null => {
+  switch (settings.provider) {
+    case 'openai_compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: settings.baseUrl,
+        model: settings.model,
+        apiKey: ENV_CONFIG.ai.openaiApiKey,
+      });
+    case 'mock':
+      return createMockLLMProvider([], { model: settings.model });
+    default:
+      return ENV_CONFIG.ai.geminiApiKey ? createGeminiProvider(ENV_CONFIG.ai.geminiApiKey, settings.model) : null;
+  }
+};
@@ -57,6 +57,8 @@ const cryptoIds: { [key: string]: string } = {
   'yell': 'yellow-network',
   'usdc': 'usd-coin',
   'usdt': 'tether',
+  'dai': 'dai',
+  'weth': 'weth',
   'bnb': 'binancecoin',
   'cardano': 'cardano',
   'ada': 'cardano',
@@ -191,6 +193,41 @@ export const fetchHistoricalData = async (cryptoName: string, days: number = 30)
   }
 };
 
+// Price of one token in each fiat currency (lowercase ISO codes as CoinGecko
+// expects them), with the time CoinGecko last updated it
+export const fetchTokenFiatPrices = async (
+  cryptoName: string,
+  currencies: string[]
+): Promise<{ prices: { [currency: string]: number }; lastUpdated: string } | null> => {
+  try {
+    const cleanName = cryptoName.toLowerCase().trim();
+    const cryptoId = cryptoIds[cleanName] || cleanName;
+    const vsCurrencies = currencies.map(currency => currency.toLowerCase()).join(',');
+
+    const response = await fetch(
+      `${COINGECKO_API}/simple/price?ids=${cryptoId}&vs_currencies=${vsCurrencies}&include_last_updated_at=true`
+    );
+
+    if (!response.ok) {
+      console.error(`Fiat price request failed: ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+    const coin = data[cryptoId];
+    if (!coin) return null;
+
+    const { last_updated_at: lastUpdatedAt, ...prices } = coin;
+    return {
+      prices,
+      lastUpdated: lastUpdatedAt ? new Date(lastUpdatedAt * 1000).toISOString() : new Date().toISOString()
+    };
+  } catch (error) {
+    console.error('Error fetching fiat prices:', error);
+    return null;
+  }
+};
+
 export const fetchMultipleCryptoPrices = async (cryptoNames: string[]): Promise<{ [key: string]: PriceData }> => {
   try {
     const ids = cryptoNames.map(name => {
@@ -0,0 +1,185 @@
+import { supabase } from '../lib/supabase';
+import type { VATClaim, VATClaimDocument } from '../lib/supabase';
+import { createRepository, getStorageAdapter } from '../lib/storage';
+import { assertVATClaimTransition } from '../utils/vatClaims';
+import { computeClaimFingerprint } from '../utils/vatFraud';
+import { DEFAULT_VAT_RULES } from '../utils/vatRules';
+import {
+  createClaimAccessToken,
+  hashClaimAccessToken,
+  verifyClaimAccessToken
+} from '../utils/vatClaimLinks';
+
+// What a traveller enters on the portal
+export type TravellerClaimDraft = Pick<
+  VATClaim,
+  | 'country' | 'vat_reg_no' | 'receipt_no' | 'bill_amount' | 'vat_amount' | 'purchase_date'
+  | 'merchant_name' | 'merchant_address' | 'document_name' | 'document_hash'
+  | 'passport_no' | 'nationality' | 'date_of_birth' | 'flight_no' | 'departure_date'
+  | 'receiver_wallet' | 'payout_token'
+>;
+
+// The part of a claim its status link shows; passport and wallet details stay
+// with the operator
+export type TravellerClaimStatus = Pick<
+  VATClaim,
+  | 'id' | 'status' | 'country' | 'currency' | 'merchant_name' | 'receipt_no' | 'bill_amount' | 'vat_amount'
+  | 'refundable_amount' | 'payout_amount' | 'payout_token' | 'rejection_reasons' | 'review_note'
+  | 'additional_documents' | 'transaction_hash' | 'submitted_at' | 'decided_at' | 'paid_at' | 'updated_at'
+>;
+
+const vatClaimRepository = createRepository<VATClaim>('vat_claims');
+
+// Travellers are not signed in, so with Supabase storage row level security
+// hides the operator's claims from them; portal access goes through
+// functions that check the claim's access token instead
+const usesDatabaseFunctions = () => {
+  const { backend } = getStorageAdapter();
+  return backend === 'supabase' || backend === 'synced';
+};
+
+// Helper function to generate a UUID
+function generateUUID() {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+    const r = Math.random() * 16 | 0;
+    const v = c === 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+}
+
+const toStatus = (claim: VATClaim): TravellerClaimStatus => ({
+  id: claim.id,
+  status: claim.status,
+  country: claim.country,
+  currency: claim.currency,
+  merchant_name: claim.merchant_name,
+  receipt_no: claim.receipt_no,
+  bill_amount: claim.bill_amount,
+  vat_amount: claim.vat_amount,
+  refundable_amount: claim.refundable_amount,
+  payout_amount: claim.payout_amount,
+  payout_token: claim.payout_token,
+  rejection_reasons: claim.rejection_reasons,
+  review_note: claim.review_note,
+  additional_documents: claim.additional_documents,
+  transaction_hash: claim.transaction_hash,
+  submitted_at: claim.submitted_at,
+  decided_at: claim.decided_at,
+  paid_at: claim.paid_at,
+  updated_at: claim.updated_at,
+});
+
+/**
+ * Files a traveller's claim with an operator. The claim waits in the
+ * operator's queue as submitted; the operator's rules decide it there.
+ * @param operator - Operator wallet the claim is filed with
+ * @param draft - Receipt, traveller and payout details
+ * @returns The claim's ID and the access token for its status link
+ */
+export const submitTravellerClaim = async (
+  operator: string,
+  draft: TravellerClaimDraft
+): Promise<{ claimId: string; token: string }> => {
+  if (!operator) {
+    throw new Error('This claim link has no operator');
+  }
+
+  const token = createClaimAccessToken();
+  const now = new Date().toISOString();
+  const claim: VATClaim = {
+    ...draft,
+    id: generateUUID(),
+    user_id: operator,
+    status: 'submitted',
+    currency: DEFAULT_VAT_RULES[draft.country]?.currency || '',
+    refundable_amount: 0,
+    commission_amount: 0,
+    fingerprint: computeClaimFingerprint(draft),
+    submitted_via: 'portal',
+    access_token_hash: await hashClaimAccessToken(token),
+    submitted_at: now,
+    created_at: now,
+    updated_at: now
+  };
+
+  if (usesDatabaseFunctions()) {
+    // The database hashes the token itself; the hash sent along is ignored
+    const { error } = await supabase.rpc('submit_portal_vat_claim', { p_claim: claim, p_access_token: token });
+    if (error) throw new Error(error.message);
+  } else {
+    await vatClaimRepository.insert({ owner: operator }, [claim]);
+  }
+
+  console.log(`VAT claim ${claim.id} submitted through the traveller portal`);
+  return { claimId: claim.id, token };
+};
+
+/**
+ * Looks up a claim from its status link
+ * @param operator - Operator wallet the claim is filed with
+ * @param claimId - The claim
+ * @param token - Access token from the link
+ * @returns The claim's status, or null when the link is not valid
+ */
+export const fetchTravellerClaim = async (
+  operator: string,
+  claimId: string,
+  token: string
+): Promise<TravellerClaimStatus | null> => {
+  if (!operator || !claimId || !token) return null;
+
+  if (usesDatabaseFunctions()) {
+    const { data, error } = await supabase
+      .rpc('get_portal_vat_claim', { p_claim_id: claimId, p_access_token: token })
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as TravellerClaimStatus | null) || null;
+  }
+
+  const claim = await vatClaimRepository.get({ owner: operator }, claimId);
+  if (!claim || !(await verifyClaimAccessToken(token, claim.access_token_hash))) return null;
+  return toStatus(claim);
+};
+
+/**
+ * Adds documents the reviewer asked for, which puts the claim back in review
+ * @param operator - Operator wallet the claim is filed with
+ * @param claimId - The claim
+ * @param token - Access token from the link
+ * @param documents - The documents' names and hashes
+ */
+export const addTravellerClaimDocuments = async (
+  operator: string,
+  claimId: string,
+  token: string,
+  documents: Array<Pick<VATClaimDocument, 'name' | 'hash'>>
+): Promise<TravellerClaimStatus> => {
+  const uploaded: VATClaimDocument[] = documents.map(document => ({ ...document, uploaded_at: new Date().toISOString() }));
+
+  if (usesDatabaseFunctions()) {
+    const { error } = await supabase.rpc('add_portal_vat_claim_documents', {
+      p_claim_id: claimId,
+      p_access_token: token,
+      p_documents: uploaded
+    });
+    if (error) throw new Error(error.message);
+  } else {
+    const claim = await vatClaimRepository.get({ owner: operator }, claimId);
+    if (!claim || !(await verifyClaimAccessToken(token, claim.access_token_hash))) {
+      throw new Error('This claim link is not valid');
+    }
+    assertVATClaimTransition(claim, 'in_review');
+    await vatClaimRepository.update({ owner: operator }, claimId, {
+      ...claim,
+      status: 'in_review',
+      additional_documents: [...(claim.additional_documents || []), ...uploaded],
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  const status = await fetchTravellerClaim(operator, claimId, token);
+  if (!status) {
+    throw new Error('This claim link is not valid');
+  }
+  return status;
+};
@@ -0,0 +1,87 @@
+import { createSiweMessage } from 'viem/siwe';
+import type { Address, Hex } from 'viem';
+import { supabase } from '../lib/supabase';
+import { getStorageAdapter, getSyncEngine } from '../lib/storage';
+
+// Row level security only lets a wallet at its data in Supabase once the
+// signed-in session has proven control of the wallet. The session is an
+// anonymous Supabase user; the wallet signs an EIP-4361 sign-in message for
+// a one-time challenge and the `verify-wallet` edge function records the
+// verified identity.
+
+const SIGN_IN_STATEMENT = 'Sign in to Revatix to link this wallet to your payroll data.';
+
+/**
+ * Whether the active storage backend keeps data in Supabase, where wallets
+ * have to be verified
+ */
+export const requiresWalletIdentity = (): boolean => {
+  const { backend } = getStorageAdapter();
+  return backend === 'supabase' || backend === 'synced';
+};
+
+const ensureSession = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session) return session.user.id;
+
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error || !data.user) throw new Error(error?.message || 'Could not start a session');
+  return data.user.id;
+};
+
+/**
+ * Checks whether the current session has already verified a wallet
+ * @param address - The wallet
+ */
+export const hasVerifiedWalletIdentity = async (address: string): Promise<boolean> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return false;
+
+  const { data, error } = await supabase.from('wallet_identities').select('verified_at')
+    .match({ wallet_address: address.toLowerCase(), auth_user_id: session.user.id })
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return !!data?.verified_at;
+};
+
+/**
+ * Proves control of a wallet to Supabase. Asks the wallet to sign a sign-in
+ * message unless the current session already verified it.
+ * @param address - The connected wallet
+ * @param chainId - Chain the wallet is connected to
+ * @param signMessage - Signs a message with the wallet
+ */
+export const verifyWalletIdentity = async (
+  address: Address,
+  chainId: number,
+  signMessage: (message: string) => Promise<Hex>
+): Promise<void> => {
+  await ensureSession();
+  if (await hasVerifiedWalletIdentity(address)) return;
+
+  const { data: challenge, error: challengeError } = await supabase
+    .rpc('create_wallet_challenge', { p_wallet_address: address })
+    .single();
+  if (challengeError || !challenge) throw new Error(challengeError?.message || 'Could not create a sign-in challenge');
+  const { nonce, issued_at, expires_at } = challenge as { nonce: string; issued_at: string; expires_at: string };
+
+  const message = createSiweMessage({
+    address,
+    chainId,
+    domain: window.location.host,
+    uri: window.location.origin,
+    version: '1',
+    nonce,
+    statement: SIGN_IN_STATEMENT,
+    issuedAt: new Date(issued_at),
+    expirationTime: new Date(expires_at),
+  });
+  const signature = await signMessage(message);
+
+  const { error } = await supabase.functions.invoke('verify-wallet', { body: { message, signature } });
+  if (error) throw new Error(error.message);
+
+  console.log('Verified wallet identity:', address);
+  // Writes queued while the wallet was unverified were refused; send them now
+  await getSyncEngine()?.flush();
+};
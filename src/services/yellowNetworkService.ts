@@ -9,10 +9,43 @@ import {
   closeChannel,
   getChannelStatus,
   switchChain,
-  getCurrentChain
+  getCurrentChain,
+  formatToken,
+  summarizeJournaledResults,
+  YELLOW_NETWORK_CONFIG,
+  type JournaledPaymentResult,
+  type JournaledRecipient
 } from '../utils/yellowNetwork';
 import { ENV_CONFIG } from '../config/environment';
-import { Address, zeroAddress } from 'viem';
+import { Address, Hex, zeroAddress } from 'viem';
+import { ChannelStatus, getStateHash, StateIntent, type Channel, type State, type StateSigner } from '@erc7824/nitrolite';
+import { validateAddress } from '../utils/addressValidation';
+import { fromUnits, parseAmount, splitEvenly, SUPPORTED_TOKENS, toDecimalString } from '../utils/money';
+import {
+  getJournalEntry,
+  getJournalKey,
+  recoverInterruptedEntries,
+  writeJournalEntry,
+  type PaymentJournalEntry
+} from '../utils/paymentJournal';
+import {
+  buildFinalState,
+  buildFundingState,
+  buildPaymentState,
+  createPayrollChannel,
+  getChannelTotals,
+  getPayrollChannelId,
+  getStateTransitionError,
+  verifyChannelState,
+  type PayrollChannelPayment
+} from '../utils/payrollChannel';
+import { getClearnode } from './clearnodeService';
+import { isClearnodeSimulatorEnabled, simulatedAdjudicator } from './clearnodeSimulator';
+import { ChannelWatchtower } from './channelWatchtower';
+import type { VATClaim } from '../lib/supabase';
+import { getSecureStore } from '../lib/storage';
+import { walletManager } from '../utils/walletManager';
+import { ScopedSessionSigner, type SessionOperation } from '../utils/sessionKeys';
 
 // Enhanced types for advanced state channel management
 export interface ChannelConfig {
@@ -23,17 +56,120 @@ export interface ChannelConfig {
 }
 
 export interface StateUpdate {
-  intent: number;
+  intent: StateIntent;
   version: bigint;
-  data: string;
+  data: Hex;
   allocations: Array<{
     destination: Address;
     token: Address;
     amount: bigint;
   }>;
-  sigs: string[];
+  // One signature per participant, in participant order
+  sigs: Hex[];
 }
 
+export interface PayrollSettlementResult {
+  channelId: string;
+  success: boolean;
+  processed: number;
+  results: PayrollPaymentResult[];
+  finalVersion?: bigint;
+  closeTxHash?: string;
+  error?: string;
+}
+
+export interface PayrollPaymentResult {
+  employeeId: string;
+  // Uncertain once the employee's state reached the clearnode but was not
+  // countersigned: the clearnode may still hold it
+  status: 'paid' | 'failed' | 'uncertain';
+  // Hash and version of the co-signed state that paid the employee
+  stateHash?: Hex;
+  version?: bigint;
+  error?: string;
+}
+
+// Lets a caller record each employee's payment as it happens
+export interface PayrollSettlementHooks {
+  // Called right before the employee's state is sent to the clearnode
+  onSubmit?: (employeeId: string) => void;
+  // Called as soon as the employee's outcome is known
+  onResult?: (result: PayrollPaymentResult) => void;
+}
+
+// A channel as the custody contract holds it
+export interface AnchoredChannel {
+  status: ChannelStatus;
+  // Unix seconds; only meaningful while the channel is in dispute
+  challengeExpiry: bigint;
+  state: State;
+}
+
+// Anchors channels on chain through the custody contract
+export interface ChannelAdjudicator {
+  create(channel: Channel, state: State): Promise<Hex>;
+  checkpoint(channelId: Hex, state: State): Promise<Hex>;
+  challenge(channelId: Hex, state: State): Promise<Hex>;
+  close(channelId: Hex, state: State): Promise<Hex>;
+  // Null when the channel was never anchored
+  getChannel(channelId: Hex): Promise<AnchoredChannel | null>;
+}
+
+const requireNitroliteClient = () => {
+  if (!nitroliteClient) {
+    throw new Error('Nitrolite client not initialized');
+  }
+  return nitroliteClient;
+};
+
+// The clearnode is the second participant, so its signature is the second
+const nitroliteAdjudicator: ChannelAdjudicator = {
+  create: async (channel, state) => {
+    const result = await requireNitroliteClient().createChannel({
+      channel,
+      unsignedInitialState: state,
+      serverSignature: state.sigs[1]
+    });
+    return result.txHash;
+  },
+  checkpoint: (channelId, state) => requireNitroliteClient().checkpointChannel({ channelId, candidateState: state }),
+  challenge: (channelId, state) => requireNitroliteClient().challengeChannel({ channelId, candidateState: state }),
+  close: (channelId, state) => requireNitroliteClient().closeChannel({
+    finalState: { ...state, channelId, serverSignature: state.sigs[1] }
+  }),
+  getChannel: async (channelId) => {
+    const data = await requireNitroliteClient().getChannelData(channelId);
+    if (data.status === ChannelStatus.VOID) return null;
+    return { status: data.status, challengeExpiry: data.challengeExpiry, state: data.lastValidState };
+  }
+};
+
+const channelAdjudicator: ChannelAdjudicator = isClearnodeSimulatorEnabled() ? simulatedAdjudicator : nitroliteAdjudicator;
+
+// Watches every co-signed channel for stale closes
+export const channelWatchtower = new ChannelWatchtower(channelAdjudicator);
+
+// Payroll channels are checkpointed on chain every this many payments, so a
+// dispute never has to fall back to a much older state
+const PAYROLL_CHECKPOINT_INTERVAL = 25n;
+
+// What is kept per channel across reloads
+interface StoredChannel {
+  config: ChannelConfig;
+  history: StateUpdate[];
+}
+
+// How a channel restored from storage compares with the clearnode's record
+export interface ChannelReconciliation {
+  channelId: string;
+  localVersion: bigint;
+  remoteVersion?: bigint;
+  remoteStatus?: string;
+  outcome: 'in_sync' | 'local_ahead' | 'remote_ahead' | 'unknown_to_clearnode' | 'closed_remotely';
+}
+
+const CHANNEL_KEY_PREFIX = 'channel:';
+
 export interface PaymentRequest {
   recipient: string;
   amount: number;
@@ -47,8 +183,25 @@ export class YellowNetworkService {
   private currentAccount: string | null = null;
   private activeChannels: Map<string, ChannelConfig> = new Map();
   private channelStates: Map<string, StateUpdate> = new Map();
+  // Every co-signed state per channel, oldest first
+  private channelHistory: Map<string, StateUpdate[]> = new Map();
+  private adjudicator: ChannelAdjudicator = channelAdjudicator;
+  // Channels and their signed states are kept encrypted so a reload never
+  // loses the only copy of a state funds depend on
+  private store = getSecureStore('yellow_channels');
+  private ready: Promise<void>;
+  private reconciliation: Map<string, ChannelReconciliation> = new Map();
 
-  private constructor() {}
+  private constructor() {
+    this.ready = this.rehydrate()
+      .then(channelIds => {
+        if (channelIds.length > 0) {
+          console.log(`Restored ${channelIds.length} state channels from storage`);
+          return this.reconcileWithClearnode().then(() => undefined);
+        }
+      })
+      .catch(error => console.error('Failed to restore state channels:', error));
+  }
 
   public static getInstance(): YellowNetworkService {
     if (!YellowNetworkService.instance) {
@@ -60,6 +213,9 @@ export class YellowNetworkService {
   // Wallet Management
   async connect(): Promise<{ address: string; balance: number }> {
     try {
+      await this.ready;
+      // Channels cleared by an earlier disconnect come back from storage
+      await this.rehydrate();
       const result = await connectWallet();
       this.isConnected = true;
       this.currentAccount = result.address;
@@ -90,6 +246,7 @@ export class YellowNetworkService {
       this.currentAccount = null;
       this.activeChannels.clear();
       this.channelStates.clear();
+      this.channelHistory.clear();
     } catch (error) {
       console.error('Failed to disconnect from Yellow Network:', error);
       throw error;
@@ -180,20 +337,24 @@ export class YellowNetworkService {
       const channelId = `channel_${channelConfig.nonce}`;
       this.activeChannels.set(channelId, channelConfig);
 
-      // Initialize channel state
+      // Initialize channel state; the deposit is split so the allocations
+      // add up to it exactly
+      const shares = splitEvenly(fromUnits(initialDeposit, 'YELLOW'), participants.length);
       const initialState: StateUpdate = {
         intent: 0, // StateIntent.CREATED
         version: 0n,
         data: '0x',
-        allocations: participants.map(participant => ({
+        allocations: participants.map((participant, index) => ({
           destination: participant,
           token: zeroAddress,
-          amount: initialDeposit / BigInt(participants.length)
+          amount: shares[index].units
         })),
         sigs: []
       };
 
       this.channelStates.set(channelId, initialState);
+      this.channelHistory.set(channelId, [initialState]);
+      await this.persistChannel(channelId);
 
       console.log('Advanced state channel created:', channelId);
       return channelId;
@@ -219,8 +380,22 @@ export class YellowNetworkService {
         throw new Error('Invalid state version');
       }
 
+      // Off-chain updates move funds between participants; they can never
+      // create or destroy them
+      const currentTotals = getChannelTotals(currentState);
+      const nextTotals = getChannelTotals(stateUpdate);
+      const tokens = new Set([...Object.keys(currentTotals), ...Object.keys(nextTotals)]);
+      for (const token of tokens) {
+        if ((currentTotals[token] || 0n) !== (nextTotals[token] || 0n)) {
+          throw new Error('State update does not conserve channel funds');
+        }
+      }
+
       // Update channel state
       this.channelStates.set(channelId, stateUpdate);
+      this.channelHistory.set(channelId, [...(this.channelHistory.get(channelId) || []), stateUpdate]);
+      await this.persistChannel(channelId);
+      this.watchIfCoSigned(channelId, stateUpdate);
       console.log('Channel state updated:', channelId, stateUpdate);
     } catch (error) {
       console.error('Failed to update channel state:', error);
@@ -228,9 +403,11 @@ export class YellowNetworkService {
     }
   }
 
-  async checkpointChannel(channelId: string): Promise<{ success: boolean; error?: string }> {
+  // Records the latest fully signed state on chain
+  async checkpointChannel(channelId: string): Promise<{ success: boolean; txHash?: string; error?: string }> {
     try {
-      if (!this.activeChannels.has(channelId)) {
+      const config = this.activeChannels.get(channelId);
+      if (!config) {
         throw new Error('Channel not found');
       }
 
@@ -238,10 +415,14 @@ export class YellowNetworkService {
       if (!state) {
         throw new Error('Channel state not found');
       }
+      if (!(await verifyChannelState(channelId as Hex, state, config.participants))) {
+        throw new Error('Only states signed by every participant can be checkpointed');
+      }
+      this.authorizeSessionOperation(config, 'checkpoint');
 
-      // In a real implementation, this would checkpoint the state on-chain
-      console.log('Channel checkpointed:', channelId);
-      return { success: true };
+      const txHash = await this.adjudicator.checkpoint(channelId as Hex, state);
+      console.log('Channel checkpointed:', channelId, `version ${state.version}`);
+      return { success: true, txHash };
     } catch (error) {
       console.error('Failed to checkpoint channel:', error);
       return {
@@ -251,15 +432,22 @@ export class YellowNetworkService {
     }
   }
 
-  async challengeChannel(channelId: string, challengerSig: string): Promise<{ success: boolean; error?: string }> {
+  // Disputes the channel on chain with the latest fully signed state
+  async challengeChannel(channelId: string): Promise<{ success: boolean; txHash?: string; error?: string }> {
     try {
-      if (!this.activeChannels.has(channelId)) {
+      const config = this.activeChannels.get(channelId);
+      const state = this.channelStates.get(channelId);
+      if (!config || !state) {
         throw new Error('Channel not found');
       }
+      if (!(await verifyChannelState(channelId as Hex, state, config.participants))) {
+        throw new Error('Only states signed by every participant can be used in a challenge');
+      }
+      this.authorizeSessionOperation(config, 'challenge');
 
-      // In a real implementation, this would initiate a challenge
-      console.log('Channel challenged:', channelId, challengerSig);
-      return { success: true };
+      const txHash = await this.adjudicator.challenge(channelId as Hex, state);
+      console.log('Channel challenged:', channelId, `version ${state.version}`);
+      return { success: true, txHash };
     } catch (error) {
       console.error('Failed to challenge channel:', error);
       return {
@@ -269,26 +457,158 @@ export class YellowNetworkService {
     }
   }
 
-  async closeStateChannel(channelId: string, finalState: StateUpdate): Promise<void> {
+  // Closes a channel on chain with a final state every participant signed.
+  // The channel and its history stay available for inspection.
+  async closeStateChannel(channelId: string, finalState: StateUpdate): Promise<string> {
     try {
-      if (!this.activeChannels.has(channelId)) {
+      const config = this.activeChannels.get(channelId);
+      const currentState = this.channelStates.get(channelId);
+      if (!config || !currentState) {
         throw new Error('Channel not found');
       }
+      if (finalState.intent !== StateIntent.FINALIZE) {
+        throw new Error('A channel can only be closed with a final state');
+      }
 
-      this.activeChannels.delete(channelId);
-      this.channelStates.delete(channelId);
-      console.log('State channel closed:', channelId);
+      const transitionError = getStateTransitionError(currentState, finalState);
+      if (transitionError) {
+        throw new Error(transitionError);
+      }
+      if (!(await verifyChannelState(channelId as Hex, finalState, config.participants))) {
+        throw new Error('The final state is not signed by every participant');
+      }
+      this.authorizeSessionOperation(config, 'close_channel');
+
+      const txHash = await this.adjudicator.close(channelId as Hex, finalState);
+      this.channelStates.set(channelId, finalState);
+      this.channelHistory.set(channelId, [...(this.channelHistory.get(channelId) || []), finalState]);
+      await this.persistChannel(channelId);
+      this.watchIfCoSigned(channelId, finalState);
+      console.log('State channel closed:', channelId, `version ${finalState.version}`);
+      return txHash;
     } catch (error) {
       console.error('Failed to close state channel:', error);
       throw error;
     }
   }
 
+  // Channels opened by a session key may only do what its wallet allowed
+  private authorizeSessionOperation(channel: ChannelConfig, operation: SessionOperation) {
+    const session = walletManager.findSessionByKey(channel.participants[0]);
+    if (session) {
+      walletManager.authorize(session.sessionKey, operation);
+    }
+  }
+
+  // Saves a channel's config and full history. A failed write is logged
+  // rather than thrown: the state is already signed and held in memory.
+  private async persistChannel(channelId: string) {
+    const config = this.activeChannels.get(channelId);
+    if (!config) return;
+    const record: StoredChannel = { config, history: this.channelHistory.get(channelId) || [] };
+    try {
+      await this.store.set(`${CHANNEL_KEY_PREFIX}${channelId}`, record);
+    } catch (error) {
+      console.error('Failed to persist channel state:', channelId, error);
+    }
+  }
+
+  /**
+   * Loads stored channels that are not already in memory
+   * @returns IDs of the channels restored
+   */
+  async rehydrate(): Promise<string[]> {
+    const restored: string[] = [];
+    const keys = await this.store.keys(CHANNEL_KEY_PREFIX);
+    for (const key of keys) {
+      const channelId = key.slice(CHANNEL_KEY_PREFIX.length);
+      if (this.activeChannels.has(channelId)) continue;
+
+      const record = await this.store.get<StoredChannel>(key);
+      if (!record || record.history.length === 0) continue;
+
+      this.activeChannels.set(channelId, record.config);
+      this.channelHistory.set(channelId, record.history);
+      this.channelStates.set(channelId, record.history[record.history.length - 1]);
+      this.watchIfCoSigned(channelId, record.history[record.history.length - 1]);
+      restored.push(channelId);
+    }
+    return restored;
+  }
+
+  /**
+   * Compares every open channel with the clearnode's record of it. Nothing
+   * is changed locally: only co-signed states can move a channel, so
+   * mismatches are reported for the operator to resolve.
+   */
+  async reconcileWithClearnode(): Promise<ChannelReconciliation[]> {
+    const clearnode = getClearnode();
+    const channelIds = this.getActiveChannels().filter(channelId => /^0x[0-9a-fA-F]{64}$/.test(channelId));
+    const funders = new Set(channelIds.map(channelId => this.activeChannels.get(channelId)!.participants[0]));
+
+    const remote = new Map<string, { version: bigint; status: string }>();
+    for (const funder of funders) {
+      const channels = await clearnode.getChannels(funder);
+      channels.forEach(channel => remote.set(channel.channel_id.toLowerCase(), {
+        version: BigInt(channel.version),
+        status: channel.status
+      }));
+    }
+
+    const results = channelIds.map((channelId): ChannelReconciliation => {
+      const localVersion = this.channelStates.get(channelId)!.version;
+      const record = remote.get(channelId.toLowerCase());
+      if (!record) return { channelId, localVersion, outcome: 'unknown_to_clearnode' };
+
+      const base = { channelId, localVersion, remoteVersion: record.version, remoteStatus: record.status };
+      if (record.status === 'closed') return { ...base, outcome: 'closed_remotely' };
+      if (record.version > localVersion) return { ...base, outcome: 'remote_ahead' };
+      if (record.version < localVersion) return { ...base, outcome: 'local_ahead' };
+      return { ...base, outcome: 'in_sync' };
+    });
+
+    results.forEach(result => {
+      this.reconciliation.set(result.channelId, result);
+      if (result.outcome !== 'in_sync') {
+        console.warn('Channel differs from the clearnode:', result.channelId, result.outcome);
+      }
+    });
+    return results;
+  }
+
+  // The last reconciliation result for a channel
+  getReconciliation(channelId: string): ChannelReconciliation | undefined {
+    return this.reconciliation.get(channelId);
+  }
+
+  // Resolves once stored channels have been restored
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  // Hands states every participant signed to the watchtower
+  private watchIfCoSigned(channelId: string, state: StateUpdate) {
+    const config = this.activeChannels.get(channelId);
+    if (config && state.sigs.length === config.participants.length) {
+      channelWatchtower.watch(channelId as Hex, state);
+    }
+  }
+
   // Get active channels
   getActiveChannels(): string[] {
+    return this.getChannelIds().filter(channelId => this.channelStates.get(channelId)?.intent !== StateIntent.FINALIZE);
+  }
+
+  // Get every channel this session has opened, including closed ones
+  getChannelIds(): string[] {
     return Array.from(this.activeChannels.keys());
   }
 
+  // Get every co-signed state of a channel, oldest first
+  getChannelHistory(channelId: string): StateUpdate[] {
+    return this.channelHistory.get(channelId) || [];
+  }
+
   // Get channel configuration
   getChannelConfig(channelId: string): ChannelConfig | undefined {
     return this.activeChannels.get(channelId);
@@ -356,19 +676,24 @@ export class YellowNetworkService {
   }
 
   // VAT Refund Operations
+  // Pays an approved claim's refund over a state channel. The claim's
+  // fingerprint is the invoice hash, tying the channel to the receipt.
   async processVATRefund(
-    touristAddress: string,
-    refundAmount: number,
-    invoiceHash: string,
-    claimId: string
+    claim: VATClaim
   ): Promise<{ channelId: string; success: boolean; error?: string }> {
     try {
       if (!this.isConnected) {
         throw new Error('Wallet not connected');
       }
+      if (claim.status !== 'approved' && claim.status !== 'failed') {
+        throw new Error(`VAT claim ${claim.id} is ${claim.status} and cannot be paid`);
+      }
+      if (!claim.payout_amount) {
+        throw new Error(`VAT claim ${claim.id} has no payout amount`);
+      }
 
       // Create a state channel for the VAT refund
-      const channelResult = await this.createChannel(touristAddress, refundAmount, 'USDC');
+      const channelResult = await this.createChannel(claim.receiver_wallet, claim.payout_amount, claim.payout_token);
       
       if (!channelResult.success) {
         throw new Error(channelResult.error || 'Failed to create refund channel');
@@ -377,10 +702,10 @@ export class YellowNetworkService {
       // Log the refund transaction
       console.log('VAT Refund processed:', {
         channelId: channelResult.channelId,
-        touristAddress,
-        refundAmount,
-        invoiceHash,
-        claimId,
+        touristAddress: claim.receiver_wallet,
+        refundAmount: claim.payout_amount,
+        invoiceHash: claim.fingerprint,
+        claimId: claim.id,
         timestamp: new Date().toISOString()
       });
 
@@ -396,77 +721,288 @@ export class YellowNetworkService {
   }
 
   // Payroll Operations
+  // Settles a pay run over one state channel with the clearnode: the
+  // employer funds the channel with the whole payroll, each employee is paid
+  // by a new state both sides sign, and the channel closes on chain with the
+  // final allocations. Employees whose state fails before it reaches the
+  // clearnode are reported as failed; their share returns to the employer on
+  // close. Once a state reached the clearnode without coming back signed, the
+  // channel's latest state is unknown, so no further employee is paid and the
+  // ones left have no result.
   async processPayroll(
-    employees: Array<{ address: string; amount: number; employeeId: string }>,
-    payrunId: string
-  ): Promise<{ channelIds: string[]; success: boolean; processed: number; error?: string }> {
+    employees: Array<{ address: string; amount: number | string; employeeId: string }>,
+    payrunId: string,
+    signer: StateSigner,
+    token: string = 'USDC',
+    hooks: PayrollSettlementHooks = {}
+  ): Promise<PayrollSettlementResult> {
+    const results: PayrollPaymentResult[] = [];
+    const record = (result: PayrollPaymentResult) => {
+      results.push(result);
+      hooks.onResult?.(result);
+    };
+    let channelId = '';
+
     try {
       if (!this.isConnected) {
         throw new Error('Wallet not connected');
       }
+      const tokenConfig = SUPPORTED_TOKENS[token];
+      if (!tokenConfig) {
+        throw new Error(`Unsupported token: ${token}`);
+      }
 
-      const channelIds: string[] = [];
-      let processed = 0;
-
-      // Process employees in batches to avoid overwhelming the network
-      const batchSize = 10;
-      for (let i = 0; i < employees.length; i += batchSize) {
-        const batch = employees.slice(i, i + batchSize);
-        
-        // Create individual channels for each employee in the batch
-        for (const employee of batch) {
-          const channelResult = await this.createChannel(
-            employee.address, 
-            employee.amount, 
-            'USDC'
-          );
-          
-          if (channelResult.success) {
-            channelIds.push(channelResult.channelId);
-            processed++;
-            
-            // Log the payroll transaction
-            console.log('Payroll processed:', {
-              channelId: channelResult.channelId,
-              employeeAddress: employee.address,
-              employeeId: employee.employeeId,
-              amount: employee.amount,
-              payrunId,
-              timestamp: new Date().toISOString()
-            });
+      const payments: PayrollChannelPayment[] = [];
+      for (const employee of employees) {
+        const validation = validateAddress(employee.address);
+        if (!validation.valid || !validation.address) {
+          record({ employeeId: employee.employeeId, status: 'failed', error: validation.error || 'Invalid address' });
+        } else {
+          payments.push({
+            employee_id: employee.employeeId,
+            address: validation.address as Address,
+            amount: parseAmount(employee.amount, token).units
+          });
+        }
+      }
+      if (payments.length === 0) {
+        throw new Error('No employees with a valid wallet to pay');
+      }
+
+      // Open the pay run's channel, funded with the whole payroll
+      const clearnode = getClearnode();
+      const channel = createPayrollChannel(
+        signer.getAddress(),
+        await clearnode.getAddress(),
+        YELLOW_NETWORK_CONFIG.stateChannelConfig.challengePeriod
+      );
+      channelId = getPayrollChannelId(channel, getCurrentChain().id);
+      const total = payments.reduce((sum, payment) => sum + payment.amount, 0n);
+
+      const funding = await this.coSignState(
+        channel,
+        channelId as Hex,
+        buildFundingState(channel, tokenConfig.address as Address, total, payrunId),
+        signer,
+        state => clearnode.openChannel(channelId as Hex, channel, state,
+          signer instanceof ScopedSessionSigner ? signer.authorization : undefined)
+      );
+      await this.adjudicator.create(channel, funding);
+      this.activeChannels.set(channelId, channel);
+      this.channelStates.set(channelId, funding);
+      this.channelHistory.set(channelId, [funding]);
+      await this.persistChannel(channelId);
+      this.watchIfCoSigned(channelId, funding);
+
+      // One co-signed state per employee
+      for (const payment of payments) {
+        let submitted = false;
+        try {
+          const next = buildPaymentState(this.channelStates.get(channelId)!, payment);
+          const signed = await this.coSignState(channel, channelId as Hex, next, signer, state => {
+            hooks.onSubmit?.(payment.employee_id);
+            submitted = true;
+            return clearnode.submitState(channelId as Hex, state);
+          });
+          await this.updateChannelState(channelId, signed);
+          record({
+            employeeId: payment.employee_id,
+            status: 'paid',
+            stateHash: getStateHash(channelId as Hex, signed),
+            version: signed.version
+          });
+
+          if (signed.version % PAYROLL_CHECKPOINT_INTERVAL === 0n) {
+            const checkpoint = await this.checkpointChannel(channelId);
+            if (!checkpoint.success) {
+              console.warn('Payroll channel checkpoint failed:', checkpoint.error);
+            }
           }
+        } catch (error) {
+          record({
+            employeeId: payment.employee_id,
+            status: submitted ? 'uncertain' : 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          if (submitted) break;
         }
       }
 
+      // Close with the final allocations
+      const finalState = await this.coSignState(
+        channel,
+        channelId as Hex,
+        buildFinalState(this.channelStates.get(channelId)!),
+        signer,
+        state => clearnode.closeChannel(channelId as Hex, state)
+      );
+      const closeTxHash = await this.closeStateChannel(channelId, finalState);
+
+      const processed = results.filter(result => result.status === 'paid').length;
+      console.log('Payroll settled over state channel:', {
+        channelId,
+        payrunId,
+        processed,
+        unpaid: employees.length - processed,
+        finalVersion: finalState.version.toString(),
+        closeTxHash
+      });
+
       return {
-        channelIds,
+        channelId,
         success: processed > 0,
         processed,
+        results,
+        finalVersion: finalState.version,
+        closeTxHash,
         error: processed === 0 ? 'No payments were processed' : undefined
       };
     } catch (error) {
       console.error('Payroll processing failed:', error);
+      // Payments already co-signed stay valid off chain even if the channel
+      // could not be closed
       return {
-        channelIds: [],
+        channelId,
         success: false,
-        processed: 0,
+        processed: results.filter(result => result.status === 'paid').length,
+        results,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
   }
 
+  // Settles a pay run over its channel with the payment journal on top, so
+  // running it again for the same pay run never pays anyone twice: recipients
+  // the journal records as paid or uncertain are left out, and each state is
+  // recorded as in flight before it reaches the clearnode. Recipients the
+  // settlement never got to were not sent and can be retried.
+  async processJournaledPayroll(
+    payrunId: string,
+    recipients: JournaledRecipient[],
+    signer: StateSigner,
+    token: string = 'USDC'
+  ): Promise<{ success: boolean; processed: number; results: JournaledPaymentResult[]; error?: string }> {
+    // Anything still in flight belongs to an execution that never finished
+    const interrupted = recoverInterruptedEntries(payrunId);
+    if (interrupted.length > 0) {
+      console.warn(`Pay run ${payrunId}: ${interrupted.length} payment(s) were interrupted and need review`);
+    }
+
+    const mismatched = recipients.find(recipient => recipient.amount.token !== token);
+    if (mismatched) {
+      return { success: false, processed: 0, results: [], error: `Payment to ${mismatched.address} is in ${mismatched.amount.token}, not ${token}` };
+    }
+
+    const results = new Map<string, JournaledPaymentResult>();
+    const entries = new Map<string, PaymentJournalEntry>();
+    for (const recipient of recipients) {
+      const existing = getJournalEntry(payrunId, recipient.employee_id);
+      if (existing?.status === 'paid') {
+        results.set(recipient.employee_id, { employee_id: recipient.employee_id, status: 'paid', txHash: existing.tx_hash });
+      } else if (existing?.status === 'uncertain') {
+        results.set(recipient.employee_id, { employee_id: recipient.employee_id, status: 'uncertain', error: existing.last_error });
+      } else {
+        entries.set(recipient.employee_id, writeJournalEntry({
+          key: getJournalKey(payrunId, recipient.employee_id),
+          payrun_id: payrunId,
+          employee_id: recipient.employee_id,
+          address: recipient.address,
+          amount: toDecimalString(recipient.amount),
+          token,
+          status: 'pending',
+          attempts: existing?.attempts || 0
+        }));
+      }
+    }
+
+    const unsent = recipients.filter(recipient => entries.has(recipient.employee_id));
+    let settlementError: string | undefined;
+    if (unsent.length > 0) {
+      const settlement = await this.processPayroll(
+        unsent.map(recipient => ({
+          employeeId: recipient.employee_id,
+          address: recipient.address,
+          amount: toDecimalString(recipient.amount)
+        })),
+        payrunId,
+        signer,
+        token,
+        {
+          onSubmit: employeeId => {
+            const entry = entries.get(employeeId);
+            if (entry) {
+              entries.set(employeeId, writeJournalEntry({ ...entry, status: 'in_flight', attempts: entry.attempts + 1 }));
+            }
+          },
+          onResult: result => {
+            const entry = entries.get(result.employeeId);
+            if (!entry) return;
+            entries.set(result.employeeId, writeJournalEntry(result.status === 'paid'
+              ? { ...entry, status: 'paid', tx_hash: result.stateHash, last_error: undefined }
+              : { ...entry, status: result.status, last_error: result.error }));
+            results.set(result.employeeId, {
+              employee_id: result.employeeId,
+              status: result.status,
+              txHash: result.stateHash,
+              error: result.error
+            });
+          }
+        }
+      );
+      settlementError = settlement.error;
+    }
+
+    // The settlement stopped before reaching these recipients
+    for (const recipient of unsent) {
+      const entry = entries.get(recipient.employee_id);
+      if (entry && !results.has(recipient.employee_id)) {
+        const error = settlementError || 'Payment was not sent';
+        writeJournalEntry({ ...entry, status: 'failed', last_error: error });
+        results.set(recipient.employee_id, { employee_id: recipient.employee_id, status: 'failed', error });
+      }
+    }
+
+    return summarizeJournaledResults(recipients.flatMap(recipient => {
+      const result = results.get(recipient.employee_id);
+      return result ? [result] : [];
+    }));
+  }
+
+  // Signs a state as the employer, has the clearnode countersign it and
+  // checks both signatures before the state is used. A session key only
+  // counts the state as spent once both signatures check out.
+  private async coSignState(
+    channel: Channel,
+    channelId: Hex,
+    state: Omit<StateUpdate, 'sigs'>,
+    signer: StateSigner,
+    countersign: (state: StateUpdate) => Promise<Hex>
+  ): Promise<StateUpdate> {
+    const employerSignature = await signer.signState(channelId, state);
+    const clearnodeSignature = await countersign({ ...state, sigs: [employerSignature] });
+    const signed: StateUpdate = { ...state, sigs: [employerSignature, clearnodeSignature] };
+
+    if (!(await verifyChannelState(channelId, signed, channel.participants))) {
+      throw new Error('The clearnode returned an invalid signature');
+    }
+    if (signer instanceof ScopedSessionSigner) {
+      signer.commitState(channelId, signed);
+    }
+    return signed;
+  }
+
   // Utility Methods
   formatAddress(address: string): string {
     if (!address) return '';
     return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
   }
 
-  formatAmount(amount: number, decimals: number = 18): string {
-    return (amount / Math.pow(10, decimals)).toFixed(6);
+  formatAmount(amount: bigint | number, decimals: number = 18): string {
+    return formatToken(amount, decimals);
   }
 
   isValidAddress(address: string): boolean {
-    return /^0x[a-fA-F0-9]{40}$/.test(address);
+    return validateAddress(address).valid;
   }
 
   // Get service status
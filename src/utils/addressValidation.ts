@@ -0,0 +1,154 @@
+/**
+ * Address validation utilities for Revatix
+ * Checks payout addresses against EIP-55 checksums and per-chain rules, and
+ * resolves ENS-style names through a pluggable resolver
+ */
+
+import { createPublicClient, getAddress, http, isAddress } from 'viem';
+import { mainnet, polygon, base, celo } from 'viem/chains';
+import { normalize } from 'viem/ens';
+import type { PayoutChain } from '../lib/supabase';
+
+export interface PayoutChainRule {
+  value: PayoutChain;
+  label: string;
+  chainId: number;
+  // Tokens employees can be paid in on this chain
+  tokens: string[];
+}
+
+// Mirrors YELLOW_NETWORK_CONFIG.supportedChains
+export const PAYOUT_CHAINS: PayoutChainRule[] = [
+  { value: 'polygon', label: polygon.name, chainId: polygon.id, tokens: ['USDC', 'USDT', 'DAI', 'YELLOW'] },
+  { value: 'mainnet', label: mainnet.name, chainId: mainnet.id, tokens: ['USDC', 'USDT', 'DAI', 'YELLOW'] },
+  { value: 'base', label: base.name, chainId: base.id, tokens: ['USDC', 'DAI', 'YELLOW'] },
+  { value: 'celo', label: celo.name, chainId: celo.id, tokens: ['USDC', 'USDT'] },
+];
+
+// Polygon is the network's default chain for its lower fees
+export const DEFAULT_PAYOUT_CHAIN: PayoutChain = 'polygon';
+export const DEFAULT_PAYOUT_TOKEN = 'USDC';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface AddressValidationResult {
+  valid: boolean;
+  // Checksummed address, set when valid
+  address?: string;
+  // The name the address was resolved from, if any
+  name?: string;
+  error?: string;
+}
+
+// Resolves a human readable name (e.g. alice.eth) to an address
+export interface AddressResolver {
+  resolveName(name: string): Promise<string | null>;
+}
+
+let ensClient: ReturnType<typeof createPublicClient> | null = null;
+
+// ENS names live on mainnet; the resolved address is the same account on
+// every EVM chain
+const ensResolver: AddressResolver = {
+  async resolveName(name) {
+    if (!ensClient) {
+      ensClient = createPublicClient({ chain: mainnet, transport: http() });
+    }
+    return ensClient.getEnsAddress({ name: normalize(name) });
+  },
+};
+
+let activeResolver: AddressResolver = ensResolver;
+
+/**
+ * Replaces the name resolver, e.g. with a different naming service or a
+ * fixed map in tests
+ * @param resolver - The resolver to use from now on
+ */
+export const setAddressResolver = (resolver: AddressResolver): void => {
+  activeResolver = resolver;
+};
+
+/**
+ * Looks up the rules of a payout chain
+ * @param chain - Payout chain
+ */
+export const getPayoutChain = (chain: PayoutChain = DEFAULT_PAYOUT_CHAIN): PayoutChainRule => {
+  return PAYOUT_CHAINS.find(rule => rule.value === chain) || PAYOUT_CHAINS[0];
+};
+
+/**
+ * Whether a value looks like a name to resolve rather than an address
+ * @param value - User input
+ */
+export const isAddressName = (value: string): boolean => {
+  return /^[^\s.]+(\.[^\s.]+)+$/.test(value.trim()) && !value.trim().startsWith('0x');
+};
+
+/**
+ * Verifies an EIP-55 checksum. All-lowercase and all-uppercase addresses
+ * carry no checksum and are accepted; mixed case must match exactly.
+ * @param address - 0x-prefixed hex address
+ */
+export const hasValidChecksum = (address: string): boolean => {
+  const hex = address.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return true;
+  return getAddress(address.toLowerCase()) === address;
+};
+
+/**
+ * Validates a payout address for a chain without any network lookups
+ * @param value - Address entered by the user
+ * @param chain - Chain the employee is paid on
+ */
+export const validateAddress = (value: string, chain: PayoutChain = DEFAULT_PAYOUT_CHAIN): AddressValidationResult => {
+  const address = (value || '').trim();
+  const rule = getPayoutChain(chain);
+
+  if (!address) return { valid: false, error: 'Wallet address is required' };
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return { valid: false, error: `Enter a 42 character ${rule.label} address (0x followed by 40 hex characters)` };
+  }
+  if (!hasValidChecksum(address)) {
+    return { valid: false, error: 'Address checksum does not match; check for typos' };
+  }
+  if (address.toLowerCase() === ZERO_ADDRESS) {
+    return { valid: false, error: 'Funds sent to the zero address are lost' };
+  }
+  return { valid: true, address: getAddress(address) };
+};
+
+/**
+ * Validates a payout address, resolving names through the active resolver
+ * @param value - Address or name entered by the user
+ * @param chain - Chain the employee is paid on
+ */
+export const resolvePayoutAddress = async (
+  value: string,
+  chain: PayoutChain = DEFAULT_PAYOUT_CHAIN
+): Promise<AddressValidationResult> => {
+  const name = (value || '').trim();
+  if (!isAddressName(name)) return validateAddress(name, chain);
+
+  try {
+    const resolved = await activeResolver.resolveName(name);
+    if (!resolved || !isAddress(resolved)) {
+      return { valid: false, name, error: `${name} does not resolve to an address` };
+    }
+    return { ...validateAddress(resolved, chain), name };
+  } catch (error) {
+    console.error(`Failed to resolve ${name}:`, error);
+    return { valid: false, name, error: `Could not resolve ${name}` };
+  }
+};
+
+/**
+ * Checks that a token can be paid out on a chain
+ * @param chain - Payout chain
+ * @param token - Token symbol
+ * @returns An error message, or null when the token is supported
+ */
+export const validatePayoutToken = (chain: PayoutChain, token: string): string | null => {
+  const rule = getPayoutChain(chain);
+  return rule.tokens.includes(token) ? null : `${token} is not available on ${rule.label}`;
+};
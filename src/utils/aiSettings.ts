@@ -0,0 +1,61 @@
+/**
+ * AI assistant settings for Revatix
+ * Which language model answers an organisation's questions: the provider,
+ * its model and sampling temperature, and where a self-hosted server runs
+ */
+
+import { ENV_CONFIG } from '../config/environment';
+
+// `openai_compatible` covers any server speaking the OpenAI chat completions
+// API, including local llama.cpp and Ollama servers; `mock` answers
+// deterministically without a model, for tests and demos
+export type AIProviderId = 'gemini' | 'openai_compatible' | 'mock';
+
+export interface AISettings {
+  provider: AIProviderId;
+  model: string;
+  temperature: number;
+  // Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1
+  baseUrl: string;
+}
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai_compatible: 'OpenAI-compatible server',
+  mock: 'Mock (offline, deterministic)',
+};
+
+export const DEFAULT_AI_MODELS: Record<AIProviderId, string> = {
+  gemini: 'gemini-pro',
+  openai_compatible: 'llama3.1',
+  mock: 'mock',
+};
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  model: DEFAULT_AI_MODELS.gemini,
+  temperature: 0.95,
+  baseUrl: ENV_CONFIG.ai.openaiBaseUrl,
+};
+
+/**
+ * Validates AI settings before they are saved
+ * @param settings - The settings to validate
+ * @returns An error message, or null when the settings are valid
+ */
+export const validateAISettings = (settings: AISettings): string | null => {
+  if (!AI_PROVIDER_LABELS[settings.provider]) return `Unknown AI provider: ${settings.provider}`;
+  if (!settings.model.trim()) return 'Choose a model';
+  if (!Number.isFinite(settings.temperature) || settings.temperature < 0 || settings.temperature > 2) {
+    return 'Temperature must be between 0 and 2';
+  }
+  if (settings.provider === 'openai_compatible') {
+    try {
+      const url = new URL(settings.baseUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'The server URL must use http or https';
+    } catch {
+      return 'Enter the server URL, e.g. http://localhost:11434/v1';
+    }
+  }
+  return null;
+};
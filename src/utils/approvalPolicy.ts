@@ -0,0 +1,313 @@
+/**
+ * Approval policy utilities for Revatix
+ * Maker/checker rules for pay runs: how many approvers must sign a run,
+ * the digest they sign and verification of their EIP-191 signatures
+ */
+
+import { keccak256, stringToBytes, verifyMessage, isAddress, parseUnits } from 'viem';
+import type { FxRate, PayRun, PayRunApproval, PayRunLineItem, PayRunTotals } from '../lib/supabase';
+import { formatPayRunTotals, getPayRunReference, payRunTotalsToAmounts } from './payRuns';
+import { DEFAULT_SALARY_CURRENCY, PRICE_DECIMALS, fetchFxRates, findFxRate, formatFiat, formatFxRate } from './fx';
+import { formatAmount, fromStoredAmount, getTokenDecimals, parseAmount, type TokenAmount } from './money';
+
+export interface ApprovalPolicy {
+  // Wallets allowed to approve pay runs; empty means the owner alone
+  approvers: string[];
+  // Runs with a total above this amount need `requiredApprovals` signatures;
+  // the token is the unit the threshold is expressed in
+  thresholdAmount: number;
+  thresholdToken: string;
+  requiredApprovals: number;
+  // Whether the wallet that created a run may also approve it
+  makerCanApprove: boolean;
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  approvers: [],
+  thresholdAmount: 0,
+  thresholdToken: 'USDC',
+  requiredApprovals: 1,
+  makerCanApprove: true,
+};
+
+export interface PayRunAmountDiff {
+  employee_id: string;
+  name: string;
+  token: string;
+  previousAmount?: TokenAmount;
+  currentAmount?: TokenAmount;
+  kind: 'added' | 'removed' | 'changed' | 'unchanged';
+}
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Lists the wallets allowed to approve under a policy
+ * @param policy - The approval policy
+ * @param owner - Wallet that owns the payroll, used when no approvers are configured
+ */
+export const getPolicyApprovers = (policy: ApprovalPolicy, owner: string): string[] => {
+  return policy.approvers.length > 0 ? policy.approvers : [owner];
+};
+
+/**
+ * Validates an approval policy before it is saved
+ * @param policy - The policy to validate
+ * @returns An error message, or null when the policy is valid
+ */
+export const validateApprovalPolicy = (policy: ApprovalPolicy): string | null => {
+  const invalid = policy.approvers.find(approver => !isAddress(approver));
+  if (invalid) return `Invalid approver address: ${invalid}`;
+
+  const unique = new Set(policy.approvers.map(approver => approver.toLowerCase()));
+  if (unique.size !== policy.approvers.length) return 'Approver addresses must be unique';
+
+  if (!Number.isInteger(policy.requiredApprovals) || policy.requiredApprovals < 1) {
+    return 'At least one approval is required';
+  }
+  if (policy.requiredApprovals > Math.max(policy.approvers.length, 1)) {
+    return `Cannot require ${policy.requiredApprovals} approvals with ${policy.approvers.length || 1} approver(s)`;
+  }
+  if (!policy.makerCanApprove && policy.approvers.length === 0) {
+    return 'Add at least one approver when the maker cannot approve their own runs';
+  }
+  if (isNaN(policy.thresholdAmount) || policy.thresholdAmount < 0) {
+    return 'Threshold amount cannot be negative';
+  }
+  return null;
+};
+
+/**
+ * Quotes the prices getRequiredApprovals needs to value a run in the
+ * policy's threshold token. Tokens whose price cannot be fetched are left
+ * out, which makes the run need the full number of approvals.
+ * @param policy - The approval policy
+ * @param tokens - Tokens the run pays out in
+ */
+export const quoteThresholdRates = async (policy: ApprovalPolicy, tokens: string[]): Promise<FxRate[]> => {
+  if (tokens.every(token => token === policy.thresholdToken)) return [];
+
+  const quotes = await Promise.all([...new Set([...tokens, policy.thresholdToken])].map(async token => {
+    try {
+      return await fetchFxRates(token, [DEFAULT_SALARY_CURRENCY]);
+    } catch (error) {
+      console.warn(`Could not price ${token} for the approval threshold:`, error);
+      return [];
+    }
+  }));
+  return quotes.flat();
+};
+
+/**
+ * Works out how many approvals a run needs. Runs at or below the threshold
+ * need a single approval. Each token's total is valued in the threshold
+ * token through their prices in a common currency; when a price is missing
+ * the run cannot be valued and needs the full number of approvals.
+ * @param policy - The approval policy
+ * @param totals - Per-token totals of the run
+ * @param rates - Token prices from quoteThresholdRates
+ */
+export const getRequiredApprovals = (
+  policy: ApprovalPolicy,
+  totals: PayRunTotals,
+  rates: FxRate[] = []
+): number => {
+  const threshold = parseAmount(policy.thresholdAmount, policy.thresholdToken, getTokenDecimals(policy.thresholdToken, 18));
+  const amounts = payRunTotalsToAmounts(totals);
+
+  if (amounts.every(amount => amount.token === policy.thresholdToken)) {
+    const total = amounts.reduce((sum, amount) => sum + amount.units, 0n);
+    return total > threshold.units ? policy.requiredApprovals : 1;
+  }
+
+  // Valued exactly as base units times price, scaled to the most decimals
+  // any of the amounts has
+  const scale = Math.max(threshold.decimals, ...amounts.map(amount => amount.decimals));
+  const valueOf = (amount: TokenAmount): bigint | null => {
+    const rate = findFxRate(rates, DEFAULT_SALARY_CURRENCY, amount.token);
+    const price = rate ? parseUnits(rate.price, PRICE_DECIMALS) : 0n;
+    return price > 0n ? amount.units * price * 10n ** BigInt(scale - amount.decimals) : null;
+  };
+
+  const thresholdValue = valueOf(threshold);
+  if (thresholdValue === null) return policy.requiredApprovals;
+
+  let total = 0n;
+  for (const amount of amounts) {
+    const value = valueOf(amount);
+    if (value === null) return policy.requiredApprovals;
+    total += value;
+  }
+  return total > thresholdValue ? policy.requiredApprovals : 1;
+};
+
+/**
+ * Hashes the recipients and amounts of a run. Approvals are bound to this
+ * digest, so any change to the line items invalidates earlier signatures.
+ * Fiat runs also commit to the fiat amounts and the locked rates, so
+ * re-quoting a run needs fresh approvals.
+ * @param payRun - The run to hash
+ */
+export const computePayRunDigest = (payRun: Pick<PayRun, 'id' | 'line_items' | 'fx_rates'>): string => {
+  const lineItems = [...payRun.line_items]
+    .sort((a, b) => a.employee_id.localeCompare(b.employee_id))
+    .map(item => {
+      // Exact base units; runs created before they existed keep the digest
+      // their approvers signed
+      const amount = item.amount_base_units ? `${item.amount_base_units}:${item.token_decimals}` : item.amount.toFixed(2);
+      const fields = [item.employee_id, item.wallet_address.toLowerCase(), amount, item.token];
+      return item.fiat_currency ? [...fields, String(item.fiat_amount), item.fiat_currency] : fields;
+    });
+  const rates = (payRun.fx_rates || []).map(rate => [rate.currency, rate.token, rate.price, rate.source, rate.fetched_at]);
+  return keccak256(stringToBytes(JSON.stringify(rates.length > 0 ? [payRun.id, lineItems, rates] : [payRun.id, lineItems])));
+};
+
+/**
+ * Builds the human readable EIP-191 message an approver signs
+ * @param payRun - The run being approved
+ */
+export const buildApprovalMessage = (payRun: PayRun): string => {
+  const recipients = payRun.line_items
+    .map(item => {
+      const fiat = item.fiat_currency ? ` (${formatFiat(item.fiat_amount ?? 0, item.fiat_currency)})` : '';
+      const amount = formatAmount(fromStoredAmount(item), { maxDecimals: 18, grouping: false, symbol: true });
+      return `- ${item.name} ${item.wallet_address}: ${amount}${fiat}`;
+    })
+    .join('\n');
+  const rates = (payRun.fx_rates || [])
+    .map(rate => `- ${formatFxRate(rate)} (${rate.source}, ${rate.fetched_at})`);
+
+  return [
+    `Approve pay run ${getPayRunReference(payRun)}`,
+    `Total: ${formatPayRunTotals(payRun.totals)}`,
+    `Recipients (${payRun.line_items.length}):`,
+    recipients,
+    ...(rates.length > 0 ? ['Rates:', ...rates] : []),
+    `Digest: ${computePayRunDigest(payRun)}`,
+  ].join('\n');
+};
+
+/**
+ * Verifies that an approval was signed by its approver over the run's current digest
+ * @param payRun - The run the approval belongs to
+ * @param approval - The approval to verify
+ */
+export const verifyPayRunApproval = async (payRun: PayRun, approval: PayRunApproval): Promise<boolean> => {
+  if (approval.digest !== computePayRunDigest(payRun) || !isAddress(approval.approver)) {
+    return false;
+  }
+
+  try {
+    return await verifyMessage({
+      address: approval.approver,
+      message: buildApprovalMessage(payRun),
+      signature: approval.signature as `0x${string}`,
+    });
+  } catch (error) {
+    console.error('Failed to verify pay run approval:', error);
+    return false;
+  }
+};
+
+/**
+ * Returns the approvals that count towards quorum: distinct approvers whose
+ * approval covers the run's current digest. Signatures are not recovered
+ * here; use getVerifiedApprovals before funds move.
+ * @param payRun - The run to check
+ */
+export const getValidApprovals = (payRun: PayRun): PayRunApproval[] => {
+  const digest = computePayRunDigest(payRun);
+  return (payRun.approvals || []).filter((approval, index, approvals) =>
+    approval.digest === digest &&
+    approvals.findIndex(other => sameAddress(other.approver, approval.approver)) === index
+  );
+};
+
+/**
+ * Returns the valid approvals whose signatures recover to their approver
+ * @param payRun - The run to check
+ */
+export const getVerifiedApprovals = async (payRun: PayRun): Promise<PayRunApproval[]> => {
+  const approvals = getValidApprovals(payRun);
+  const verified = await Promise.all(approvals.map(approval => verifyPayRunApproval(payRun, approval)));
+  return approvals.filter((_, index) => verified[index]);
+};
+
+/**
+ * Checks whether a run has collected the approvals it needs
+ * @param payRun - The run to check
+ */
+export const hasApprovalQuorum = (payRun: PayRun): boolean => {
+  return getValidApprovals(payRun).length >= (payRun.required_approvals ?? 1);
+};
+
+/**
+ * Throws when a run has not collected the approvals it needs
+ * @param payRun - The run to check
+ */
+export const assertPayRunQuorum = (payRun: PayRun): void => {
+  const approvals = getValidApprovals(payRun).length;
+  const required = payRun.required_approvals ?? 1;
+  if (approvals < required) {
+    throw new Error(`Pay run ${getPayRunReference(payRun)} has ${approvals} of ${required} required approvals`);
+  }
+};
+
+/**
+ * Explains why a wallet may not approve a run, if it may not
+ * @param payRun - The run to approve
+ * @param policy - The approval policy
+ * @param approver - Wallet that wants to approve
+ * @returns An error message, or null when the wallet may approve
+ */
+export const getApprovalError = (payRun: PayRun, policy: ApprovalPolicy, approver: string): string | null => {
+  if (!getPolicyApprovers(policy, payRun.created_by).some(address => sameAddress(address, approver))) {
+    return 'This wallet is not an approver under the approval policy';
+  }
+  if (!policy.makerCanApprove && sameAddress(payRun.created_by, approver)) {
+    return 'The wallet that created this pay run cannot approve it';
+  }
+  if (getValidApprovals(payRun).some(approval => sameAddress(approval.approver, approver))) {
+    return 'This wallet has already approved the pay run';
+  }
+  return null;
+};
+
+/**
+ * Compares the amounts of a run with the last completed run so approvers
+ * can see exactly what changed
+ * @param lineItems - Line items of the run being approved
+ * @param previousLineItems - Line items of the previous completed run, if any
+ */
+export const diffPayRunAmounts = (
+  lineItems: PayRunLineItem[],
+  previousLineItems: PayRunLineItem[] = []
+): PayRunAmountDiff[] => {
+  const diff: PayRunAmountDiff[] = lineItems.map(item => {
+    const previous = previousLineItems.find(prev => prev.employee_id === item.employee_id);
+    const currentAmount = fromStoredAmount(item);
+    if (!previous) {
+      return { employee_id: item.employee_id, name: item.name, token: item.token, currentAmount, kind: 'added' };
+    }
+    const previousAmount = fromStoredAmount(previous);
+    const unchanged = previous.token === item.token &&
+      previousAmount.decimals === currentAmount.decimals &&
+      previousAmount.units === currentAmount.units;
+    return {
+      employee_id: item.employee_id,
+      name: item.name,
+      token: item.token,
+      previousAmount,
+      currentAmount,
+      kind: unchanged ? 'unchanged' : 'changed',
+    };
+  });
+
+  previousLineItems
+    .filter(prev => !lineItems.some(item => item.employee_id === prev.employee_id))
+    .forEach(prev => {
+      diff.push({ employee_id: prev.employee_id, name: prev.name, token: prev.token, previousAmount: fromStoredAmount(prev), kind: 'removed' });
+    });
+
+  return diff;
+};
@@ -0,0 +1,131 @@
+/**
+ * E-invoice utilities for Revatix
+ * Reads structured invoices: UBL 2.1 / Peppol BIS XML and the TLV QR payload
+ * printed on Saudi (ZATCA) and UAE (FTA) simplified tax invoices
+ */
+
+// Totals and identifiers read from a structured invoice; amounts are plain
+// decimal strings as written in the document
+export interface EInvoiceData {
+  format: 'UBL' | 'TLV QR';
+  sellerName?: string;
+  vatRegNo?: string;
+  invoiceNo?: string;
+  issueDate?: string;
+  currency?: string;
+  netAmount?: string;
+  vatAmount?: string;
+  grossAmount?: string;
+}
+
+// Child elements by local name, ignoring namespace prefixes
+const childrenNamed = (parent: Element, name: string): Element[] => {
+  return Array.from(parent.children).filter(child => child.localName === name);
+};
+
+// Follows a path of local names from an element, e.g. ['Party', 'PartyName', 'Name']
+const findPath = (root: Element, path: string[]): Element | undefined => {
+  let current: Element | undefined = root;
+  for (const name of path) {
+    current = current && childrenNamed(current, name)[0];
+  }
+  return current;
+};
+
+const textAt = (root: Element, path: string[]): string | undefined => {
+  return findPath(root, path)?.textContent?.trim() || undefined;
+};
+
+/**
+ * Parses a UBL 2.1 invoice, the syntax Peppol BIS Billing uses
+ * @param xml - The invoice document
+ * @returns The invoice data, or null when the document is not a UBL invoice
+ */
+export const parseUblInvoice = (xml: string): EInvoiceData | null => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = document.documentElement;
+  if (!root || document.getElementsByTagName('parsererror').length > 0) return null;
+  if (root.localName !== 'Invoice' && root.localName !== 'CreditNote') return null;
+
+  const seller = findPath(root, ['AccountingSupplierParty', 'Party']);
+  // Several tax totals may appear (e.g. in accounting currency); the one with
+  // subtotals is in the document currency
+  const taxTotals = childrenNamed(root, 'TaxTotal');
+  const taxTotal = taxTotals.find(total => childrenNamed(total, 'TaxSubtotal').length > 0) || taxTotals[0];
+
+  return {
+    format: 'UBL',
+    sellerName: seller && (
+      textAt(seller, ['PartyName', 'Name']) ||
+      textAt(seller, ['PartyLegalEntity', 'RegistrationName'])
+    ),
+    vatRegNo: seller && textAt(seller, ['PartyTaxScheme', 'CompanyID']),
+    invoiceNo: textAt(root, ['ID']),
+    issueDate: textAt(root, ['IssueDate']),
+    currency: textAt(root, ['DocumentCurrencyCode']),
+    netAmount: textAt(root, ['LegalMonetaryTotal', 'TaxExclusiveAmount']),
+    vatAmount: taxTotal && textAt(taxTotal, ['TaxAmount']),
+    grossAmount: textAt(root, ['LegalMonetaryTotal', 'TaxInclusiveAmount']) ||
+      textAt(root, ['LegalMonetaryTotal', 'PayableAmount']),
+  };
+};
+
+const decodeBase64 = (value: string): Uint8Array | null => {
+  try {
+    return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses a ZATCA / UAE FTA QR payload: base64 of tag-length-value fields
+ * 1 seller name, 2 VAT number, 3 timestamp, 4 total with VAT, 5 VAT total.
+ * Later tags (hash, signature, public key) are ignored.
+ * @param payload - The QR code's content
+ * @returns The invoice data, or null when the payload is not a TLV invoice
+ */
+export const parseTlvQrPayload = (payload: string): EInvoiceData | null => {
+  const bytes = decodeBase64(payload.trim());
+  if (!bytes || bytes[0] !== 1) return null;
+
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  const fields: Record<number, string> = {};
+  try {
+    for (let i = 0; i < bytes.length;) {
+      const tag = bytes[i];
+      const length = bytes[i + 1];
+      if (length === undefined || i + 2 + length > bytes.length) return null;
+      fields[tag] = decoder.decode(bytes.subarray(i + 2, i + 2 + length));
+      i += 2 + length;
+    }
+  } catch {
+    return null;
+  }
+
+  if ([1, 2, 3, 4, 5].some(tag => fields[tag] === undefined)) return null;
+  const isAmount = (value: string) => /^\d+(\.\d+)?$/.test(value);
+  if (!isAmount(fields[4]) || !isAmount(fields[5])) return null;
+
+  return {
+    format: 'TLV QR',
+    sellerName: fields[1],
+    vatRegNo: fields[2],
+    issueDate: fields[3],
+    grossAmount: fields[4],
+    vatAmount: fields[5],
+  };
+};
+
+/**
+ * Finds a TLV QR payload in text, e.g. a scanned QR code's content returned
+ * by OCR or pasted from a QR reader
+ * @param text - Text that may contain a payload
+ */
+export const findTlvQrPayload = (text: string): EInvoiceData | null => {
+  for (const candidate of text.match(/[A-Za-z0-9+/]{40,}={0,2}/g) || []) {
+    const parsed = parseTlvQrPayload(candidate);
+    if (parsed) return parsed;
+  }
+  return null;
+};
@@ -11,6 +11,8 @@ export interface YellowNetworkError {
   solution: string;
   documentation?: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
+  // Raised before anything was sent to the network, so nothing was paid
+  beforeSubmission?: boolean;
 }
 
 export interface ErrorContext {
@@ -73,7 +75,8 @@ export class YellowNetworkErrorHandler {
       message: 'Insufficient YELLOW token collateral',
       userMessage: 'Not enough YELLOW tokens for state channels',
       solution: 'Lock more YELLOW tokens as collateral or request test tokens from faucet',
-      severity: 'high'
+      severity: 'high',
+      beforeSubmission: true
     }],
 
     // Network Connection Errors
@@ -107,7 +110,8 @@ export class YellowNetworkErrorHandler {
       message: 'Wallet not connected',
       userMessage: 'Please connect your wallet',
       solution: 'Connect your MetaMask wallet to continue',
-      severity: 'low'
+      severity: 'low',
+      beforeSubmission: true
     }],
 
     // Transaction Errors
@@ -119,12 +123,31 @@ export class YellowNetworkErrorHandler {
       severity: 'high'
     }],
 
+    ['INVALID_RECIPIENT', {
+      code: 'INVALID_RECIPIENT',
+      message: 'Invalid recipient address',
+      userMessage: 'The recipient address is not valid',
+      solution: 'Correct the employee wallet address before retrying. Retrying will not help',
+      severity: 'critical',
+      beforeSubmission: true
+    }],
+
+    ['CLIENT_NOT_INITIALIZED', {
+      code: 'CLIENT_NOT_INITIALIZED',
+      message: 'Nitrolite client not initialized',
+      userMessage: 'Yellow Network client is unavailable',
+      solution: 'Check the Clearnode configuration and reload the page',
+      severity: 'critical',
+      beforeSubmission: true
+    }],
+
     ['INVALID_ADDRESS', {
       code: 'INVALID_ADDRESS',
       message: 'Invalid address format',
       userMessage: 'The address is not valid',
       solution: 'Please enter a valid Ethereum address (0x...)',
-      severity: 'low'
+      severity: 'low',
+      beforeSubmission: true
     }],
 
     // State Channel Errors
@@ -229,6 +252,16 @@ export class YellowNetworkErrorHandler {
     return severity !== 'critical';
   }
 
+  // Whether the error is known to be raised before a payment is submitted.
+  // The message must contain the known one: anything else, timeouts
+  // included, may have reached the network.
+  static isBeforeSubmission(error: Error): boolean {
+    const message = error.message.toLowerCase();
+    return Array.from(this.errorMap.values()).some(errorInfo =>
+      errorInfo.beforeSubmission && message.includes(errorInfo.message.toLowerCase())
+    );
+  }
+
   // Get all known error codes
   static getKnownErrorCodes(): string[] {
     return Array.from(this.errorMap.keys());
@@ -327,3 +360,7 @@ export const logYellowNetworkError = (error: Error, context?: ErrorContext) => {
 export const isErrorRecoverable = (error: Error, context?: ErrorContext) => {
   return YellowNetworkErrorHandler.isRecoverable(error, context);
 };
+
+export const isErrorBeforeSubmission = (error: Error) => {
+  return YellowNetworkErrorHandler.isBeforeSubmission(error);
+};
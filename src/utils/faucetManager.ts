@@ -4,6 +4,10 @@
  * Based on community insights about off-chain vs on-chain balances
  */
 
+import type { Address } from 'viem';
+import { getClearnode } from '../services/clearnodeService';
+import { getClearnodeSimulator, isClearnodeSimulatorEnabled } from '../services/clearnodeSimulator';
+
 export interface FaucetRequest {
   userAddress: string;
   amount?: number;
@@ -56,6 +60,20 @@ export class FaucetManager {
   async requestTestTokens(request: FaucetRequest): Promise<FaucetResponse> {
     try {
       console.log('🚰 Requesting test tokens from Yellow Network faucet...');
+
+      if (isClearnodeSimulatorEnabled()) {
+        const credited = getClearnodeSimulator().requestTokens(
+          request.userAddress as Address,
+          request.amount,
+          request.token
+        );
+        return {
+          success: true,
+          amount: credited.amount,
+          token: credited.token,
+          message: 'Tokens sent to the simulated off-chain unified balance.'
+        };
+      }
       
       const faucetUrl = 'https://clearnet-sandbox.yellow.com/faucet/requestTokens';
       
@@ -104,18 +122,18 @@ export class FaucetManager {
     try {
       console.log('🔍 Checking off-chain balance on Clearnode...');
       
-      // In a real implementation, this would query the Clearnode API
-      // For now, we'll simulate the response
-      const mockBalance = Math.floor(Math.random() * 1000) + 100; // Random balance for demo
+      const balances = await getClearnode().getLedgerBalances(address as Address);
+      const usdc = balances.find(balance => balance.asset.toLowerCase() === 'usdc');
+      const balance = usdc ? Number(usdc.amount) : 0;
       
       console.log('✅ Off-chain balance retrieved:', {
         address: this.formatAddress(address),
-        balance: mockBalance,
+        balance,
         currency: 'USDC'
       });
 
-      this.offChainBalance = mockBalance;
-      return { success: true, balance: mockBalance };
+      this.offChainBalance = balance;
+      return { success: true, balance };
     } catch (error) {
       console.error('❌ Failed to check off-chain balance:', error);
       return {
@@ -0,0 +1,237 @@
+/**
+ * FX utilities for Revatix
+ * Converts fiat-denominated salaries into payout tokens through a pluggable
+ * rate provider, and guards pay runs against stale or slipped rates
+ */
+
+import { parseUnits } from 'viem';
+import { ENV_CONFIG } from '../config/environment';
+import { fetchTokenFiatPrices } from '../services/priceService';
+import type { FxRate } from '../lib/supabase';
+import { fromUnits, getTokenDecimals, numberToDecimalString, toNumber, type TokenAmount } from './money';
+
+export interface FiatCurrency {
+  code: string;
+  name: string;
+}
+
+// Currencies salaries can be denominated in
+export const FIAT_CURRENCIES: FiatCurrency[] = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'AED', name: 'UAE Dirham' },
+  { code: 'INR', name: 'Indian Rupee' },
+  { code: 'SGD', name: 'Singapore Dollar' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'JPY', name: 'Japanese Yen' },
+];
+
+// Salaries saved before currencies existed were entered in dollars
+export const DEFAULT_SALARY_CURRENCY = 'USD';
+
+// Precision used for prices and fiat amounts in conversions
+export const PRICE_DECIMALS = 18;
+
+// Converted amounts are rounded to this many decimals so the numeric display
+// copy kept next to their base units shows them unchanged
+const MAX_PAYOUT_DECIMALS = 6;
+
+// Supplies token prices in fiat currencies
+export interface FxRateProvider {
+  name: string;
+  getRates(token: string, currencies: string[]): Promise<FxRate[]>;
+}
+
+const coingeckoRateProvider: FxRateProvider = {
+  name: 'CoinGecko',
+  async getRates(token, currencies) {
+    const result = await fetchTokenFiatPrices(token, currencies);
+    if (!result) throw new Error(`Could not fetch ${token} prices`);
+
+    return currencies.map(currency => {
+      const price = result.prices[currency.toLowerCase()];
+      if (!price) throw new Error(`No ${token} price in ${currency}`);
+      return { currency, token, price: numberToDecimalString(price, PRICE_DECIMALS), source: 'CoinGecko', fetched_at: result.lastUpdated };
+    });
+  },
+};
+
+/**
+ * Rate provider backed by a fixed price table, e.g. rates agreed with a
+ * treasury desk or a fixture in tests
+ * @param prices - Price of one token per currency, keyed by token then currency
+ * @param source - Name recorded with every rate
+ */
+export const createStaticRateProvider = (
+  prices: Record<string, Record<string, number | string>>,
+  source: string = 'Local rates'
+): FxRateProvider => ({
+  name: source,
+  async getRates(token, currencies) {
+    const fetchedAt = new Date().toISOString();
+    return currencies.map(currency => {
+      const price = prices[token]?.[currency];
+      if (price === undefined) throw new Error(`No local ${token} price in ${currency}`);
+      return {
+        currency,
+        token,
+        price: typeof price === 'number' ? numberToDecimalString(price, PRICE_DECIMALS) : price,
+        source,
+        fetched_at: fetchedAt,
+      };
+    });
+  },
+});
+
+const createDefaultProvider = (): FxRateProvider => {
+  if (!ENV_CONFIG.fx.rates) return coingeckoRateProvider;
+  try {
+    return createStaticRateProvider(JSON.parse(ENV_CONFIG.fx.rates));
+  } catch (error) {
+    console.error('Invalid VITE_FX_RATES, using CoinGecko:', error);
+    return coingeckoRateProvider;
+  }
+};
+
+let activeProvider: FxRateProvider = createDefaultProvider();
+
+/**
+ * Replaces the rate provider
+ * @param provider - The provider to use from now on
+ */
+export const setFxRateProvider = (provider: FxRateProvider): void => {
+  activeProvider = provider;
+};
+
+/**
+ * Quotes the price of a token in each currency through the active provider
+ * @param token - Payout token
+ * @param currencies - Salary currencies; duplicates are quoted once
+ */
+export const fetchFxRates = async (token: string, currencies: string[]): Promise<FxRate[]> => {
+  const unique = [...new Set(currencies)];
+  if (unique.length === 0) return [];
+  return activeProvider.getRates(token, unique);
+};
+
+/**
+ * Finds the rate for a currency and token
+ * @param rates - Quoted or locked rates
+ * @param currency - Salary currency
+ * @param token - Payout token
+ */
+export const findFxRate = (rates: FxRate[], currency: string, token: string): FxRate | undefined => {
+  return rates.find(rate => rate.currency === currency && rate.token === token);
+};
+
+/**
+ * Converts a fiat amount into the payout token at a rate, exactly in base
+ * units and rounded half up to at most 6 decimals
+ * @param fiatAmount - Amount in the rate's currency
+ * @param rate - Price of one token in that currency
+ */
+export const convertFiatToToken = (fiatAmount: number, rate: FxRate): TokenAmount => {
+  const decimals = getTokenDecimals(rate.token);
+  const fiat = parseUnits(numberToDecimalString(fiatAmount, PRICE_DECIMALS), PRICE_DECIMALS);
+  const price = parseUnits(rate.price, PRICE_DECIMALS);
+  if (price <= 0n) throw new Error(`Invalid ${rate.token} price in ${rate.currency}`);
+
+  const step = 10n ** BigInt(Math.max(decimals - MAX_PAYOUT_DECIMALS, 0));
+  const steps = (fiat * 10n ** BigInt(decimals) + (price * step) / 2n) / (price * step);
+  return fromUnits(steps * step, rate.token, decimals);
+};
+
+/**
+ * Converts a fiat amount into the payout token, as the pay run's numeric amount
+ * @param fiatAmount - Amount in the rate's currency
+ * @param rate - Price of one token in that currency
+ */
+export const convertFiatAmount = (fiatAmount: number, rate: FxRate): number => {
+  return toNumber(convertFiatToToken(fiatAmount, rate));
+};
+
+/**
+ * Checks a salary as entered, in whole currency units (e.g. "4250.50").
+ * Salaries are kept to the cent, which the number they are stored as holds
+ * exactly.
+ * @param value - The salary as entered
+ * @returns An error message, or null when the salary is valid
+ */
+export const validateSalary = (value: string): string | null => {
+  const text = value.trim();
+  if (/^\d+\.\d{3,}$/.test(text)) return 'Salary can have at most 2 decimal places';
+  if (!/^\d+(\.\d{1,2})?$/.test(text) || Number(text) <= 0) return 'Valid salary is required';
+  if (Number(text) >= 1e13) return 'Salary is too large';
+  return null;
+};
+
+/**
+ * Formats a fiat amount, e.g. "€1,250.00"
+ * @param amount - The amount
+ * @param currency - ISO 4217 code
+ */
+export const formatFiat = (amount: number, currency: string = DEFAULT_SALARY_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toLocaleString()} ${currency}`;
+  }
+};
+
+/**
+ * Formats amounts in several currencies, e.g. "€1,250.00 + $300.00"
+ * @param totals - Amounts keyed by ISO 4217 code
+ */
+export const formatFiatTotals = (totals: Record<string, number>): string => {
+  return Object.entries(totals)
+    .map(([currency, amount]) => formatFiat(amount, currency))
+    .join(' + ') || formatFiat(0);
+};
+
+/**
+ * Formats a rate, e.g. "1 USDC = 0.92 EUR"
+ * @param rate - The rate
+ */
+export const formatFxRate = (rate: FxRate): string => {
+  return `1 ${rate.token} = ${Number(rate.price).toLocaleString(undefined, { maximumFractionDigits: 6 })} ${rate.currency}`;
+};
+
+/**
+ * Checks locked rates before a pay run is executed. A rate is refused when it
+ * is older than the configured maximum age, or when the market has since
+ * moved further than the slippage tolerance. Without current rates (the
+ * provider is unreachable) only the age is checked.
+ * @param locked - Rates locked into the run
+ * @param current - Rates quoted just now, if available
+ * @param now - Current time in milliseconds
+ * @returns An error message, or null when the rates may be used
+ */
+export const getFxRateGuardError = (
+  locked: FxRate[],
+  current: FxRate[] | null,
+  now: number = Date.now()
+): string | null => {
+  const { maxRateAgeMinutes, maxSlippageBps } = ENV_CONFIG.fx;
+
+  for (const rate of locked) {
+    const ageMinutes = Math.floor((now - new Date(rate.fetched_at).getTime()) / 60000);
+    if (!(ageMinutes <= maxRateAgeMinutes)) {
+      return `The ${rate.token}/${rate.currency} rate is ${ageMinutes} minutes old (limit ${maxRateAgeMinutes}). Re-quote the rates before paying.`;
+    }
+
+    const market = current && findFxRate(current, rate.currency, rate.token);
+    if (!market) continue;
+
+    const lockedPrice = parseUnits(rate.price, PRICE_DECIMALS);
+    const marketPrice = parseUnits(market.price, PRICE_DECIMALS);
+    const difference = marketPrice > lockedPrice ? marketPrice - lockedPrice : lockedPrice - marketPrice;
+    const movedBps = (difference * 10000n) / lockedPrice;
+    if (movedBps > BigInt(maxSlippageBps)) {
+      return `The ${rate.token}/${rate.currency} rate moved ${(Number(movedBps) / 100).toFixed(2)}% since it was locked (limit ${(maxSlippageBps / 100).toFixed(2)}%). Re-quote the rates before paying.`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,265 @@
+/**
+ * Token amount utilities for Revatix
+ * Represents token amounts as bigint base units tagged with the token's
+ * decimals, so sums, splits and conversions never lose precision
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+
+export interface TokenAmount {
+  // Amount in the token's smallest unit (e.g. 1 USDC = 1_000_000n)
+  units: bigint;
+  decimals: number;
+  token: string;
+}
+
+export interface SupportedToken {
+  address: string;
+  decimals: number;
+}
+
+// Tokens the network can move, with their decimals. Addresses are on Polygon,
+// the default chain; YELLOW is the network's native token.
+export const SUPPORTED_TOKENS: Record<string, SupportedToken> = {
+  USDC: { address: '0xA0b86a33E6441c8C06DDD1233a8d0C05c0a24C08', decimals: 6 },
+  USDT: { address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6 },
+  DAI: { address: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', decimals: 18 },
+  WETH: { address: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', decimals: 18 },
+  YELLOW: { address: '0x0000000000000000000000000000000000000000', decimals: 18 },
+};
+
+/**
+ * Whether a token is in SUPPORTED_TOKENS
+ * @param token - Token symbol
+ */
+export const isSupportedToken = (token: string): boolean => {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_TOKENS, token);
+};
+
+/**
+ * Decimals of a token
+ * @param token - Token symbol
+ * @param fallback - Decimals to use for tokens outside SUPPORTED_TOKENS, e.g.
+ *   when totalling historical payments; without it unknown tokens throw
+ */
+export const getTokenDecimals = (token: string, fallback?: number): number => {
+  if (isSupportedToken(token)) return SUPPORTED_TOKENS[token].decimals;
+  if (fallback !== undefined) return fallback;
+  throw new Error(`Unknown token ${token}`);
+};
+
+/**
+ * Plain decimal notation of a JS number, without exponents or trailing
+ * zeros, e.g. 1e-7 becomes "0.0000001"
+ * @param value - The number
+ * @param decimals - Fraction digits kept for numbers written with an exponent
+ */
+export const numberToDecimalString = (value: number, decimals: number): string => {
+  if (!Number.isFinite(value)) throw new Error(`Invalid amount ${value}`);
+  const text = String(value);
+  if (!/e/i.test(text)) return text;
+  // Numbers this large are integers; toFixed would print them with an exponent
+  if (Math.abs(value) >= 1e21) return BigInt(value).toString();
+  const fixed = value.toFixed(Math.min(decimals, 100));
+  return fixed.includes('.') ? fixed.replace(/0+$/, '').replace(/\.$/, '') : fixed;
+};
+
+/**
+ * Parses a display amount (e.g. "1250.5" or 1250.5) into base units.
+ * Strings must not have more fraction digits than the token supports;
+ * numbers (legacy salaries and amounts) are rounded to the token's decimals.
+ * @param value - Amount in whole tokens
+ * @param token - Token symbol
+ * @param decimals - Overrides the token's decimals
+ */
+export const parseAmount = (value: string | number, token: string, decimals: number = getTokenDecimals(token)): TokenAmount => {
+  const text = typeof value === 'number' ? numberToDecimalString(value, decimals) : value.trim().replace(/,/g, '');
+  if (!/^-?\d*\.?\d*$/.test(text) || text === '' || text === '.' || text === '-') {
+    throw new Error(`Invalid amount "${value}"`);
+  }
+
+  const fraction = text.split('.')[1] || '';
+  if (typeof value === 'string' && fraction.length > decimals) {
+    throw new Error(`${token} amounts have at most ${decimals} decimal places`);
+  }
+  return { units: parseUnits(text, decimals), decimals, token };
+};
+
+/**
+ * Wraps base units in a TokenAmount
+ * @param units - Amount in the token's smallest unit
+ * @param token - Token symbol
+ * @param decimals - Overrides the token's decimals
+ */
+export const fromUnits = (units: bigint, token: string, decimals: number = getTokenDecimals(token)): TokenAmount => {
+  return { units, decimals, token };
+};
+
+/**
+ * The zero amount of a token
+ * @param token - Token symbol
+ * @param decimals - Overrides the token's decimals
+ */
+export const zeroAmount = (token: string, decimals: number = getTokenDecimals(token)): TokenAmount => {
+  return { units: 0n, decimals, token };
+};
+
+/**
+ * Exact decimal string of an amount, e.g. "1250.5"
+ * @param amount - The amount
+ */
+export const toDecimalString = (amount: TokenAmount): string => {
+  return formatUnits(amount.units, amount.decimals);
+};
+
+/**
+ * Converts to a JS number for display or legacy numeric fields. Lossy for
+ * large 18-decimal amounts; never feed the result back into arithmetic.
+ * @param amount - The amount
+ */
+export const toNumber = (amount: TokenAmount): number => {
+  return Number(toDecimalString(amount));
+};
+
+// Rounds base units half away from zero to `digits` fraction digits
+const roundUnits = (units: bigint, decimals: number, digits: number): bigint => {
+  if (digits >= decimals) return units;
+  const step = 10n ** BigInt(decimals - digits);
+  const half = step / 2n;
+  const magnitude = units < 0n ? -units : units;
+  const rounded = ((magnitude + half) / step) * step;
+  return units < 0n ? -rounded : rounded;
+};
+
+/**
+ * Formats an amount for display, e.g. "1,250.50 USDC"
+ * @param amount - The amount
+ * @param options - `maxDecimals` rounds for display (default 6), `minDecimals`
+ *   pads with zeros, `grouping` adds thousands separators (default true),
+ *   `symbol` appends the token symbol
+ */
+export const formatAmount = (
+  amount: TokenAmount,
+  options: { maxDecimals?: number; minDecimals?: number; grouping?: boolean; symbol?: boolean } = {}
+): string => {
+  const { maxDecimals = 6, minDecimals = 0, grouping = true, symbol = false } = options;
+  const digits = Math.min(maxDecimals, amount.decimals);
+  const [whole, fraction = ''] = formatUnits(roundUnits(amount.units, amount.decimals, digits), amount.decimals).split('.');
+
+  const trimmed = fraction.slice(0, digits).replace(/0+$/, '').padEnd(Math.min(minDecimals, digits), '0');
+  const grouped = grouping ? whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',') : whole;
+  const text = trimmed ? `${grouped}.${trimmed}` : grouped;
+  return symbol ? `${text} ${amount.token}` : text;
+};
+
+const assertSameToken = (a: TokenAmount, b: TokenAmount): void => {
+  if (a.token !== b.token || a.decimals !== b.decimals) {
+    throw new Error(`Cannot combine ${a.token} and ${b.token} amounts`);
+  }
+};
+
+/**
+ * Adds two amounts of the same token
+ * @param a - First amount
+ * @param b - Second amount
+ */
+export const addAmounts = (a: TokenAmount, b: TokenAmount): TokenAmount => {
+  assertSameToken(a, b);
+  return { ...a, units: a.units + b.units };
+};
+
+/**
+ * Subtracts `b` from `a`; both must be the same token
+ * @param a - Amount to subtract from
+ * @param b - Amount to subtract
+ */
+export const subtractAmounts = (a: TokenAmount, b: TokenAmount): TokenAmount => {
+  assertSameToken(a, b);
+  return { ...a, units: a.units - b.units };
+};
+
+/**
+ * Sums amounts of one token
+ * @param amounts - Amounts to sum
+ * @param token - Token symbol, used for the zero amount of an empty list
+ * @param decimals - Overrides the token's decimals
+ */
+export const sumAmounts = (amounts: TokenAmount[], token: string, decimals: number = getTokenDecimals(token)): TokenAmount => {
+  return amounts.reduce(addAmounts, zeroAmount(token, decimals));
+};
+
+// Scales weights to integers over a common power of ten, so fractional
+// weights (e.g. 0.25 and 0.75) keep their exact proportions
+const toIntegerWeights = (weights: Array<bigint | number>): bigint[] => {
+  if (weights.some(weight => typeof weight === 'number' && !Number.isFinite(weight))) {
+    throw new Error('Split weights must be finite numbers');
+  }
+  const texts = weights.map(weight => typeof weight === 'bigint' ? weight.toString() : numberToDecimalString(weight, 20));
+  const scale = Math.max(0, ...texts.map(text => (text.split('.')[1] || '').length));
+  return texts.map(text => parseUnits(text, scale));
+};
+
+/**
+ * Splits an amount in proportion to weights. Remainder units go to the
+ * largest fractional shares first, so the parts always add up to the total.
+ * @param total - Amount to split
+ * @param weights - Non-negative weights, one per part; fractional weights
+ *   are allowed
+ */
+export const splitAmount = (total: TokenAmount, weights: Array<bigint | number>): TokenAmount[] => {
+  const shares = toIntegerWeights(weights);
+  if (shares.length === 0) throw new Error('Cannot split an amount into zero parts');
+  if (shares.some(weight => weight < 0n)) throw new Error('Split weights cannot be negative');
+
+  const weightSum = shares.reduce((sum, weight) => sum + weight, 0n);
+  if (weightSum === 0n) throw new Error('Split weights cannot all be zero');
+
+  const parts = shares.map(weight => (total.units * weight) / weightSum);
+  let remainder = total.units - parts.reduce((sum, part) => sum + part, 0n);
+
+  // Hand out leftover units one at a time, largest truncated fraction first
+  const order = shares
+    .map((weight, index) => ({ index, fraction: (total.units * weight) % weightSum }))
+    .sort((a, b) => (b.fraction > a.fraction ? 1 : b.fraction < a.fraction ? -1 : a.index - b.index));
+  const step = remainder < 0n ? -1n : 1n;
+  for (let i = 0; remainder !== 0n; i = (i + 1) % order.length) {
+    parts[order[i].index] += step;
+    remainder -= step;
+  }
+
+  return parts.map(units => ({ ...total, units }));
+};
+
+/**
+ * Splits an amount into equal parts whose sum is exactly the total
+ * @param total - Amount to split
+ * @param count - Number of parts
+ */
+export const splitEvenly = (total: TokenAmount, count: number): TokenAmount[] => {
+  return splitAmount(total, Array.from({ length: count }, () => 1));
+};
+
+/**
+ * Serialises an amount for storage: base units as a string (bigint has no
+ * JSON form) together with its decimals
+ * @param amount - The amount
+ */
+export const toStoredAmount = (amount: TokenAmount): { amount_base_units: string; token_decimals: number } => {
+  return { amount_base_units: amount.units.toString(), token_decimals: amount.decimals };
+};
+
+/**
+ * Reads an amount stored with toStoredAmount. Records saved before amounts
+ * were stored exactly only have the numeric amount, which is parsed instead.
+ * @param stored - Record holding the amount and its token
+ * @param fallbackDecimals - Decimals of tokens outside SUPPORTED_TOKENS
+ */
+export const fromStoredAmount = (
+  stored: { amount: number; token: string; amount_base_units?: string; token_decimals?: number },
+  fallbackDecimals: number = 18
+): TokenAmount => {
+  const decimals = stored.token_decimals ?? getTokenDecimals(stored.token, fallbackDecimals);
+  return stored.amount_base_units
+    ? fromUnits(BigInt(stored.amount_base_units), stored.token, decimals)
+    : parseAmount(stored.amount, stored.token, decimals);
+};
@@ -0,0 +1,254 @@
+/**
+ * Pay run utilities for Revatix
+ * Lifecycle rules, per-token totals and status derivation for pay runs
+ */
+
+import type { BaseUnitAmount, FxRate, Payment, PayRun, PayRunLineItem, PayRunStatus, PayRunTotals } from '../lib/supabase';
+import {
+  addAmounts,
+  formatAmount,
+  fromStoredAmount,
+  fromUnits,
+  getTokenDecimals,
+  parseAmount,
+  toDecimalString,
+  toNumber,
+  toStoredAmount,
+  zeroAmount,
+  type TokenAmount,
+} from './money';
+import { convertFiatToToken, findFxRate } from './fx';
+import { getJournalEntry, getJournalKey, recoverInterruptedEntries, writeJournalEntry } from './paymentJournal';
+
+// Allowed lifecycle transitions. Partially paid and failed runs can be
+// re-executed to retry the recipients that were not paid. Re-quoting the FX
+// rates of a run nobody has been paid from sends it back to draft.
+export const PAY_RUN_TRANSITIONS: Record<PayRunStatus, PayRunStatus[]> = {
+  draft: ['approved', 'draft'],
+  approved: ['executing', 'draft'],
+  executing: ['partially_paid', 'completed', 'failed'],
+  partially_paid: ['executing'],
+  completed: [],
+  failed: ['executing', 'draft'],
+};
+
+// An executing run belongs to the tab running it for as long as that tab
+// renews its lease; a run whose lease ran out was interrupted
+export const PAY_RUN_LEASE_MS = 60000;
+export const PAY_RUN_HEARTBEAT_MS = 15000;
+
+export const PAY_RUN_STATUS_LABELS: Record<PayRunStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved',
+  executing: 'Executing',
+  partially_paid: 'Partially Paid',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+/**
+ * Checks whether a pay run may move from one status to another
+ * @param from - Current status
+ * @param to - Requested status
+ */
+export const canTransitionPayRun = (from: PayRunStatus, to: PayRunStatus): boolean => {
+  return PAY_RUN_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Throws when a pay run may not move to the requested status
+ * @param payRun - The pay run to check
+ * @param to - Requested status
+ */
+export const assertPayRunTransition = (payRun: PayRun, to: PayRunStatus): void => {
+  if (!canTransitionPayRun(payRun.status, to)) {
+    throw new Error(`Pay run ${payRun.id} cannot move from ${payRun.status} to ${to}`);
+  }
+};
+
+/**
+ * Sets the amount of a line item, exactly and as its display copy
+ * @param item - The line item
+ * @param amount - Amount of the item's token
+ */
+export const withLineItemAmount = <T extends Pick<PayRunLineItem, 'amount' | 'token'>>(item: T, amount: TokenAmount): T => {
+  return { ...item, amount: toNumber(amount), ...toStoredAmount(amount) };
+};
+
+/**
+ * Sums line item (or payment) amounts per token, in base units
+ * @param items - Line items or payments to total
+ */
+export const calculatePayRunTotals = (
+  items: Array<Pick<PayRunLineItem, 'amount' | 'token' | 'amount_base_units' | 'token_decimals'>>
+): Record<string, BaseUnitAmount> => {
+  // Tokens no longer supported fall back to 18 decimals
+  const sums = items.reduce<Record<string, TokenAmount>>((totals, item) => {
+    const amount = fromStoredAmount(item);
+    const current = totals[item.token] || zeroAmount(item.token, amount.decimals);
+    totals[item.token] = addAmounts(current, amount);
+    return totals;
+  }, {});
+  return Object.fromEntries(Object.entries(sums).map(([token, total]) => [token, total.units.toString()]));
+};
+
+/**
+ * Reads per-token totals as amounts
+ * @param totals - Totals keyed by token
+ */
+export const payRunTotalsToAmounts = (totals: PayRunTotals): TokenAmount[] => {
+  return Object.entries(totals).map(([token, total]) => {
+    const decimals = getTokenDecimals(token, 18);
+    return typeof total === 'number' ? parseAmount(total, token, decimals) : fromUnits(BigInt(total), token, decimals);
+  });
+};
+
+/**
+ * Converts fiat line items into their payout token. Items without a fiat
+ * currency are already denominated in the token and are returned unchanged.
+ * @param items - Line items to convert
+ * @param rates - Rates to convert at, one per currency and token
+ */
+export const applyFxRates = <T extends Pick<PayRunLineItem, 'amount' | 'token' | 'fiat_amount' | 'fiat_currency'>>(
+  items: T[],
+  rates: FxRate[]
+): T[] => {
+  return items.map(item => {
+    if (!item.fiat_currency || item.fiat_amount === undefined) return item;
+    const rate = findFxRate(rates, item.fiat_currency, item.token);
+    if (!rate) throw new Error(`No ${item.token} rate for ${item.fiat_currency}`);
+    return withLineItemAmount(item, convertFiatToToken(item.fiat_amount, rate));
+  });
+};
+
+/**
+ * Works out the status a run ends in once execution has finished
+ * @param lineItems - Line items after execution
+ */
+export const deriveExecutedStatus = (lineItems: PayRunLineItem[]): PayRunStatus => {
+  const paid = lineItems.filter(item => item.status === 'paid').length;
+  if (paid === lineItems.length) return 'completed';
+  if (paid === 0) return 'failed';
+  return 'partially_paid';
+};
+
+/**
+ * Whether the tab executing a run has stopped renewing its lease. Runs
+ * executed before leases existed have none and count as expired.
+ * @param payRun - An executing run
+ * @param now - Current time in milliseconds
+ */
+export const isPayRunLeaseExpired = (payRun: PayRun, now: number = Date.now()): boolean => {
+  const heartbeat = Date.parse(payRun.execution_heartbeat_at || '');
+  return isNaN(heartbeat) || now - heartbeat > PAY_RUN_LEASE_MS;
+};
+
+/**
+ * Works out what became of the unpaid recipients of an execution that
+ * stopped before recording them. Recipients the journal shows were never
+ * submitted failed and can be retried; any other may have been paid and is
+ * uncertain.
+ * @param payRun - The interrupted run
+ * @param error - Reason recorded on the recipients
+ */
+export const getInterruptedResults = (
+  payRun: PayRun,
+  error: string
+): Array<{ employee_id: string; status: 'failed' | 'uncertain'; error: string }> => {
+  return payRun.line_items
+    .filter(item => item.status !== 'paid')
+    .map(item => {
+      const entry = getJournalEntry(payRun.id, item.employee_id);
+      const unsent = entry?.status === 'pending' || entry?.status === 'failed';
+      return { employee_id: item.employee_id, status: unsent ? 'failed' : 'uncertain', error };
+    });
+};
+
+/**
+ * Records the uncertain recipients of a run as uncertain in the journal too,
+ * so they are not sent again until the payer has checked them. Covers
+ * recipients the journal has no entry for, e.g. when the run was executed in
+ * another browser.
+ * @param payRun - The run after its interruption was recorded
+ */
+export const flagUncertainRecipients = (payRun: PayRun): void => {
+  recoverInterruptedEntries(payRun.id);
+  payRun.line_items
+    .filter(item => item.status === 'uncertain' && !getJournalEntry(payRun.id, item.employee_id))
+    .forEach(item => writeJournalEntry({
+      key: getJournalKey(payRun.id, item.employee_id),
+      payrun_id: payRun.id,
+      employee_id: item.employee_id,
+      address: item.wallet_address,
+      amount: toDecimalString(fromStoredAmount(item)),
+      token: item.token,
+      status: 'uncertain',
+      attempts: 0,
+      last_error: item.error
+    }));
+};
+
+/**
+ * Formats per-token totals, e.g. "1,200 USDC + 50 YELLOW"
+ * @param totals - Totals keyed by token
+ */
+export const formatPayRunTotals = (totals: PayRunTotals): string => {
+  const amounts = payRunTotalsToAmounts(totals);
+  if (amounts.length === 0) return '0';
+  return amounts.map(amount => formatAmount(amount, { symbol: true })).join(' + ');
+};
+
+/**
+ * Short, human readable reference for a pay run
+ * @param payRun - The pay run
+ */
+export const getPayRunReference = (payRun: Pick<PayRun, 'id'>): string => {
+  return `PR-${payRun.id.substring(0, 8).toUpperCase()}`;
+};
+
+/**
+ * Splits payments into those produced by a pay run (grouped by run ID)
+ * and standalone payments
+ * @param payments - Payments to group
+ */
+export const groupPaymentsByRun = (payments: Payment[]): {
+  runs: Map<string, Payment[]>;
+  standalone: Payment[];
+} => {
+  const runs = new Map<string, Payment[]>();
+  const standalone: Payment[] = [];
+
+  payments.forEach(payment => {
+    if (payment.payrun_id) {
+      runs.set(payment.payrun_id, [...(runs.get(payment.payrun_id) || []), payment]);
+    } else {
+      standalone.push(payment);
+    }
+  });
+
+  return { runs, standalone };
+};
+
+/**
+ * Finds an unfinished run with exactly the given recipients, amounts and
+ * token so a run awaiting approval or retry is resumed instead of duplicated.
+ * Fiat items match on their fiat amount, since the converted amount depends
+ * on the rate.
+ * @param payRuns - Stored pay runs
+ * @param lineItems - Recipients of the payroll about to be sent
+ */
+export const findOpenPayRun = (
+  payRuns: PayRun[],
+  lineItems: Array<Pick<PayRunLineItem, 'employee_id' | 'amount' | 'token' | 'fiat_amount' | 'fiat_currency'>>
+): PayRun | null => {
+  return payRuns.find(run =>
+    run.status !== 'completed' &&
+    run.line_items.length === lineItems.length &&
+    lineItems.every(item => run.line_items.some(runItem =>
+      runItem.employee_id === item.employee_id &&
+      runItem.token === item.token &&
+      runItem.fiat_currency === item.fiat_currency &&
+      (item.fiat_currency ? runItem.fiat_amount === item.fiat_amount : runItem.amount === item.amount)
+    ))
+  ) || null;
+};
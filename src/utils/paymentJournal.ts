@@ -0,0 +1,136 @@
+/**
+ * Payment journal utilities for Revatix
+ * Records the outcome of every recipient of a pay run, keyed by pay run and
+ * employee, so an interrupted or failed run can resume without double-paying
+ */
+
+// pending: not sent yet (or an error raised before sending is being retried)
+// in_flight: handed to the network, outcome not recorded yet
+// uncertain: was in flight when the page went away, or failed in a way that
+// may have paid anyway; must be resolved by hand
+export type PaymentJournalStatus = 'pending' | 'in_flight' | 'paid' | 'failed' | 'uncertain';
+
+export interface PaymentJournalEntry {
+  key: string;
+  payrun_id: string;
+  employee_id: string;
+  address: string;
+  // Exact decimal amount in whole tokens (see utils/money)
+  amount: string;
+  token: string;
+  status: PaymentJournalStatus;
+  attempts: number;
+  tx_hash?: string;
+  last_error?: string;
+  updated_at: string;
+}
+
+export interface PaymentRetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const PAYMENT_RETRY_DEFAULTS: PaymentRetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+const getStorageKey = (payrunId: string) => `gemetra_payment_journal_${payrunId}`;
+
+/**
+ * Journal key of a single recipient of a pay run
+ * @param payrunId - Pay run ID
+ * @param employeeId - Employee ID
+ */
+export const getJournalKey = (payrunId: string, employeeId: string): string => {
+  return `${payrunId}:${employeeId}`;
+};
+
+/**
+ * Reads every journal entry of a pay run
+ * @param payrunId - Pay run ID
+ */
+export const readPaymentJournal = (payrunId: string): PaymentJournalEntry[] => {
+  const storedJournal = localStorage.getItem(getStorageKey(payrunId));
+  if (!storedJournal) return [];
+  try {
+    return JSON.parse(storedJournal);
+  } catch (parseError) {
+    console.error('Error parsing payment journal from localStorage:', parseError);
+    return [];
+  }
+};
+
+/**
+ * Returns the journal entry of one recipient, if any
+ * @param payrunId - Pay run ID
+ * @param employeeId - Employee ID
+ */
+export const getJournalEntry = (payrunId: string, employeeId: string): PaymentJournalEntry | null => {
+  const key = getJournalKey(payrunId, employeeId);
+  return readPaymentJournal(payrunId).find(entry => entry.key === key) || null;
+};
+
+/**
+ * Inserts or replaces a journal entry. Entries are written before and after
+ * every send so the journal survives the tab being closed mid-run.
+ * @param entry - The entry to write
+ */
+export const writeJournalEntry = (entry: Omit<PaymentJournalEntry, 'updated_at'>): PaymentJournalEntry => {
+  const written = { ...entry, updated_at: new Date().toISOString() };
+  const journal = readPaymentJournal(entry.payrun_id).filter(existing => existing.key !== entry.key);
+  localStorage.setItem(getStorageKey(entry.payrun_id), JSON.stringify([...journal, written]));
+  return written;
+};
+
+/**
+ * Marks entries left in flight by an interrupted execution as uncertain.
+ * Whether those payments reached the network is unknown, so they are never
+ * resent automatically.
+ * @param payrunId - Pay run ID
+ * @returns The entries that were marked uncertain
+ */
+export const recoverInterruptedEntries = (payrunId: string): PaymentJournalEntry[] => {
+  return readPaymentJournal(payrunId)
+    .filter(entry => entry.status === 'in_flight')
+    .map(entry => writeJournalEntry({
+      ...entry,
+      status: 'uncertain',
+      last_error: 'Execution was interrupted before the payment outcome was recorded'
+    }));
+};
+
+/**
+ * Resolves an uncertain entry once the payer has checked whether it was paid.
+ * Entries resolved as failed are sent again on the next execution.
+ * @param payrunId - Pay run ID
+ * @param employeeId - Employee ID
+ * @param outcome - Whether the payment went through
+ */
+export const resolveUncertainEntry = (
+  payrunId: string,
+  employeeId: string,
+  outcome: 'paid' | 'failed'
+): PaymentJournalEntry => {
+  const entry = getJournalEntry(payrunId, employeeId);
+  if (!entry || entry.status !== 'uncertain') {
+    throw new Error(`No uncertain payment for employee ${employeeId} in pay run ${payrunId}`);
+  }
+  return writeJournalEntry({
+    ...entry,
+    status: outcome,
+    last_error: outcome === 'failed' ? 'Marked as not paid after review' : undefined
+  });
+};
+
+/**
+ * Exponential backoff delay before the given retry, with jitter
+ * @param attempt - The attempt that just failed (1-based)
+ * @param options - Retry options
+ */
+export const getBackoffDelay = (attempt: number, options: PaymentRetryOptions = PAYMENT_RETRY_DEFAULTS): number => {
+  const delay = Math.min(options.baseDelayMs * Math.pow(2, attempt - 1), options.maxDelayMs);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
@@ -0,0 +1,219 @@
+/**
+ * Payroll channel utilities for Revatix
+ * Builds the states of a pay run's state channel between the employer and
+ * the clearnode: a funding state holding the whole payroll, one state per
+ * employee moving their pay out of the employer's allocation, and a final
+ * state both sides sign to close. States are hashed and signed the way the
+ * Nitrolite custody contract checks them, so every version can be verified
+ * by anyone holding the channel.
+ */
+
+import {
+  generateChannelNonce,
+  getChannelId,
+  getPackedState,
+  StateIntent,
+  type Channel,
+  type State,
+  type UnsignedState
+} from '@erc7824/nitrolite';
+import {
+  getAddress,
+  hexToString,
+  keccak256,
+  recoverAddress,
+  recoverMessageAddress,
+  stringToHex,
+  zeroAddress,
+  type Address,
+  type Hex
+} from 'viem';
+
+export interface PayrollChannelPayment {
+  employee_id: string;
+  address: Address;
+  // Amount in the token's base units
+  amount: bigint;
+}
+
+/**
+ * Describes a pay run's channel; the employer is always the first participant
+ * @param employer - Wallet funding the pay run
+ * @param clearnode - The clearnode's signing address
+ * @param challenge - Challenge period in seconds
+ * @param nonce - Channel nonce; a fresh one by default
+ */
+export const createPayrollChannel = (
+  employer: Address,
+  clearnode: Address,
+  challenge: number,
+  nonce: bigint = generateChannelNonce(employer)
+): Channel => ({
+  participants: [employer, clearnode],
+  adjudicator: zeroAddress,
+  challenge: BigInt(challenge),
+  nonce
+});
+
+/**
+ * The channel's ID, as the custody contract derives it
+ * @param channel - The channel
+ * @param chainId - Chain the channel is anchored on
+ */
+export const getPayrollChannelId = (channel: Channel, chainId: number): Hex => getChannelId(channel, chainId);
+
+/**
+ * Reads the pay run a state belongs to from its data field
+ * @param state - Any state of a payroll channel
+ */
+export const getPayrunIdFromState = (state: UnsignedState): string => {
+  return state.data === '0x' ? '' : hexToString(state.data);
+};
+
+/**
+ * Totals every allocation per token, in base units
+ * @param state - The state
+ */
+export const getChannelTotals = (state: UnsignedState): Record<string, bigint> => {
+  return state.allocations.reduce<Record<string, bigint>>((totals, allocation) => {
+    const token = allocation.token.toLowerCase();
+    totals[token] = (totals[token] || 0n) + allocation.amount;
+    return totals;
+  }, {});
+};
+
+/**
+ * The opening state: the employer holds the whole payroll
+ * @param channel - The pay run's channel
+ * @param token - Token address the payroll is paid in
+ * @param total - Payroll total in base units
+ * @param payrunId - Pay run the channel settles, kept in the state's data
+ */
+export const buildFundingState = (channel: Channel, token: Address, total: bigint, payrunId: string): UnsignedState => {
+  const [employer, clearnode] = channel.participants;
+  // Token addresses are encoded checksummed, whatever case they are configured in
+  const tokenAddress = getAddress(token.toLowerCase());
+  return {
+    intent: StateIntent.INITIALIZE,
+    version: 0n,
+    data: stringToHex(payrunId),
+    allocations: [
+      { destination: employer, token: tokenAddress, amount: total },
+      { destination: clearnode, token: tokenAddress, amount: 0n }
+    ]
+  };
+};
+
+/**
+ * The next state after paying one employee: their amount moves from the
+ * employer's allocation to theirs
+ * @param previous - The channel's latest state
+ * @param payment - Employee and amount to pay
+ */
+export const buildPaymentState = (previous: UnsignedState, payment: PayrollChannelPayment): UnsignedState => {
+  if (previous.intent === StateIntent.FINALIZE) {
+    throw new Error('The channel is already final');
+  }
+  if (payment.amount <= 0n) {
+    throw new Error(`Payment to ${payment.employee_id} must be greater than zero`);
+  }
+
+  const [employerAllocation, ...others] = previous.allocations;
+  if (employerAllocation.amount < payment.amount) {
+    throw new Error(`The channel does not hold enough to pay ${payment.employee_id}`);
+  }
+
+  const existing = others.some(allocation => allocation.destination.toLowerCase() === payment.address.toLowerCase());
+  const allocations = others.map(allocation => allocation.destination.toLowerCase() === payment.address.toLowerCase()
+    ? { ...allocation, amount: allocation.amount + payment.amount }
+    : allocation);
+
+  return {
+    intent: StateIntent.OPERATE,
+    version: previous.version + 1n,
+    data: previous.data,
+    allocations: [
+      { ...employerAllocation, amount: employerAllocation.amount - payment.amount },
+      ...allocations,
+      ...(existing ? [] : [{ destination: payment.address, token: employerAllocation.token, amount: payment.amount }])
+    ]
+  };
+};
+
+/**
+ * The closing state, with the latest allocations unchanged
+ * @param previous - The channel's latest state
+ */
+export const buildFinalState = (previous: UnsignedState): UnsignedState => {
+  if (previous.intent === StateIntent.FINALIZE) {
+    throw new Error('The channel is already final');
+  }
+  return {
+    intent: StateIntent.FINALIZE,
+    version: previous.version + 1n,
+    data: previous.data,
+    allocations: previous.allocations
+  };
+};
+
+/**
+ * Checks that a state may follow another: the next version, never after a
+ * final state, and moving funds without creating or destroying any
+ * @param previous - The latest state
+ * @param next - The proposed state
+ * @returns An error message, or null when the transition is valid
+ */
+export const getStateTransitionError = (previous: UnsignedState, next: UnsignedState): string | null => {
+  if (previous.intent === StateIntent.FINALIZE) return 'The channel is already final';
+  if (next.version !== previous.version + 1n) {
+    return `Expected version ${previous.version + 1n}, got ${next.version}`;
+  }
+  if (next.data !== previous.data) return 'State data cannot change within a channel';
+
+  const previousTotals = getChannelTotals(previous);
+  const nextTotals = getChannelTotals(next);
+  const tokens = new Set([...Object.keys(previousTotals), ...Object.keys(nextTotals)]);
+  for (const token of tokens) {
+    if ((previousTotals[token] || 0n) !== (nextTotals[token] || 0n)) {
+      return 'State update does not conserve channel funds';
+    }
+  }
+  return null;
+};
+
+/**
+ * Whether a signature over a state was made by `signer`. Session keys and
+ * the clearnode sign the state hash directly; browser wallets sign the
+ * packed state as a personal message.
+ * @param channelId - The channel
+ * @param state - The signed state
+ * @param signature - The signature
+ * @param signer - Expected signer
+ */
+export const isStateSignedBy = async (
+  channelId: Hex,
+  state: UnsignedState,
+  signature: Hex,
+  signer: Address
+): Promise<boolean> => {
+  const packedState = getPackedState(channelId, state);
+  const recovered = await Promise.all([
+    recoverAddress({ hash: keccak256(packedState), signature }),
+    recoverMessageAddress({ message: { raw: packedState }, signature })
+  ].map(recovery => recovery.catch(() => null)));
+  return recovered.some(address => address?.toLowerCase() === signer.toLowerCase());
+};
+
+/**
+ * Checks that a state carries a valid signature from every participant, in
+ * participant order
+ * @param channelId - The channel
+ * @param state - The signed state
+ * @param participants - The channel's participants
+ */
+export const verifyChannelState = async (channelId: Hex, state: State, participants: Address[]): Promise<boolean> => {
+  if (state.sigs.length !== participants.length) return false;
+  const checks = await Promise.all(participants.map((participant, index) =>
+    isStateSignedBy(channelId, state, state.sigs[index], participant)));
+  return checks.every(Boolean);
+};
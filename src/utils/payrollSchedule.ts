@@ -0,0 +1,343 @@
+/**
+ * Payroll schedule utilities for Revatix
+ * Turns each employee's pay frequency, anchor date and cutoff into
+ * upcoming pay runs with a draft list of recipients and amounts
+ */
+
+import type { Employee, Payment, PayFrequency } from '../lib/supabase';
+import { DEFAULT_SALARY_CURRENCY } from './fx';
+
+export const PAY_FREQUENCIES: Array<{ value: PayFrequency; label: string }> = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'bi-weekly', label: 'Bi-weekly' },
+  { value: 'semi-monthly', label: 'Semi-monthly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+// Used for employees created before schedules existed
+export const DEFAULT_PAY_FREQUENCY: PayFrequency = 'monthly';
+export const DEFAULT_PAY_CUTOFF_DAYS = 3;
+
+// Salary is stored as a monthly amount; these convert it to a per-run amount
+const RUNS_PER_YEAR: Record<PayFrequency, number> = {
+  'weekly': 52,
+  'bi-weekly': 26,
+  'semi-monthly': 24,
+  'monthly': 12,
+};
+
+// Nominal length of a pay period in days
+const CYCLE_DAYS: Record<PayFrequency, number> = {
+  'weekly': 7,
+  'bi-weekly': 14,
+  'semi-monthly': 15,
+  'monthly': 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PayRunScheduleStatus = 'upcoming' | 'due' | 'overdue' | 'paid';
+
+export interface PayRunDraftRecipient {
+  employee_id: string;
+  name: string;
+  email: string;
+  wallet_address: string;
+  amount: number;
+  // Salary currency `amount` is in
+  currency: string;
+  paid: boolean;
+}
+
+export interface ScheduledPayRun {
+  id: string;
+  frequency: PayFrequency;
+  payDate: string;
+  cutoffDate: string;
+  periodStart: string;
+  periodEnd: string;
+  recipients: PayRunDraftRecipient[];
+  // Amounts keyed by salary currency, since recipients may be paid in different ones
+  totalAmount: Record<string, number>;
+  unpaidAmount: Record<string, number>;
+  status: PayRunScheduleStatus;
+}
+
+export interface PayrollScheduleOptions {
+  today?: Date;
+  lookbackDays?: number;
+  horizonDays?: number;
+}
+
+/**
+ * Formats a date as a local yyyy-mm-dd string
+ * @param date - The date to format
+ */
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Parses a yyyy-mm-dd (or full ISO) string as a local calendar date
+ * @param value - The date string to parse
+ */
+export const parseDateKey = (value: string): Date => {
+  const [year, month, day] = value.substring(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const daysInMonth = (year: number, month: number): number => {
+  return new Date(year, month + 1, 0).getDate();
+};
+
+// Clamps the day to the last day of the month (e.g. the 31st in February)
+const dateInMonth = (year: number, month: number, day: number): Date => {
+  return new Date(year, month, Math.min(day, daysInMonth(year, month)));
+};
+
+/**
+ * Returns the per-run amount for an employee's monthly salary
+ * @param salary - Monthly salary
+ * @param frequency - Pay frequency
+ */
+export const getRunAmount = (salary: number, frequency: PayFrequency): number => {
+  const amount = (salary * 12) / RUNS_PER_YEAR[frequency];
+  return Math.round(amount * 100) / 100;
+};
+
+/**
+ * Resolves the schedule of an employee, falling back to defaults
+ * @param employee - The employee to resolve
+ */
+export const getEmployeeSchedule = (employee: Employee): {
+  frequency: PayFrequency;
+  anchorDate: string;
+  cutoffDays: number;
+} => {
+  return {
+    frequency: employee.pay_frequency || DEFAULT_PAY_FREQUENCY,
+    anchorDate: employee.pay_anchor_date || employee.join_date,
+    cutoffDays: employee.pay_cutoff_days ?? DEFAULT_PAY_CUTOFF_DAYS,
+  };
+};
+
+/**
+ * Lists every pay date of a schedule that falls within [from, to]
+ * @param frequency - Pay frequency
+ * @param anchorDate - First pay date of the schedule (yyyy-mm-dd)
+ * @param from - Start of the window (inclusive)
+ * @param to - End of the window (inclusive)
+ */
+export const getPayDates = (
+  frequency: PayFrequency,
+  anchorDate: string,
+  from: Date,
+  to: Date
+): Date[] => {
+  const anchor = parseDateKey(anchorDate);
+  const dates: Date[] = [];
+
+  if (frequency === 'weekly' || frequency === 'bi-weekly') {
+    const step = frequency === 'weekly' ? 7 : 14;
+    // Jump straight to the first occurrence at or after the window start
+    const offset = Math.max(0, Math.ceil((from.getTime() - anchor.getTime()) / (step * DAY_MS)));
+    for (let date = addDays(anchor, offset * step); date <= to; date = addDays(date, step)) {
+      if (date >= from) dates.push(date);
+    }
+    return dates;
+  }
+
+  const anchorDay = anchor.getDate();
+  // Semi-monthly runs pay on the anchor day and fifteen days later
+  const days = frequency === 'monthly'
+    ? [anchorDay]
+    : [((anchorDay - 1) % 15) + 1, ((anchorDay - 1) % 15) + 16];
+
+  const start = anchor > from ? anchor : from;
+  let year = start.getFullYear();
+  let month = start.getMonth();
+
+  while (new Date(year, month, 1) <= to) {
+    for (const day of days) {
+      const date = dateInMonth(year, month, day);
+      if (date >= anchor && date >= from && date <= to) {
+        dates.push(date);
+      }
+    }
+    month += 1;
+    if (month > 11) {
+      month = 0;
+      year += 1;
+    }
+  }
+
+  return dates;
+};
+
+// Returns the pay date immediately before the given one, or one nominal
+// cycle earlier for the first run of a schedule
+const getPreviousPayDate = (frequency: PayFrequency, anchorDate: string, payDate: Date): Date => {
+  const lookback = frequency === 'monthly' ? 31 : 16;
+  const previous = getPayDates(frequency, anchorDate, addDays(payDate, -lookback), addDays(payDate, -1));
+  return previous.length > 0 ? previous[previous.length - 1] : addDays(payDate, -CYCLE_DAYS[frequency]);
+};
+
+// Adds recipient amounts per salary currency, in cents so the sums are exact
+const sumByCurrency = (recipients: PayRunDraftRecipient[]): Record<string, number> => {
+  const cents = recipients.reduce<Record<string, number>>((totals, recipient) => {
+    totals[recipient.currency] = (totals[recipient.currency] || 0) + Math.round(recipient.amount * 100);
+    return totals;
+  }, {});
+  return Object.fromEntries(Object.entries(cents).map(([currency, total]) => [currency, total / 100]));
+};
+
+/**
+ * Generates scheduled pay runs for active employees, grouping employees that
+ * share a frequency and pay date into one run. Completed payments are matched
+ * to the earliest open run of the same employee so each payment settles one run.
+ * @param employees - Employees to schedule
+ * @param payments - Existing payments used to work out what is already paid
+ * @param options - Reference date and the window of runs to generate
+ */
+export const generatePayRuns = (
+  employees: Employee[],
+  payments: Payment[],
+  options: PayrollScheduleOptions = {}
+): ScheduledPayRun[] => {
+  const today = options.today ? new Date(options.today) : new Date();
+  today.setHours(0, 0, 0, 0);
+  const from = addDays(today, -(options.lookbackDays ?? 31));
+  const to = addDays(today, options.horizonDays ?? 45);
+
+  const runs = new Map<string, ScheduledPayRun>();
+  const recipientWindows: Array<{ run: ScheduledPayRun; recipient: PayRunDraftRecipient; start: Date; end: Date }> = [];
+
+  employees
+    .filter(employee => employee.status === 'active' && employee.salary > 0)
+    .forEach(employee => {
+      const { frequency, anchorDate, cutoffDays } = getEmployeeSchedule(employee);
+
+      getPayDates(frequency, anchorDate, from, to).forEach(payDate => {
+        const cutoffDate = addDays(payDate, -cutoffDays);
+        // Employees who join after the cutoff roll into the next run
+        if (parseDateKey(employee.join_date) > cutoffDate) return;
+
+        const previousPayDate = getPreviousPayDate(frequency, anchorDate, payDate);
+        const id = `sched_${frequency}_${toDateKey(payDate)}`;
+
+        let run = runs.get(id);
+        if (!run) {
+          run = {
+            id,
+            frequency,
+            payDate: toDateKey(payDate),
+            cutoffDate: toDateKey(cutoffDate),
+            periodStart: toDateKey(addDays(previousPayDate, 1)),
+            periodEnd: toDateKey(payDate),
+            recipients: [],
+            totalAmount: {},
+            unpaidAmount: {},
+            status: 'upcoming',
+          };
+          runs.set(id, run);
+        }
+
+        const recipient: PayRunDraftRecipient = {
+          employee_id: employee.id,
+          name: employee.name,
+          email: employee.email,
+          wallet_address: employee.wallet_address,
+          amount: getRunAmount(employee.salary, frequency),
+          currency: employee.salary_currency || DEFAULT_SALARY_CURRENCY,
+          paid: false,
+        };
+        run.recipients.push(recipient);
+
+        const nextPayDate = getPayDates(frequency, anchorDate, addDays(payDate, 1), addDays(payDate, 32))[0];
+        recipientWindows.push({
+          run,
+          recipient,
+          start: addDays(previousPayDate, 1),
+          end: nextPayDate || addDays(payDate, CYCLE_DAYS[frequency]),
+        });
+      });
+    });
+
+  // Settle runs in pay-date order so each payment goes to the oldest open run
+  recipientWindows.sort((a, b) => a.run.payDate.localeCompare(b.run.payDate));
+  const usedPayments = new Set<string>();
+  const completedPayments = payments.filter(payment => payment.status === 'completed' && payment.payment_date);
+
+  recipientWindows.forEach(({ recipient, start, end }) => {
+    const match = completedPayments.find(payment => {
+      if (usedPayments.has(payment.id) || payment.employee_id !== recipient.employee_id) return false;
+      const paidOn = parseDateKey(toDateKey(new Date(payment.payment_date)));
+      return paidOn >= start && paidOn < end;
+    });
+    if (match) {
+      usedPayments.add(match.id);
+      recipient.paid = true;
+    }
+  });
+
+  const todayKey = toDateKey(today);
+
+  return Array.from(runs.values())
+    .map(run => {
+      const totalAmount = sumByCurrency(run.recipients);
+      const unpaidAmount = sumByCurrency(run.recipients.filter(recipient => !recipient.paid));
+
+      let status: PayRunScheduleStatus = 'upcoming';
+      if (run.recipients.every(recipient => recipient.paid)) {
+        status = 'paid';
+      } else if (run.payDate < todayKey) {
+        status = 'overdue';
+      } else if (run.cutoffDate <= todayKey) {
+        status = 'due';
+      }
+
+      return {
+        ...run,
+        totalAmount,
+        unpaidAmount,
+        status,
+      };
+    })
+    .sort((a, b) => a.payDate.localeCompare(b.payDate));
+};
+
+/**
+ * Returns the earliest run that still has unpaid recipients and is not overdue
+ * @param runs - Runs produced by generatePayRuns
+ */
+export const getNextPayRun = (runs: ScheduledPayRun[]): ScheduledPayRun | null => {
+  return runs.find(run => run.status === 'due' || run.status === 'upcoming') || null;
+};
+
+/**
+ * Returns runs whose pay date has passed with recipients still unpaid
+ * @param runs - Runs produced by generatePayRuns
+ */
+export const getOverduePayRuns = (runs: ScheduledPayRun[]): ScheduledPayRun[] => {
+  return runs.filter(run => run.status === 'overdue');
+};
+
+/**
+ * Formats a yyyy-mm-dd key for display
+ * @param dateKey - The date key to format
+ */
+export const formatPayDate = (dateKey: string): string => {
+  return parseDateKey(dateKey).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+};
@@ -0,0 +1,157 @@
+/**
+ * PDF text utilities for Revatix
+ * Pulls the text layer out of digitally generated PDFs (e.g. e-mailed
+ * receipts) without a full PDF renderer. Scanned PDFs have no text layer and
+ * need OCR instead.
+ */
+
+// Stream filters we can decode; streams using any other filter are skipped
+const DEFLATE_FILTER = /\/FlateDecode/;
+const UNSUPPORTED_FILTER = /\/(DCTDecode|JPXDecode|CCITTFaxDecode|JBIG2Decode|LZWDecode|RunLengthDecode|ASCII85Decode|ASCIIHexDecode)/;
+
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  // Copied so the blob gets its own buffer rather than the whole file's
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toLatin1 = (bytes: Uint8Array): string => new TextDecoder('latin1').decode(bytes);
+
+// Decodes a literal string body, i.e. the part between ( and )
+const decodeLiteral = (body: string): string => {
+  return body.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case '(': case ')': case '\\': return escape;
+      case '\r': case '\n': return '';
+      default: return String.fromCharCode(parseInt(escape, 8));
+    }
+  });
+};
+
+// Hex strings are single byte text, or UTF-16 when they carry a BOM
+const decodeHex = (hex: string): string => {
+  const clean = hex.replace(/\s/g, '');
+  const bytes = (clean.length % 2 ? clean + '0' : clean).match(/../g) || [];
+  const codes = bytes.map(byte => parseInt(byte, 16));
+  if (codes[0] === 0xfe && codes[1] === 0xff) {
+    let text = '';
+    for (let i = 2; i + 1 < codes.length; i += 2) text += String.fromCharCode((codes[i] << 8) | codes[i + 1]);
+    return text;
+  }
+  return String.fromCharCode(...codes);
+};
+
+/**
+ * Extracts the text shown by a page content stream. Text positioning
+ * operators that move to a new line become line breaks.
+ * @param content - Decoded content stream
+ */
+export const extractContentText = (content: string): string => {
+  let text = '';
+  // Strings, arrays of strings, numbers and operators, in order
+  const tokens = /\((?:\\.|[^\\)])*\)|<[0-9A-Fa-f\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>]+|[A-Za-z'"*]+/g;
+  let operands: string[] = [];
+  let inArray = false;
+  let arrayText = '';
+
+  for (const match of content.matchAll(tokens)) {
+    const token = match[0];
+    if (token === '[') {
+      inArray = true;
+      arrayText = '';
+    } else if (token === ']') {
+      inArray = false;
+      operands.push(arrayText);
+    } else if (token.startsWith('(')) {
+      const value = decodeLiteral(token.slice(1, -1));
+      if (inArray) arrayText += value; else operands.push(value);
+    } else if (token.startsWith('<')) {
+      const value = decodeHex(token.slice(1, -1));
+      if (inArray) arrayText += value; else operands.push(value);
+    } else if (/^-?\d*\.?\d+$/.test(token)) {
+      // Large negative kerning inside TJ arrays separates words
+      if (inArray && Number(token) < -200) arrayText += ' ';
+      else if (!inArray) operands.push(token);
+    } else if (!token.startsWith('/')) {
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          text += operands[operands.length - 1] || '';
+          break;
+        case "'":
+        case '"':
+          text += '\n' + (operands[operands.length - 1] || '');
+          break;
+        case 'T*':
+        case 'ET':
+          text += '\n';
+          break;
+        case 'Td':
+        case 'TD':
+          // Only vertical moves start a new line
+          if (Number(operands[operands.length - 1]) !== 0) text += '\n';
+          else text += ' ';
+          break;
+        case 'Tm':
+          text += '\n';
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * Extracts the text layer of a PDF
+ * @param data - The PDF file's bytes
+ * @returns The text, empty when the PDF has no text layer
+ */
+export const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  const bytes = new Uint8Array(data);
+  const raw = toLatin1(bytes);
+  if (!raw.startsWith('%PDF')) throw new Error('Not a PDF file');
+
+  const pages: string[] = [];
+  const streamPattern = /<<((?:[^<>]|<<(?:[^<>]|<<[^<>]*>>)*>>|<[^<>]*>)*)>>\s*stream\r?\n/g;
+
+  for (const match of raw.matchAll(streamPattern)) {
+    const dictionary = match[1];
+    // Fonts, images and other binary resources carry no page text
+    if (/\/(Subtype\s*\/Image|Length1|Length2|Type\s*\/XRef|Type\s*\/ObjStm|Type\s*\/Metadata)/.test(dictionary)) continue;
+    if (UNSUPPORTED_FILTER.test(dictionary)) continue;
+
+    // Prefer the declared length; inflating trailing end-of-line bytes fails
+    const start = (match.index || 0) + match[0].length;
+    const declaredLength = dictionary.match(/\/Length\s+(\d+)\b(?!\s+\d+\s+R)/);
+    let end = declaredLength ? start + Number(declaredLength[1]) : raw.indexOf('endstream', start);
+    if (end < start) continue;
+    while (!declaredLength && end > start && (raw[end - 1] === '\n' || raw[end - 1] === '\r')) end--;
+
+    let content: Uint8Array = bytes.subarray(start, end);
+    if (DEFLATE_FILTER.test(dictionary)) {
+      try {
+        content = await inflate(content);
+      } catch {
+        continue;
+      }
+    }
+
+    const decoded = toLatin1(content);
+    if (!/\bBT\b/.test(decoded)) continue;
+    const text = extractContentText(decoded);
+    if (text) pages.push(text);
+  }
+
+  return pages.join('\n');
+};
@@ -0,0 +1,485 @@
+/**
+ * Receipt extraction utilities for Revatix
+ * Reads VAT receipts and invoices (e-invoice XML, text PDFs, QR payloads and
+ * images through a pluggable OCR provider) into claim fields, each with a
+ * confidence score
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ENV_CONFIG } from '../config/environment';
+import { findTlvQrPayload, parseUblInvoice, type EInvoiceData } from './eInvoice';
+import { extractPdfText } from './pdfText';
+
+export type ReceiptField =
+  | 'merchantName'
+  | 'vatRegNo'
+  | 'receiptNo'
+  | 'purchaseDate'
+  | 'currency'
+  | 'netAmount'
+  | 'vatAmount'
+  | 'grossAmount';
+
+export interface ExtractedField {
+  // Dates are YYYY-MM-DD, amounts plain decimal strings
+  value: string;
+  // 0–1; fields below LOW_CONFIDENCE_THRESHOLD should be checked by a person
+  confidence: number;
+}
+
+export interface ReceiptExtraction {
+  // What read the document, e.g. "UBL e-invoice" or "OCR (Gemini)"
+  source: string;
+  fields: Partial<Record<ReceiptField, ExtractedField>>;
+  warnings: string[];
+}
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const RECEIPT_FIELD_LABELS: Record<ReceiptField, string> = {
+  merchantName: 'Merchant Name',
+  vatRegNo: 'VAT Registration No.',
+  receiptNo: 'Receipt/Invoice No.',
+  purchaseDate: 'Purchase Date',
+  currency: 'Currency',
+  netAmount: 'Net Amount',
+  vatAmount: 'VAT Amount',
+  grossAmount: 'Total Bill Amount',
+};
+
+/**
+ * Whether an extracted field needs checking before it is relied on
+ * @param field - The field, if it was extracted at all
+ */
+export const isLowConfidence = (field?: ExtractedField): boolean => {
+  return !!field && field.confidence < LOW_CONFIDENCE_THRESHOLD;
+};
+
+// Result of recognising the text in an image or scanned document
+export interface OcrResult {
+  text: string;
+  // Overall confidence of the recognition, 0–1
+  confidence: number;
+}
+
+// Turns images and scanned documents into text
+export interface OcrProvider {
+  name: string;
+  recognize(file: File): Promise<OcrResult>;
+}
+
+// Reads a document into claim fields; returns null for documents it cannot
+// read so the next extractor can try
+export interface ReceiptExtractor {
+  name: string;
+  accepts(file: File): boolean;
+  extract(file: File): Promise<ReceiptExtraction | null>;
+}
+
+const roundConfidence = (value: number): number => Math.round(Math.min(Math.max(value, 0), 1) * 100) / 100;
+
+const fileExtension = (file: File): string => file.name.split('.').pop()?.toLowerCase() || '';
+
+const readAsBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * OCR provider backed by an HTTP service. The file is POSTed as the request
+ * body; the service answers with `{ text, confidence? }`.
+ * @param endpoint - URL of the OCR service
+ */
+export const createHttpOcrProvider = (endpoint: string): OcrProvider => ({
+  name: 'OCR service',
+  async recognize(file) {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file,
+    });
+    if (!response.ok) throw new Error(`OCR service returned ${response.status}`);
+    const result = await response.json();
+    return {
+      text: String(result.text || ''),
+      confidence: typeof result.confidence === 'number' ? result.confidence : 0.8,
+    };
+  },
+});
+
+/**
+ * OCR provider backed by Gemini's vision model
+ * @param apiKey - Google AI API key
+ */
+export const createGeminiOcrProvider = (apiKey: string): OcrProvider => {
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: 'gemini-1.5-flash' });
+  return {
+    name: 'Gemini',
+    async recognize(file) {
+      const result = await model.generateContent([
+        { inlineData: { data: await readAsBase64(file), mimeType: file.type || 'application/pdf' } },
+        'Transcribe all text on this receipt exactly as printed, line by line. ' +
+          'If it has a QR code, add its decoded content on the last line. Reply with the text only.',
+      ]);
+      // The model reports no confidence; transcriptions are usually good but
+      // can invent characters, so they stay below structured sources
+      return { text: result.response.text(), confidence: 0.8 };
+    },
+  };
+};
+
+const createDefaultOcrProvider = (): OcrProvider | null => {
+  if (ENV_CONFIG.ocr.endpoint) return createHttpOcrProvider(ENV_CONFIG.ocr.endpoint);
+  if (ENV_CONFIG.ai.googleApiKey) return createGeminiOcrProvider(ENV_CONFIG.ai.googleApiKey);
+  return null;
+};
+
+let activeOcrProvider: OcrProvider | null = createDefaultOcrProvider();
+
+/**
+ * Replaces the OCR provider; null disables OCR
+ * @param provider - The provider to use from now on
+ */
+export const setOcrProvider = (provider: OcrProvider | null): void => {
+  activeOcrProvider = provider;
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Parses a printed date. Numeric dates are read day first, as printed in
+ * the countries refunds are offered in; `ambiguous` is set when day and
+ * month could be swapped.
+ * @param text - Text containing a date
+ */
+export const parseReceiptDate = (text: string): { value: string; ambiguous: boolean } | null => {
+  let match = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) {
+    const value = isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    return value ? { value, ambiguous: false } : null;
+  }
+
+  match = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/);
+  if (match) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    // Only month first when the day first reading is impossible
+    const value = first <= 12 && second > 12 ? isoDate(year, first, second) : isoDate(year, second, first);
+    return value ? { value, ambiguous: first <= 12 && second <= 12 && first !== second } : null;
+  }
+
+  match = text.match(/\b(\d{1,2})\s+([A-Za-z]{3})[a-z]*\.?,?\s+(\d{4})/) ||
+    text.match(/\b([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})/);
+  if (match) {
+    const dayFirst = /^\d/.test(match[1]);
+    const month = MONTHS.indexOf((dayFirst ? match[2] : match[1]).toLowerCase()) + 1;
+    const day = Number(dayFirst ? match[1] : match[2]);
+    const value = month > 0 ? isoDate(Number(match[3]), month, day) : null;
+    return value ? { value, ambiguous: false } : null;
+  }
+  return null;
+};
+
+/**
+ * Parses a printed amount in either notation, e.g. "1,234.50" or "1.234,50"
+ * @param text - The amount, possibly with a currency code or symbol
+ * @returns A plain decimal string, or null when there is no amount
+ */
+export const parseReceiptAmount = (text: string): string | null => {
+  const number = text.replace(/[^\d.,-]/g, '').replace(/^[.,-]+|[.,]+$/g, '');
+  if (!/\d/.test(number)) return null;
+
+  const lastComma = number.lastIndexOf(',');
+  const lastDot = number.lastIndexOf('.');
+  let normalized: string;
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Whichever separator comes last is the decimal point
+    normalized = lastComma > lastDot
+      ? number.replace(/\./g, '').replace(',', '.')
+      : number.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    normalized = /,\d{1,2}$/.test(number) && number.split(',').length === 2
+      ? number.replace(',', '.')
+      : number.replace(/,/g, '');
+  } else {
+    // A lone dot before three digits groups thousands, e.g. "1.050"
+    normalized = number.split('.').length > 2 || /^-?\d{1,3}\.\d{3}$/.test(number) ? number.replace(/\./g, '') : number;
+  }
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? String(value) : null;
+};
+
+// Amounts on a line, ignoring percentages such as the VAT rate; the last one
+// is the line's amount
+const AMOUNT_PATTERN = /-?\d{1,3}(?:[.,]\d{3})+(?:[.,]\d{1,2})?(?!\d)|-?\d+(?:[.,]\d{1,2})?(?!\d)/g;
+
+const lineAmount = (line: string): string | null => {
+  const amounts = line.replace(/\d+(?:[.,]\d+)?\s*%/g, '').match(AMOUNT_PATTERN);
+  return amounts ? parseReceiptAmount(amounts[amounts.length - 1]) : null;
+};
+
+const LABELS = {
+  vatRegNo: /\b(vat\s*(reg(istration)?\.?\s*)?(no|number|#|id)|trn|tax\s*reg(istration)?\s*(no|number)?|tax\s*id|ust-?id(-?nr)?|n°\s*tva|tva\s*intracom\w*|p\.?\s*iva|nif|gst\s*reg(istration)?\s*(no|number)?)\b/i,
+  receiptNo: /\b(invoice|receipt|bill|facture|rechnung|ticket|factura|fattura)\s*(no\.?|number|num\.?|#|nr\.?|n°)\s*[:.]?\s*([A-Z0-9][A-Z0-9\-/]{2,})/i,
+  purchaseDate: /\b(date|datum|fecha|data|dated)\b/i,
+  netAmount: /\b(sub-?\s?total|net\s*(amount|total)?|total\s*excl\.?(uding)?\s*(vat|tax)|taxable\s*amount|total\s*ht|nettobetrag|imponibile|base\s*imponible)\b/i,
+  vatAmount: /\b(vat|tax|tva|mwst|ust|iva|gst)\b/i,
+  grossAmount: /\b(grand\s*total|total\s*amount|amount\s*due|total\s*due|total\s*incl\.?(uding)?\s*(vat|tax)|total\s*ttc|gesamtbetrag|bruttobetrag|totale|total)\b/i,
+};
+
+// Registration numbers recognisable without a label
+const VAT_NUMBER_PATTERNS = [
+  /\b(AT|BE|BG|HR|CY|CZ|DK|EE|FI|FR|DE|GR|EL|HU|IE|IT|LV|LT|LU|MT|NL|PL|PT|RO|SK|SI|ES|SE)[0-9A-Z]{8,12}\b/,
+  // UAE TRN and Saudi VAT numbers are 15 digits
+  /\b(100\d{12}|3\d{13}3)\b/,
+];
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '€': 'EUR', '£': 'GBP', 'S$': 'SGD', 'د.إ': 'AED', 'ر.س': 'SAR' };
+const CURRENCY_CODES = ['AED', 'SAR', 'EUR', 'GBP', 'SGD', 'USD', 'CHF', 'JPY', 'INR', 'CAD', 'AUD'];
+
+/**
+ * Reads claim fields out of receipt text using label heuristics
+ * @param text - Text of the receipt, from a PDF's text layer or OCR
+ * @param source - Name of what produced the text
+ * @param baseConfidence - How much the text itself can be trusted (1 for a
+ *   PDF text layer, the OCR confidence otherwise)
+ */
+export const parseReceiptText = (text: string, source: string, baseConfidence: number = 1): ReceiptExtraction => {
+  const qrInvoice = findTlvQrPayload(text);
+  if (qrInvoice) {
+    // The QR payload is authoritative; text around it only fills the gaps
+    const fromText = parseReceiptText(text.replace(/[A-Za-z0-9+/]{40,}={0,2}/g, ''), source, baseConfidence);
+    const fromQr = fromEInvoice(qrInvoice, `${source} + QR`, 0.95);
+    return { ...fromQr, fields: { ...fromText.fields, ...fromQr.fields } };
+  }
+
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const fields: ReceiptExtraction['fields'] = {};
+  const warnings: string[] = [];
+  const set = (field: ReceiptField, value: string, confidence: number) => {
+    if (!fields[field]) fields[field] = { value, confidence: roundConfidence(confidence * baseConfidence) };
+  };
+  // A labelled value may be printed on the line below its label
+  const valueNear = <T>(index: number, read: (line: string) => T | null): T | null => {
+    return read(lines[index]) || (lines[index + 1] ? read(lines[index + 1]) : null);
+  };
+  // Amounts are only taken from the next line when it holds nothing else,
+  // so a heading such as "Tax Invoice" does not claim the amount below it
+  const amountNear = (index: number): string | null => {
+    const next = lines[index + 1];
+    const nextIsAmount = !!next && !/[A-Za-z]/.test(next.replace(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`, 'g'), ''));
+    return lineAmount(lines[index]) || (nextIsAmount ? lineAmount(next) : null);
+  };
+
+  lines.forEach((line, index) => {
+    const vatRegLabel = line.match(LABELS.vatRegNo);
+    if (vatRegLabel) {
+      const afterLabel = line.slice((vatRegLabel.index || 0) + vatRegLabel[0].length);
+      const number = valueNear(index, candidate =>
+        (candidate === line ? afterLabel : candidate).match(/\b[A-Z]{0,2}\d[\dA-Z]{6,16}\b/)?.[0] || null
+      );
+      if (number) set('vatRegNo', number, 0.85);
+      return;
+    }
+
+    const receiptNo = line.match(LABELS.receiptNo);
+    if (receiptNo) {
+      set('receiptNo', receiptNo[3], 0.85);
+    }
+
+    if (LABELS.purchaseDate.test(line)) {
+      const date = valueNear(index, parseReceiptDate);
+      if (date) set('purchaseDate', date.value, date.ambiguous ? 0.6 : 0.85);
+    }
+
+    // Net is checked before VAT ("Total excl. VAT") and VAT before gross
+    // ("Total VAT"), so each line feeds at most one amount
+    if (LABELS.netAmount.test(line)) {
+      const amount = amountNear(index);
+      if (amount) set('netAmount', amount, 0.8);
+    } else if (LABELS.vatAmount.test(line) && !/\bincl/i.test(line)) {
+      const amount = amountNear(index);
+      if (amount) set('vatAmount', amount, 0.8);
+    } else if (LABELS.grossAmount.test(line)) {
+      const amount = amountNear(index);
+      if (amount) set('grossAmount', amount, 0.8);
+    }
+  });
+
+  if (!fields.vatRegNo) {
+    for (const pattern of VAT_NUMBER_PATTERNS) {
+      const match = text.match(pattern);
+      if (match) {
+        set('vatRegNo', match[0], 0.6);
+        break;
+      }
+    }
+  }
+
+  if (!fields.purchaseDate) {
+    const date = parseReceiptDate(text);
+    if (date) set('purchaseDate', date.value, date.ambiguous ? 0.45 : 0.6);
+  }
+
+  const code = CURRENCY_CODES.find(candidate => new RegExp(`\\b${candidate}\\b`).test(text));
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(candidate => text.includes(candidate));
+  if (code) set('currency', code, 0.8);
+  else if (symbol) set('currency', CURRENCY_SYMBOLS[symbol], 0.7);
+
+  // Receipts usually open with the merchant's name
+  const merchant = lines.find(line =>
+    /[A-Za-z]{3}/.test(line) && !Object.values(LABELS).some(label => label.test(line)) && !parseReceiptDate(line)
+  );
+  if (merchant) set('merchantName', merchant, 0.5);
+
+  if (Object.keys(fields).length === 0) warnings.push('No receipt details were found in the document');
+  return reconcileAmounts({ source, fields, warnings });
+};
+
+// Structured invoices write amounts as plain decimals, which may have more
+// than two decimals
+const plainAmount = (value?: string): string | null => {
+  return value && /^-?\d+(\.\d+)?$/.test(value.trim()) ? String(Number(value)) : null;
+};
+
+// Structured invoices state their fields explicitly
+const fromEInvoice = (invoice: EInvoiceData, source: string, confidence: number): ReceiptExtraction => {
+  const fields: ReceiptExtraction['fields'] = {};
+  const set = (field: ReceiptField, value: string | null | undefined) => {
+    if (value) fields[field] = { value, confidence };
+  };
+
+  set('merchantName', invoice.sellerName);
+  set('vatRegNo', invoice.vatRegNo);
+  set('receiptNo', invoice.invoiceNo);
+  set('purchaseDate', invoice.issueDate && parseReceiptDate(invoice.issueDate)?.value);
+  set('currency', invoice.currency);
+  set('netAmount', plainAmount(invoice.netAmount));
+  set('vatAmount', plainAmount(invoice.vatAmount));
+  set('grossAmount', plainAmount(invoice.grossAmount));
+
+  return reconcileAmounts({ source, fields, warnings: [] });
+};
+
+/**
+ * Cross-checks net + VAT = gross. A missing amount is derived from the other
+ * two; amounts that agree gain confidence and amounts that disagree lose it.
+ * @param extraction - Extraction to check
+ */
+export const reconcileAmounts = (extraction: ReceiptExtraction): ReceiptExtraction => {
+  const fields = { ...extraction.fields };
+  const warnings = [...extraction.warnings];
+  const { netAmount: net, vatAmount: vat, grossAmount: gross } = fields;
+  const toCents = (field: ExtractedField) => Math.round(Number(field.value) * 100);
+  const fromCents = (cents: number) => String(cents / 100);
+
+  if (net && vat && gross) {
+    if (Math.abs(toCents(net) + toCents(vat) - toCents(gross)) <= 1) {
+      for (const field of ['netAmount', 'vatAmount', 'grossAmount'] as const) {
+        const current = fields[field] as ExtractedField;
+        fields[field] = { ...current, confidence: roundConfidence(Math.max(current.confidence, 0.9)) };
+      }
+    } else {
+      warnings.push('Net amount plus VAT does not match the total');
+      fields.vatAmount = { ...vat, confidence: Math.min(vat.confidence, 0.5) };
+      fields.grossAmount = { ...gross, confidence: Math.min(gross.confidence, 0.5) };
+    }
+  } else if (net && vat) {
+    fields.grossAmount = { value: fromCents(toCents(net) + toCents(vat)), confidence: roundConfidence(Math.min(net.confidence, vat.confidence) * 0.9) };
+  } else if (net && gross) {
+    fields.vatAmount = { value: fromCents(toCents(gross) - toCents(net)), confidence: roundConfidence(Math.min(net.confidence, gross.confidence) * 0.9) };
+  } else if (vat && gross) {
+    fields.netAmount = { value: fromCents(toCents(gross) - toCents(vat)), confidence: roundConfidence(Math.min(vat.confidence, gross.confidence) * 0.9) };
+  }
+
+  return { ...extraction, fields, warnings };
+};
+
+const recognize = async (file: File): Promise<ReceiptExtraction> => {
+  if (!activeOcrProvider) {
+    return {
+      source: 'OCR',
+      fields: {},
+      warnings: ['No OCR service is configured to read images; enter the receipt details manually'],
+    };
+  }
+  const result = await activeOcrProvider.recognize(file);
+  return parseReceiptText(result.text, `OCR (${activeOcrProvider.name})`, result.confidence);
+};
+
+const xmlExtractor: ReceiptExtractor = {
+  name: 'E-invoice XML',
+  accepts: file => fileExtension(file) === 'xml' || /xml/.test(file.type),
+  async extract(file) {
+    const invoice = parseUblInvoice(await file.text());
+    return invoice ? fromEInvoice(invoice, 'UBL e-invoice', 0.98) : null;
+  },
+};
+
+const pdfExtractor: ReceiptExtractor = {
+  name: 'PDF',
+  accepts: file => fileExtension(file) === 'pdf' || file.type === 'application/pdf',
+  async extract(file) {
+    const text = await extractPdfText(await file.arrayBuffer());
+    // Scanned PDFs have no text layer
+    if (!text.trim()) return recognize(file);
+    return parseReceiptText(text, 'PDF text');
+  },
+};
+
+const textExtractor: ReceiptExtractor = {
+  name: 'Text',
+  accepts: file => fileExtension(file) === 'txt' || file.type === 'text/plain',
+  async extract(file) {
+    return parseReceiptText(await file.text(), 'Text');
+  },
+};
+
+const imageExtractor: ReceiptExtractor = {
+  name: 'Image',
+  accepts: file => file.type.startsWith('image/') || ['jpg', 'jpeg', 'png', 'webp'].includes(fileExtension(file)),
+  extract: recognize,
+};
+
+let extractors: ReceiptExtractor[] = [xmlExtractor, pdfExtractor, textExtractor, imageExtractor];
+
+/**
+ * Adds an extractor, e.g. for another e-invoice format. It is tried before
+ * the built-in ones.
+ * @param extractor - The extractor to add
+ */
+export const registerReceiptExtractor = (extractor: ReceiptExtractor): void => {
+  extractors = [extractor, ...extractors.filter(existing => existing.name !== extractor.name)];
+};
+
+/**
+ * Reads a receipt document into claim fields with the first extractor that
+ * accepts the file and can read it
+ * @param file - The uploaded document
+ */
+export const extractReceipt = async (file: File): Promise<ReceiptExtraction> => {
+  const warnings: string[] = [];
+  for (const extractor of extractors.filter(candidate => candidate.accepts(file))) {
+    try {
+      const extraction = await extractor.extract(file);
+      if (extraction && Object.keys(extraction.fields).length > 0) return extraction;
+      if (extraction) warnings.push(...extraction.warnings);
+    } catch (error) {
+      console.error(`${extractor.name} extraction failed:`, error);
+      warnings.push(`Could not read the document as ${extractor.name}`);
+    }
+  }
+  if (warnings.length === 0) warnings.push(`${file.name} is not a supported document type`);
+  return { source: 'None', fields: {}, warnings: [...new Set(warnings)] };
+};
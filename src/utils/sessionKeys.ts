@@ -0,0 +1,304 @@
+/**
+ * Session key utilities for Revatix
+ * Ephemeral secp256k1 keys that sign channel states on a wallet's behalf.
+ * The wallet authorises each key once with an EIP-712 signature naming what
+ * the key may do: which channel operations, how much of each token it may
+ * pay out, to whom, and until when.
+ */
+
+import { getStateHash, SessionKeyStateSigner, StateIntent, type StateSigner, type UnsignedState } from '@erc7824/nitrolite';
+import {
+  bytesToHex,
+  hexToBigInt,
+  recoverTypedDataAddress,
+  type Address,
+  type Hex,
+  type TypedDataDefinition
+} from 'viem';
+import { privateKeyToAddress } from 'viem/accounts';
+import { SUPPORTED_TOKENS } from './money';
+
+export type SessionOperation = 'open_channel' | 'submit_state' | 'close_channel' | 'checkpoint' | 'challenge';
+
+export const SESSION_OPERATIONS: SessionOperation[] = ['open_channel', 'submit_state', 'close_channel', 'checkpoint', 'challenge'];
+
+export interface SessionScope {
+  operations: SessionOperation[];
+  // Most the key may pay out per token symbol, in base units
+  allowances: Record<string, bigint>;
+  // Wallets the key may pay; nobody else can receive funds through it
+  recipients: Address[];
+  // Unix seconds
+  expiresAt: number;
+}
+
+export interface SessionAuthorization {
+  wallet: Address;
+  sessionKey: Address;
+  scope: SessionScope;
+  // Unix seconds
+  issuedAt: number;
+  chainId: number;
+  // The wallet's EIP-712 signature over everything above
+  signature: Hex;
+}
+
+// What an operation moves, for the scope checks
+export interface SessionOperationDetails {
+  token?: string;
+  amount?: bigint;
+  recipient?: Address;
+}
+
+const SECP256K1_ORDER = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+const SESSION_AUTHORIZATION_TYPES = {
+  Allowance: [
+    { name: 'token', type: 'string' },
+    { name: 'cap', type: 'uint256' }
+  ],
+  SessionAuthorization: [
+    { name: 'wallet', type: 'address' },
+    { name: 'sessionKey', type: 'address' },
+    { name: 'operations', type: 'string[]' },
+    { name: 'allowances', type: 'Allowance[]' },
+    { name: 'recipients', type: 'address[]' },
+    { name: 'expiresAt', type: 'uint64' },
+    { name: 'issuedAt', type: 'uint64' }
+  ]
+} as const;
+
+/**
+ * A new session private key from the browser's cryptographic random source
+ */
+export const generateSessionPrivateKey = (): Hex => {
+  // Out-of-range values are vanishingly rare, but must not become keys
+  for (;;) {
+    const key = bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+    const value = hexToBigInt(key);
+    if (value > 0n && value < SECP256K1_ORDER) return key;
+  }
+};
+
+/**
+ * The session key's address
+ * @param privateKey - The session private key
+ */
+export const getSessionKeyAddress = (privateKey: Hex): Address => privateKeyToAddress(privateKey);
+
+/**
+ * The typed data the wallet signs to authorise a session key
+ * @param authorization - The authorization, without its signature
+ */
+export const buildSessionTypedData = (
+  authorization: Omit<SessionAuthorization, 'signature'>
+): TypedDataDefinition<typeof SESSION_AUTHORIZATION_TYPES, 'SessionAuthorization'> => ({
+  domain: { name: 'Revatix', version: '1', chainId: authorization.chainId },
+  types: SESSION_AUTHORIZATION_TYPES,
+  primaryType: 'SessionAuthorization',
+  message: {
+    wallet: authorization.wallet,
+    sessionKey: authorization.sessionKey,
+    operations: [...authorization.scope.operations],
+    // Sorted so the same scope always hashes the same
+    allowances: Object.keys(authorization.scope.allowances)
+      .sort()
+      .map(token => ({ token, cap: authorization.scope.allowances[token] })),
+    recipients: [...authorization.scope.recipients],
+    expiresAt: BigInt(authorization.scope.expiresAt),
+    issuedAt: BigInt(authorization.issuedAt)
+  }
+});
+
+/**
+ * Whether the authorization was signed by the wallet it names
+ * @param authorization - The signed authorization
+ */
+export const verifySessionAuthorization = async (authorization: SessionAuthorization): Promise<boolean> => {
+  try {
+    const signer = await recoverTypedDataAddress({
+      ...buildSessionTypedData(authorization),
+      signature: authorization.signature
+    });
+    return signer.toLowerCase() === authorization.wallet.toLowerCase();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks one operation against a session's scope
+ * @param authorization - The session's authorization
+ * @param operation - The operation about to run
+ * @param spent - Amounts already paid out under the session, per token symbol
+ * @param details - Token, amount and recipient the operation moves
+ * @param now - Current time in milliseconds
+ * @returns An error message, or null when the scope allows the operation
+ */
+export const checkSessionScope = (
+  authorization: SessionAuthorization,
+  operation: SessionOperation,
+  spent: Record<string, bigint>,
+  details: SessionOperationDetails = {},
+  now: number = Date.now()
+): string | null => {
+  const { scope } = authorization;
+  if (now >= scope.expiresAt * 1000) return 'The session key has expired';
+  if (!scope.operations.includes(operation)) return `The session key may not ${operation.replace('_', ' ')}`;
+
+  if (details.recipient && !scope.recipients.some(recipient => recipient.toLowerCase() === details.recipient!.toLowerCase())) {
+    return `The session key may not pay ${details.recipient}`;
+  }
+
+  if (details.token && details.amount !== undefined) {
+    const cap = scope.allowances[details.token];
+    if (cap === undefined) return `The session key may not move ${details.token}`;
+    const remaining = cap - (spent[details.token] || 0n);
+    if (details.amount > remaining) return `The amount exceeds the session's remaining ${details.token} allowance`;
+  }
+  return null;
+};
+
+const getTokenSymbol = (token: Address): string => {
+  const symbol = Object.keys(SUPPORTED_TOKENS).find(candidate => SUPPORTED_TOKENS[candidate].address.toLowerCase() === token.toLowerCase());
+  if (!symbol) throw new Error(`Unknown token ${token}`);
+  return symbol;
+};
+
+/**
+ * The payments a state makes over the one before it: every allocation after
+ * the funder's that grew
+ * @param previous - The channel's previous state
+ * @param next - The proposed state
+ */
+export const getStatePayments = (
+  previous: UnsignedState,
+  next: UnsignedState
+): Array<{ token: string; amount: bigint; recipient: Address }> => {
+  return next.allocations.slice(1).flatMap(allocation => {
+    const before = previous.allocations.find(candidate =>
+      candidate.destination.toLowerCase() === allocation.destination.toLowerCase()
+      && candidate.token.toLowerCase() === allocation.token.toLowerCase());
+    const amount = allocation.amount - (before?.amount || 0n);
+    return amount > 0n ? [{ token: getTokenSymbol(allocation.token), amount, recipient: allocation.destination }] : [];
+  });
+};
+
+/**
+ * Checks the payments a state makes against a session's scope
+ * @param authorization - The session's authorization
+ * @param payments - The state's payments, from getStatePayments
+ * @param spent - Amounts already paid out under the session, per token symbol
+ * @returns An error message, or null when every payment is allowed
+ */
+export const checkSessionPayments = (
+  authorization: SessionAuthorization,
+  payments: Array<{ token: string; amount: bigint; recipient: Address }>,
+  spent: Record<string, bigint>
+): string | null => {
+  const totals: Record<string, bigint> = {};
+  for (const payment of payments) {
+    totals[payment.token] = (totals[payment.token] || 0n) + payment.amount;
+    const error = checkSessionScope(authorization, 'submit_state', spent, { recipient: payment.recipient });
+    if (error) return error;
+  }
+  for (const [token, amount] of Object.entries(totals)) {
+    const error = checkSessionScope(authorization, 'submit_state', spent, { token, amount });
+    if (error) return error;
+  }
+  return null;
+};
+
+// Signs channel states with a session key, refusing any state its scope does
+// not allow. Payments are worked out from the difference to the last state
+// the counterparty accepted on the channel, so it must sign every state of a
+// channel it opens. A signed state only counts once it is committed, after
+// the counterparty has countersigned it; a refused state spends nothing.
+export class ScopedSessionSigner implements StateSigner {
+  readonly authorization: SessionAuthorization;
+  private signer: SessionKeyStateSigner;
+  private getSpent: () => Record<string, bigint>;
+  private recordSpend: (token: string, amount: bigint) => void;
+  private lastAccepted: Map<string, UnsignedState> = new Map();
+  private pending: Map<string, { state: UnsignedState; payments: Array<{ token: string; amount: bigint }> }> = new Map();
+
+  constructor(
+    privateKey: Hex,
+    authorization: SessionAuthorization,
+    getSpent: () => Record<string, bigint>,
+    recordSpend: (token: string, amount: bigint) => void
+  ) {
+    this.signer = new SessionKeyStateSigner(privateKey);
+    this.authorization = authorization;
+    this.getSpent = getSpent;
+    this.recordSpend = recordSpend;
+  }
+
+  getAddress(): Address {
+    return this.signer.getAddress();
+  }
+
+  private assertAllowed(operation: SessionOperation, details?: SessionOperationDetails) {
+    const error = checkSessionScope(this.authorization, operation, this.getSpent(), details);
+    if (error) throw new Error(error);
+  }
+
+  async signState(channelId: Hex, state: UnsignedState): Promise<Hex> {
+    const previous = this.lastAccepted.get(channelId);
+    let payments: Array<{ token: string; amount: bigint; recipient: Address }> = [];
+
+    if (state.intent === StateIntent.INITIALIZE) {
+      this.assertAllowed('open_channel');
+      // A channel cannot lock more than the session may pay out
+      const locked: Record<string, bigint> = {};
+      state.allocations.forEach(allocation => {
+        const token = getTokenSymbol(allocation.token);
+        locked[token] = (locked[token] || 0n) + allocation.amount;
+      });
+      Object.entries(locked).forEach(([token, amount]) => this.assertAllowed('open_channel', { token, amount }));
+    } else {
+      if (!previous) throw new Error('The session key did not sign this channel\'s earlier states');
+
+      if (state.intent === StateIntent.OPERATE) {
+        this.assertAllowed('submit_state');
+        payments = getStatePayments(previous, state);
+        const error = checkSessionPayments(this.authorization, payments, this.getSpent());
+        if (error) throw new Error(error);
+      } else if (state.intent === StateIntent.FINALIZE) {
+        this.assertAllowed('close_channel');
+        const unchanged = state.allocations.length === previous.allocations.length
+          && state.allocations.every((allocation, index) => allocation.amount === previous.allocations[index].amount
+            && allocation.destination.toLowerCase() === previous.allocations[index].destination.toLowerCase());
+        if (!unchanged) throw new Error('A session key may only close a channel with its latest allocations');
+      } else {
+        throw new Error('Session keys cannot resize channels');
+      }
+    }
+
+    const signature = await this.signer.signState(channelId, { ...state, sigs: [] });
+    // Replaces any earlier state that was signed but never committed
+    this.pending.set(channelId, { state, payments });
+    return signature;
+  }
+
+  /**
+   * Records a signed state once the counterparty has countersigned it: its
+   * payments count against the allowances and later states are checked
+   * against it
+   * @param channelId - The channel the state belongs to
+   * @param state - The countersigned state
+   */
+  commitState(channelId: Hex, state: UnsignedState): void {
+    const pending = this.pending.get(channelId);
+    if (!pending || getStateHash(channelId, pending.state) !== getStateHash(channelId, state)) {
+      throw new Error('The session key did not sign this state');
+    }
+    this.pending.delete(channelId);
+    this.lastAccepted.set(channelId, pending.state);
+    pending.payments.forEach(payment => this.recordSpend(payment.token, payment.amount));
+  }
+
+  async signRawMessage(): Promise<Hex> {
+    throw new Error('Session keys only sign channel states');
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * VAT claim link utilities for Revatix
+ * Builds and reads the traveller portal's links: the operator's public
+ * submission link, and each claim's private status link. A status link
+ * carries a random access token in its fragment, so it never reaches a
+ * server log; only the token's SHA-256 is stored with the claim.
+ */
+
+export type TravellerPortalRoute =
+  | { view: 'submit'; operator: string }
+  | { view: 'status'; operator: string; claimId: string; token: string };
+
+export const TRAVELLER_PORTAL_PATH = '/claim';
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Creates a claim's access token: 256 random bits, base64url encoded
+ */
+export const createClaimAccessToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Hashes an access token for storage, as lowercase hex SHA-256 (the same
+ * digest the database computes for portal lookups)
+ * @param token - The access token
+ */
+export const hashClaimAccessToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+};
+
+/**
+ * Checks a token against a stored hash without exiting early on a mismatch
+ * @param token - Token from the link
+ * @param storedHash - Hash kept with the claim
+ */
+export const verifyClaimAccessToken = async (token: string, storedHash: string | undefined): Promise<boolean> => {
+  if (!token || !storedHash) return false;
+  const hash = await hashClaimAccessToken(token);
+  if (hash.length !== storedHash.length) return false;
+  let difference = 0;
+  for (let i = 0; i < hash.length; i++) difference |= hash.charCodeAt(i) ^ storedHash.charCodeAt(i);
+  return difference === 0;
+};
+
+/**
+ * The operator's public link where travellers submit claims
+ * @param origin - App origin, e.g. window.location.origin
+ * @param operator - Operator wallet the claims are filed with
+ */
+export const buildTravellerPortalLink = (origin: string, operator: string): string => {
+  return `${origin}${TRAVELLER_PORTAL_PATH}?operator=${encodeURIComponent(operator)}`;
+};
+
+/**
+ * A claim's private status link
+ * @param origin - App origin, e.g. window.location.origin
+ * @param operator - Operator wallet the claim is filed with
+ * @param claimId - The claim
+ * @param token - The claim's access token
+ */
+export const buildClaimStatusLink = (origin: string, operator: string, claimId: string, token: string): string => {
+  const query = `operator=${encodeURIComponent(operator)}&claim=${encodeURIComponent(claimId)}`;
+  return `${origin}${TRAVELLER_PORTAL_PATH}/status?${query}#${token}`;
+};
+
+/**
+ * Reads the traveller portal route from a location
+ * @param location - The current location
+ * @returns The route, or null when the location is not a portal page
+ */
+export const parseTravellerPortalRoute = (
+  location: Pick<Location, 'pathname' | 'search' | 'hash'>
+): TravellerPortalRoute | null => {
+  const path = location.pathname.replace(/\/+$/, '');
+  if (path !== TRAVELLER_PORTAL_PATH && path !== `${TRAVELLER_PORTAL_PATH}/status`) return null;
+
+  const params = new URLSearchParams(location.search);
+  const operator = params.get('operator') || '';
+  if (path === TRAVELLER_PORTAL_PATH) return { view: 'submit', operator };
+
+  return {
+    view: 'status',
+    operator,
+    claimId: params.get('claim') || '',
+    token: location.hash.replace(/^#/, ''),
+  };
+};
@@ -0,0 +1,172 @@
+/**
+ * VAT claim utilities for Revatix
+ * Lifecycle rules for traveller VAT refund claims
+ */
+
+import type { FxRate, VATClaim, VATClaimStatus } from '../lib/supabase';
+import { convertFiatToToken } from './fx';
+import { fromStoredAmount, toNumber, type TokenAmount } from './money';
+import {
+  assessVATClaimRisk,
+  computeClaimFingerprint,
+  DEFAULT_VAT_RISK_POLICY,
+  needsVATClaimReview,
+  type VATRiskPolicy
+} from './vatFraud';
+import { evaluateVATClaim, type VATRules } from './vatRules';
+
+// Allowed lifecycle transitions. Risky claims wait in review for an
+// operator's decision, or for documents the operator asked for; a claim is
+// reserved by its settlement batch while its payout is sent; a failed payout
+// can be retried; rejected and paid claims are final.
+export const VAT_CLAIM_TRANSITIONS: Record<VATClaimStatus, VATClaimStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['approved', 'rejected', 'in_review'],
+  in_review: ['approved', 'rejected', 'needs_info'],
+  // Back in review once the traveller sends the documents
+  needs_info: ['in_review', 'approved', 'rejected'],
+  approved: ['settling', 'paid', 'failed'],
+  rejected: [],
+  settling: ['paid', 'failed'],
+  paid: [],
+  failed: ['settling', 'paid', 'failed'],
+};
+
+export const VAT_CLAIM_STATUS_LABELS: Record<VATClaimStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  in_review: 'In Review',
+  needs_info: 'Needs Documents',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  settling: 'Settling',
+  paid: 'Paid',
+  failed: 'Payout Failed',
+};
+
+/**
+ * Sets the payout of a claim, exactly and as its display copy; no amount
+ * clears it
+ * @param amount - Refund in the claim's payout token
+ */
+export const withPayoutAmount = (amount?: TokenAmount): Pick<VATClaim, 'payout_amount' | 'payout_amount_base_units' | 'payout_token_decimals'> => ({
+  payout_amount: amount ? toNumber(amount) : undefined,
+  payout_amount_base_units: amount?.units.toString(),
+  payout_token_decimals: amount?.decimals,
+});
+
+/**
+ * Reads the payout of a claim, or null when it has none
+ * @param claim - The claim
+ */
+export const getVATPayoutAmount = (claim: VATClaim): TokenAmount | null => {
+  if (claim.payout_amount === undefined || claim.payout_amount === null) return null;
+  return fromStoredAmount({
+    amount: claim.payout_amount,
+    token: claim.payout_token,
+    amount_base_units: claim.payout_amount_base_units,
+    token_decimals: claim.payout_token_decimals
+  });
+};
+
+/**
+ * Decides a submitted claim: claims failing the rules are rejected, eligible
+ * claims that look risky (duplicates, implausible VAT, high volume) wait in
+ * review, and the rest are approved with their payout fixed at `fxRate`
+ * @param submitted - The claim, in `submitted` status
+ * @param existingClaims - The operator's other claims, for the risk checks
+ * @param rules - Rules keyed by country of purchase
+ * @param fxRate - Payout token's price in the claim currency; needed when eligible
+ * @param policy - Risk thresholds
+ * @param now - Decision time (ISO)
+ */
+export const decideVATClaim = (
+  submitted: VATClaim,
+  existingClaims: VATClaim[],
+  rules: VATRules,
+  fxRate?: FxRate,
+  policy: VATRiskPolicy = DEFAULT_VAT_RISK_POLICY,
+  now: string = new Date().toISOString()
+): VATClaim => {
+  const today = now.split('T')[0];
+  const eligibility = evaluateVATClaim(submitted, rules, today);
+  if (eligibility.eligible && (!fxRate || fxRate.currency !== eligibility.currency || fxRate.token !== submitted.payout_token)) {
+    throw new Error(`A ${submitted.payout_token} rate in ${eligibility.currency} is needed to pay this claim`);
+  }
+
+  const assessed: VATClaim = {
+    ...submitted,
+    currency: eligibility.currency || submitted.currency,
+    refundable_amount: eligibility.refundableAmount,
+    commission_amount: eligibility.commissionAmount,
+    fingerprint: computeClaimFingerprint(submitted)
+  };
+  const risk = assessVATClaimRisk(assessed, existingClaims, rules, policy, today);
+
+  const status = !eligibility.eligible ? 'rejected' : needsVATClaimReview(risk, policy) ? 'in_review' : 'approved';
+  assertVATClaimTransition(submitted, status);
+  return {
+    ...assessed,
+    status,
+    rejection_reasons: eligibility.eligible ? undefined : eligibility.reasons,
+    ...withPayoutAmount(eligibility.eligible && fxRate ? convertFiatToToken(eligibility.refundableAmount, fxRate) : undefined),
+    fx_rate: eligibility.eligible ? fxRate : undefined,
+    risk_score: risk.score,
+    risk_flags: risk.flags,
+    decided_at: status === 'in_review' ? undefined : now
+  };
+};
+
+/**
+ * Checks whether a claim may move from one status to another
+ * @param from - Current status
+ * @param to - Requested status
+ */
+export const canTransitionVATClaim = (from: VATClaimStatus, to: VATClaimStatus): boolean => {
+  return VAT_CLAIM_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Throws when a claim may not move to the requested status
+ * @param claim - The claim to check
+ * @param to - Requested status
+ */
+export const assertVATClaimTransition = (claim: VATClaim, to: VATClaimStatus): void => {
+  if (!canTransitionVATClaim(claim.status, to)) {
+    throw new Error(`VAT claim ${claim.id} cannot move from ${claim.status} to ${to}`);
+  }
+};
+
+// Statuses an operator still has to decide on
+export const VAT_CLAIM_REVIEW_STATUSES: VATClaimStatus[] = ['submitted', 'in_review', 'needs_info'];
+
+export interface VATClaimFilters {
+  status?: VATClaimStatus | 'all';
+  country?: string;
+  // Case-insensitive match on merchant name or VAT number
+  merchant?: string;
+  // Bounds on the refundable amount, in each claim's own currency
+  minAmount?: number;
+  maxAmount?: number;
+  // Only claims scoring at least this much
+  minRiskScore?: number;
+}
+
+/**
+ * Narrows claims to those matching every filter that is set
+ * @param claims - Claims to filter
+ * @param filters - The operator's filters
+ */
+export const filterVATClaims = (claims: VATClaim[], filters: VATClaimFilters): VATClaim[] => {
+  const merchant = (filters.merchant || '').trim().toLowerCase();
+  return claims.filter(claim =>
+    (!filters.status || filters.status === 'all' || claim.status === filters.status) &&
+    (!filters.country || claim.country === filters.country) &&
+    (!merchant ||
+      claim.merchant_name.toLowerCase().includes(merchant) ||
+      claim.vat_reg_no.toLowerCase().includes(merchant)) &&
+    (filters.minAmount === undefined || claim.refundable_amount >= filters.minAmount) &&
+    (filters.maxAmount === undefined || claim.refundable_amount <= filters.maxAmount) &&
+    (!filters.minRiskScore || (claim.risk_score ?? 0) >= filters.minRiskScore)
+  );
+};
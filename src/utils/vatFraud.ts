@@ -0,0 +1,164 @@
+/**
+ * VAT fraud utilities for Revatix
+ * Fingerprints claims and documents, and scores new claims against the
+ * operator's earlier claims so suspicious ones go to manual review
+ */
+
+import { keccak256, stringToBytes, type Hex } from 'viem';
+import type { VATClaim, VATRiskFlag } from '../lib/supabase';
+import { daysBetween, DEFAULT_VAT_RULES, type VATRules } from './vatRules';
+
+export interface VATRiskPolicy {
+  // Window, in days, over which claims per passport are counted
+  periodDays: number;
+  maxClaimsPerPassport: number;
+  // Share of the standard-rate VAT a receipt may exceed before it is flagged
+  vatTolerance: number;
+  // Claims scoring at least this much wait for manual review
+  reviewThreshold: number;
+}
+
+export const DEFAULT_VAT_RISK_POLICY: VATRiskPolicy = {
+  periodDays: 30,
+  maxClaimsPerPassport: 5,
+  vatTolerance: 0.02,
+  reviewThreshold: 40,
+};
+
+export interface VATRiskAssessment {
+  score: number;
+  flags: VATRiskFlag[];
+}
+
+// Identifiers compared without spacing, punctuation or case
+const normalizeId = (value: string | undefined): string => (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Fingerprints the receipt a claim is made on. Claims on the same receipt get
+ * the same fingerprint however the numbers were typed.
+ * @param claim - Merchant VAT number, receipt number, amount and date
+ */
+export const computeClaimFingerprint = (
+  claim: Pick<VATClaim, 'vat_reg_no' | 'receipt_no' | 'bill_amount' | 'purchase_date'>
+): Hex => {
+  return keccak256(stringToBytes(JSON.stringify([
+    normalizeId(claim.vat_reg_no),
+    normalizeId(claim.receipt_no),
+    Math.round(claim.bill_amount * 100),
+    (claim.purchase_date || '').slice(0, 10),
+  ])));
+};
+
+/**
+ * Hashes an uploaded document, so the same file is recognised when it is
+ * submitted again
+ * @param file - The document
+ * @returns SHA-256 of the file's bytes as 0x-prefixed hex
+ */
+export const hashDocument = async (file: Blob): Promise<Hex> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+  return `0x${Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Scores a new claim against the rules and earlier claims. Rejected claims
+ * are ignored when looking for duplicates, so a corrected resubmission of a
+ * rejected receipt is not flagged.
+ * @param claim - The claim being submitted
+ * @param existingClaims - The operator's earlier claims
+ * @param rules - Rules keyed by country of purchase
+ * @param policy - Thresholds for the volume and VAT checks
+ * @param today - Claim date (YYYY-MM-DD)
+ */
+export const assessVATClaimRisk = (
+  claim: Pick<
+    VATClaim,
+    'id' | 'country' | 'bill_amount' | 'vat_amount' | 'purchase_date' | 'departure_date'
+    | 'passport_no' | 'fingerprint' | 'document_hash'
+  >,
+  existingClaims: VATClaim[],
+  rules: VATRules = DEFAULT_VAT_RULES,
+  policy: VATRiskPolicy = DEFAULT_VAT_RISK_POLICY,
+  today: string = new Date().toISOString().split('T')[0]
+): VATRiskAssessment => {
+  const flags: VATRiskFlag[] = [];
+  const others = existingClaims.filter(existing => existing.id !== claim.id && existing.status !== 'rejected');
+
+  const sameReceipt = others.filter(existing => existing.fingerprint === claim.fingerprint);
+  if (sameReceipt.length > 0) {
+    flags.push({
+      rule: 'duplicate_receipt',
+      message: `This receipt was already claimed ${sameReceipt.length === 1 ? 'once' : `${sameReceipt.length} times`}`,
+      weight: 100,
+      related_claim_ids: sameReceipt.map(existing => existing.id),
+    });
+  }
+
+  if (claim.document_hash) {
+    const sameDocument = others.filter(existing =>
+      existing.document_hash === claim.document_hash && existing.fingerprint !== claim.fingerprint
+    );
+    if (sameDocument.length > 0) {
+      flags.push({
+        rule: 'duplicate_document',
+        message: 'The same document was uploaded for a claim with different receipt details',
+        weight: 100,
+        related_claim_ids: sameDocument.map(existing => existing.id),
+      });
+    }
+  }
+
+  const countryRules = rules[claim.country];
+  if (countryRules && claim.bill_amount > 0) {
+    // The most VAT a VAT-inclusive total can carry at the standard rate
+    const maxVat = claim.bill_amount * countryRules.vatRate / (1 + countryRules.vatRate);
+    if (claim.vat_amount > maxVat * (1 + policy.vatTolerance) + 0.01) {
+      flags.push({
+        rule: 'vat_mismatch',
+        message: `VAT of ${claim.vat_amount} is more than ${(countryRules.vatRate * 100).toFixed(0)}% of the net amount (at most ${maxVat.toFixed(2)})`,
+        weight: 50,
+      });
+    }
+  }
+
+  if (claim.purchase_date && claim.departure_date && daysBetween(claim.purchase_date, claim.departure_date) < 0) {
+    flags.push({
+      rule: 'purchase_after_departure',
+      message: `Purchased on ${claim.purchase_date}, after the departure on ${claim.departure_date}`,
+      weight: 60,
+    });
+  }
+
+  const passport = normalizeId(claim.passport_no);
+  if (passport) {
+    const recent = others.filter(existing =>
+      normalizeId(existing.passport_no) === passport &&
+      daysBetween(existing.submitted_at || existing.created_at, today) < policy.periodDays
+    );
+    if (recent.length + 1 > policy.maxClaimsPerPassport) {
+      flags.push({
+        rule: 'passport_volume',
+        message: `Passport has ${recent.length + 1} claims in ${policy.periodDays} days (limit ${policy.maxClaimsPerPassport})`,
+        weight: 40,
+        related_claim_ids: recent.map(existing => existing.id),
+      });
+    }
+  }
+
+  return {
+    score: Math.min(flags.reduce((total, flag) => total + flag.weight, 0), 100),
+    flags,
+  };
+};
+
+/**
+ * Whether an assessment must be reviewed by an operator before payout
+ * @param assessment - The claim's risk assessment
+ * @param policy - Thresholds for the checks
+ */
+export const needsVATClaimReview = (
+  assessment: VATRiskAssessment,
+  policy: VATRiskPolicy = DEFAULT_VAT_RISK_POLICY
+): boolean => {
+  return assessment.score >= policy.reviewThreshold;
+};
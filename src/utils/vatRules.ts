@@ -0,0 +1,237 @@
+/**
+ * VAT refund rules utilities for Revatix
+ * Per-country eligibility rules for tourist VAT refunds and the engine that
+ * applies them to a claim to work out the refundable amount
+ */
+
+import type { VATClaim } from '../lib/supabase';
+
+export interface VATCountryRules {
+  country: string;
+  name: string;
+  currency: string;
+  // Standard VAT rate (0–1), used to sanity check the VAT on a receipt
+  vatRate: number;
+  // Smallest receipt total (VAT included) that qualifies
+  minPurchaseAmount: number;
+  // Goods must leave the country within this many days of purchase
+  exportDeadlineDays: number;
+  // Countries of residence that cannot claim, e.g. the country itself
+  excludedResidencies: string[];
+  // Operator's share of the VAT (0–1) plus a fixed fee per claim
+  commissionRate: number;
+  fixedFee: number;
+}
+
+export type VATRules = Record<string, VATCountryRules>;
+
+const GCC = ['AE', 'SA', 'KW', 'BH', 'OM', 'QA'];
+
+// Residents of the EU cannot reclaim VAT anywhere in the union
+const EU = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+];
+
+// Defaults for the countries claims are accepted in; operators override
+// them per wallet in settings
+export const DEFAULT_VAT_RULES: VATRules = {
+  AE: {
+    country: 'AE',
+    name: 'United Arab Emirates',
+    currency: 'AED',
+    vatRate: 0.05,
+    minPurchaseAmount: 250,
+    exportDeadlineDays: 90,
+    excludedResidencies: GCC,
+    commissionRate: 0.13,
+    fixedFee: 4.8,
+  },
+  FR: {
+    country: 'FR',
+    name: 'France',
+    currency: 'EUR',
+    vatRate: 0.2,
+    minPurchaseAmount: 100.01,
+    exportDeadlineDays: 90,
+    excludedResidencies: EU,
+    commissionRate: 0.12,
+    fixedFee: 0,
+  },
+  DE: {
+    country: 'DE',
+    name: 'Germany',
+    currency: 'EUR',
+    vatRate: 0.19,
+    minPurchaseAmount: 50.01,
+    exportDeadlineDays: 90,
+    excludedResidencies: EU,
+    commissionRate: 0.15,
+    fixedFee: 0,
+  },
+  IT: {
+    country: 'IT',
+    name: 'Italy',
+    currency: 'EUR',
+    vatRate: 0.22,
+    minPurchaseAmount: 70.01,
+    exportDeadlineDays: 90,
+    excludedResidencies: EU,
+    commissionRate: 0.15,
+    fixedFee: 0,
+  },
+  ES: {
+    country: 'ES',
+    name: 'Spain',
+    currency: 'EUR',
+    vatRate: 0.21,
+    minPurchaseAmount: 0,
+    exportDeadlineDays: 90,
+    excludedResidencies: EU,
+    commissionRate: 0.15,
+    fixedFee: 0,
+  },
+  SG: {
+    country: 'SG',
+    name: 'Singapore',
+    currency: 'SGD',
+    vatRate: 0.09,
+    minPurchaseAmount: 100,
+    exportDeadlineDays: 60,
+    excludedResidencies: ['SG'],
+    commissionRate: 0.1,
+    fixedFee: 0,
+  },
+};
+
+export const DEFAULT_VAT_COUNTRY = 'AE';
+
+export interface VATEligibility {
+  eligible: boolean;
+  // Why the claim cannot be refunded; empty when eligible
+  reasons: string[];
+  currency: string;
+  commissionAmount: number;
+  refundableAmount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Whole days between two YYYY-MM-DD (or ISO) dates
+ * @param from - Earlier date
+ * @param to - Later date; negative results mean it is before `from`
+ */
+export const daysBetween = (from: string, to: string): number => {
+  return Math.floor((new Date(to.slice(0, 10)).getTime() - new Date(from.slice(0, 10)).getTime()) / DAY_MS);
+};
+
+/**
+ * Validates one country's rules before they are saved
+ * @param rules - The rules to validate
+ * @returns An error message, or null when the rules are valid
+ */
+export const validateVATCountryRules = (rules: VATCountryRules): string | null => {
+  if (!/^[A-Z]{2}$/.test(rules.country)) return 'Country must be a two letter ISO code';
+  if (!/^[A-Z]{3}$/.test(rules.currency)) return 'Currency must be a three letter ISO code';
+  if (isNaN(rules.vatRate) || rules.vatRate <= 0 || rules.vatRate >= 1) return 'VAT rate must be between 0% and 100%';
+  if (isNaN(rules.minPurchaseAmount) || rules.minPurchaseAmount < 0) return 'Minimum purchase cannot be negative';
+  if (!Number.isInteger(rules.exportDeadlineDays) || rules.exportDeadlineDays < 1) {
+    return 'Export deadline must be at least one day';
+  }
+  if (isNaN(rules.commissionRate) || rules.commissionRate < 0 || rules.commissionRate >= 1) {
+    return 'Commission must be between 0% and 100%';
+  }
+  if (isNaN(rules.fixedFee) || rules.fixedFee < 0) return 'Fixed fee cannot be negative';
+  const invalid = rules.excludedResidencies.find(code => !/^[A-Z]{2}$/.test(code));
+  if (invalid) return `Invalid residency code: ${invalid}`;
+  return null;
+};
+
+/**
+ * Applies a country's rules to a claim. Every failed rule is reported, not
+ * just the first, so the traveller sees everything that needs fixing.
+ * @param claim - Receipt and traveller details of the claim
+ * @param rules - Rules keyed by country of purchase
+ * @param today - Claim date (YYYY-MM-DD), used when no departure date is given
+ */
+export const evaluateVATClaim = (
+  claim: Pick<VATClaim, 'country' | 'bill_amount' | 'vat_amount' | 'purchase_date' | 'nationality' | 'departure_date'>,
+  rules: VATRules = DEFAULT_VAT_RULES,
+  today: string = new Date().toISOString().split('T')[0]
+): VATEligibility => {
+  const countryRules = rules[claim.country];
+  if (!countryRules) {
+    return {
+      eligible: false,
+      reasons: [`VAT refunds are not offered for purchases in ${claim.country || 'this country'}`],
+      currency: '',
+      commissionAmount: 0,
+      refundableAmount: 0,
+    };
+  }
+
+  const reasons: string[] = [];
+  const { name, currency } = countryRules;
+
+  if (!(claim.vat_amount > 0)) reasons.push('VAT amount must be greater than zero');
+  if (claim.vat_amount >= claim.bill_amount) reasons.push('VAT amount must be less than the bill total');
+  if (claim.bill_amount < countryRules.minPurchaseAmount) {
+    reasons.push(`Purchases in ${name} must total at least ${countryRules.minPurchaseAmount} ${currency}`);
+  }
+
+  if (!claim.purchase_date) {
+    reasons.push('Purchase date is required');
+  } else {
+    const exportDate = claim.departure_date || today;
+    // A departure before the purchase is a fraud signal, left to risk scoring
+    if (daysBetween(claim.purchase_date, today) < 0) reasons.push('Purchase date cannot be in the future');
+    if (daysBetween(claim.purchase_date, exportDate) > countryRules.exportDeadlineDays) {
+      reasons.push(`Goods bought in ${name} must be exported within ${countryRules.exportDeadlineDays} days of purchase`);
+    }
+  }
+
+  const residency = (claim.nationality || '').trim().toUpperCase();
+  if (!residency) {
+    reasons.push('Country of residence is required');
+  } else if (countryRules.excludedResidencies.includes(residency)) {
+    reasons.push(`Residents of ${residency} cannot claim VAT refunds in ${name}`);
+  }
+
+  const vatAmount = Math.max(claim.vat_amount || 0, 0);
+  const commissionAmount = Math.min(roundCents(vatAmount * countryRules.commissionRate + countryRules.fixedFee), vatAmount);
+  const refundableAmount = roundCents(vatAmount - commissionAmount);
+  if (reasons.length === 0 && refundableAmount <= 0) {
+    reasons.push('Nothing is left to refund after the operator commission');
+  }
+
+  return {
+    eligible: reasons.length === 0,
+    reasons,
+    currency,
+    commissionAmount: reasons.length === 0 ? commissionAmount : 0,
+    refundableAmount: reasons.length === 0 ? refundableAmount : 0,
+  };
+};
+
+/**
+ * Guesses the country of purchase from a receipt, for pre-filling a claim:
+ * EU VAT numbers start with the country code, UAE TRNs with 100, and
+ * otherwise a currency used by only one country decides
+ * @param rules - Rules keyed by country of purchase
+ * @param receipt - VAT registration number and currency read from the receipt
+ */
+export const inferVATCountry = (
+  rules: VATRules,
+  receipt: { vatRegNo?: string; currency?: string }
+): string | null => {
+  const vatRegNo = (receipt.vatRegNo || '').replace(/\s/g, '').toUpperCase();
+  const prefix = vatRegNo.slice(0, 2);
+  if (/^[A-Z]{2}/.test(prefix) && rules[prefix]) return prefix;
+  if (/^100\d{12}$/.test(vatRegNo) && rules.AE) return 'AE';
+
+  const byCurrency = Object.values(rules).filter(countryRules => countryRules.currency === receipt.currency);
+  return byCurrency.length === 1 ? byCurrency[0].country : null;
+};
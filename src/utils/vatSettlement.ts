@@ -0,0 +1,201 @@
+/**
+ * VAT settlement utilities for Revatix
+ * Pays approved VAT claims in batches, either as state channel payments or as
+ * individual gasless refunds, journaled per claim so an interrupted batch
+ * never pays a traveller twice, and reports the outcome of every claim
+ */
+
+import type {
+  VATClaim,
+  VATSettlementBatch,
+  VATSettlementItem,
+  VATSettlementMethod,
+  VATSettlementStatus
+} from '../lib/supabase';
+import {
+  isValidAddress,
+  performGaslessVATRefund,
+  sendJournaledBulkPayment,
+  YELLOW_NETWORK_CONFIG,
+  type JournaledPaymentResult
+} from './yellowNetwork';
+import { getJournalEntry, getJournalKey, writeJournalEntry } from './paymentJournal';
+import { isErrorBeforeSubmission } from './errorHandler';
+import { fromStoredAmount, toDecimalString } from './money';
+import { withLineItemAmount } from './payRuns';
+import { getVATPayoutAmount } from './vatClaims';
+
+export const VAT_SETTLEMENT_METHOD_LABELS: Record<VATSettlementMethod, string> = {
+  bulk: 'Bulk payment',
+  gasless: 'Gasless refunds',
+};
+
+/**
+ * Whether a claim can be put in a settlement batch: approved (or failed
+ * earlier) with a payout amount. Claims reserved by a batch are `settling`
+ * and are never offered again until their outcome is recorded.
+ * @param claim - The claim to check
+ */
+export const isSettleableVATClaim = (claim: VATClaim): boolean => {
+  const payout = getVATPayoutAmount(claim);
+  return (claim.status === 'approved' || claim.status === 'failed') && !!payout && payout.units > 0n;
+};
+
+/**
+ * Builds the items of a new batch from the selected claims
+ * @param claims - Approved claims to settle
+ */
+export const createSettlementItems = (claims: VATClaim[]): VATSettlementItem[] => {
+  return claims.map(claim => {
+    const payout = getVATPayoutAmount(claim);
+    if (!payout || !isSettleableVATClaim(claim)) {
+      throw new Error(`VAT claim ${claim.id} is ${claim.status} and cannot be settled`);
+    }
+    const item: VATSettlementItem = {
+      claim_id: claim.id,
+      receiver_wallet: claim.receiver_wallet,
+      amount: 0,
+      token: claim.payout_token,
+      status: 'pending',
+    };
+    return withLineItemAmount(item, payout);
+  });
+};
+
+/**
+ * Works out the status a batch ends in once it has been executed
+ * @param items - Items after execution
+ */
+export const deriveSettlementStatus = (items: VATSettlementItem[]): VATSettlementStatus => {
+  const paid = items.filter(item => item.status === 'paid').length;
+  if (paid === items.length) return 'completed';
+  if (paid === 0) return 'failed';
+  return 'partially_paid';
+};
+
+const failItem = (item: VATSettlementItem, error: string): VATSettlementItem => ({ ...item, status: 'failed', error });
+
+const applyOutcome = (item: VATSettlementItem, outcome: JournaledPaymentResult): VATSettlementItem => {
+  switch (outcome.status) {
+    case 'paid':
+      return { ...item, status: 'paid', transaction_hash: outcome.txHash, error: undefined };
+    case 'uncertain':
+      return { ...item, status: 'uncertain', error: outcome.error };
+    default:
+      return failItem(item, outcome.error || 'Payment failed');
+  }
+};
+
+// Gasless refunds are journaled like pay run payments: the entry is in
+// flight while the refund is sent, and a refund whose outcome is unknown,
+// including one that failed after it may have been submitted, is never sent
+// again
+const sendJournaledGaslessRefund = async (batchId: string, item: VATSettlementItem): Promise<JournaledPaymentResult> => {
+  const existing = getJournalEntry(batchId, item.claim_id);
+  if (existing?.status === 'paid') {
+    return { employee_id: item.claim_id, status: 'paid', txHash: existing.tx_hash };
+  }
+  if (existing?.status === 'uncertain' || existing?.status === 'in_flight') {
+    return { employee_id: item.claim_id, status: 'uncertain', error: existing.last_error || 'The refund may already have been sent' };
+  }
+
+  const amount = toDecimalString(fromStoredAmount(item));
+  const entry = writeJournalEntry({
+    key: getJournalKey(batchId, item.claim_id),
+    payrun_id: batchId,
+    employee_id: item.claim_id,
+    address: item.receiver_wallet,
+    amount,
+    token: item.token,
+    status: 'in_flight',
+    attempts: (existing?.attempts || 0) + 1
+  });
+
+  const result = await performGaslessVATRefund(item.receiver_wallet, amount, item.claim_id);
+  if (result.success) {
+    writeJournalEntry({ ...entry, status: 'paid', tx_hash: result.txHash, last_error: undefined });
+    return { employee_id: item.claim_id, status: 'paid', txHash: result.txHash };
+  }
+  const error = result.error || 'Gasless refund failed';
+  const status = isErrorBeforeSubmission(new Error(error)) ? 'failed' : 'uncertain';
+  writeJournalEntry({ ...entry, status, last_error: error });
+  return { employee_id: item.claim_id, status, error };
+};
+
+/**
+ * Pays the pending items of a batch, one claim at a time through the payment
+ * journal under the batch's ID. Bulk batches send state channel payments,
+ * gasless batches refund each claim through its own channel. Items are
+ * validated first so a bad wallet fails only its own claim; running a batch
+ * again never resends a claim the journal records as paid or in doubt.
+ * @param batch - The batch to execute
+ * @returns The batch's items with their outcome
+ */
+export const executeVATSettlement = async (batch: VATSettlementBatch): Promise<VATSettlementItem[]> => {
+  const items = batch.items.map(item => {
+    if (item.status !== 'pending') return item;
+    if (!isValidAddress(item.receiver_wallet)) return failItem(item, 'Invalid receiver wallet');
+    if (fromStoredAmount(item).units <= 0n) return failItem(item, 'Nothing to pay');
+    return item;
+  });
+
+  if (batch.method === 'gasless') {
+    const gaslessToken = YELLOW_NETWORK_CONFIG.stateChannelConfig.defaultToken;
+    const results: VATSettlementItem[] = [];
+    // One at a time: every refund opens its own channel from the same wallet
+    for (const item of items) {
+      if (item.status !== 'pending') {
+        results.push(item);
+      } else if (item.token !== gaslessToken) {
+        results.push(failItem(item, `Gasless refunds are paid in ${gaslessToken}, not ${item.token}`));
+      } else {
+        results.push(applyOutcome(item, await sendJournaledGaslessRefund(batch.id, item)));
+      }
+    }
+    return results;
+  }
+
+  const tokens = [...new Set(items.filter(item => item.status === 'pending').map(item => item.token))];
+  const outcomes = new Map<string, JournaledPaymentResult>();
+  for (const token of tokens) {
+    const recipients = items
+      .filter(item => item.status === 'pending' && item.token === token)
+      .map(item => ({ employee_id: item.claim_id, address: item.receiver_wallet, amount: fromStoredAmount(item) }));
+    const result = await sendJournaledBulkPayment(batch.id, recipients, token);
+    recipients.forEach(recipient => {
+      outcomes.set(recipient.employee_id, result.results.find(outcome => outcome.employee_id === recipient.employee_id)
+        || { employee_id: recipient.employee_id, status: 'failed', error: result.error || 'Payment failed' });
+    });
+  }
+
+  return items.map(item => {
+    const outcome = item.status === 'pending' ? outcomes.get(item.claim_id) : undefined;
+    return outcome ? applyOutcome(item, outcome) : item;
+  });
+};
+
+const csvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds the CSV report of a batch, one row per claim
+ * @param batch - The executed batch
+ * @param claims - Claims, used for the receipt and traveller columns
+ */
+export const buildVATSettlementReport = (batch: VATSettlementBatch, claims: VATClaim[]): string => {
+  const header = [
+    'Batch', 'Method', 'Claim', 'Receipt', 'Merchant', 'Country', 'Passport',
+    'Refundable', 'Currency', 'Payout', 'Token', 'Receiver', 'Status', 'Transaction', 'Error'
+  ];
+  const rows = batch.items.map(item => {
+    const claim = claims.find(c => c.id === item.claim_id);
+    return [
+      batch.id, VAT_SETTLEMENT_METHOD_LABELS[batch.method], item.claim_id, claim?.receipt_no, claim?.merchant_name,
+      claim?.country, claim?.passport_no, claim?.refundable_amount, claim?.currency, item.amount, item.token,
+      item.receiver_wallet, item.status, item.transaction_hash, item.error
+    ].map(csvCell).join(',');
+  });
+  return [header.join(','), ...rows].join('\n');
+};
@@ -6,16 +6,40 @@
 
 import { NitroliteClient } from '@erc7824/nitrolite';
 import { createWalletClient, createPublicClient, http } from 'viem';
+import type { Address, Hex } from 'viem';
 import { polygon } from 'viem/chains';
+import { getSecureStore } from '../lib/storage';
+import {
+  buildSessionTypedData,
+  checkSessionScope,
+  generateSessionPrivateKey,
+  getSessionKeyAddress,
+  ScopedSessionSigner,
+  verifySessionAuthorization,
+  type SessionAuthorization,
+  type SessionOperation,
+  type SessionOperationDetails,
+  type SessionScope
+} from './sessionKeys';
+
+const SESSIONS_KEY = 'sessions';
 
 export interface WalletSession {
   address: string;
-  sessionKey: string;
+  // The session key's address; its private key never leaves the store
+  sessionKey: Address;
+  privateKey: Hex;
+  authorization: SessionAuthorization;
+  // Paid out under the session so far, per token symbol, in base units
+  spent: Record<string, bigint>;
   isActive: boolean;
   createdAt: number;
   expiresAt: number;
 }
 
+// Signs the session authorization with the wallet, e.g. wagmi's signTypedData
+export type SignSessionAuthorization = (typedData: ReturnType<typeof buildSessionTypedData>) => Promise<Hex>;
+
 export interface WalletConfig {
   useSessionKeys: boolean;
   sessionTimeout: number; // in milliseconds
@@ -26,6 +50,10 @@ export class WalletManager {
   private sessions: Map<string, WalletSession> = new Map();
   private config: WalletConfig;
   private nitroliteClient: NitroliteClient | null = null;
+  // Sessions are kept encrypted so a reload does not drop them
+  private store = getSecureStore('wallet_sessions');
+  private ready: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
 
   constructor(config: WalletConfig = {
     useSessionKeys: true,
@@ -33,6 +61,37 @@ export class WalletManager {
     maxSessions: 5
   }) {
     this.config = config;
+    this.ready = this.rehydrate();
+  }
+
+  // Restores stored sessions that have not expired and whose authorization
+  // still verifies
+  private async rehydrate(): Promise<void> {
+    try {
+      const stored = (await this.store.get<WalletSession[]>(SESSIONS_KEY)) || [];
+      for (const session of stored) {
+        if (!session.isActive || Date.now() > session.expiresAt || this.sessions.has(session.address)) continue;
+        if (!session.authorization || !(await verifySessionAuthorization(session.authorization))) {
+          console.warn('🧹 Dropping stored session without a valid authorization:', this.formatAddress(session.address));
+          continue;
+        }
+        this.sessions.set(session.address, session);
+      }
+    } catch (error) {
+      console.error('❌ Failed to restore wallet sessions:', error);
+    }
+  }
+
+  // Writes run one after another, each saving the sessions as they are then
+  private persistSessions(): void {
+    this.saving = this.saving
+      .then(() => this.store.set(SESSIONS_KEY, Array.from(this.sessions.values())))
+      .catch(error => console.error('❌ Failed to persist wallet sessions:', error));
+  }
+
+  // Resolves once stored sessions have been restored
+  whenReady(): Promise<void> {
+    return this.ready;
   }
 
   // Initialize with Nitrolite client
@@ -41,44 +100,79 @@ export class WalletManager {
     console.log('✅ Wallet Manager initialized with session key support');
   }
 
-  // Create a new wallet session (avoids private key constraints)
-  async createWalletSession(address: string): Promise<{ success: boolean; sessionKey?: string; error?: string }> {
+  /**
+   * Creates a session key for a wallet, replacing any session it has. The
+   * wallet signs the key's scope once; the key then signs channel states
+   * within it without further prompts.
+   * @param address - The wallet
+   * @param scope - What the key may do
+   * @param chainId - Chain the authorization is bound to
+   * @param signAuthorization - Has the wallet sign the EIP-712 authorization
+   */
+  async createWalletSession(
+    address: string,
+    scope: SessionScope,
+    chainId: number,
+    signAuthorization: SignSessionAuthorization
+  ): Promise<{ success: boolean; sessionKey?: Address; error?: string }> {
     try {
-      // Check if we already have an active session for this address
-      const existingSession = this.getActiveSession(address);
-      if (existingSession) {
-        console.log('🔄 Using existing session for address:', address);
-        return { success: true, sessionKey: existingSession.sessionKey };
+      await this.ready;
+
+      if (!this.config.useSessionKeys) {
+        throw new Error('Session keys are disabled');
+      }
+      if (scope.operations.length === 0) {
+        throw new Error('A session key needs at least one allowed operation');
+      }
+      if (scope.expiresAt * 1000 <= Date.now()) {
+        throw new Error('A session key must expire in the future');
+      }
+
+      const privateKey = generateSessionPrivateKey();
+      const unsigned = {
+        wallet: address as Address,
+        sessionKey: getSessionKeyAddress(privateKey),
+        scope,
+        issuedAt: Math.floor(Date.now() / 1000),
+        chainId
+      };
+      const authorization: SessionAuthorization = {
+        ...unsigned,
+        signature: await signAuthorization(buildSessionTypedData(unsigned))
+      };
+      if (!(await verifySessionAuthorization(authorization))) {
+        throw new Error('The session authorization was not signed by this wallet');
       }
 
       // Check session limit
-      if (this.sessions.size >= this.config.maxSessions) {
+      if (!this.sessions.has(address) && this.sessions.size >= this.config.maxSessions) {
         // Remove oldest session
         const oldestSession = Array.from(this.sessions.values())
           .sort((a, b) => a.createdAt - b.createdAt)[0];
         this.sessions.delete(oldestSession.address);
       }
 
-      // Generate session key (in real implementation, this would be done securely)
-      const sessionKey = this.generateSessionKey(address);
-      
       const session: WalletSession = {
         address,
-        sessionKey,
+        sessionKey: authorization.sessionKey,
+        privateKey,
+        authorization,
+        spent: {},
         isActive: true,
         createdAt: Date.now(),
-        expiresAt: Date.now() + this.config.sessionTimeout
+        expiresAt: scope.expiresAt * 1000
       };
 
       this.sessions.set(address, session);
+      this.persistSessions();
       
       console.log('✅ New wallet session created:', {
         address: this.formatAddress(address),
-        sessionKey: sessionKey.substring(0, 8) + '...',
+        sessionKey: this.formatAddress(session.sessionKey),
         expiresAt: new Date(session.expiresAt).toISOString()
       });
 
-      return { success: true, sessionKey };
+      return { success: true, sessionKey: session.sessionKey };
     } catch (error) {
       console.error('❌ Failed to create wallet session:', error);
       return {
@@ -88,22 +182,113 @@ export class WalletManager {
     }
   }
 
+  /**
+   * Replaces a wallet's session key with a fresh one under the same scope.
+   * Allowances carry over as what is left of them, so rotating never
+   * resets a cap.
+   * @param address - The wallet
+   * @param signAuthorization - Has the wallet sign the new authorization
+   */
+  async rotateSession(
+    address: string,
+    signAuthorization: SignSessionAuthorization
+  ): Promise<{ success: boolean; sessionKey?: Address; error?: string }> {
+    const session = this.getActiveSession(address);
+    if (!session) {
+      return { success: false, error: 'No active session to rotate' };
+    }
+
+    const { scope, issuedAt, chainId } = session.authorization;
+    const allowances = Object.fromEntries(Object.entries(scope.allowances).map(([token, cap]) => {
+      const remaining = cap - (session.spent[token] || 0n);
+      return [token, remaining > 0n ? remaining : 0n];
+    }));
+    const lifetime = scope.expiresAt - issuedAt;
+
+    return this.createWalletSession(address, {
+      ...scope,
+      allowances,
+      expiresAt: Math.floor(Date.now() / 1000) + lifetime
+    }, chainId, signAuthorization);
+  }
+
+  /**
+   * Revokes a wallet's session; its private key is discarded at once
+   * @param address - The wallet
+   */
+  revokeSession(address: string): boolean {
+    const session = this.sessions.get(address);
+    if (!session) return false;
+    this.sessions.delete(address);
+    this.persistSessions();
+    console.log('🔒 Session revoked:', this.formatAddress(address));
+    return true;
+  }
+
   // Get active session for address
   getActiveSession(address: string): WalletSession | null {
     const session = this.sessions.get(address);
     if (!session || !session.isActive || Date.now() > session.expiresAt) {
       if (session) {
         this.sessions.delete(address);
+        this.persistSessions();
       }
       return null;
     }
     return session;
   }
 
-  // Validate session key
+  // The active session a session key belongs to
+  findSessionByKey(sessionKey: string): WalletSession | null {
+    const session = Array.from(this.sessions.values())
+      .find(candidate => candidate.sessionKey.toLowerCase() === sessionKey.toLowerCase());
+    return session ? this.getActiveSession(session.address) : null;
+  }
+
+  // Validate session key: it must be the wallet's active, unexpired key
   validateSessionKey(address: string, sessionKey: string): boolean {
     const session = this.getActiveSession(address);
-    return session?.sessionKey === sessionKey;
+    return !!session && session.sessionKey.toLowerCase() === sessionKey.toLowerCase();
+  }
+
+  /**
+   * Checks an operation against the scope of the session a key belongs to
+   * @param sessionKey - The session key
+   * @param operation - The operation about to run
+   * @param details - Token, amount and recipient it moves
+   * @throws When the key has no active session or its scope forbids the operation
+   */
+  authorize(sessionKey: string, operation: SessionOperation, details?: SessionOperationDetails): void {
+    const session = this.findSessionByKey(sessionKey);
+    if (!session) {
+      throw new Error('The session key is not active');
+    }
+    const error = checkSessionScope(session.authorization, operation, session.spent, details);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  /**
+   * A signer for the wallet's session key that enforces its scope and
+   * records what it pays out
+   * @param address - The wallet
+   */
+  getSessionSigner(address: string): ScopedSessionSigner | null {
+    const session = this.getActiveSession(address);
+    if (!session) return null;
+
+    return new ScopedSessionSigner(
+      session.privateKey,
+      session.authorization,
+      () => this.sessions.get(address)?.spent || {},
+      (token, amount) => {
+        const current = this.sessions.get(address);
+        if (!current) return;
+        current.spent = { ...current.spent, [token]: (current.spent[token] || 0n) + amount };
+        this.persistSessions();
+      }
+    );
   }
 
   // Connect wallet using session key (frontend)
@@ -178,6 +363,7 @@ export class WalletManager {
 
       // Remove session
       this.sessions.delete(address);
+      this.persistSessions();
       
       console.log('✅ Wallet disconnected and session cleaned up:', this.formatAddress(address));
       return { success: true };
@@ -193,12 +379,15 @@ export class WalletManager {
   // Clean up expired sessions
   cleanupExpiredSessions(): void {
     const now = Date.now();
+    let removed = false;
     for (const [address, session] of this.sessions.entries()) {
       if (now > session.expiresAt) {
         this.sessions.delete(address);
+        removed = true;
         console.log('🧹 Cleaned up expired session for:', this.formatAddress(address));
       }
     }
+    if (removed) this.persistSessions();
   }
 
   // Get all active sessions
@@ -207,13 +396,6 @@ export class WalletManager {
     return Array.from(this.sessions.values()).filter(session => session.isActive);
   }
 
-  // Generate session key (simplified - in production, use proper crypto)
-  private generateSessionKey(address: string): string {
-    const timestamp = Date.now().toString();
-    const random = Math.random().toString(36).substring(2);
-    return `session_${address}_${timestamp}_${random}`;
-  }
-
   // Format address for display
   private formatAddress(address: string): string {
     return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
@@ -234,8 +416,21 @@ export class WalletManager {
 export const walletManager = new WalletManager();
 
 // Helper functions for backward compatibility
-export const createWalletSession = async (address: string) => {
-  return walletManager.createWalletSession(address);
+export const createWalletSession = async (
+  address: string,
+  scope: SessionScope,
+  chainId: number,
+  signAuthorization: SignSessionAuthorization
+) => {
+  return walletManager.createWalletSession(address, scope, chainId, signAuthorization);
+};
+
+export const revokeSession = (address: string) => {
+  return walletManager.revokeSession(address);
+};
+
+export const rotateSession = async (address: string, signAuthorization: SignSessionAuthorization) => {
+  return walletManager.rotateSession(address, signAuthorization);
 };
 
 export const connectWalletWithSession = async (address: string, sessionKey: string) => {
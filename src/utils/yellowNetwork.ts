@@ -1,10 +1,31 @@
 import { NitroliteClient } from '@erc7824/nitrolite';
-import { createPublicClient, createWalletClient, http, webSocket } from 'viem';
+import { createPublicClient, createWalletClient, http, webSocket, type Address } from 'viem';
 import { mainnet, polygon, base, celo } from 'viem/chains';
 import { ENV_CONFIG } from '../config/environment';
 import { walletManager } from './walletManager';
 import { faucetManager } from './faucetManager';
-import { handleYellowNetworkError, logYellowNetworkError, isErrorRecoverable } from './errorHandler';
+import { handleYellowNetworkError, logYellowNetworkError, isErrorBeforeSubmission, isErrorRecoverable } from './errorHandler';
+import {
+  getBackoffDelay,
+  getJournalEntry,
+  getJournalKey,
+  recoverInterruptedEntries,
+  writeJournalEntry,
+  PAYMENT_RETRY_DEFAULTS,
+  type PaymentRetryOptions,
+} from './paymentJournal';
+import { validateAddress } from './addressValidation';
+import {
+  SUPPORTED_TOKENS,
+  formatAmount,
+  fromUnits,
+  parseAmount,
+  splitEvenly,
+  sumAmounts,
+  toDecimalString,
+  toNumber,
+  type TokenAmount,
+} from './money';
 
 // Yellow Network configuration based on official documentation
 export const YELLOW_NETWORK_CONFIG = {
@@ -19,18 +40,13 @@ export const YELLOW_NETWORK_CONFIG = {
     // $YELLOW token configuration (native token)
     yellowToken: {
       symbol: 'YELLOW',
-      address: '0x0000000000000000000000000000000000000000', // YELLOW token address
-      decimals: 18,
+      address: SUPPORTED_TOKENS.YELLOW.address, // YELLOW token address
+      decimals: SUPPORTED_TOKENS.YELLOW.decimals,
       // Paymaster system for transaction fees
       paymasterEnabled: true,
     },
-    // Supported trading tokens (not YELLOW)
-    supportedTokens: {
-      USDC: '0xA0b86a33E6441c8C06DDD1233a8d0C05c0a24C08', // USDC on Polygon
-      USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', // USDT on Polygon
-      DAI: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', // DAI on Polygon
-      WETH: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', // Wrapped ETH on Polygon
-    },
+    // Supported tokens with their Polygon addresses and decimals
+    supportedTokens: SUPPORTED_TOKENS,
     defaultToken: 'USDC', // Default token for transactions
     // State channel requirements
     collateralRequired: true, // Brokers must lock YELLOW tokens as collateral
@@ -95,7 +111,7 @@ let currentChain = YELLOW_NETWORK_CONFIG.defaultChain;
 export const generateTestAddress = (): string => {
   // These are valid EVM addresses for demo purposes
   const testAddresses = [
-    '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+    '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
     '0x8ba1f109551bD432803012645Hac136c4c8b8b8b',
     '0x1234567890123456789012345678901234567890',
     '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
@@ -112,33 +128,23 @@ export const formatAddress = (address: string): string => {
   return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
 };
 
-export const formatToken = (amount: number, decimals: number = 18): string => {
-  return (amount / Math.pow(10, decimals)).toFixed(6);
+// Formats base units, e.g. 1500000000000000000n with 18 decimals as "1.500000"
+export const formatToken = (amount: bigint | number, decimals: number = 18): string => {
+  const units = typeof amount === 'bigint' ? amount : BigInt(Math.round(amount));
+  return formatAmount(fromUnits(units, '', decimals), { maxDecimals: 6, minDecimals: 6, grouping: false });
 };
 
-export const formatUSDC = (amount: number): string => {
-  return (amount / 1000000).toFixed(2);
+export const formatUSDC = (amount: bigint | number): string => {
+  const units = typeof amount === 'bigint' ? amount : BigInt(Math.round(amount));
+  return formatAmount(fromUnits(units, 'USDC'), { maxDecimals: 2, minDecimals: 2, grouping: false });
 };
 
-// Validate EVM address
+// Validate EVM address, including its EIP-55 checksum
 export const isValidAddress = (address: string): boolean => {
-  try {
-    if (!address || typeof address !== 'string') {
-      return false;
-    }
-    
-    const trimmedAddress = address.trim();
-    
-    // EVM addresses are 42 characters (0x + 40 hex chars)
-    if (trimmedAddress.length !== 42) {
-      return false;
-    }
-    
-    // Check if it starts with 0x and contains only hex characters
-    return /^0x[a-fA-F0-9]{40}$/.test(trimmedAddress);
-  } catch (error) {
+  if (!address || typeof address !== 'string') {
     return false;
   }
+  return validateAddress(address).valid;
 };
 
 // Connect to wallet using Nitrolite
@@ -218,7 +224,7 @@ export const getAccountBalance = async (address?: string): Promise<{
     const balance = await publicClient.getBalance({ address: accountAddress as `0x${string}` });
     
     return {
-      native: Number(balance) / Math.pow(10, 18), // Convert wei to YELLOW
+      native: toNumber(fromUnits(balance, 'YELLOW')), // Convert wei to YELLOW
       tokens: [] // TODO: Implement token balance fetching
     };
   } catch (error) {
@@ -233,7 +239,7 @@ export const getAccountBalance = async (address?: string): Promise<{
 // Create a state channel for payments (ERC-7824 compliant)
 export const createPaymentChannel = async (
   recipient: string,
-  amount: number,
+  amount: number | string,
   token: string = 'USDC'
 ): Promise<{ channelId: string; success: boolean; error?: string }> => {
   try {
@@ -249,12 +255,15 @@ export const createPaymentChannel = async (
       throw new Error('Nitrolite client not initialized');
     }
 
+    // Split the initial amount in base units so both halves add up exactly
+    const [senderShare, recipientShare] = splitEvenly(parseAmount(amount, token), 2);
+
     // Create a new state channel using Nitrolite SDK
     const channel = await nitroliteClient.createChannel({
       participants: [connectedAccount, recipient],
       initialAllocation: {
-        [connectedAccount]: amount * 0.5, // Split initial amount
-        [recipient]: amount * 0.5
+        [connectedAccount]: senderShare.units,
+        [recipient]: recipientShare.units
       },
       token: token,
       // ERC-7824 specific parameters
@@ -280,7 +289,7 @@ export const createPaymentChannel = async (
 // Send payment through state channel (ERC-7824 compliant)
 export const sendPayment = async (
   recipient: string,
-  amount: number,
+  amount: number | string,
   token: string = 'USDC'
 ): Promise<{ txHash: string; success: boolean; error?: string }> => {
   try {
@@ -296,6 +305,8 @@ export const sendPayment = async (
       throw new Error('Nitrolite client not initialized');
     }
 
+    const payment = parseAmount(amount, token);
+
     // Create or use existing channel
     const channelResult = await createPaymentChannel(recipient, amount, token);
     
@@ -303,18 +314,19 @@ export const sendPayment = async (
       throw new Error(channelResult.error || 'Failed to create channel');
     }
 
-    // Update channel state with payment using ERC-7824 state update
+    // Update channel state with payment using ERC-7824 state update; amounts
+    // are base units of the token
     const updateResult = await nitroliteClient.updateChannel(channelResult.channelId, {
       allocations: [
         {
           destination: connectedAccount,
           token: '0x0000000000000000000000000000000000000000', // Native token
-          amount: -amount
+          amount: -payment.units
         },
         {
           destination: recipient,
           token: '0x0000000000000000000000000000000000000000', // Native token
-          amount: amount
+          amount: payment.units
         }
       ],
       version: 1, // Increment version for state update
@@ -336,9 +348,145 @@ export const sendPayment = async (
   }
 };
 
+export interface JournaledRecipient {
+  employee_id: string;
+  address: string;
+  amount: TokenAmount;
+}
+
+export interface JournaledPaymentResult {
+  employee_id: string;
+  status: 'paid' | 'failed' | 'uncertain';
+  txHash?: string;
+  error?: string;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Send one journaled payment. Only errors known to be raised before the
+// payment was submitted are retried, with exponential backoff; after any
+// other error the payment may have gone through, so it is left uncertain.
+const sendJournaledPayment = async (
+  payrunId: string,
+  recipient: JournaledRecipient,
+  token: string,
+  retryOptions: PaymentRetryOptions
+): Promise<JournaledPaymentResult> => {
+  const existing = getJournalEntry(payrunId, recipient.employee_id);
+
+  // Paid and uncertain recipients are never sent again
+  if (existing?.status === 'paid') {
+    return { employee_id: recipient.employee_id, status: 'paid', txHash: existing.tx_hash };
+  }
+  if (existing?.status === 'uncertain') {
+    return { employee_id: recipient.employee_id, status: 'uncertain', error: existing.last_error };
+  }
+
+  let entry = writeJournalEntry({
+    key: getJournalKey(payrunId, recipient.employee_id),
+    payrun_id: payrunId,
+    employee_id: recipient.employee_id,
+    address: recipient.address,
+    amount: toDecimalString(recipient.amount),
+    token,
+    status: 'pending',
+    attempts: existing?.attempts || 0
+  });
+
+  for (let attempt = 1; attempt <= retryOptions.maxAttempts; attempt++) {
+    entry = writeJournalEntry({ ...entry, status: 'in_flight', attempts: entry.attempts + 1 });
+
+    let result: { txHash: string; success: boolean; error?: string };
+    try {
+      result = await sendPayment(recipient.address, toDecimalString(recipient.amount), token);
+    } catch (error) {
+      result = { txHash: '', success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    if (result.success) {
+      writeJournalEntry({ ...entry, status: 'paid', tx_hash: result.txHash, last_error: undefined });
+      return { employee_id: recipient.employee_id, status: 'paid', txHash: result.txHash };
+    }
+
+    const error = new Error(result.error || 'Payment failed');
+    const errorContext = {
+      operation: 'payroll_payment',
+      address: recipient.address,
+      amount: toNumber(recipient.amount),
+      token
+    };
+    if (!isErrorBeforeSubmission(error)) {
+      logYellowNetworkError(error, errorContext);
+      writeJournalEntry({ ...entry, status: 'uncertain', last_error: error.message });
+      return { employee_id: recipient.employee_id, status: 'uncertain', error: error.message };
+    }
+
+    if (!isErrorRecoverable(error, errorContext) || attempt === retryOptions.maxAttempts) {
+      logYellowNetworkError(error, errorContext);
+      writeJournalEntry({ ...entry, status: 'failed', last_error: error.message });
+      return { employee_id: recipient.employee_id, status: 'failed', error: error.message };
+    }
+
+    entry = writeJournalEntry({ ...entry, status: 'pending', last_error: error.message });
+    await wait(getBackoffDelay(attempt, retryOptions));
+  }
+
+  return { employee_id: recipient.employee_id, status: 'failed', error: entry.last_error };
+};
+
+// Send pay run payments one recipient at a time, journaled per pay run and
+// employee. Running it again for the same pay run only pays recipients that
+// are not yet recorded as paid.
+export const sendJournaledBulkPayment = async (
+  payrunId: string,
+  recipients: JournaledRecipient[],
+  token: string = 'USDC',
+  retryOptions: PaymentRetryOptions = PAYMENT_RETRY_DEFAULTS
+): Promise<{ success: boolean; processed: number; results: JournaledPaymentResult[]; error?: string }> => {
+  if (!connectedAccount) {
+    return { success: false, processed: 0, results: [], error: 'Wallet not connected' };
+  }
+
+  // Anything still in flight belongs to an execution that never finished
+  const interrupted = recoverInterruptedEntries(payrunId);
+  if (interrupted.length > 0) {
+    console.warn(`Pay run ${payrunId}: ${interrupted.length} payment(s) were interrupted and need review`);
+  }
+
+  const mismatched = recipients.find(recipient => recipient.amount.token !== token);
+  if (mismatched) {
+    return { success: false, processed: 0, results: [], error: `Payment to ${mismatched.address} is in ${mismatched.amount.token}, not ${token}` };
+  }
+
+  const results: JournaledPaymentResult[] = [];
+  for (const recipient of recipients) {
+    results.push(await sendJournaledPayment(payrunId, recipient, token, retryOptions));
+  }
+  return summarizeJournaledResults(results);
+};
+
+// Totals the outcome of a journaled payout
+export const summarizeJournaledResults = (
+  results: JournaledPaymentResult[]
+): { success: boolean; processed: number; results: JournaledPaymentResult[]; error?: string } => {
+  const failed = results.filter(result => result.status === 'failed').length;
+  const uncertain = results.filter(result => result.status === 'uncertain').length;
+  const errors = [
+    failed > 0 ? `${failed} payment(s) failed` : '',
+    uncertain > 0 ? `${uncertain} payment(s) need review before they can be retried` : ''
+  ].filter(Boolean);
+
+  return {
+    success: errors.length === 0,
+    processed: results.filter(result => result.status === 'paid').length,
+    results,
+    error: errors.length > 0 ? errors.join('; ') : undefined
+  };
+};
+
 // Send bulk payments through state channels
 export const sendBulkPayment = async (
-  recipients: Array<{ address: string; amount: number }>,
+  recipients: Array<{ address: string; amount: number | string }>,
   token: string = 'USDC'
 ): Promise<{ txHash: string; success: boolean; processed: number; error?: string }> => {
   try {
@@ -346,12 +494,11 @@ export const sendBulkPayment = async (
       throw new Error('Wallet not connected');
     }
 
-    // Validate recipients
-    const validRecipients = recipients.filter(recipient => 
-      recipient.address && 
-      isValidAddress(recipient.address) && 
-      recipient.amount > 0
-    );
+    // Validate recipients; amounts are converted to base units once, up front
+    const validRecipients = recipients
+      .filter(recipient => recipient.address && isValidAddress(recipient.address))
+      .map(recipient => ({ address: recipient.address, amount: parseAmount(recipient.amount, token) }))
+      .filter(recipient => recipient.amount.units > 0n);
 
     if (validRecipients.length === 0) {
       return {
@@ -364,8 +511,8 @@ export const sendBulkPayment = async (
 
     // Create a multi-participant channel for bulk payments
     const participants = [connectedAccount, ...validRecipients.map(r => r.address)];
-    const initialAllocation: Record<string, number> = {
-      [connectedAccount]: validRecipients.reduce((sum, r) => sum + r.amount, 0)
+    const initialAllocation: Record<string, bigint> = {
+      [connectedAccount]: sumAmounts(validRecipients.map(r => r.amount), token).units
     };
 
     const channel = await nitroliteClient.createChannel({
@@ -375,12 +522,12 @@ export const sendBulkPayment = async (
     });
 
     // Update channel with all payments
-    const finalAllocation: Record<string, number> = {
-      [connectedAccount]: 0
+    const finalAllocation: Record<string, bigint> = {
+      [connectedAccount]: 0n
     };
     
     validRecipients.forEach(recipient => {
-      finalAllocation[recipient.address] = recipient.amount;
+      finalAllocation[recipient.address] = (finalAllocation[recipient.address] || 0n) + recipient.amount.units;
     });
 
     const updateResult = await nitroliteClient.updateChannel(channel.id, finalAllocation);
@@ -526,7 +673,7 @@ export const getYellowNetworkStatus = async (): Promise<{
 // Perform gasless VAT refund
 export const performGaslessVATRefund = async (
   recipient: string,
-  amount: number,
+  amount: number | string,
   refundId: string
 ): Promise<{ txHash: string; success: boolean; error?: string }> => {
   try {
@@ -575,69 +722,6 @@ export const performGaslessVATRefund = async (
   }
 };
 
-// Perform gasless payroll payment
-export const performGaslessPayroll = async (
-  recipients: { address: string; amount: number }[],
-  payrollId: string
-): Promise<{ txHash: string; success: boolean; error?: string }> => {
-  try {
-    if (!connectedAccount) {
-      throw new Error('Wallet not connected');
-    }
-
-    if (!isYellowNetworkEnabled()) {
-      throw new Error('Yellow Network state channels are not enabled');
-    }
-
-    const yellowNetworkStatus = await getYellowNetworkStatus();
-    if (!yellowNetworkStatus.canOpenChannels) {
-      throw new Error('Insufficient YELLOW token collateral for state channels');
-    }
-
-    // Get default token for transactions
-    const token = YELLOW_NETWORK_CONFIG.stateChannelConfig.defaultToken;
-    
-    // Create multiple gasless state channels for payroll (no fees)
-    const channelPromises = recipients.map(recipient => 
-      createPaymentChannel(recipient.address, recipient.amount, token)
-    );
-
-    const channelResults = await Promise.all(channelPromises);
-    
-    // Check if all channels were created successfully
-    const failedChannels = channelResults.filter(result => !result.success);
-    if (failedChannels.length > 0) {
-      throw new Error(`Failed to create ${failedChannels.length} gasless channels`);
-    }
-
-    // Perform off-chain settlements (gasless)
-    const paymentPromises = recipients.map(recipient => 
-      sendPayment(recipient.address, recipient.amount, 'YELLOW')
-    );
-
-    const paymentResults = await Promise.all(paymentPromises);
-    
-    // Check if all payments were successful
-    const failedPayments = paymentResults.filter(result => !result.success);
-    if (failedPayments.length > 0) {
-      throw new Error(`Failed to process ${failedPayments.length} gasless payments`);
-    }
-
-    console.log(`Gasless payroll processed: ${recipients.length} payments`);
-    return {
-      txHash: `gasless_payroll_${Date.now()}`,
-      success: true
-    };
-  } catch (error) {
-    console.error('Gasless payroll failed:', error);
-    return {
-      txHash: '',
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
-};
-
 // Lock YELLOW tokens as collateral for state channels
 export const lockYellowCollateral = async (
   amount: number
@@ -651,17 +735,19 @@ export const lockYellowCollateral = async (
       throw new Error('Nitrolite client not initialized');
     }
 
-    // Lock YELLOW tokens as collateral for state channels
+    // Deposit YELLOW into the custody contract, where it backs channels
+    const units = parseAmount(amount, 'YELLOW').units;
+    if (units <= 0n) {
+      throw new Error('Collateral amount must be greater than zero');
+    }
     console.log(`Locking ${amount} YELLOW tokens as collateral for state channels`);
-    
-    // In a real implementation, this would lock YELLOW tokens in the adjudicator contract
-    const collateralResult = {
-      txHash: `collateral_${Date.now()}`,
+    const txHash = await nitroliteClient.deposit(SUPPORTED_TOKENS.YELLOW.address as Address, units);
+
+    console.log('YELLOW tokens locked successfully as collateral:', txHash);
+    return {
+      txHash,
       success: true
     };
-
-    console.log('YELLOW tokens locked successfully as collateral');
-    return collateralResult;
   } catch (error) {
     console.error('Failed to lock YELLOW collateral:', error);
     return {
@@ -781,13 +867,13 @@ export const getComprehensiveBalance = async (address: string): Promise<{
 export const connectWalletEnhanced = async (address: string, useSessionKey: boolean = true): Promise<{ success: boolean; error?: string }> => {
   try {
     if (useSessionKey) {
-      // Create session and connect
-      const sessionResult = await walletManager.createWalletSession(address);
-      if (!sessionResult.success) {
-        throw new Error(sessionResult.error || 'Failed to create session');
+      // Connect with the session key the wallet authorised in settings
+      const session = walletManager.getActiveSession(address);
+      if (!session) {
+        throw new Error('No active session key; create one in Settings first');
       }
 
-      const connectResult = await walletManager.connectWalletWithSession(address, sessionResult.sessionKey!);
+      const connectResult = await walletManager.connectWalletWithSession(address, session.sessionKey);
       if (connectResult.success) {
         connectedAccount = address;
         return { success: true };
@@ -887,7 +973,7 @@ export const setupYellowNetworkAccess = async (address: string): Promise<{ succe
 // Enhanced channel creation with better error handling
 export const createPaymentChannelEnhanced = async (
   recipient: string,
-  amount: number,
+  amount: number | string,
   token: string = 'USDC'
 ): Promise<{ channelId: string; success: boolean; error?: string }> => {
   try {
@@ -906,8 +992,10 @@ export const createPaymentChannelEnhanced = async (
     // Check if we have sufficient balance (both on-chain and off-chain)
     const balanceInfo = await faucetManager.getBalanceInfo(connectedAccount);
     const totalAvailable = balanceInfo.onChain.tokens.reduce((sum, t) => sum + t.amount, 0) + balanceInfo.offChain.available;
+    const requested = parseAmount(amount, token);
+    const [senderShare, recipientShare] = splitEvenly(requested, 2);
     
-    if (totalAvailable < amount) {
+    if (totalAvailable < toNumber(requested)) {
       throw new Error('Insufficient balance. Consider requesting test tokens or withdrawing from off-chain balance.');
     }
 
@@ -915,8 +1003,8 @@ export const createPaymentChannelEnhanced = async (
     const channel = await nitroliteClient.createChannel({
       participants: [connectedAccount, recipient],
       initialAllocation: {
-        [connectedAccount]: amount * 0.5,
-        [recipient]: amount * 0.5
+        [connectedAccount]: senderShare.units,
+        [recipient]: recipientShare.units
       },
       token: token,
       challengePeriod: 86400,
@@ -929,11 +1017,12 @@ export const createPaymentChannelEnhanced = async (
       success: true
     };
   } catch (error) {
-    logYellowNetworkError(error as Error, { operation: 'channel_creation', address: connectedAccount, amount });
+    const errorContext = { operation: 'channel_creation', address: connectedAccount ?? undefined, amount: Number(amount) };
+    logYellowNetworkError(error as Error, errorContext);
     return {
       channelId: '',
       success: false,
-      error: handleYellowNetworkError(error as Error, { operation: 'channel_creation', address: connectedAccount, amount }).userMessage
+      error: handleYellowNetworkError(error as Error, errorContext).userMessage
     };
   }
 };
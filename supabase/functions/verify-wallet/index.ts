@@ -0,0 +1,69 @@
+// Links a wallet to the caller's Supabase session. The caller signs the
+// sign-in message for a challenge from `create_wallet_challenge`; once the
+// signature checks out the wallet identity is stored as verified, which is
+// what row level security requires before any of the wallet's data can be
+// read or written.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { verifyMessage } from 'npm:viem@2';
+import { parseSiweMessage, validateSiweMessage } from 'npm:viem@2/siwe';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const respond = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (request.method !== 'POST') return respond(405, { error: 'Method not allowed' });
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const jwt = (request.headers.get('Authorization') || '').replace(/^Bearer /, '');
+  const { data: { user } } = await admin.auth.getUser(jwt);
+  if (!user) return respond(401, { error: 'Sign in before verifying a wallet' });
+
+  const { message, signature } = await request.json().catch(() => ({}));
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return respond(400, { error: 'A signed sign-in message is required' });
+  }
+
+  const fields = parseSiweMessage(message);
+  if (!fields.address || !fields.nonce) return respond(400, { error: 'Not a sign-in message' });
+  const walletAddress = fields.address.toLowerCase();
+
+  const { data: challenge } = await admin.from('wallet_sign_in_challenges').select('*')
+    .match({ nonce: fields.nonce, auth_user_id: user.id, wallet_address: walletAddress })
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+  if (!challenge) return respond(400, { error: 'The sign-in challenge is unknown, used or expired' });
+
+  const origin = request.headers.get('Origin');
+  const valid = validateSiweMessage({
+    message: fields,
+    address: fields.address,
+    nonce: challenge.nonce,
+    domain: origin ? new URL(origin).host : undefined,
+  }) && await verifyMessage({ address: fields.address, message, signature: signature as `0x${string}` }).catch(() => false);
+  if (!valid) return respond(400, { error: 'The signature does not match the wallet' });
+
+  // Claiming the challenge only succeeds once, so a signature cannot be replayed
+  const { data: claimed } = await admin.from('wallet_sign_in_challenges')
+    .update({ used_at: new Date().toISOString() })
+    .eq('nonce', challenge.nonce)
+    .is('used_at', null)
+    .select('nonce');
+  if (!claimed || claimed.length === 0) return respond(400, { error: 'The sign-in challenge was already used' });
+
+  const { error } = await admin.from('wallet_identities').upsert({
+    wallet_address: walletAddress,
+    auth_user_id: user.id,
+    chain: 'evm',
+    verified_at: new Date().toISOString(),
+  }, { onConflict: 'wallet_address,auth_user_id' });
+  if (error) return respond(500, { error: error.message });
+
+  return respond(200, { wallet_address: walletAddress, verified: true });
+});
@@ -0,0 +1,23 @@
+/*
+  # Add payroll schedule columns to employees
+
+  1. Modified Tables
+    - `employees`
+      - `pay_frequency` (text, weekly/bi-weekly/semi-monthly/monthly)
+      - `pay_anchor_date` (date, first pay date of the schedule)
+      - `pay_cutoff_days` (integer, days before the pay date after which changes roll into the next run)
+
+  2. Notes
+    - Existing employees default to a monthly schedule anchored on their join date
+*/
+
+ALTER TABLE employees
+  ADD COLUMN IF NOT EXISTS pay_frequency text NOT NULL DEFAULT 'monthly'
+    CHECK (pay_frequency IN ('weekly', 'bi-weekly', 'semi-monthly', 'monthly')),
+  ADD COLUMN IF NOT EXISTS pay_anchor_date date,
+  ADD COLUMN IF NOT EXISTS pay_cutoff_days integer NOT NULL DEFAULT 3
+    CHECK (pay_cutoff_days BETWEEN 0 AND 14);
+
+UPDATE employees SET pay_anchor_date = join_date WHERE pay_anchor_date IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_employees_pay_frequency ON employees(pay_frequency);
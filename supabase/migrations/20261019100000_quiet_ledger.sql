@@ -0,0 +1,69 @@
+/*
+  # Create pay_runs table and link payments to pay runs
+
+  1. New Tables
+    - `pay_runs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `schedule_id` (text, generated schedule run the pay run was created from)
+      - `status` (text, draft/approved/executing/partially_paid/completed/failed)
+      - `line_items` (jsonb, recipients with amount, token, status and payment link)
+      - `totals` (jsonb, totals keyed by token)
+      - `payment_ids` (uuid[], every payment the run produced)
+      - `created_by` (text, wallet that created the run)
+      - `approved_by` (text, wallet that approved the run)
+      - `approved_at`, `executed_at`, `completed_at` (timestamps)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Modified Tables
+    - `payments`
+      - `payrun_id` (uuid, references pay_runs)
+
+  3. Security
+    - Enable RLS on `pay_runs` table
+    - Add policies for authenticated users to manage their own pay runs
+*/
+
+CREATE TABLE IF NOT EXISTS public.pay_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  schedule_id text,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'approved', 'executing', 'partially_paid', 'completed', 'failed')),
+  line_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  totals jsonb NOT NULL DEFAULT '{}'::jsonb,
+  payment_ids uuid[] NOT NULL DEFAULT '{}',
+  created_by text NOT NULL,
+  approved_by text,
+  approved_at timestamptz,
+  executed_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Link payments to the pay run that produced them
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS payrun_id uuid REFERENCES public.pay_runs(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security (RLS) for the pay_runs table
+ALTER TABLE public.pay_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own pay runs" ON public.pay_runs
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own pay runs" ON public.pay_runs
+FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own pay runs" ON public.pay_runs
+FOR UPDATE USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_pay_runs_user_id ON public.pay_runs (user_id);
+CREATE INDEX IF NOT EXISTS idx_pay_runs_status ON public.pay_runs (status);
+CREATE INDEX IF NOT EXISTS idx_pay_runs_created_at ON public.pay_runs (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payments_payrun_id ON public.payments (payrun_id);
+
+CREATE TRIGGER update_pay_runs_updated_at
+  BEFORE UPDATE ON public.pay_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,18 @@
+/*
+  # Add multi-approver sign-off to pay runs
+
+  1. Modified Tables
+    - `pay_runs`
+      - `approvals` (jsonb, approver wallet, EIP-191 signature, signed digest and time)
+      - `required_approvals` (integer, approvals needed before the run may execute)
+      - `approval_digest` (text, keccak256 of the run's recipients and amounts)
+
+  2. Notes
+    - Existing runs were approved by their creator alone; they keep a null
+      `approvals` column and default to one required approval
+*/
+
+ALTER TABLE public.pay_runs
+  ADD COLUMN IF NOT EXISTS approvals jsonb,
+  ADD COLUMN IF NOT EXISTS required_approvals integer NOT NULL DEFAULT 1 CHECK (required_approvals >= 1),
+  ADD COLUMN IF NOT EXISTS approval_digest text;
@@ -0,0 +1,123 @@
+/*
+  # Create organisations and wallet identities
+
+  1. New Tables
+    - `organizations`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `owner_wallet` (text, wallet that owns the organisation's payroll data)
+      - `created_at`, `updated_at` (timestamps)
+
+    - `organization_members`
+      - `organization_id` (uuid, references organizations)
+      - `wallet_address` (text, member wallet)
+      - `role` (text, owner/admin/approver/viewer)
+      - `created_at` (timestamp)
+
+    - `wallet_identities`
+      - `wallet_address` (text, primary key, stored lowercase)
+      - `auth_user_id` (uuid, references auth.users)
+      - `chain` (text, address family of the wallet, e.g. evm)
+      - `verified_at` (timestamp, set once a signed sign-in message has been checked)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `has_wallet_access(owner_wallet, allowed_roles)` tells whether the
+      signed-in user controls `owner_wallet`, or is a member with one of
+      `allowed_roles` of the organisation it owns
+
+  3. Security
+    - Enable RLS on all three tables
+    - Wallet identities are written by the service role after verifying the
+      wallet signature; clients can only read their own
+*/
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  owner_wallet text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organizations_owner_wallet ON public.organizations (lower(owner_wallet));
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  wallet_address text NOT NULL,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'admin', 'approver', 'viewer')),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (organization_id, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_wallet ON public.organization_members (lower(wallet_address));
+
+CREATE TABLE IF NOT EXISTS public.wallet_identities (
+  wallet_address text PRIMARY KEY CHECK (wallet_address = lower(wallet_address)),
+  auth_user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chain text NOT NULL DEFAULT 'evm',
+  verified_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_identities_auth_user_id ON public.wallet_identities (auth_user_id);
+
+-- Runs as the definer so policies can consult identities and memberships
+-- without granting clients read access to other users' rows
+CREATE OR REPLACE FUNCTION public.has_wallet_access(
+  owner_wallet text,
+  allowed_roles text[] DEFAULT ARRAY['owner', 'admin', 'approver', 'viewer']
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM wallet_identities wi
+    WHERE wi.auth_user_id = auth.uid()
+      AND wi.verified_at IS NOT NULL
+      AND wi.wallet_address = lower(owner_wallet)
+  ) OR EXISTS (
+    SELECT 1
+    FROM organizations o
+    JOIN organization_members m ON m.organization_id = o.id
+    JOIN wallet_identities wi ON wi.wallet_address = lower(m.wallet_address)
+    WHERE lower(o.owner_wallet) = lower(owner_wallet)
+      AND m.role = ANY (allowed_roles)
+      AND wi.auth_user_id = auth.uid()
+      AND wi.verified_at IS NOT NULL
+  );
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_identities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organizations" ON public.organizations
+FOR SELECT USING (public.has_wallet_access(owner_wallet));
+
+CREATE POLICY "Wallet owners can create their organization" ON public.organizations
+FOR INSERT WITH CHECK (public.has_wallet_access(owner_wallet, ARRAY['owner']));
+
+CREATE POLICY "Owners and admins can update their organization" ON public.organizations
+FOR UPDATE USING (public.has_wallet_access(owner_wallet, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Members can read their organization's members" ON public.organization_members
+FOR SELECT USING (
+  organization_id IN (SELECT id FROM public.organizations WHERE public.has_wallet_access(owner_wallet))
+);
+
+CREATE POLICY "Owners and admins can manage members" ON public.organization_members
+FOR ALL USING (
+  organization_id IN (SELECT id FROM public.organizations WHERE public.has_wallet_access(owner_wallet, ARRAY['owner', 'admin']))
+);
+
+CREATE POLICY "Users can read their own wallet identities" ON public.wallet_identities
+FOR SELECT USING (auth_user_id = auth.uid());
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
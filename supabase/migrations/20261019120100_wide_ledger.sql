@@ -0,0 +1,93 @@
+/*
+  # Key payroll data by wallet and widen token amounts
+
+  1. Modified Tables
+    - `employees`, `payments`, `pay_runs`, `chat_sessions`, `chat_messages`
+      - `user_id` changes from a uuid referencing `users` to the text wallet
+        address of the payroll owner, which is what the app writes
+    - `employees`
+      - `wallet_address` accepts 42 character EVM addresses instead of
+        58 character Algorand addresses
+      - `salary` becomes unbounded numeric
+      - `organization_id` (uuid, references organizations)
+    - `payments`
+      - `amount` becomes unbounded numeric
+      - `amount_base_units` (numeric(78,0), exact amount in the token's smallest unit)
+      - `token_decimals` (smallint, decimals of the token the amount is in)
+      - `organization_id` (uuid, references organizations)
+      - `updated_at` (timestamp, used to detect conflicting offline edits)
+    - `pay_runs`
+      - `organization_id` (uuid, references organizations)
+
+  2. Notes
+    - Policies reading `user_id` are dropped here because a column used in a
+      policy cannot change type; the next migration recreates them
+    - Existing rows keep their old user uuid as text and stay unreachable
+      until reassigned to a wallet
+    - The EVM address check is not validated against existing rows so old
+      Algorand employees are kept
+*/
+
+-- Policies on the columns whose type changes
+DROP POLICY IF EXISTS "Users can read own employees" ON public.employees;
+DROP POLICY IF EXISTS "Users can insert own employees" ON public.employees;
+DROP POLICY IF EXISTS "Users can update own employees" ON public.employees;
+DROP POLICY IF EXISTS "Users can delete own employees" ON public.employees;
+DROP POLICY IF EXISTS "Users can insert own payments" ON public.payments;
+DROP POLICY IF EXISTS "Users can read own payments" ON public.payments;
+DROP POLICY IF EXISTS "Users can update own payments" ON public.payments;
+DROP POLICY IF EXISTS "Users can delete own payments" ON public.payments;
+DROP POLICY IF EXISTS "Users can read own pay runs" ON public.pay_runs;
+DROP POLICY IF EXISTS "Users can insert own pay runs" ON public.pay_runs;
+DROP POLICY IF EXISTS "Users can update own pay runs" ON public.pay_runs;
+DROP POLICY IF EXISTS "Users can read own chat sessions" ON public.chat_sessions;
+DROP POLICY IF EXISTS "Users can insert own chat sessions" ON public.chat_sessions;
+DROP POLICY IF EXISTS "Users can update own chat sessions" ON public.chat_sessions;
+DROP POLICY IF EXISTS "Users can delete own chat sessions" ON public.chat_sessions;
+DROP POLICY IF EXISTS "Users can read messages from own sessions" ON public.chat_messages;
+DROP POLICY IF EXISTS "Users can insert messages into own sessions" ON public.chat_messages;
+DROP POLICY IF EXISTS "Users can delete messages from own sessions" ON public.chat_messages;
+
+-- Owners are wallets, not rows in `users`
+ALTER TABLE public.employees DROP CONSTRAINT IF EXISTS employees_user_id_fkey;
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_user_id_fkey;
+ALTER TABLE public.pay_runs DROP CONSTRAINT IF EXISTS pay_runs_user_id_fkey;
+ALTER TABLE public.chat_sessions DROP CONSTRAINT IF EXISTS chat_sessions_user_id_fkey;
+ALTER TABLE public.chat_messages DROP CONSTRAINT IF EXISTS chat_messages_user_id_fkey;
+
+ALTER TABLE public.employees ALTER COLUMN user_id TYPE text USING user_id::text;
+ALTER TABLE public.payments ALTER COLUMN user_id TYPE text USING user_id::text;
+ALTER TABLE public.pay_runs ALTER COLUMN user_id TYPE text USING user_id::text;
+ALTER TABLE public.chat_sessions ALTER COLUMN user_id TYPE text USING user_id::text;
+ALTER TABLE public.chat_messages ALTER COLUMN user_id TYPE text USING user_id::text;
+
+-- Employees are paid on EVM chains
+ALTER TABLE public.employees DROP CONSTRAINT IF EXISTS employees_wallet_address_check;
+ALTER TABLE public.employees
+  ADD CONSTRAINT employees_wallet_address_check
+  CHECK (wallet_address ~ '^0x[0-9a-fA-F]{40}$') NOT VALID;
+
+-- Token amounts routinely exceed decimal(10,2)
+ALTER TABLE public.employees ALTER COLUMN salary TYPE numeric;
+ALTER TABLE public.payments ALTER COLUMN amount TYPE numeric;
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS amount_base_units numeric(78,0) CHECK (amount_base_units >= 0),
+  ADD COLUMN IF NOT EXISTS token_decimals smallint CHECK (token_decimals BETWEEN 0 AND 36),
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE public.employees
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+ALTER TABLE public.pay_runs
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_employees_organization_id ON public.employees (organization_id);
+CREATE INDEX IF NOT EXISTS idx_payments_organization_id ON public.payments (organization_id);
+CREATE INDEX IF NOT EXISTS idx_pay_runs_organization_id ON public.pay_runs (organization_id);
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,75 @@
+/*
+  # Rewrite RLS policies for wallet-keyed data
+
+  1. Security
+    - `employees`, `payments`, `chat_sessions`, `chat_messages`
+      - Readable by the owner wallet and members of its organisation
+      - Writable by the owner wallet and organisation admins
+    - `pay_runs`
+      - Readable by the owner wallet and members of its organisation
+      - Writable by the owner wallet, organisation admins and approvers, who
+        add their signatures to runs
+    - Chat history is limited to the owner wallet and organisation owners
+
+  2. Notes
+    - Every check goes through `has_wallet_access`, so a wallet only counts
+      once its identity has been verified
+*/
+
+CREATE POLICY "Members can read employees" ON public.employees
+FOR SELECT USING (public.has_wallet_access(user_id));
+
+CREATE POLICY "Owners and admins can insert employees" ON public.employees
+FOR INSERT WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners and admins can update employees" ON public.employees
+FOR UPDATE USING (public.has_wallet_access(user_id, ARRAY['owner', 'admin']))
+WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners and admins can delete employees" ON public.employees
+FOR DELETE USING (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Members can read payments" ON public.payments
+FOR SELECT USING (public.has_wallet_access(user_id));
+
+CREATE POLICY "Owners and admins can insert payments" ON public.payments
+FOR INSERT WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners and admins can update payments" ON public.payments
+FOR UPDATE USING (public.has_wallet_access(user_id, ARRAY['owner', 'admin']))
+WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners and admins can delete payments" ON public.payments
+FOR DELETE USING (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Members can read pay runs" ON public.pay_runs
+FOR SELECT USING (public.has_wallet_access(user_id));
+
+CREATE POLICY "Owners and admins can insert pay runs" ON public.pay_runs
+FOR INSERT WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners, admins and approvers can update pay runs" ON public.pay_runs
+FOR UPDATE USING (public.has_wallet_access(user_id, ARRAY['owner', 'admin', 'approver']))
+WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin', 'approver']));
+
+CREATE POLICY "Owners can read own chat sessions" ON public.chat_sessions
+FOR SELECT USING (public.has_wallet_access(user_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can insert own chat sessions" ON public.chat_sessions
+FOR INSERT WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update own chat sessions" ON public.chat_sessions
+FOR UPDATE USING (public.has_wallet_access(user_id, ARRAY['owner']))
+WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete own chat sessions" ON public.chat_sessions
+FOR DELETE USING (public.has_wallet_access(user_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can read own chat messages" ON public.chat_messages
+FOR SELECT USING (public.has_wallet_access(user_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can insert own chat messages" ON public.chat_messages
+FOR INSERT WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete own chat messages" ON public.chat_messages
+FOR DELETE USING (public.has_wallet_access(user_id, ARRAY['owner']));
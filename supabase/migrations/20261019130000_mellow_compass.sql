@@ -0,0 +1,17 @@
+/*
+  # Add preferred payout chain and token to employees
+
+  1. Modified Tables
+    - `employees`
+      - `payout_chain` (text, mainnet/polygon/base/celo)
+      - `payout_token` (text, token symbol the employee is paid in)
+
+  2. Notes
+    - Existing employees default to USDC on Polygon, the network's default chain
+    - Addresses entered as ENS names are stored as the address they resolved to
+*/
+
+ALTER TABLE public.employees
+  ADD COLUMN IF NOT EXISTS payout_chain text NOT NULL DEFAULT 'polygon'
+    CHECK (payout_chain IN ('mainnet', 'polygon', 'base', 'celo')),
+  ADD COLUMN IF NOT EXISTS payout_token text NOT NULL DEFAULT 'USDC';
@@ -0,0 +1,22 @@
+/*
+  # Denominate salaries in fiat and lock FX rates into pay runs
+
+  1. Modified Tables
+    - `employees`
+      - `salary_currency` (text, ISO 4217 code the salary is denominated in)
+    - `pay_runs`
+      - `fx_rates` (jsonb, token prices per currency with source and fetch time,
+        locked when the run's fiat amounts were converted)
+
+  2. Notes
+    - Existing salaries were entered in dollars and default to USD
+    - Line items of fiat runs carry `fiat_amount` and `fiat_currency` next to
+      the converted token `amount`; approvals sign both and the locked rates
+*/
+
+ALTER TABLE public.employees
+  ADD COLUMN IF NOT EXISTS salary_currency text NOT NULL DEFAULT 'USD'
+    CHECK (salary_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.pay_runs
+  ADD COLUMN IF NOT EXISTS fx_rates jsonb;
@@ -0,0 +1,95 @@
+/*
+  # Create vat_claims table for traveller VAT refunds
+
+  1. New Tables
+    - `vat_claims`
+      - `id` (uuid, primary key)
+      - `user_id` (text, wallet of the refund operator)
+      - `organization_id` (uuid, references organizations)
+      - `status` (text, draft/submitted/approved/rejected/paid/failed)
+      - `country`, `currency` (text, ISO codes of the purchase country and its currency)
+      - `vat_reg_no`, `receipt_no`, `merchant_name`, `merchant_address`,
+        `document_name` (text, receipt details)
+      - `bill_amount`, `vat_amount` (numeric, in `currency`)
+      - `purchase_date` (date)
+      - `passport_no`, `nationality`, `date_of_birth`, `flight_no`,
+        `departure_date` (traveller details; `nationality` is the ISO country
+        of residence)
+      - `receiver_wallet`, `payout_token` (text, where and in what the refund is paid)
+      - `refundable_amount`, `commission_amount` (numeric, in `currency`)
+      - `payout_amount` (numeric, refund in `payout_token`)
+      - `fx_rate` (jsonb, rate the refund was converted at)
+      - `rejection_reasons` (jsonb, rules the claim failed)
+      - `payment_id` (uuid, references payments)
+      - `transaction_hash`, `error` (text, payout result)
+      - `submitted_at`, `decided_at`, `paid_at`, `created_at`, `updated_at` (timestamps)
+
+  2. Security
+    - Readable by the owner wallet and members of its organisation
+    - Writable by the owner wallet and organisation admins
+
+  3. Notes
+    - Claims replace payments recorded with employee_id 'vat-refund'; those
+      remain as history
+    - Eligibility rules are configured per operator wallet in the app and
+      applied when a claim is submitted
+*/
+
+CREATE TABLE IF NOT EXISTS public.vat_claims (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'submitted', 'approved', 'rejected', 'paid', 'failed')),
+  country text NOT NULL CHECK (country ~ '^[A-Z]{2}$'),
+  currency text NOT NULL,
+  vat_reg_no text NOT NULL,
+  receipt_no text NOT NULL,
+  bill_amount numeric NOT NULL CHECK (bill_amount >= 0),
+  vat_amount numeric NOT NULL CHECK (vat_amount >= 0),
+  purchase_date date NOT NULL,
+  merchant_name text NOT NULL DEFAULT '',
+  merchant_address text,
+  document_name text,
+  passport_no text NOT NULL,
+  nationality text NOT NULL,
+  date_of_birth date,
+  flight_no text,
+  departure_date date,
+  receiver_wallet text NOT NULL,
+  payout_token text NOT NULL,
+  refundable_amount numeric NOT NULL DEFAULT 0,
+  commission_amount numeric NOT NULL DEFAULT 0,
+  payout_amount numeric,
+  fx_rate jsonb,
+  rejection_reasons jsonb,
+  payment_id uuid REFERENCES public.payments(id) ON DELETE SET NULL,
+  transaction_hash text,
+  error text,
+  submitted_at timestamptz,
+  decided_at timestamptz,
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.vat_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read VAT claims" ON public.vat_claims
+FOR SELECT USING (public.has_wallet_access(user_id));
+
+CREATE POLICY "Owners and admins can insert VAT claims" ON public.vat_claims
+FOR INSERT WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners and admins can update VAT claims" ON public.vat_claims
+FOR UPDATE USING (public.has_wallet_access(user_id, ARRAY['owner', 'admin']))
+WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE INDEX IF NOT EXISTS idx_vat_claims_user_id ON public.vat_claims (user_id);
+CREATE INDEX IF NOT EXISTS idx_vat_claims_status ON public.vat_claims (status);
+CREATE INDEX IF NOT EXISTS idx_vat_claims_created_at ON public.vat_claims (created_at DESC);
+
+CREATE TRIGGER update_vat_claims_updated_at
+  BEFORE UPDATE ON public.vat_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
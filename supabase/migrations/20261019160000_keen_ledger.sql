@@ -0,0 +1,38 @@
+/*
+  # Add duplicate and fraud checks to VAT claims
+
+  1. Modified Tables
+    - `vat_claims`
+      - `status` accepts `in_review`, for claims held for manual review
+      - `fingerprint` (text, hash of merchant VAT number, receipt number,
+        amount and purchase date; equal for claims on the same receipt)
+      - `document_hash` (text, SHA-256 of the uploaded document)
+      - `risk_score` (smallint, 0-100)
+      - `risk_flags` (jsonb, rules the claim tripped when submitted)
+      - `reviewed_by` (text, wallet of the operator who decided the review)
+      - `reviewed_at` (timestamp)
+      - `review_note` (text)
+
+  2. Notes
+    - Existing claims get an empty fingerprint and are not compared against
+    - Fingerprints are indexed but not unique: a rejected receipt may be
+      claimed again, and duplicates are held for review rather than refused
+*/
+
+ALTER TABLE public.vat_claims
+  ADD COLUMN IF NOT EXISTS fingerprint text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS document_hash text,
+  ADD COLUMN IF NOT EXISTS risk_score smallint CHECK (risk_score BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS risk_flags jsonb,
+  ADD COLUMN IF NOT EXISTS reviewed_by text,
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS review_note text;
+
+ALTER TABLE public.vat_claims DROP CONSTRAINT IF EXISTS vat_claims_status_check;
+ALTER TABLE public.vat_claims ADD CONSTRAINT vat_claims_status_check
+  CHECK (status IN ('draft', 'submitted', 'in_review', 'approved', 'rejected', 'paid', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_vat_claims_fingerprint ON public.vat_claims (user_id, fingerprint);
+CREATE INDEX IF NOT EXISTS idx_vat_claims_document_hash ON public.vat_claims (user_id, document_hash)
+  WHERE document_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_vat_claims_passport ON public.vat_claims (user_id, passport_no, submitted_at);
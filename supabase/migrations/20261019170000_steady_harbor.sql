@@ -0,0 +1,73 @@
+/*
+  # Add VAT settlement batches and the needs-documents review state
+
+  1. New Tables
+    - `vat_settlements`
+      - `id` (uuid, primary key)
+      - `user_id` (text, wallet of the refund operator)
+      - `organization_id` (uuid, references organizations)
+      - `method` (text, bulk/gasless)
+      - `status` (text, executing/completed/partially_paid/failed)
+      - `items` (jsonb, per-claim receiver, amount, token and outcome)
+      - `totals` (jsonb, amount paid out per token)
+      - `created_by` (text, wallet that settled the batch)
+      - `created_at`, `completed_at`, `updated_at` (timestamps)
+
+  2. Modified Tables
+    - `vat_claims`
+      - `status` accepts `needs_info`, for claims waiting on documents the
+        reviewer asked for
+      - `settlement_batch_id` (uuid, references vat_settlements)
+
+  3. Security
+    - Settlements are readable by the owner wallet and members of its
+      organisation, and writable by the owner wallet and organisation admins
+
+  4. Notes
+    - Claims paid one at a time have no settlement batch
+*/
+
+CREATE TABLE IF NOT EXISTS public.vat_settlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL,
+  method text NOT NULL CHECK (method IN ('bulk', 'gasless')),
+  status text NOT NULL DEFAULT 'executing'
+    CHECK (status IN ('executing', 'completed', 'partially_paid', 'failed')),
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  totals jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.vat_settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read VAT settlements" ON public.vat_settlements
+FOR SELECT USING (public.has_wallet_access(user_id));
+
+CREATE POLICY "Owners and admins can insert VAT settlements" ON public.vat_settlements
+FOR INSERT WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners and admins can update VAT settlements" ON public.vat_settlements
+FOR UPDATE USING (public.has_wallet_access(user_id, ARRAY['owner', 'admin']))
+WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE INDEX IF NOT EXISTS idx_vat_settlements_user_id ON public.vat_settlements (user_id);
+CREATE INDEX IF NOT EXISTS idx_vat_settlements_created_at ON public.vat_settlements (created_at DESC);
+
+CREATE TRIGGER update_vat_settlements_updated_at
+  BEFORE UPDATE ON public.vat_settlements
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.vat_claims
+  ADD COLUMN IF NOT EXISTS settlement_batch_id uuid REFERENCES public.vat_settlements(id) ON DELETE SET NULL;
+
+ALTER TABLE public.vat_claims DROP CONSTRAINT IF EXISTS vat_claims_status_check;
+ALTER TABLE public.vat_claims ADD CONSTRAINT vat_claims_status_check
+  CHECK (status IN ('draft', 'submitted', 'in_review', 'needs_info', 'approved', 'rejected', 'paid', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_vat_claims_settlement_batch ON public.vat_claims (settlement_batch_id)
+  WHERE settlement_batch_id IS NOT NULL;
@@ -0,0 +1,166 @@
+/*
+  # Let travellers submit and follow VAT claims through the portal
+
+  1. Modified Tables
+    - `vat_claims`
+      - `submitted_via` (text, operator/portal)
+      - `access_token_hash` (text, SHA-256 of the claim's status link token)
+      - `additional_documents` (jsonb, names and hashes of documents the
+        traveller sent after the reviewer asked for them)
+
+  2. New Functions
+    - `submit_portal_vat_claim(p_claim, p_access_token)` files a claim with
+      the operator named in it, always as `submitted`
+    - `get_portal_vat_claim(p_claim_id, p_access_token)` returns the status
+      fields of a claim whose token matches
+    - `add_portal_vat_claim_documents(p_claim_id, p_access_token, p_documents)`
+      adds documents to a claim waiting on them and puts it back in review
+
+  3. Security
+    - Travellers are not signed in, so the functions run as the definer and
+      are granted to `anon`; each checks the access token itself and touches
+      only the one claim
+    - The functions never return passport, date of birth or wallet details
+
+  4. Notes
+    - The database hashes the token, so a client cannot choose the stored hash
+    - Decision fields (refund, payout, FX rate, risk) are left for the
+      operator's checks
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.vat_claims
+  ADD COLUMN IF NOT EXISTS submitted_via text NOT NULL DEFAULT 'operator'
+    CHECK (submitted_via IN ('operator', 'portal')),
+  ADD COLUMN IF NOT EXISTS access_token_hash text,
+  ADD COLUMN IF NOT EXISTS additional_documents jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_vat_claims_submitted_via ON public.vat_claims (submitted_via);
+
+CREATE OR REPLACE FUNCTION public.submit_portal_vat_claim(p_claim jsonb, p_access_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_id uuid := coalesce((p_claim->>'id')::uuid, gen_random_uuid());
+BEGIN
+  IF coalesce(p_access_token, '') = '' OR length(p_access_token) < 32 THEN
+    RAISE EXCEPTION 'An access token is required';
+  END IF;
+  IF coalesce(p_claim->>'user_id', '') = '' THEN
+    RAISE EXCEPTION 'This claim link has no operator';
+  END IF;
+
+  INSERT INTO vat_claims (
+    id, user_id, status, country, currency, vat_reg_no, receipt_no, bill_amount, vat_amount,
+    purchase_date, merchant_name, merchant_address, document_name, document_hash, passport_no,
+    nationality, date_of_birth, flight_no, departure_date, receiver_wallet, payout_token,
+    fingerprint, submitted_via, access_token_hash, submitted_at
+  ) VALUES (
+    v_id,
+    p_claim->>'user_id',
+    'submitted',
+    p_claim->>'country',
+    coalesce(p_claim->>'currency', ''),
+    p_claim->>'vat_reg_no',
+    p_claim->>'receipt_no',
+    (p_claim->>'bill_amount')::numeric,
+    (p_claim->>'vat_amount')::numeric,
+    (p_claim->>'purchase_date')::date,
+    coalesce(p_claim->>'merchant_name', ''),
+    p_claim->>'merchant_address',
+    p_claim->>'document_name',
+    p_claim->>'document_hash',
+    p_claim->>'passport_no',
+    p_claim->>'nationality',
+    (p_claim->>'date_of_birth')::date,
+    p_claim->>'flight_no',
+    (p_claim->>'departure_date')::date,
+    p_claim->>'receiver_wallet',
+    p_claim->>'payout_token',
+    coalesce(p_claim->>'fingerprint', ''),
+    'portal',
+    encode(digest(p_access_token, 'sha256'), 'hex'),
+    now()
+  );
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_portal_vat_claim(p_claim_id uuid, p_access_token text)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  country text,
+  currency text,
+  merchant_name text,
+  receipt_no text,
+  bill_amount numeric,
+  vat_amount numeric,
+  refundable_amount numeric,
+  payout_amount numeric,
+  payout_token text,
+  rejection_reasons jsonb,
+  review_note text,
+  additional_documents jsonb,
+  transaction_hash text,
+  submitted_at timestamptz,
+  decided_at timestamptz,
+  paid_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT c.id, c.status, c.country, c.currency, c.merchant_name, c.receipt_no, c.bill_amount,
+    c.vat_amount, c.refundable_amount, c.payout_amount, c.payout_token, c.rejection_reasons,
+    c.review_note, c.additional_documents, c.transaction_hash, c.submitted_at, c.decided_at,
+    c.paid_at, c.updated_at
+  FROM vat_claims c
+  WHERE c.id = p_claim_id
+    AND c.access_token_hash IS NOT NULL
+    AND c.access_token_hash = encode(digest(coalesce(p_access_token, ''), 'sha256'), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_portal_vat_claim_documents(
+  p_claim_id uuid,
+  p_access_token text,
+  p_documents jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF jsonb_typeof(p_documents) IS DISTINCT FROM 'array' OR jsonb_array_length(p_documents) = 0 THEN
+    RAISE EXCEPTION 'At least one document is required';
+  END IF;
+
+  UPDATE vat_claims
+  SET additional_documents = additional_documents || p_documents,
+    status = 'in_review'
+  WHERE id = p_claim_id
+    AND access_token_hash IS NOT NULL
+    AND access_token_hash = encode(digest(coalesce(p_access_token, ''), 'sha256'), 'hex')
+    AND status = 'needs_info';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This claim is not waiting on documents';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_portal_vat_claim(jsonb, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_portal_vat_claim(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.add_portal_vat_claim_documents(uuid, text, jsonb) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.submit_portal_vat_claim(jsonb, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_portal_vat_claim(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_portal_vat_claim_documents(uuid, text, jsonb) TO anon, authenticated;
@@ -0,0 +1,14 @@
+/*
+  # Record the tool calls behind assistant answers
+
+  1. Modified Tables
+    - `chat_messages`
+      - `tool_calls` (jsonb, the payroll tools the assistant called for an
+        answer: name, arguments and result or error)
+
+  2. Notes
+    - Only assistant messages carry tool calls; older messages keep null
+*/
+
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS tool_calls jsonb;
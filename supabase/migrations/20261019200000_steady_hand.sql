@@ -0,0 +1,15 @@
+/*
+  # Record assistant action plans on chat messages
+
+  1. Modified Tables
+    - `chat_messages`
+      - `action_plan` (jsonb, employee edits and pay runs the assistant
+        proposed, each with its status: proposed, applied, discarded or failed)
+
+  2. Notes
+    - Plans are only drafts; they are applied from the chat after review,
+      through the same employee updates and pay run flow as the rest of the app
+*/
+
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS action_plan jsonb;
@@ -0,0 +1,15 @@
+/*
+  # Mark assistant answers that were stopped part-way
+
+  1. Modified Tables
+    - `chat_messages`
+      - `cancelled` (boolean, true when the user stopped the answer while it
+        was streaming; `content` then holds only the text that had arrived)
+
+  2. Notes
+    - Stopped answers stay in the transcript but are not part of the
+      assistant's memory of the conversation
+*/
+
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS cancelled boolean NOT NULL DEFAULT false;
@@ -0,0 +1,48 @@
+/*
+  # Store approval policies with the payroll they govern
+
+  1. New Tables
+    - `approval_policies`
+      - `id` (text, primary key, the owner wallet)
+      - `user_id` (text, wallet that owns the payroll)
+      - `policy` (jsonb, approvers, threshold amount and token, required
+        approvals and whether makers may approve their own runs)
+      - `updated_by` (text, wallet that last saved the policy)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Security
+    - Readable by the owner wallet and members of its organisation, so
+      approvers check runs against the same policy as the maker
+    - Writable by the owner wallet and organisation admins
+
+  3. Notes
+    - Policies were previously kept in the maker's browser; the app moves
+      them here the next time the owner opens the payroll
+*/
+
+CREATE TABLE IF NOT EXISTS public.approval_policies (
+  id text PRIMARY KEY,
+  user_id text NOT NULL,
+  policy jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (id = user_id)
+);
+
+ALTER TABLE public.approval_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read approval policies" ON public.approval_policies
+FOR SELECT USING (public.has_wallet_access(user_id));
+
+CREATE POLICY "Owners and admins can insert approval policies" ON public.approval_policies
+FOR INSERT WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners and admins can update approval policies" ON public.approval_policies
+FOR UPDATE USING (public.has_wallet_access(user_id, ARRAY['owner', 'admin']))
+WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner', 'admin']));
+
+CREATE TRIGGER update_approval_policies_updated_at
+  BEFORE UPDATE ON public.approval_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
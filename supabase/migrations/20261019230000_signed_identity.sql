@@ -0,0 +1,84 @@
+/*
+  # Verify wallets with a signed sign-in message
+
+  1. New Tables
+    - `wallet_sign_in_challenges`
+      - `nonce` (text, primary key, random value the wallet signs)
+      - `auth_user_id` (uuid, references auth.users, session that asked)
+      - `wallet_address` (text, stored lowercase)
+      - `expires_at` (timestamp, challenges are valid for ten minutes)
+      - `used_at` (timestamp, set once the signature has been accepted)
+      - `created_at` (timestamp)
+
+  2. Modified Tables
+    - `wallet_identities`
+      - The primary key becomes (`wallet_address`, `auth_user_id`), so one
+        wallet can be verified from several browsers and devices
+
+  3. New Functions
+    - `create_wallet_challenge(p_wallet_address)` issues a nonce for the
+      signed-in session to sign with the wallet
+
+  4. Security
+    - Challenges are only readable and writable through the function and the
+      `verify-wallet` edge function, which checks the signature and inserts
+      the verified identity with the service role
+    - `chat_messages` can be updated by the owner wallet, e.g. to record the
+      review of a drafted action plan
+
+  5. Notes
+    - Every write the app makes to Supabase goes through `has_wallet_access`,
+      which only counts verified identities
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.wallet_identities DROP CONSTRAINT IF EXISTS wallet_identities_pkey;
+ALTER TABLE public.wallet_identities ADD PRIMARY KEY (wallet_address, auth_user_id);
+
+CREATE TABLE IF NOT EXISTS public.wallet_sign_in_challenges (
+  nonce text PRIMARY KEY,
+  auth_user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wallet_address text NOT NULL CHECK (wallet_address = lower(wallet_address)),
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_sign_in_challenges_auth_user_id ON public.wallet_sign_in_challenges (auth_user_id);
+
+ALTER TABLE public.wallet_sign_in_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.create_wallet_challenge(p_wallet_address text)
+RETURNS TABLE (nonce text, issued_at timestamptz, expires_at timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_nonce text := encode(gen_random_bytes(16), 'hex');
+  v_issued_at timestamptz := now();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in before verifying a wallet';
+  END IF;
+  IF lower(coalesce(p_wallet_address, '')) !~ '^0x[0-9a-f]{40}$' THEN
+    RAISE EXCEPTION 'Invalid wallet address';
+  END IF;
+
+  -- Drop this session's stale challenges so the table does not grow
+  DELETE FROM wallet_sign_in_challenges c
+  WHERE c.auth_user_id = auth.uid() AND (c.used_at IS NOT NULL OR c.expires_at < now());
+
+  INSERT INTO wallet_sign_in_challenges (nonce, auth_user_id, wallet_address, expires_at)
+  VALUES (v_nonce, auth.uid(), lower(p_wallet_address), v_issued_at + interval '10 minutes');
+
+  RETURN QUERY SELECT v_nonce, v_issued_at, v_issued_at + interval '10 minutes';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_wallet_challenge(text) TO authenticated;
+
+CREATE POLICY "Owners can update own chat messages" ON public.chat_messages
+FOR UPDATE USING (public.has_wallet_access(user_id, ARRAY['owner']))
+WITH CHECK (public.has_wallet_access(user_id, ARRAY['owner']));
@@ -0,0 +1,17 @@
+/*
+  # Reserve VAT claims while their settlement is paid out
+
+  1. Modified Tables
+    - `vat_claims`
+      - `status` accepts `settling`, for claims a settlement batch has
+        reserved before sending their payout; they leave it once the payout
+        is recorded as paid or failed
+
+  2. Notes
+    - Settling claims are never put in another batch, so a payout that was
+      sent but not recorded cannot be paid again
+*/
+
+ALTER TABLE public.vat_claims DROP CONSTRAINT IF EXISTS vat_claims_status_check;
+ALTER TABLE public.vat_claims ADD CONSTRAINT vat_claims_status_check
+  CHECK (status IN ('draft', 'submitted', 'in_review', 'needs_info', 'approved', 'rejected', 'settling', 'paid', 'failed'));
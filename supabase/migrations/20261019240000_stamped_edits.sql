@@ -0,0 +1,50 @@
+/*
+  # Record when synced records were edited
+
+  1. Modified Tables
+    - `employees`, `payments`, `pay_runs`, `approval_policies`, `vat_claims`,
+      `vat_settlements`, `chat_sessions`, `chat_messages`
+      - `edited_at` (timestamptz), the time the edit was made on the device
+        that made it
+
+  2. Notes
+    - `updated_at` is set when a write reaches the server, which for an
+      offline edit can be long after it was made. Concurrent edits are
+      ordered by `edited_at` instead.
+    - Writes that do not stamp `edited_at` themselves get the time they
+      reached the server
+*/
+
+CREATE OR REPLACE FUNCTION stamp_edited_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.edited_at = COALESCE(NEW.edited_at, now());
+  ELSIF NEW.edited_at IS NOT DISTINCT FROM OLD.edited_at THEN
+    NEW.edited_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DO $$
+DECLARE
+  synced_table text;
+BEGIN
+  FOREACH synced_table IN ARRAY ARRAY[
+    'employees', 'payments', 'pay_runs', 'approval_policies',
+    'vat_claims', 'vat_settlements', 'chat_sessions', 'chat_messages'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS edited_at timestamptz', synced_table);
+    -- Not every table has updated_at (chat messages were never edited)
+    EXECUTE format(
+      'UPDATE public.%I AS t SET edited_at = COALESCE((to_jsonb(t) ->> ''updated_at'')::timestamptz, t.created_at, now()) WHERE t.edited_at IS NULL',
+      synced_table
+    );
+    EXECUTE format('DROP TRIGGER IF EXISTS stamp_%s_edited_at ON public.%I', synced_table, synced_table);
+    EXECUTE format(
+      'CREATE TRIGGER stamp_%s_edited_at BEFORE INSERT OR UPDATE ON public.%I FOR EACH ROW EXECUTE FUNCTION stamp_edited_at_column()',
+      synced_table, synced_table
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,17 @@
+/*
+  # Store VAT refund payouts exactly
+
+  1. Modified Tables
+    - `vat_claims`
+      - `payout_amount_base_units` (numeric(78,0), exact payout in the smallest
+        unit of `payout_token`)
+      - `payout_token_decimals` (smallint, decimals of `payout_token`)
+
+  2. Notes
+    - `payout_amount` stays as the display copy. Claims decided before this
+      migration only have it, and are read from it.
+*/
+
+ALTER TABLE public.vat_claims
+  ADD COLUMN IF NOT EXISTS payout_amount_base_units numeric(78,0) CHECK (payout_amount_base_units >= 0),
+  ADD COLUMN IF NOT EXISTS payout_token_decimals smallint CHECK (payout_token_decimals BETWEEN 0 AND 36);
@@ -0,0 +1,55 @@
+/*
+  # Keep the edit time a write leaves on a record
+
+  1. Modified Functions
+    - `stamp_edited_at_column` no longer replaces `edited_at` on updates that
+      leave it unchanged. An offline edit that loses a merge to a later one
+      keeps the later edit's time instead of the time it reached the server.
+    - `add_portal_vat_claim_documents` stamps `edited_at` itself
+
+  2. Notes
+    - Inserts without `edited_at` still get the time they reached the server
+    - Server-side updates of synced tables must set `edited_at` themselves
+*/
+
+CREATE OR REPLACE FUNCTION stamp_edited_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.edited_at = COALESCE(NEW.edited_at, now());
+  ELSE
+    NEW.edited_at = COALESCE(NEW.edited_at, OLD.edited_at, now());
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION public.add_portal_vat_claim_documents(
+  p_claim_id uuid,
+  p_access_token text,
+  p_documents jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF jsonb_typeof(p_documents) IS DISTINCT FROM 'array' OR jsonb_array_length(p_documents) = 0 THEN
+    RAISE EXCEPTION 'At least one document is required';
+  END IF;
+
+  UPDATE vat_claims
+  SET additional_documents = additional_documents || p_documents,
+    status = 'in_review',
+    edited_at = now()
+  WHERE id = p_claim_id
+    AND access_token_hash IS NOT NULL
+    AND access_token_hash = encode(digest(coalesce(p_access_token, ''), 'sha256'), 'hex')
+    AND status = 'needs_info';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This claim is not waiting on documents';
+  END IF;
+END;
+$$;
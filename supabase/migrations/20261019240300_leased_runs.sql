@@ -0,0 +1,18 @@
+/*
+  # Lease executing pay runs to the tab paying them
+
+  1. Modified Tables
+    - `pay_runs`
+      - `execution_owner` (text, ID of the browser tab executing the run)
+      - `execution_heartbeat_at` (timestamptz, when that tab last confirmed
+        it is still paying)
+
+  2. Notes
+    - Another tab only treats an executing run as interrupted once its
+      heartbeat is older than the lease. Runs executed before leases existed
+      have none and are treated as interrupted.
+*/
+
+ALTER TABLE public.pay_runs
+  ADD COLUMN IF NOT EXISTS execution_owner text,
+  ADD COLUMN IF NOT EXISTS execution_heartbeat_at timestamptz;